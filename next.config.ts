@@ -1,4 +1,5 @@
 import type { NextConfig } from "next";
+import { contentSecurityPolicy } from "./src/lib/content-security-policy";
 
 const nextConfig: NextConfig = {
   async headers() {
@@ -8,16 +9,8 @@ const nextConfig: NextConfig = {
         headers: [
           {
             key: 'Content-Security-Policy',
-            value: [
-              "default-src 'self'",
-              "script-src 'self' 'unsafe-eval' 'unsafe-inline'",
-              "style-src 'self' 'unsafe-inline'",
-              "img-src 'self' data: https:",
-              "font-src 'self' data:",
-              "connect-src 'self' https://fullnode.testnet.sui.io https://fullnode.mainnet.sui.io https://*.walrus-testnet.walrus.space https://evm-rpc-testnet.sei-apis.com https://evm-rpc.sei-apis.com https://reliable-pig-585.convex.cloud wss://reliable-pig-585.convex.cloud https://*.walletconnect.com wss://*.walletconnect.com https://*.walletconnect.org wss://*.walletconnect.org https://api.web3modal.org https://*.reown.com wss://*.reown.com https://pulse.walletconnect.org http://localhost:3000 https://nautilus.sealtrust.app https://seal-key-server-testnet-1.mystenlabs.com https://seal-key-server-testnet-2.mystenlabs.com https://seal-testnet.api.rubynodes.io https://open-seal-testnet.nodeinfra.com https://seal-testnet-open.overclock.run https://seal-open.sui-testnet.h2o-nodes.com",
-              "frame-src 'self'",
-              "media-src 'self'",
-            ].join('; ')
+            // connect-src is built from every network profile - see src/lib/content-security-policy.ts
+            value: contentSecurityPolicy(),
           }
         ]
       }
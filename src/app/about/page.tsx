@@ -171,7 +171,10 @@ export default function AboutPage() {
                   <div>
                     <h3 className="font-semibold mb-2">TEE Verification</h3>
                     <p className="text-muted-foreground text-sm">
-                      Nautilus (AWS Nitro Enclave) verifies metadata and signs it with hardware-backed keys.
+                      Nautilus (AWS Nitro Enclave) verifies metadata and signs it with hardware-backed keys.{' '}
+                      <Link href="/enclave" className="text-primary hover:underline">
+                        Inspect the enclave attestation
+                      </Link>
                     </p>
                   </div>
                 </div>
@@ -289,6 +292,12 @@ export default function AboutPage() {
                   <div className="text-sm text-muted-foreground">On-chain Records</div>
                 </div>
               </div>
+
+              <p className="text-sm text-muted-foreground mt-4">
+                <Link href="/status" className="text-primary hover:underline">
+                  Check live service status
+                </Link>
+              </p>
             </section>
           </div>
         </div>
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFetchDigest } from '@/lib/fetch-digests';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FETCH_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * SHA-256 and size the fetch-dataset proxy saw for a download
+ *
+ * The id is the X-Fetch-Id header of the proxied response. Status is "streaming" until
+ * the download finished, "aborted" (with the reason) if the proxy cut it off.
+ */
+export async function GET(request: NextRequest) {
+  const fetchId = request.nextUrl.searchParams.get('id');
+
+  if (!fetchId || !FETCH_ID_PATTERN.test(fetchId)) {
+    return NextResponse.json({ error: 'Valid id parameter required' }, { status: 400 });
+  }
+
+  const digest = getFetchDigest(fetchId);
+  if (!digest) {
+    return NextResponse.json({ error: 'Unknown or expired fetch id' }, { status: 404 });
+  }
+
+  return NextResponse.json(digest, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -1,21 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { digestStream } from '@/lib/fetch-digests';
+import { BlockedUrlError, fetchDatasetUrl } from '@/lib/ssrf-guard';
+import { checkDatasetSize } from '@/lib/url-policy';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-// Allowed domains for dataset URLs (security)
-const ALLOWED_DOMAINS = [
-  'raw.githubusercontent.com',
-  'github.com',
-  'kaggle.com',
-  'huggingface.co',
-  'data.world',
-  'storage.googleapis.com',
-  's3.amazonaws.com',
-];
-
-// Maximum file size (100MB)
-const MAX_FILE_SIZE = 100 * 1024 * 1024;
+// Allowed domains, redirects and size limits come from the shared URL policy (@/lib/url-policy)
 
 export async function GET(request: NextRequest) {
   const url = request.nextUrl.searchParams.get('url');
@@ -25,52 +16,9 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Validate URL format
-    const parsedUrl = new URL(url);
-
-    // Security: Check protocol (prevent file://, ftp://, etc.)
-    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-      return NextResponse.json(
-        { error: 'Only HTTP and HTTPS protocols allowed' },
-        { status: 403 }
-      );
-    }
-
-    // Security: Validate against allowlist
-    const isAllowed = ALLOWED_DOMAINS.some(domain =>
-      parsedUrl.hostname === domain || parsedUrl.hostname.endsWith(`.${domain}`)
-    );
-
-    if (!isAllowed) {
-      return NextResponse.json(
-        {
-          error: 'Domain not allowed',
-          allowed: ALLOWED_DOMAINS,
-          provided: parsedUrl.hostname
-        },
-        { status: 403 }
-      );
-    }
-
-    // Security: Prevent localhost/private IPs
-    const privatePatterns = [
-      /^localhost$/i,
-      /^127\./,
-      /^10\./,
-      /^172\.(1[6-9]|2[0-9]|3[01])\./,
-      /^192\.168\./,
-      /^0\.0\.0\.0$/
-    ];
-
-    if (privatePatterns.some(pattern => pattern.test(parsedUrl.hostname))) {
-      return NextResponse.json(
-        { error: 'Private/localhost addresses not allowed' },
-        { status: 403 }
-      );
-    }
-
-    // Fetch from external URL (server-side, bypasses CORS)
-    const response = await fetch(url, {
+    // Fetch from external URL (server-side, bypasses CORS), re-validating every redirect hop;
+    // ipfs:// and ar:// URLs are resolved through the policy's gateways
+    const { response, maxSize, contentAddress } = await fetchDatasetUrl(url, {
       signal: AbortSignal.timeout(60000), // 60s timeout
       headers: {
         'User-Agent': 'SealTrust/1.0',
@@ -84,36 +32,49 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check file size before streaming
+    // Check file size before streaming (when the upstream announces it)
     const contentLength = response.headers.get('Content-Length');
-    if (contentLength) {
-      const size = parseInt(contentLength, 10);
-      if (size > MAX_FILE_SIZE) {
-        return NextResponse.json(
-          {
-            error: `File too large: ${(size / 1024 / 1024).toFixed(2)}MB (max: ${MAX_FILE_SIZE / 1024 / 1024}MB)`,
-            size,
-            maxSize: MAX_FILE_SIZE
-          },
-          { status: 413 }
-        );
-      }
+    const tooLarge = contentLength ? checkDatasetSize(maxSize, parseInt(contentLength, 10)) : null;
+    if (tooLarge) {
+      await response.body?.cancel();
+      return NextResponse.json(
+        { error: tooLarge.message, rejection: tooLarge, size: tooLarge.size, maxSize: tooLarge.maxSize },
+        { status: 413 }
+      );
     }
 
+    if (!response.body) {
+      return NextResponse.json({ error: 'Upstream response has no body' }, { status: 502 });
+    }
+
+    // Count bytes as they stream (chunked responses have no Content-Length) and hash them;
+    // the digest is served by /api/fetch-dataset/digest?id=<X-Fetch-Id>. Bytes that do not match
+    // their CID fail the stream instead of completing
+    const { fetchId, stream } = digestStream(response.body, maxSize, contentAddress?.sha256 ?? undefined);
+
     // Return streaming response with proper CORS headers
-    return new NextResponse(response.body, {
+    return new NextResponse(stream, {
       status: 200,
       headers: {
         'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
         'Content-Length': response.headers.get('Content-Length') || '',
         'Content-Disposition': response.headers.get('Content-Disposition') || '',
+        'X-Fetch-Id': fetchId,
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+        'Access-Control-Expose-Headers': 'X-Fetch-Id',
         'Cache-Control': 'no-cache',
       }
     });
 
   } catch (error) {
+    if (error instanceof BlockedUrlError) {
+      return NextResponse.json(
+        { error: error.message, rejection: error.rejection },
+        { status: error.status }
+      );
+    }
+
     console.error('Proxy error:', error);
 
     if (error instanceof Error) {
@@ -153,22 +114,8 @@ export async function HEAD(request: NextRequest) {
   }
 
   try {
-    const parsedUrl = new URL(url);
-
-    // Same validation as GET
-    if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-      return new NextResponse(null, { status: 403 });
-    }
-
-    const isAllowed = ALLOWED_DOMAINS.some(domain =>
-      parsedUrl.hostname === domain || parsedUrl.hostname.endsWith(`.${domain}`)
-    );
-
-    if (!isAllowed) {
-      return new NextResponse(null, { status: 403 });
-    }
-
-    const response = await fetch(url, {
+    // Same validation as GET, including redirects
+    const { response } = await fetchDatasetUrl(url, {
       method: 'HEAD',
       signal: AbortSignal.timeout(10000) // 10s timeout for HEAD
     });
@@ -183,7 +130,10 @@ export async function HEAD(request: NextRequest) {
       }
     });
 
-  } catch {
+  } catch (error) {
+    if (error instanceof BlockedUrlError) {
+      return new NextResponse(null, { status: error.status });
+    }
     return new NextResponse(null, { status: 500 });
   }
 }
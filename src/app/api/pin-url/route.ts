@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolvePinnedUrl } from '@/lib/revision-pinning';
+import { BlockedUrlError } from '@/lib/ssrf-guard';
+import { checkDatasetUrl } from '@/lib/url-policy';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Pin a GitHub or Hugging Face dataset URL to the commit its branch or tag points at
+ *
+ * Resolved server-side - the GitHub and Hugging Face APIs are not covered by the browser's
+ * connect-src policy. URLs on other hosts are returned unchanged.
+ */
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get('url');
+
+  if (!url) {
+    return NextResponse.json({ error: 'URL parameter required' }, { status: 400 });
+  }
+
+  const policy = checkDatasetUrl(url);
+  if (!policy.allowed) {
+    const error = new BlockedUrlError(policy.rejection);
+    return NextResponse.json({ error: error.message, rejection: error.rejection }, { status: error.status });
+  }
+
+  try {
+    const pinned = await resolvePinnedUrl(url.trim());
+    return NextResponse.json(pinned, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Pin URL error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve the URL revision' },
+      { status: 502 }
+    );
+  }
+}
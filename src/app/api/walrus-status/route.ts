@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { WalrusClient } from '@mysten/walrus';
+import { BlobLifetime } from '@/lib/types';
+import { getWalrusClient } from '@/lib/walrus-client';
+import { DEFAULT_NETWORK, parseNetwork } from '@/lib/networks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type BlobStatus = Awaited<ReturnType<WalrusClient['getVerifiedBlobStatus']>>;
+
+// Walrus blob IDs are 32 bytes, URL-safe base64 without padding
+const BLOB_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Blob certification status and end epoch
+ *
+ * Queried from the storage nodes server-side - the nodes are not covered by the
+ * browser's connect-src policy.
+ */
+export async function GET(request: NextRequest) {
+  const blobId = request.nextUrl.searchParams.get('blobId');
+  const networkParam = request.nextUrl.searchParams.get('network');
+  const network = networkParam ? parseNetwork(networkParam) : DEFAULT_NETWORK;
+
+  if (!blobId || !BLOB_ID_PATTERN.test(blobId)) {
+    return NextResponse.json({ error: 'Valid blobId parameter required' }, { status: 400 });
+  }
+
+  if (!network) {
+    return NextResponse.json({ error: `Unknown network: ${networkParam}` }, { status: 400 });
+  }
+
+  try {
+    const client = await getWalrusClient(network);
+    const status = await client.getVerifiedBlobStatus({
+      blobId,
+      signal: AbortSignal.timeout(30000), // 30s timeout
+    });
+
+    return NextResponse.json(toBlobLifetime(blobId, status));
+  } catch (error) {
+    console.error('Walrus status error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get Walrus blob status' },
+      { status: 502 }
+    );
+  }
+}
+
+function toBlobLifetime(blobId: string, status: BlobStatus): BlobLifetime {
+  switch (status.type) {
+    case 'permanent':
+      return { blobId, status: status.isCertified ? 'certified' : 'registered', endEpoch: status.endEpoch };
+    case 'deletable':
+      return { blobId, status: 'deletable', endEpoch: null };
+    default:
+      return { blobId, status: status.type, endEpoch: null };
+  }
+}
@@ -17,6 +17,7 @@ import {
   Lock,
   QrCode,
   CircleNotch,
+  Globe,
   Warning
 } from '@phosphor-icons/react';
 import { formatAddress, formatHash } from '@/lib/utils';
@@ -25,9 +26,16 @@ import { DatasetNFT } from '@/lib/types';
 import { walrusService } from '@/lib/walrus-service';
 import { DatasetDownload } from '@/components/dataset/DatasetDownload';
 import { AccessManagement } from '@/components/dataset/AccessManagement';
+import { ProofVerification } from '@/components/verify/ProofVerification';
+import { SourceRecheck } from '@/components/verify/SourceRecheck';
+import { StorageLifetime } from '@/components/dataset/StorageLifetime';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import { toast } from 'sonner';
-import { CONFIG } from '@/lib/constants';
+import { explorerObjectUrl, getNetworkProfile } from '@/lib/networks';
+import { CONTENT_ADDRESS_LABELS } from '@/lib/content-address';
+import { parseDatasetUrlField } from '@/lib/dataset-source';
+import { formatLabel } from '@/lib/dataset-format';
+import { gatewayUrls } from '@/lib/url-policy';
 
 export default function DatasetDetailPage() {
   const params = useParams();
@@ -82,7 +90,7 @@ export default function DatasetDetailPage() {
 
     try {
       // Query for Cap objects owned by the user
-      const capStructType = `${CONFIG.SEAL_ALLOWLIST_PACKAGE_ID}::allowlist::Cap`;
+      const capStructType = `${getNetworkProfile().sealAllowlistPackageId}::allowlist::Cap`;
 
       const ownedObjects = await suiClient.getOwnedObjects({
         owner: currentAccount.address,
@@ -186,7 +194,11 @@ export default function DatasetDetailPage() {
 
   const nft = dataset;
   const id = nft.id;
-  const registered_at = nft.verification_timestamp;
+  const registered_at = Number(nft.verification_timestamp);
+  // dataset_url holds the description, led by the source URL of URL-registered datasets and
+  // followed by the schema fingerprint
+  const { source, schemaFingerprint, description } = parseDatasetUrlField(nft.dataset_url || '');
+  const sourceHref = source?.contentAddress ? gatewayUrls(source.contentAddress)[0]?.toString() : source?.uri;
 
   return (
     <>
@@ -216,8 +228,38 @@ export default function DatasetDetailPage() {
                   </div>
                 </div>
                 <p className="text-lg text-muted-foreground">
-                  {nft.dataset_url || 'No description provided'}
+                  {description || 'No description provided'}
                 </p>
+                {source && (
+                  <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground min-w-0">
+                    <Globe weight="regular" size={16} className="flex-shrink-0" />
+                    <span>
+                      {source.contentAddress
+                        ? `${CONTENT_ADDRESS_LABELS[source.contentAddress.scheme]} source`
+                        : source.pinned ? 'Pinned source' : 'Source (not pinned)'}:
+                    </span>
+                    {sourceHref ? (
+                      <a
+                        href={sourceHref}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs text-primary hover:underline truncate"
+                      >
+                        {source.uri}
+                      </a>
+                    ) : (
+                      <span className="font-mono text-xs truncate">{source.uri}</span>
+                    )}
+                  </div>
+                )}
+                {source?.originalUrl && (
+                  <p className="mt-1 text-xs text-muted-foreground break-all">
+                    Registered from {source.originalUrl}
+                  </p>
+                )}
+                <div className="mt-4">
+                  <SourceRecheck nft={nft} showSource={false} />
+                </div>
               </div>
             </div>
 
@@ -228,7 +270,7 @@ export default function DatasetDetailPage() {
                   <Files weight="duotone" size={20} className="text-primary" />
                   <p className="text-xs font-semibold text-muted-foreground">Format</p>
                 </div>
-                <p className="text-lg font-bold">{nft.format || 'Unknown'}</p>
+                <p className="text-lg font-bold">{nft.format ? formatLabel(nft.format) : 'Unknown'}</p>
               </div>
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="flex items-center gap-2 mb-1">
@@ -236,7 +278,7 @@ export default function DatasetDetailPage() {
                   <p className="text-xs font-semibold text-muted-foreground">Size</p>
                 </div>
                 <p className="text-lg font-bold">
-                  {walrusService.formatFileSize(nft.size || 0)}
+                  {walrusService.formatFileSize(Number(nft.size))}
                 </p>
               </div>
               <div className="bg-gray-50 rounded-lg p-4">
@@ -318,6 +360,17 @@ export default function DatasetDetailPage() {
                     Hash of dataset metadata for verification
                   </p>
                 </div>
+                {schemaFingerprint && (
+                  <div>
+                    <p className="text-sm font-semibold text-muted-foreground mb-1">Schema Fingerprint</p>
+                    <code className="text-sm font-mono bg-gray-50 px-3 py-2 rounded-lg block break-all">
+                      {schemaFingerprint}
+                    </code>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Hash of the inferred columns, types and nullability
+                    </p>
+                  </div>
+                )}
                 <div>
                   <p className="text-sm font-semibold text-muted-foreground mb-1">Owner</p>
                   <code className="text-sm font-mono bg-gray-50 px-3 py-2 rounded-lg block break-all">
@@ -358,6 +411,7 @@ export default function DatasetDetailPage() {
                     Access control policy for encrypted dataset
                   </p>
                 </div>
+                <StorageLifetime nft={nft} />
                 <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
                   <div className="flex items-start gap-3">
                     <Shield weight="duotone" size={24} className="text-purple-600 flex-shrink-0 mt-1" />
@@ -402,11 +456,12 @@ export default function DatasetDetailPage() {
                   <p className="text-sm font-semibold text-muted-foreground mb-1">Verification Timestamp</p>
                   <code className="text-sm font-mono bg-gray-50 px-3 py-2 rounded-lg block">
                     {nft.verification_timestamp
-                      ? new Date(nft.verification_timestamp).toLocaleString()
+                      ? new Date(Number(nft.verification_timestamp)).toLocaleString()
                       : new Date(registered_at).toLocaleString()
                     }
                   </code>
                 </div>
+                <ProofVerification nft={nft} />
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                   <div className="flex items-start gap-3">
                     <CheckCircle weight="duotone" size={24} className="text-green-600 flex-shrink-0 mt-1" />
@@ -454,7 +509,7 @@ export default function DatasetDetailPage() {
                   </div>
                 </div>
                 <a
-                  href={`https://testnet.suivision.xyz/object/${id}`}
+                  href={explorerObjectUrl(id)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-orange-100 text-orange-900 hover:bg-orange-200 transition-colors font-medium w-full justify-center"
@@ -0,0 +1,244 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { toHex } from '@mysten/sui/utils';
+import { Header } from '@/components/layout/Header';
+import { ArrowLeft, ArrowClockwise, CheckCircle, CircleNotch, Cpu, Warning, XCircle } from '@phosphor-icons/react';
+import { useNautilus } from '@/hooks/useNautilus';
+import { useNetworkProfile } from '@/hooks/useNetworkProfile';
+import {
+  NITRO_PCR_INDICES,
+  NitroAttestationDocument,
+  NitroVerificationResult,
+  OnChainEnclaveInfo,
+  fetchOnChainEnclaveInfo,
+  parseNitroAttestation,
+  verifyNitroAttestation,
+} from '@/lib/nitro-attestation';
+import { fetchEnclavePublicKey } from '@/lib/tee-signature';
+
+const PCR_LABELS: Record<number, string> = {
+  0: 'Enclave image',
+  1: 'Kernel and bootstrap',
+  2: 'Application',
+};
+
+function StatusIcon({ ok }: { ok: boolean | null }) {
+  if (ok === null) return <Warning weight="fill" size={18} className="text-amber-500 flex-shrink-0" />;
+  return ok
+    ? <CheckCircle weight="fill" size={18} className="text-green-600 flex-shrink-0" />
+    : <XCircle weight="fill" size={18} className="text-red-600 flex-shrink-0" />;
+}
+
+export default function EnclavePage() {
+  const suiClient = useSuiClient();
+  const networkProfile = useNetworkProfile();
+  const { getAttestation } = useNautilus();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attestationDoc, setAttestationDoc] = useState<NitroAttestationDocument | null>(null);
+  const [verification, setVerification] = useState<NitroVerificationResult | null>(null);
+  const [onChain, setOnChain] = useState<OnChainEnclaveInfo | null>(null);
+  const [onChainKey, setOnChainKey] = useState<string | null>(null);
+  const [onChainError, setOnChainError] = useState<string | null>(null);
+
+  const loadAttestation = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setOnChainError(null);
+
+    // On-chain values are independent of the enclave being reachable
+    const onChainRequest = Promise.all([
+      fetchOnChainEnclaveInfo(suiClient),
+      fetchEnclavePublicKey(suiClient),
+    ]).then(([info, key]) => {
+      setOnChain(info);
+      setOnChainKey(toHex(key));
+    }).catch(err => {
+      console.error('Failed to load on-chain enclave:', err);
+      setOnChainError(err instanceof Error ? err.message : 'Failed to load on-chain enclave');
+    });
+
+    try {
+      const attestation = await getAttestation();
+      if (!attestation) {
+        throw new Error('Nautilus did not return an attestation document');
+      }
+
+      const parsed = parseNitroAttestation(attestation);
+      setAttestationDoc(parsed);
+      setVerification(await verifyNitroAttestation(parsed));
+      console.log('🔐 Nitro attestation decoded:', parsed.moduleId);
+    } catch (err) {
+      console.error('Failed to load attestation:', err);
+      setAttestationDoc(null);
+      setVerification(null);
+      setError(err instanceof Error ? err.message : 'Failed to load attestation');
+    } finally {
+      await onChainRequest;
+      setLoading(false);
+    }
+  }, [getAttestation, suiClient]);
+
+  useEffect(() => {
+    loadAttestation();
+  }, [loadAttestation]);
+
+  const pcrMatches = (index: number): boolean | null => {
+    const attested = attestationDoc?.pcrs[index];
+    const registered = onChain?.pcrs[index];
+    if (!attested || !registered) return null;
+    return attested === registered;
+  };
+
+  const keyMatches = attestationDoc?.publicKey && onChainKey ? attestationDoc.publicKey === onChainKey : null;
+
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gradient-to-b from-white via-orange-50/20 to-white pt-24 pb-16">
+        <div className="container-fluid max-w-5xl">
+          {/* Back Link */}
+          <Link
+            href="/about"
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors mb-8"
+          >
+            <ArrowLeft weight="regular" size={20} />
+            <span>Back to About</span>
+          </Link>
+
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+            <div className="space-y-4">
+              <h1 className="text-4xl lg:text-5xl font-bold tracking-tight">
+                Enclave Attestation
+              </h1>
+              <p className="text-xl text-muted-foreground">
+                The AWS Nitro attestation document of the Nautilus enclave, checked against the
+                AWS Nitro root and the measurements registered on Sui.
+              </p>
+            </div>
+            <button
+              onClick={loadAttestation}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-border hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              <ArrowClockwise weight="regular" size={18} />
+              Refresh
+            </button>
+          </div>
+
+          {loading && (
+            <div className="flex items-center gap-3 text-muted-foreground py-12 justify-center">
+              <CircleNotch weight="regular" size={24} className="animate-spin" />
+              <span>Fetching attestation from {networkProfile.nautilusUrl}...</span>
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-900 mb-6">
+              {error}
+            </div>
+          )}
+
+          {!loading && onChainError && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-900 mb-6">
+              On-chain enclave could not be loaded: {onChainError}
+            </div>
+          )}
+
+          {!loading && attestationDoc && verification && (
+            <div className="space-y-6">
+              {/* Document checks */}
+              <div className="bg-white rounded-2xl shadow-xl border border-border p-5 space-y-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <Cpu weight="regular" size={24} className="text-primary" />
+                  <h2 className="text-xl font-bold">Attestation Document</h2>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Module ID</p>
+                    <p className="font-mono break-all">{attestationDoc.moduleId}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Timestamp</p>
+                    <p className="font-mono">{new Date(attestationDoc.timestamp).toLocaleString()}</p>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <p className="text-muted-foreground">Enclave public key</p>
+                    <p className="font-mono break-all">{attestationDoc.publicKey || 'None'}</p>
+                  </div>
+                </div>
+
+                <ul className="space-y-2 text-sm pt-2 border-t border-border">
+                  <li className="flex items-center gap-2">
+                    <StatusIcon ok={verification.rootTrusted} />
+                    <span>Certificate chain ends at the AWS Nitro Enclaves root</span>
+                  </li>
+                  <li className="flex items-center gap-2">
+                    <StatusIcon ok={verification.chainValid} />
+                    <span>
+                      Every certificate is signed by its issuer and valid at the document time
+                      ({verification.certificates.length} certificates)
+                    </span>
+                  </li>
+                  <li className="flex items-center gap-2">
+                    <StatusIcon ok={verification.signatureValid} />
+                    <span>Document is signed by the leaf certificate</span>
+                  </li>
+                  <li className="flex items-center gap-2">
+                    <StatusIcon ok={keyMatches} />
+                    <span>
+                      Public key matches the on-chain Enclave object
+                      {keyMatches === null && ' (not available)'}
+                    </span>
+                  </li>
+                </ul>
+
+                {verification.errors.length > 0 && (
+                  <ul className="bg-red-50 border border-red-200 rounded-xl p-3 text-xs text-red-900 space-y-1">
+                    {verification.errors.map(message => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* PCRs */}
+              <div className="bg-white rounded-2xl shadow-xl border border-border p-5">
+                <h2 className="text-xl font-bold mb-1">Measurements (PCRs)</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Registered in EnclaveConfig{' '}
+                  <span className="font-mono break-all">{onChain?.configId || networkProfile.enclaveConfigId}</span>
+                  {onChain?.version !== null && onChain?.version !== undefined && ` (version ${onChain.version})`}
+                </p>
+
+                <div className="space-y-4">
+                  {NITRO_PCR_INDICES.map(index => (
+                    <div key={index} className="border border-border rounded-xl p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <StatusIcon ok={pcrMatches(index)} />
+                        <span className="font-semibold">PCR{index}</span>
+                        <span className="text-sm text-muted-foreground">{PCR_LABELS[index]}</span>
+                      </div>
+                      <div className="grid gap-1 text-xs">
+                        <p className="text-muted-foreground">Attested</p>
+                        <p className="font-mono break-all">{attestationDoc.pcrs[index] || 'Missing'}</p>
+                        <p className="text-muted-foreground pt-1">On-chain</p>
+                        <p className="font-mono break-all">{onChain?.pcrs[index] || 'Not available'}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -19,6 +19,7 @@ import { formatAddress, formatHash } from '@/lib/utils';
 import { useSealTrust } from '@/hooks/useSealTrust';
 import { RegistryEntry } from '@/lib/types';
 import { walrusService } from '@/lib/walrus-service';
+import { formatLabel } from '@/lib/dataset-format';
 
 export default function ExplorePage() {
   const { getAllDatasets } = useSealTrust();
@@ -49,7 +50,7 @@ export default function ExplorePage() {
   // Calculate stats from datasets
   const stats = {
     totalDatasets: datasets.length,
-    totalDataSize: datasets.reduce((sum, entry) => sum + (entry.nft.size || 0), 0),
+    totalDataSize: datasets.reduce((sum, entry) => sum + Number(entry.nft.size), 0),
     todaysRegistrations: datasets.filter(entry => {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -61,7 +62,7 @@ export default function ExplorePage() {
   const filteredDatasets = datasets
     .filter(entry => {
       // Filter by format
-      if (selectedFormat !== 'All' && entry.nft.format !== selectedFormat) return false;
+      if (selectedFormat !== 'All' && formatLabel(entry.nft.format) !== selectedFormat) return false;
 
       // Search by name or hash
       if (searchQuery) {
@@ -75,12 +76,12 @@ export default function ExplorePage() {
     })
     .sort((a, b) => {
       if (sortBy === 'recent') return b.registered_at - a.registered_at;
-      if (sortBy === 'size') return (b.nft.size || 0) - (a.nft.size || 0);
+      if (sortBy === 'size') return b.nft.size > a.nft.size ? 1 : b.nft.size < a.nft.size ? -1 : 0;
       return 0;
     });
 
-  // Get unique formats from datasets
-  const formats = ['All', ...new Set(datasets.map(entry => entry.nft.format).filter(Boolean))];
+  // Get unique formats from datasets (legacy spellings of a format are grouped under its label)
+  const formats = ['All', ...new Set(datasets.filter(entry => entry.nft.format).map(entry => formatLabel(entry.nft.format)))];
 
   return (
     <>
@@ -207,7 +208,7 @@ export default function ExplorePage() {
                         {entry.nft.name || 'Untitled Dataset'}
                       </h3>
                       <p className="text-sm text-muted-foreground">
-                        {entry.nft.format || 'Unknown format'}
+                        {entry.nft.format ? formatLabel(entry.nft.format) : 'Unknown format'}
                       </p>
                     </div>
                     <div className="w-8 h-8 rounded-full bg-green-100 flex items-center justify-center flex-shrink-0">
@@ -225,7 +226,7 @@ export default function ExplorePage() {
                     </div>
                     <div className="flex items-center gap-2 text-sm">
                       <Files weight="regular" size={14} className="text-muted-foreground" />
-                      <span>{walrusService.formatFileSize(entry.nft.size || 0)}</span>
+                      <span>{walrusService.formatFileSize(Number(entry.nft.size))}</span>
                     </div>
                     <div className="flex items-center gap-2 text-sm">
                       <User weight="regular" size={14} className="text-muted-foreground" />
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/layout/Header';
+import {
+  ArrowRight,
+  ArrowsClockwise,
+  CheckCircle,
+  CircleNotch,
+  Clock,
+  Database,
+  Warning,
+  XCircle
+} from '@phosphor-icons/react';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { SuiWalletButton } from '@/components/wallet/SuiWalletButton';
+import { useSealTrust } from '@/hooks/useSealTrust';
+import { RegistryEntry } from '@/lib/types';
+import { CONFIG } from '@/lib/constants';
+import { walrusService } from '@/lib/walrus-service';
+import { DatasetStorageStatus, walrusStorageService } from '@/lib/walrus-storage';
+import { formatLabel } from '@/lib/dataset-format';
+import { DRIFT_STATUS_LABELS, DriftCheck, driftMonitor, getDriftSource } from '@/lib/drift-monitor';
+
+interface OwnedDataset {
+  entry: RegistryEntry;
+  storage: DatasetStorageStatus | null;
+  error?: string;
+  sourceUrl: string | null;      // URL the dataset was registered from (drift-checkable)
+  drift: DriftCheck | null;      // Latest drift check
+}
+
+export default function MyDatasetsPage() {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { getDatasetsByOwner } = useSealTrust();
+
+  const [datasets, setDatasets] = useState<OwnedDataset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [driftProgress, setDriftProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!currentAccount) {
+      setDatasets([]);
+      return;
+    }
+
+    const owner = currentAccount.address;
+    const fetchDatasets = async () => {
+      setLoading(true);
+      try {
+        const entries = await getDatasetsByOwner(owner);
+
+        // Epoch info and the wallet's Blob objects are the same for every dataset - fetch them once
+        const context = entries.length > 0 ? walrusStorageService.getStorageStatusContext(owner, suiClient) : null;
+
+        const withStorage = await Promise.all(entries.map(async (entry): Promise<OwnedDataset> => {
+          const sourceUrl = getDriftSource(entry.nft)?.url ?? null;
+          const drift = sourceUrl ? (await driftMonitor.getHistory(entry.id).catch(() => []))[0] ?? null : null;
+          try {
+            const storage = await walrusStorageService.getDatasetStorageStatus(entry.nft, suiClient, owner, await context!);
+            return { entry, storage, sourceUrl, drift };
+          } catch (error) {
+            console.error(`Failed to load storage status for ${entry.id}:`, error);
+            return {
+              entry,
+              storage: null,
+              error: error instanceof Error ? error.message : 'Storage status unavailable',
+              sourceUrl,
+              drift,
+            };
+          }
+        }));
+
+        // Soonest expiry first
+        withStorage.sort((a, b) =>
+          (a.storage?.endEpoch ?? Number.MAX_SAFE_INTEGER) - (b.storage?.endEpoch ?? Number.MAX_SAFE_INTEGER)
+        );
+        setDatasets(withStorage);
+      } catch (error) {
+        console.error('Error fetching owned datasets:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDatasets();
+  }, [currentAccount, getDatasetsByOwner, suiClient]);
+
+  const needsAttention = datasets.filter(d => d.storage?.expired || d.storage?.expiringSoon);
+  const checkable = datasets.filter(d => d.sourceUrl);
+  const drifted = datasets.filter(d => d.drift && d.drift.status !== 'match' && d.drift.status !== 'unreachable');
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Re-fetch sources one at a time - each check downloads the whole dataset
+  const runDriftChecks = async (targets: OwnedDataset[]) => {
+    setDriftProgress({ done: 0, total: targets.length });
+    for (const [i, { entry }] of targets.entries()) {
+      try {
+        const drift = await driftMonitor.checkDataset(entry.nft);
+        setDatasets(prev => prev.map(d => d.entry.id === entry.id ? { ...d, drift } : d));
+      } catch (error) {
+        console.error(`Drift check failed for ${entry.id}:`, error);
+      }
+      setDriftProgress({ done: i + 1, total: targets.length });
+    }
+    setDriftProgress(null);
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen bg-gradient-to-b from-white via-orange-50/20 to-white pt-24 pb-16">
+        <div className="container-fluid max-w-5xl">
+          <div className="mb-8">
+            <h1 className="text-4xl font-bold tracking-tight mb-2">My Datasets</h1>
+            <p className="text-muted-foreground">
+              Datasets you registered, how long their encrypted blobs stay on Walrus and whether their
+              source URLs still serve the registered bytes.
+            </p>
+          </div>
+
+          {!currentAccount ? (
+            <div className="bg-white rounded-2xl border border-border p-8 text-center space-y-4">
+              <p className="text-muted-foreground">Connect your wallet to see your datasets</p>
+              <div className="flex justify-center">
+                <SuiWalletButton />
+              </div>
+            </div>
+          ) : loading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+              <CircleNotch weight="regular" size={24} className="animate-spin" />
+              Loading datasets...
+            </div>
+          ) : datasets.length === 0 ? (
+            <div className="bg-white rounded-2xl border border-border p-8 text-center">
+              <Database weight="duotone" size={40} className="text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground mb-4">No datasets registered from this wallet yet</p>
+              <Link href="/register" className="text-primary font-medium hover:underline">
+                Register a dataset
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {needsAttention.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+                  <Warning weight="fill" size={22} className="text-amber-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-amber-900">
+                    {needsAttention.length} {needsAttention.length === 1 ? 'dataset expires' : 'datasets expire'} within{' '}
+                    {CONFIG.WALRUS_EXPIRY_WARNING_DAYS} days or already expired. Open a dataset to extend its storage.
+                  </p>
+                </div>
+              )}
+
+              {drifted.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3">
+                  <XCircle weight="fill" size={22} className="text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-900">
+                    {drifted.length} {drifted.length === 1 ? 'source no longer serves' : 'sources no longer serve'} the
+                    registered bytes. The NFTs still prove what was registered, but the URLs now point elsewhere.
+                  </p>
+                </div>
+              )}
+
+              {checkable.length > 0 && (
+                <div className="bg-white rounded-2xl border border-border p-4 flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-sm">
+                    <p className="font-semibold">Source drift check</p>
+                    <p className="text-muted-foreground">
+                      {driftProgress
+                        ? `Re-fetching source ${Math.min(driftProgress.done + 1, driftProgress.total)} of ${driftProgress.total}...`
+                        : `Re-fetch the URLs of ${checkable.length} URL-registered ${checkable.length === 1 ? 'dataset' : 'datasets'} and compare their SHA-256.`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => runDriftChecks(checkable.filter(d => selected.has(d.entry.id)))}
+                      disabled={!!driftProgress || selected.size === 0}
+                      className="px-4 py-2 rounded-lg border border-border text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      Check selected ({selected.size})
+                    </button>
+                    <button
+                      onClick={() => runDriftChecks(checkable)}
+                      disabled={!!driftProgress}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg gradient-primary text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                      {driftProgress
+                        ? <CircleNotch weight="regular" size={16} className="animate-spin" />
+                        : <ArrowsClockwise weight="regular" size={16} />}
+                      Check all
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-white rounded-2xl border border-border divide-y divide-border">
+                {datasets.map(({ entry, storage, error, sourceUrl, drift }) => (
+                  <div key={entry.id} className="flex items-center gap-3 pl-4">
+                    {sourceUrl ? (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(entry.id)}
+                        onChange={() => toggleSelected(entry.id)}
+                        disabled={!!driftProgress}
+                        aria-label={`Select ${entry.nft.name || 'dataset'} for the drift check`}
+                        className="w-4 h-4 accent-primary flex-shrink-0"
+                      />
+                    ) : (
+                      <span className="w-4 flex-shrink-0" />
+                    )}
+                    <Link
+                      href={`/dataset/${entry.id}`}
+                      className="flex-1 min-w-0 flex items-center gap-4 p-4 pl-0 hover:bg-muted/40 transition-colors"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold truncate">{entry.nft.name || 'Untitled Dataset'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.nft.format ? formatLabel(entry.nft.format) : 'Unknown'} · {walrusService.formatFileSize(Number(entry.nft.size))} · registered{' '}
+                          {new Date(entry.registered_at).toLocaleDateString()}
+                        </p>
+                        {drift && (
+                          <p className={`text-xs flex items-center gap-1 mt-0.5 ${
+                            drift.status === 'match' ? 'text-green-700' : drift.status === 'unreachable' ? 'text-amber-700' : 'text-red-700'
+                          }`}>
+                            {drift.status === 'match'
+                              ? <CheckCircle weight="fill" size={14} />
+                              : drift.status === 'unreachable' ? <Warning weight="fill" size={14} /> : <XCircle weight="fill" size={14} />}
+                            Source {DRIFT_STATUS_LABELS[drift.status].toLowerCase()} · checked {new Date(drift.checkedAt).toLocaleString()}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="text-right text-sm">
+                        {storage ? (
+                          <>
+                            <p className={`flex items-center justify-end gap-1.5 font-medium ${
+                              storage.expired ? 'text-red-700' : storage.expiringSoon ? 'text-amber-700' : 'text-foreground'
+                            }`}>
+                              {storage.expired || storage.expiringSoon
+                                ? <Warning weight="fill" size={16} />
+                                : storage.certified
+                                  ? <CheckCircle weight="fill" size={16} className="text-green-600" />
+                                  : <Clock weight="regular" size={16} />}
+                              {storage.expired
+                                ? 'Expired'
+                                : storage.epochsLeft !== null
+                                  ? `${storage.epochsLeft} ${storage.epochsLeft === 1 ? 'epoch' : 'epochs'} left`
+                                  : 'End epoch unknown'}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {storage.expiresAt !== null && `until ~${new Date(storage.expiresAt).toLocaleDateString()} · `}
+                              {storage.extendable ? 'extendable' : 'not extendable'}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-xs text-muted-foreground max-w-[16rem] truncate">{error}</p>
+                        )}
+                      </div>
+
+                      <ArrowRight weight="regular" size={18} className="text-muted-foreground flex-shrink-0" />
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,17 +1,26 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { SuiClientProvider, WalletProvider, createNetworkConfig } from '@mysten/dapp-kit';
-import { getFullnodeUrl } from '@mysten/sui/client';
 import { Toaster } from 'sonner';
 import '@mysten/dapp-kit/dist/index.css';
+import { ConfigValidator } from '@/components/providers/ConfigValidator';
+import {
+  DEFAULT_NETWORK,
+  NETWORK_PROFILES,
+  SuiNetwork,
+  getStoredNetwork,
+  parseNetwork,
+  setActiveNetwork,
+} from '@/lib/networks';
 
-// Configure Sui networks
+// Configure Sui networks from the network profiles
 const { networkConfig } = createNetworkConfig({
-  testnet: { url: getFullnodeUrl('testnet') },
-  mainnet: { url: getFullnodeUrl('mainnet') },
-  devnet: { url: getFullnodeUrl('devnet') },
+  mainnet: { url: NETWORK_PROFILES.mainnet.rpcUrl },
+  testnet: { url: NETWORK_PROFILES.testnet.rpcUrl },
+  devnet: { url: NETWORK_PROFILES.devnet.rpcUrl },
+  localnet: { url: NETWORK_PROFILES.localnet.rpcUrl },
 });
 
 export function Providers({ children }: { children: React.ReactNode }) {
@@ -24,10 +33,31 @@ export function Providers({ children }: { children: React.ReactNode }) {
     },
   }));
 
+  // Start on the default network (matches the server render), then restore the stored choice
+  const [network, setNetwork] = useState<SuiNetwork>(DEFAULT_NETWORK);
+
+  const switchNetwork = (next: SuiNetwork) => {
+    // Services read the active profile - update it before anything re-renders
+    setActiveNetwork(next);
+    setNetwork(next);
+  };
+
+  useEffect(() => {
+    const stored = getStoredNetwork();
+    if (stored) {
+      switchNetwork(stored);
+    }
+  }, []);
+
   return (
     <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
+      <SuiClientProvider
+        networks={networkConfig}
+        network={network}
+        onNetworkChange={(next) => switchNetwork(parseNetwork(next) ?? DEFAULT_NETWORK)}
+      >
         <WalletProvider autoConnect>
+          <ConfigValidator />
           {children}
           <Toaster
             position="bottom-right"
@@ -0,0 +1,46 @@
+'use client';
+
+import Link from 'next/link';
+import { Header } from '@/components/layout/Header';
+import { BatchRegistration } from '@/components/register/BatchRegistration';
+import { ArrowLeft, Stack } from '@phosphor-icons/react';
+
+export default function BatchRegisterPage() {
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gradient-to-b from-white via-orange-50/20 to-white pt-24 pb-16">
+        <div className="container-fluid max-w-4xl">
+          {/* Back Link */}
+          <Link
+            href="/register"
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors mb-8"
+          >
+            <ArrowLeft weight="regular" size={20} />
+            <span>Back to Register</span>
+          </Link>
+
+          <div className="space-y-4 mb-8">
+            <h1 className="text-4xl lg:text-5xl font-bold tracking-tight">
+              Batch Registration
+            </h1>
+            <p className="text-xl text-muted-foreground">
+              Register a whole release at once. Every dataset is hashed, encrypted with Seal,
+              stored on Walrus and attested by Nautilus before it is recorded on Sui.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-xl border border-border p-5">
+            <div className="flex items-center gap-2 mb-4">
+              <Stack weight="regular" size={24} className="text-primary" />
+              <h2 className="text-xl font-bold">Datasets</h2>
+            </div>
+
+            <BatchRegistration />
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,21 +1,32 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import Link from 'next/link';
 import { Header } from '@/components/layout/Header';
 import { DatasetReceipt } from '@/components/dataset-receipt';
 import { ArrowLeft, Database, Lightning, Shield, Clock, Upload, Lock, Plus, X, ListPlus } from '@phosphor-icons/react';
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
 import { SuiWalletButton } from '@/components/wallet/SuiWalletButton';
 import { toast } from 'sonner';
-import { Transaction } from '@mysten/sui/transactions';
-import { sealService } from '@/lib/seal-service';
-import { walrusService } from '@/lib/walrus-service';
-import { allowlistService } from '@/lib/allowlist-service';
+import { PendingRegistrations } from '@/components/register/PendingRegistrations';
+import { EpochSelector } from '@/components/register/EpochSelector';
+import { TransferProgressBar } from '@/components/transfer-progress';
 import { CONFIG, ERROR_MESSAGES } from '@/lib/constants';
-import { stringToVecU8, hexToVecU8, MetadataVerificationRequest } from '@/lib/types';
+import {
+  RegistrationJob,
+  RegistrationStep,
+  createRegistrationJob,
+  getNextStep,
+  registrationJobStore,
+} from '@/lib/registration-jobs';
+import { runRegistrationJob } from '@/lib/registration-pipeline';
+import { TeeSignatureError } from '@/lib/tee-signature';
+import { TransferProgress } from '@/lib/types';
+import { WalrusTransferCancelledError } from '@/lib/walrus-service';
 import { useDatasetFetch } from '@/hooks/useDatasetFetch';
-import { validateDatasetURL, detectFormatFromURL, getValidationErrorMessage } from '@/lib/url-validation';
+import { validateDatasetURL, detectFormatFromURL } from '@/lib/url-validation';
+import { supportedSources } from '@/lib/url-policy';
+import { DATASET_FORMATS, DatasetFormat, FORMAT_LABELS, detectDatasetFormat } from '@/lib/dataset-format';
 
 interface ReceiptData {
   datasetUrl: string;
@@ -27,21 +38,38 @@ interface ReceiptData {
   nftId: string;
   registrant: string;
   format: string;
+  schemaFingerprint?: string;
+  schemaColumns?: number;
   allowlistId?: string;
   allowlistCapId?: string;
 }
 
+type UIStep = 'input' | 'fetching' | 'allowlisting' | 'encrypting' | 'uploading' | 'verifying' | 'registering' | 'complete';
+
+// Pipeline step -> loading state shown in the form
+const PIPELINE_UI_STEPS: Record<RegistrationStep, UIStep> = {
+  fetch: 'fetching',
+  allowlist: 'allowlisting',
+  encrypt: 'encrypting',
+  upload: 'uploading',
+  attest: 'verifying',
+  register: 'registering',
+};
+
 export default function RegisterPage() {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
   const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
   const { fetchDataset, progress: urlProgress } = useDatasetFetch();
 
   const [datasetUrl, setDatasetUrl] = useState('');
   const [description, setDescription] = useState('');
-  const [format, setFormat] = useState('CSV');
+  const [format, setFormat] = useState<DatasetFormat>('CSV');
+  const [formatWarning, setFormatWarning] = useState<string | null>(null);
   const [file, setFile] = useState<File | null>(null);
-  const [step, setStep] = useState<'input' | 'fetching' | 'hashing' | 'encrypting' | 'uploading' | 'verifying' | 'registering' | 'complete'>('input');
+  const [epochs, setEpochs] = useState<number>(CONFIG.WALRUS_EPOCHS);
+  const [step, setStep] = useState<UIStep>('input');
   const [receiptData, setReceiptData] = useState<ReceiptData | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [progress, setProgress] = useState('');
@@ -54,35 +82,34 @@ export default function RegisterPage() {
   const [batchMode, setBatchMode] = useState(false);
   const [batchInput, setBatchInput] = useState('');
 
-  // Error recovery cache - preserve intermediate results
-  const [cachedResults, setCachedResults] = useState<{
-    allowlistId?: string;
-    allowlistCapId?: string;
-    originalHash?: string;
-    encryptedData?: Uint8Array;
-    policyId?: string;
-    blobId?: string;
-    attestation?: {
-      signature: string;
-      [key: string]: unknown;
-    };
-  }>({});
+  // Pending jobs are persisted in IndexedDB - bump to reload the resume list
+  const [pendingRefreshKey, setPendingRefreshKey] = useState(0);
+
+  // Last TEE signature check failure - shown as a field diff
+  const [teeMismatch, setTeeMismatch] = useState<TeeSignatureError | null>(null);
+
+  // Walrus upload bytes of the running job, and the controller that cancels it
+  const [uploadProgress, setUploadProgress] = useState<TransferProgress | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      // Validate file size
-      if (selectedFile.size > CONFIG.MAX_FILE_SIZE) {
-        toast.error(`File too large. Maximum size is ${CONFIG.MAX_FILE_SIZE_MB}MB`);
+      // Validate file size (files above CHUNK_SIZE are encrypted and stored in chunks)
+      if (selectedFile.size > CONFIG.MAX_CHUNKED_FILE_SIZE) {
+        toast.error(`File too large. Maximum size is ${CONFIG.MAX_CHUNKED_FILE_SIZE_GB}GB`);
         return;
       }
       setFile(selectedFile);
       setDatasetUrl('');
-      // Auto-detect format from file extension
-      const ext = selectedFile.name.split('.').pop()?.toUpperCase();
-      if (ext && ['CSV', 'JSON', 'PARQUET'].includes(ext)) {
-        setFormat(ext);
-      }
+      setFormatWarning(null);
+      // Auto-detect format from the file's first bytes and extension
+      detectDatasetFormat(selectedFile).then(detection => {
+        setFormat(detection.format);
+        setFormatWarning(detection.warning ?? null);
+      }).catch(error => {
+        console.error('Format detection failed:', error);
+      });
     }
   };
 
@@ -201,427 +228,147 @@ export default function RegisterPage() {
     toast.success(messages.join(', '));
   };
 
-  // V3 Architecture: Complete registration flow
-  const handleRegisterDataset = async () => {
-    // Validate input: need either file OR URL
-    if (!file && !datasetUrl) {
-      toast.error(ERROR_MESSAGES.NO_FILE_OR_URL);
-      return;
-    }
-
+  // Run (or resume) a persisted registration job - every completed step is saved to IndexedDB
+  const runJob = async (job: RegistrationJob, sourceFile: File | null) => {
     if (!currentAccount) {
       toast.error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
       return;
     }
 
-    try {
-      let datasetFile: File;
-
-      // Step 0: Fetch URL if provided
-      if (datasetUrl && !file) {
-        // Validate URL
-        const validation = validateDatasetURL(datasetUrl);
-        if (!validation.isValid) {
-          toast.error(getValidationErrorMessage(validation.error!));
-          return;
-        }
-
-        setStep('fetching');
-        setProgress('Fetching dataset from URL...');
-
-        try {
-          datasetFile = await fetchDataset(datasetUrl);
-
-          // Validate fetched file size
-          if (datasetFile.size > CONFIG.MAX_FILE_SIZE) {
-            toast.error(`${ERROR_MESSAGES.FILE_TOO_LARGE}: ${(datasetFile.size / 1024 / 1024).toFixed(2)}MB (max: ${CONFIG.MAX_FILE_SIZE_MB}MB)`);
-            setStep('input');
-            setProgress('');
-            return;
-          }
-
-          // Auto-detect format from URL
-          const urlFormat = detectFormatFromURL(datasetUrl);
-          if (urlFormat !== 'Unknown') {
-            setFormat(urlFormat);
-          }
-
-          console.log('✅ Fetched dataset:', datasetFile.name, datasetFile.size, 'bytes');
-        } catch (error) {
-          const message = error instanceof Error ? error.message : ERROR_MESSAGES.URL_FETCH_FAILED;
-          toast.error(message);
-          setStep('input');
-          setProgress('');
-          return;
-        }
-      } else {
-        datasetFile = file!;
-      }
+    let latest = job;
+    setTeeMismatch(null);
+    setStep(PIPELINE_UI_STEPS[getNextStep(job) || 'register']);
+    setProgress('');
+    setUploadProgress(null);
+    uploadAbortRef.current = new AbortController();
 
-      // Step 1: Create allowlist for access control (with cache recovery)
-      // Note: Seal client is now created per-operation with suiClient passed directly
-      let allowlistId: string;
-      let capId: string;
-
-      if (cachedResults.allowlistId && cachedResults.allowlistCapId) {
-        // Verify cached allowlist exists on-chain before reusing
-        try {
-          console.log('🔍 Checking if cached allowlist exists on-chain...');
-          const obj = await suiClient.getObject({
-            id: cachedResults.allowlistId,
-            options: { showContent: true }
-          });
-
-          if (obj.data) {
-            console.log('♻️ Reusing valid cached allowlist from previous attempt');
-            allowlistId = cachedResults.allowlistId;
-            capId = cachedResults.allowlistCapId;
-          } else {
-            console.log('⚠️ Cached allowlist not found on-chain, creating new one...');
-            // Clear invalid cache and all dependent data
-            setCachedResults(prev => ({
-              ...prev,
-              allowlistId: undefined,
-              allowlistCapId: undefined,
-              encryptedData: undefined,
-              policyId: undefined,
-              originalHash: undefined,
-              blobId: undefined
-            }));
-            throw new Error('Cached allowlist invalid');
-          }
-        } catch (error) {
-          console.log('⚠️ Could not verify cached allowlist, creating new one...', error);
-          // Allowlist doesn't exist or is invalid, create a new one
-          // Also clear dependent cached data since policy ID depends on allowlist ID
-          setCachedResults(prev => ({
-            ...prev,
-            allowlistId: undefined,
-            allowlistCapId: undefined,
-            encryptedData: undefined,
-            policyId: undefined,
-            originalHash: undefined,
-            blobId: undefined
-          }));
-
-          setProgress('Creating Seal allowlist for access control...');
-          const result = await allowlistService.createAllowlist(
-            `Access for ${datasetFile.name}`,
-            CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
-            signAndExecuteTransaction,
-            suiClient
-          );
-          allowlistId = result.allowlistId;
-          capId = result.capId;
-
-          console.log('✅ Allowlist created:', allowlistId);
-          console.log('✅ Allowlist admin cap:', capId);
-
-          // Cache the new valid results
-          setCachedResults(prev => ({ ...prev, allowlistId, allowlistCapId: capId }));
-        }
-      } else {
-        setProgress('Creating Seal allowlist for access control...');
-        const result = await allowlistService.createAllowlist(
-          `Access for ${datasetFile.name}`,
-          CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
+    try {
+      const completed = await runRegistrationJob(
+        job,
+        sourceFile,
+        {
+          address: currentAccount.address,
+          suiClient,
           signAndExecuteTransaction,
-          suiClient
-        );
-        allowlistId = result.allowlistId;
-        capId = result.capId;
-
-        console.log('✅ Allowlist created:', allowlistId);
-        console.log('✅ Allowlist admin cap:', capId);
-
-        // Cache immediately for error recovery
-        setCachedResults(prev => ({ ...prev, allowlistId, allowlistCapId: capId }));
-      }
-
-      // Add uploader to allowlist automatically so they can download their own dataset
-      try {
-        setProgress('Adding uploader to allowlist...');
-        await allowlistService.addUser(
-          allowlistId,
-          capId,
-          currentAccount.address,
-          CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
-          signAndExecuteTransaction
-        );
-        console.log('✅ Uploader added to allowlist');
-      } catch (error) {
-        console.error('Failed to add user to allowlist:', error);
-
-        // If adding user fails (e.g., abort code 2), the cached allowlist is invalid
-        // Clear the cache and start over
-        if (cachedResults.allowlistId) {
-          console.log('⚠️ Cached allowlist is invalid, clearing cache and creating new one...');
-          setCachedResults(prev => ({
-            ...prev,
-            allowlistId: undefined,
-            allowlistCapId: undefined,
-            // Also clear dependent cached items
-            encryptedData: undefined,
-            policyId: undefined,
-            originalHash: undefined,
-            blobId: undefined
-          }));
-
-          toast.error('Cached allowlist was invalid. Please try again to create a new one.', { duration: 5000 });
-          setStep('input');
-          setProgress('');
-          return;
-        }
-
-        // If it wasn't a cached allowlist, this is a real error
-        throw error;
-      }
-
-      // Add initial members if any were configured
-      if (initialMembers.length > 0) {
-        setProgress(`Adding ${initialMembers.length} initial member(s) to allowlist...`);
-
-        // IMPORTANT: Must be sequential (not parallel) because each transaction modifies the same capId object
-        // Using Promise.all would cause Sui object version conflicts
-        for (const memberAddress of initialMembers) {
-          await allowlistService.addUser(
-            allowlistId,
-            capId,
-            memberAddress,
-            CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
-            signAndExecuteTransaction
-          );
-          console.log('✅ Added member to allowlist:', memberAddress);
-        }
-      }
-
-      // Step 2 & 3: Hash and Encrypt with Seal (using allowlist namespace)
-      // NOTE: encryptDataset now returns originalHash to avoid double hashing!
-      let encryptedData: Uint8Array;
-      let policyId: string;
-      let originalHash: string;
-
-      if (cachedResults.encryptedData && cachedResults.policyId && cachedResults.originalHash) {
-        // Reuse cached encryption from previous attempt
-        console.log('♻️ Reusing cached encryption from previous attempt');
-        encryptedData = cachedResults.encryptedData;
-        policyId = cachedResults.policyId;
-        originalHash = cachedResults.originalHash;
-      } else {
-        setStep('encrypting');
-        setProgress('Encrypting dataset with Seal (includes hashing)...');
-
-        const encryptionResult = await sealService.encryptDataset(
-          datasetFile,
-          CONFIG.SEAL_PACKAGE_ID,
-          allowlistId,
-          suiClient  // Pass suiClient directly - no initialization needed
-        );
-        encryptedData = encryptionResult.encryptedData;
-        policyId = encryptionResult.policyId;
-        originalHash = encryptionResult.originalHash;
-
-        // Cache immediately for error recovery
-        setCachedResults(prev => ({ ...prev, originalHash, encryptedData, policyId }));
-
-        console.log('✅ Original hash:', originalHash);
-        console.log('✅ Encrypted. Policy ID:', policyId);
-      }
-
-      // Step 3: Upload encrypted blob to Walrus (with cache recovery)
-      let blobId: string;
-
-      if (cachedResults.blobId) {
-        // Reuse cached blob ID from previous attempt
-        console.log('♻️ Reusing cached Walrus blob ID from previous attempt');
-        blobId = cachedResults.blobId;
-      } else {
-        setStep('uploading');
-        setProgress('Uploading encrypted blob to Walrus...');
-        // Ensure encryptedData is properly typed as Uint8Array
-        const encryptedBlob = new Uint8Array(encryptedData);
-
-        // DEBUG: Log what we're uploading
-        console.log('📤 Uploading to Walrus:');
-        console.log('  Encrypted data size:', encryptedBlob.length, 'bytes');
-        console.log('  First 64 bytes (hex):', Array.from(encryptedBlob.slice(0, 64))
-          .map(b => b.toString(16).padStart(2, '0'))
-          .join(' ')
-        );
-
-        const uploadResult = await walrusService.uploadToWalrus(
-          new File([encryptedBlob], `${datasetFile.name}.encrypted`, { type: 'application/octet-stream' }),
-          CONFIG.WALRUS_EPOCHS
-        );
-        blobId = uploadResult.blobId;
-
-        // Cache immediately for error recovery
-        setCachedResults(prev => ({ ...prev, blobId }));
-
-        console.log('✅ Uploaded to Walrus. Blob ID:', blobId);
-      }
-
-      // Step 4: Prepare metadata for Nautilus verification
-      setStep('verifying');
-      setProgress('Sending metadata to Nautilus TEE for verification...');
-
-      const timestamp = Date.now();
-      // Convert address to raw 32 bytes (remove 0x prefix and convert hex to bytes)
-      // This MUST match Move's address::to_bytes(ctx.sender()) format
-      const uploaderAddress = currentAccount.address.startsWith('0x')
-        ? currentAccount.address.slice(2)
-        : currentAccount.address;
-      const metadata = {
-        dataset_id: stringToVecU8(crypto.randomUUID()),
-        name: stringToVecU8(datasetFile.name),
-        description: stringToVecU8(description || 'Dataset registered via SealTrust'),
-        format: stringToVecU8(datasetFile.type || format),
-        size: datasetFile.size,
-        original_hash: hexToVecU8(originalHash),  // Convert hex string to bytes
-        walrus_blob_id: stringToVecU8(blobId),
-        seal_policy_id: stringToVecU8(policyId),
-        timestamp,
-        uploader: hexToVecU8(uploaderAddress),  // Raw 32 bytes, matches Move's address::to_bytes()
-      };
-
-      const nautilusRequest: MetadataVerificationRequest = { metadata };
-
-      const nautilusResponse = await fetch(`${CONFIG.NAUTILUS_URL}/verify_metadata`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(nautilusRequest),
-      });
-
-      if (!nautilusResponse.ok) {
-        const error = await nautilusResponse.json();
-        throw new Error(`Nautilus verification failed: ${error.error || nautilusResponse.statusText}`);
-      }
-
-      const attestation = await nautilusResponse.json();
-
-      // Cache attestation for error recovery
-      setCachedResults(prev => ({ ...prev, attestation }));
-
-      console.log('✅ Nautilus attestation received');
-
-      // Step 5: Register on-chain
-      setStep('registering');
-      setProgress('Registering dataset on Sui blockchain...');
-
-      const tx = new Transaction();
-
-      // Compute metadata hash (for DatasetNFT.metadata_hash field)
-      const metadataString = JSON.stringify(metadata);
-      const metadataHash = await sealService.hashData(new TextEncoder().encode(metadataString));
-
-      // Convert signature from hex to bytes (Nautilus returns hex-encoded)
-      const signatureBytes = hexToVecU8(attestation.signature);
-
-      // Validate allowlist ID before passing to Move contract
-      if (!allowlistId || allowlistId.trim() === '') {
-        throw new Error('Invalid allowlist ID - allowlist creation may have failed');
-      }
-
-      // CRITICAL: Capture the NFT returned by the Move function
-      // PRODUCTION: Use register_dataset with full TEE signature verification
-      const [nft] = tx.moveCall({
-        target: `${CONFIG.VERIFICATION_PACKAGE}::sealtrust::register_dataset`,
-        typeArguments: [`${CONFIG.VERIFICATION_PACKAGE}::sealtrust::SEALTRUST`],
-        arguments: [
-          tx.pure.vector('u8', metadata.dataset_id),      // dataset_id
-          tx.pure.vector('u8', metadata.name),            // name
-          tx.pure.vector('u8', metadata.description),     // description
-          tx.pure.vector('u8', metadata.format),          // format
-          tx.pure.u64(metadata.size),                     // size
-          tx.pure.vector('u8', metadata.original_hash),   // original_hash
-          tx.pure.vector('u8', hexToVecU8(metadataHash)), // metadata_hash
-          tx.pure.string(blobId.trim()),                  // walrus_blob_id
-          tx.pure.string(policyId.trim()),                // seal_policy_id
-          tx.pure.option('id', allowlistId.trim()),       // seal_allowlist_id
-          tx.pure.u64(timestamp),                         // timestamp_ms
-          tx.pure.vector('u8', signatureBytes),           // tee_signature
-          tx.object(CONFIG.ENCLAVE_ID),                   // enclave (Enclave<T>)
-        ],
-      });
-
-      // Transfer the NFT to the user (required by Move resource safety)
-      tx.transferObjects([nft], tx.pure.address(currentAccount.address));
-
-      tx.setGasBudget(100_000_000);
-
-      const result = await signAndExecuteTransaction({
-        transaction: tx,
-        chain: 'sui:testnet',
-      });
-
-      console.log('✅ Transaction successful:', result.digest);
-
-      // Wait for transaction to be indexed, then get NFT ID
-      const txResponse = await suiClient.waitForTransaction({
-        digest: result.digest,
-        options: { showObjectChanges: true },
-      });
-
-      const createdNFT = txResponse.objectChanges?.find(
-        (change) => change.type === 'created' && 'objectType' in change && change.objectType?.includes('DatasetNFT')
+          signPersonalMessage,
+          fetchDataset,
+        },
+        {
+          onStep: (pipelineStep, message) => {
+            setStep(PIPELINE_UI_STEPS[pipelineStep]);
+            setProgress(message);
+          },
+          onJobUpdate: (updated) => {
+            latest = updated;
+          },
+          onTransferProgress: (_pipelineStep, transfer) => {
+            setUploadProgress(transfer);
+          },
+          onWarning: (message) => {
+            toast.warning(message);
+          },
+        },
+        { signal: uploadAbortRef.current.signal }
       );
 
-      const nftId = (createdNFT && 'objectId' in createdNFT) ? createdNFT.objectId : '';
-
       // Success!
+      await registrationJobStore.remove(completed.id);
       setStep('complete');
       setShowModal(true);
       setReceiptData({
-        datasetUrl: datasetUrl || `file://${datasetFile.name}`,
-        hash: originalHash,
-        blobId,
-        policyId,
-        timestamp,
-        txId: result.digest,
-        nftId,
-        registrant: currentAccount.address,
-        format: datasetFile.type || format,
-        allowlistId: cachedResults.allowlistId,
-        allowlistCapId: cachedResults.allowlistCapId,
+        datasetUrl: completed.source.kind === 'url' ? completed.source.url : `file://${completed.fileName}`,
+        hash: completed.originalHash!,
+        blobId: completed.blobId!,
+        policyId: completed.policyId!,
+        timestamp: completed.metadata!.timestamp,
+        txId: completed.txDigest!,
+        nftId: completed.nftId || '',
+        registrant: completed.owner,
+        format: completed.format,
+        schemaFingerprint: completed.schemaFingerprint,
+        schemaColumns: completed.schema?.columns.length,
+        allowlistId: completed.allowlistId,
+        allowlistCapId: completed.allowlistCapId,
       });
 
-      // Clear cache on success
-      setCachedResults({});
-
       toast.success('Dataset registered successfully! 🎉');
 
     } catch (error) {
       console.error('Registration failed:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Registration failed';
-      toast.error(errorMessage);
-
-      // Don't clear cache automatically - allow retry
-      // Show helpful message about cached results
-      if (Object.keys(cachedResults).length > 0) {
-        toast.info('Progress saved. You can retry from where you left off.', {
-          duration: 5000,
-          action: {
-            label: 'Clear Cache',
-            onClick: () => {
-              setCachedResults({});
-              toast.success('Cache cleared. Starting fresh.');
-            }
-          }
-        });
+      if (error instanceof WalrusTransferCancelledError) {
+        toast.info('Upload cancelled');
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Registration failed';
+        toast.error(errorMessage);
+      }
+
+      if (error instanceof TeeSignatureError) {
+        setTeeMismatch(error);
+      }
+
+      // Nothing on-chain yet (e.g. URL fetch failed) - no point keeping the job around
+      if (!latest.allowlistId && latest.steps.allowlist.status !== 'done') {
+        await registrationJobStore.remove(latest.id);
+      } else {
+        toast.info('Progress saved. You can resume this registration from where it stopped.', { duration: 5000 });
       }
 
+      setPendingRefreshKey(key => key + 1);
       setStep('input');
       setProgress('');
+    } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
     }
   };
 
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  // V3 Architecture: Complete registration flow
+  const handleRegisterDataset = async () => {
+    // Validate input: need either file OR URL
+    if (!file && !datasetUrl) {
+      toast.error(ERROR_MESSAGES.NO_FILE_OR_URL);
+      return;
+    }
+
+    if (!currentAccount) {
+      toast.error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+      return;
+    }
+
+    if (datasetUrl && !file) {
+      // Validate URL
+      const validation = validateDatasetURL(datasetUrl);
+      if (!validation.isValid) {
+        toast.error(validation.error);
+        return;
+      }
+    }
+
+    const job = await registrationJobStore.save(createRegistrationJob({
+      owner: currentAccount.address,
+      source: file
+        ? { kind: 'file', fileName: file.name, fileSize: file.size, fileType: file.type, lastModified: file.lastModified }
+        : { kind: 'url', url: datasetUrl },
+      description,
+      format,
+      initialMembers,
+      epochs,
+    }));
+
+    await runJob(job, file);
+  };
+
   const isLoading = step !== 'input' && step !== 'complete';
 
   // Get loading message and progress based on current step
   const getLoadingState = () => {
     const stepMap = {
       fetching: { message: 'Fetching Dataset', current: 1, total: 6, label: 'Downloading from URL' },
-      hashing: { message: 'Computing Hash', current: 2, total: 6, label: 'Generating SHA-256 fingerprint' },
+      allowlisting: { message: 'Creating Allowlist', current: 2, total: 6, label: 'Setting up Seal access control' },
       encrypting: { message: 'Encrypting Dataset', current: 3, total: 6, label: 'Securing with Seal encryption' },
       uploading: { message: 'Uploading to Walrus', current: 4, total: 6, label: 'Storing on decentralized network' },
       verifying: { message: 'TEE Verification', current: 5, total: 6, label: 'Verifying with Nautilus enclave' },
@@ -769,6 +516,16 @@ export default function RegisterPage() {
                           </div>
                         </div>
 
+                        {/* Walrus upload bytes */}
+                        {uploadProgress && (step === 'uploading' || step === 'encrypting') && (
+                          <TransferProgressBar
+                            progress={uploadProgress}
+                            label={progress || 'Uploading to Walrus'}
+                            barClassName="bg-green-600"
+                            onCancel={handleCancelUpload}
+                          />
+                        )}
+
                         {/* Animated dots */}
                         <div className="flex gap-1.5">
                           <div className="w-2 h-2 rounded-full bg-primary animate-bounce" style={{ animationDelay: '0ms' }} />
@@ -785,6 +542,9 @@ export default function RegisterPage() {
                 <div className="flex items-center gap-2 mb-4">
                   <Database weight="regular" size={24} className="text-primary" />
                   <h2 className="text-xl font-bold">Register Dataset</h2>
+                  <Link href="/register/batch" className="ml-auto text-xs text-primary hover:underline">
+                    Batch mode
+                  </Link>
                 </div>
 
                 {step === 'complete' && receiptData ? (
@@ -808,27 +568,14 @@ export default function RegisterPage() {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {/* Cache Status Indicator */}
-                    {Object.keys(cachedResults).length > 0 && (
-                      <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 flex items-center justify-between">
-                        <div>
-                          <p className="text-sm font-semibold text-blue-900">
-                            💾 Progress Cached
-                          </p>
-                          <p className="text-xs text-blue-700">
-                            Previous progress will be reused on retry
-                          </p>
-                        </div>
-                        <button
-                          onClick={() => {
-                            setCachedResults({});
-                            toast.success('Cache cleared. Starting fresh.');
-                          }}
-                          className="px-3 py-1.5 bg-white text-blue-600 border border-blue-300 rounded-lg text-xs font-medium hover:bg-blue-50 transition-colors"
-                        >
-                          Clear Cache
-                        </button>
-                      </div>
+                    {/* Pending (resumable) registrations */}
+                    {currentAccount && (
+                      <PendingRegistrations
+                        owner={currentAccount.address}
+                        refreshKey={pendingRefreshKey}
+                        disabled={isLoading}
+                        onResume={runJob}
+                      />
                     )}
 
                     {/* Dataset URL Input */}
@@ -846,19 +593,20 @@ export default function RegisterPage() {
                           if (e.target.value.trim()) {
                             setFile(null);
                           }
-                          // Auto-detect format from URL
+                          // Auto-detect format from URL (the content is checked once fetched)
                           if (e.target.value.trim()) {
                             const urlFormat = detectFormatFromURL(e.target.value);
-                            if (urlFormat !== 'Unknown') {
+                            if (urlFormat) {
                               setFormat(urlFormat);
                             }
+                            setFormatWarning(null);
                           }
                         }}
                         disabled={isLoading || !!file}
                         className="w-full px-3 py-2.5 rounded-xl bg-white border border-border focus:outline-none focus:border-primary transition-colors disabled:opacity-50 text-sm"
                       />
                       <p className="text-xs text-muted-foreground mt-1">
-                        Supported: GitHub, Kaggle, HuggingFace, Data.world, Google Cloud Storage, AWS S3
+                        Supported: {supportedSources()}
                       </p>
                     </div>
 
@@ -893,7 +641,7 @@ export default function RegisterPage() {
                         </label>
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
-                        Accepts CSV, JSON, Parquet files
+                        Accepts CSV, JSON, Parquet files up to {CONFIG.MAX_CHUNKED_FILE_SIZE_GB}GB (large files are stored in chunks)
                       </p>
                     </div>
 
@@ -919,17 +667,27 @@ export default function RegisterPage() {
                       </label>
                       <select
                         value={format}
-                        onChange={(e) => setFormat(e.target.value)}
+                        onChange={(e) => setFormat(e.target.value as DatasetFormat)}
                         disabled={isLoading}
                         className="w-full px-3 py-2.5 rounded-xl bg-white border border-border focus:outline-none focus:border-primary transition-colors disabled:opacity-50 text-sm"
                       >
-                        <option value="CSV">CSV</option>
-                        <option value="JSON">JSON</option>
-                        <option value="Parquet">Parquet</option>
-                        <option value="Other">Other</option>
+                        {DATASET_FORMATS.map(value => (
+                          <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+                        ))}
                       </select>
+                      {formatWarning && (
+                        <p className="text-xs text-amber-700 mt-1">{formatWarning}</p>
+                      )}
                     </div>
 
+                    {/* Storage Duration */}
+                    <EpochSelector
+                      epochs={epochs}
+                      onChange={setEpochs}
+                      size={file ? file.size : null}
+                      disabled={isLoading}
+                    />
+
                     {/* Initial Access Configuration */}
                     <div className="border border-border rounded-xl p-4 bg-gradient-to-br from-purple-50/50 to-blue-50/50">
                       <div className="flex items-center justify-between mb-3">
@@ -1048,6 +806,35 @@ export default function RegisterPage() {
                       )}
                     </div>
 
+                    {/* TEE signature check failed - registration blocked before paying gas */}
+                    {teeMismatch && step === 'input' && (
+                      <div className="bg-red-50 border border-red-200 rounded-xl p-4 space-y-2">
+                        <p className="text-sm font-semibold text-red-900">
+                          Registration blocked: {teeMismatch.message}
+                        </p>
+                        {teeMismatch.diffs.length > 0 && (
+                          <table className="w-full text-xs">
+                            <thead className="text-left text-red-700">
+                              <tr>
+                                <th className="py-1 pr-2 font-medium">Field</th>
+                                <th className="py-1 pr-2 font-medium">Submitted</th>
+                                <th className="py-1 font-medium">Signed by enclave</th>
+                              </tr>
+                            </thead>
+                            <tbody className="font-mono text-red-900">
+                              {teeMismatch.diffs.map(diff => (
+                                <tr key={diff.field} className="border-t border-red-200 align-top">
+                                  <td className="py-1 pr-2">{diff.field}</td>
+                                  <td className="py-1 pr-2 break-all">{diff.expected}</td>
+                                  <td className="py-1 break-all">{diff.actual}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                    )}
+
                     {/* Status Messages */}
                     {step === 'fetching' && (
                       <div className="bg-purple-50 border border-purple-200 rounded-xl p-4">
@@ -1071,10 +858,10 @@ export default function RegisterPage() {
                       </div>
                     )}
 
-                    {step === 'hashing' && (
+                    {step === 'allowlisting' && (
                       <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
                         <p className="text-sm text-blue-900">
-                          Computing hash of original file...
+                          {progress || 'Creating Seal allowlist...'}
                         </p>
                       </div>
                     )}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { Header } from '@/components/layout/Header';
+import { ArrowLeft, ArrowClockwise, CheckCircle, CircleNotch, Gear, Pulse, Warning, XCircle } from '@phosphor-icons/react';
+import { useNetworkProfile } from '@/hooks/useNetworkProfile';
+import { ConfigIssue, hasDeployment, validateNetworkProfile, verifyNetworkObjects } from '@/lib/config-validation';
+import { ServiceCheckResult, checkAllServices } from '@/lib/service-status';
+
+// Profile fields shown in the configuration summary
+const CONFIG_FIELDS = [
+  { field: 'verificationPackage', label: 'SealTrust package' },
+  { field: 'enclaveId', label: 'Enclave' },
+  { field: 'enclaveConfigId', label: 'Enclave config' },
+  { field: 'enclavePackageId', label: 'Nautilus package' },
+  { field: 'sealPackageId', label: 'Seal package' },
+  { field: 'sealAllowlistPackageId', label: 'Seal allowlist package' },
+] as const;
+
+function latencyClass(latencyMs: number): string {
+  if (latencyMs < 500) return 'text-green-700';
+  if (latencyMs < 2000) return 'text-amber-700';
+  return 'text-red-700';
+}
+
+export default function StatusPage() {
+  const suiClient = useSuiClient();
+  const profile = useNetworkProfile();
+
+  const [loading, setLoading] = useState(true);
+  const [issues, setIssues] = useState<ConfigIssue[]>([]);
+  const [onChainError, setOnChainError] = useState<string | null>(null);
+  const [services, setServices] = useState<ServiceCheckResult[]>([]);
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+
+  const runChecks = useCallback(async () => {
+    setLoading(true);
+    setOnChainError(null);
+
+    const formatIssues = validateNetworkProfile(profile);
+    const [objectIssues, serviceResults] = await Promise.all([
+      verifyNetworkObjects(profile, suiClient).catch(err => {
+        console.error('Failed to verify on-chain objects:', err);
+        setOnChainError(err instanceof Error ? err.message : 'Failed to verify on-chain objects');
+        return [];
+      }),
+      checkAllServices(profile, suiClient),
+    ]);
+
+    setIssues([...formatIssues, ...objectIssues]);
+    setServices(serviceResults);
+    setCheckedAt(new Date());
+    setLoading(false);
+  }, [profile, suiClient]);
+
+  useEffect(() => {
+    runChecks();
+  }, [runChecks]);
+
+  const issuesFor = (field: string) => issues.filter(issue => issue.field === field);
+  const otherIssues = issues.filter(issue => !CONFIG_FIELDS.some(({ field }) => field === issue.field));
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const servicesDown = services.filter(service => service.status === 'down').length;
+  const servicesBlocked = services.filter(service => service.status === 'blocked').length;
+
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gradient-to-b from-white via-orange-50/20 to-white pt-24 pb-16">
+        <div className="container-fluid max-w-5xl">
+          {/* Back Link */}
+          <Link
+            href="/about"
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-primary transition-colors mb-8"
+          >
+            <ArrowLeft weight="regular" size={20} />
+            <span>Back to About</span>
+          </Link>
+
+          <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+            <div className="space-y-4">
+              <h1 className="text-4xl lg:text-5xl font-bold tracking-tight">
+                System Status
+              </h1>
+              <p className="text-xl text-muted-foreground">
+                Configuration and live service checks for Sui {profile.label}.
+              </p>
+            </div>
+            <button
+              onClick={runChecks}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-border hover:bg-muted transition-colors disabled:opacity-50"
+            >
+              <ArrowClockwise weight="regular" size={18} className={loading ? 'animate-spin' : ''} />
+              Refresh
+            </button>
+          </div>
+
+          {!hasDeployment(profile) && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-900 mb-6">
+              SealTrust is not deployed on {profile.label} in this configuration. Set its IDs through
+              NEXT_PUBLIC_NETWORK_PROFILES.
+            </div>
+          )}
+
+          {loading && services.length === 0 ? (
+            <div className="flex items-center gap-3 text-muted-foreground py-12 justify-center">
+              <CircleNotch weight="regular" size={24} className="animate-spin" />
+              <span>Checking {profile.label} configuration and services...</span>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Configuration */}
+              <div className="bg-white rounded-2xl shadow-xl border border-border p-5 space-y-4">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Gear weight="regular" size={24} className="text-primary" />
+                    <h2 className="text-xl font-bold">Configuration</h2>
+                  </div>
+                  <span className={`text-sm font-medium ${errorCount > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                    {errorCount > 0 ? `${errorCount} ${errorCount === 1 ? 'problem' : 'problems'}` : 'Valid'}
+                  </span>
+                </div>
+
+                {onChainError && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 text-sm text-amber-900">
+                    Objects could not be checked on-chain: {onChainError}
+                  </div>
+                )}
+
+                <ul className="divide-y divide-border text-sm">
+                  {CONFIG_FIELDS.map(({ field, label }) => {
+                    const fieldIssues = issuesFor(field);
+                    return (
+                      <li key={field} className="py-2.5 flex items-start gap-2">
+                        {fieldIssues.length === 0
+                          ? <CheckCircle weight="fill" size={18} className="text-green-600 flex-shrink-0 mt-0.5" />
+                          : <XCircle weight="fill" size={18} className="text-red-600 flex-shrink-0 mt-0.5" />}
+                        <div className="min-w-0">
+                          <p className="font-medium">{label}</p>
+                          <p className="font-mono text-xs text-muted-foreground break-all">{profile[field] || 'Not set'}</p>
+                          {fieldIssues.map(issue => (
+                            <p key={issue.message} className="text-xs text-red-700">{issue.message}</p>
+                          ))}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+
+                {otherIssues.length > 0 && (
+                  <ul className="space-y-1.5 pt-3 border-t border-border text-sm">
+                    {otherIssues.map(issue => (
+                      <li key={`${issue.field}-${issue.message}`} className="flex items-start gap-2">
+                        {issue.severity === 'error'
+                          ? <XCircle weight="fill" size={18} className="text-red-600 flex-shrink-0 mt-0.5" />
+                          : <Warning weight="fill" size={18} className="text-amber-500 flex-shrink-0 mt-0.5" />}
+                        <span className="min-w-0">
+                          <span className="font-mono text-xs">{issue.field}</span>
+                          {issue.value && <span className="font-mono text-xs text-muted-foreground break-all"> ({issue.value})</span>}
+                          {' '}{issue.message}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Services */}
+              <div className="bg-white rounded-2xl shadow-xl border border-border p-5 space-y-4">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Pulse weight="regular" size={24} className="text-primary" />
+                    <h2 className="text-xl font-bold">Services</h2>
+                  </div>
+                  <span className={`text-sm font-medium ${
+                    servicesDown > 0 ? 'text-red-700' : servicesBlocked > 0 ? 'text-amber-700' : 'text-green-700'
+                  }`}>
+                    {servicesDown + servicesBlocked === 0
+                      ? 'All operational'
+                      : [
+                          servicesDown > 0 && `${servicesDown} of ${services.length} down`,
+                          servicesBlocked > 0 && `${servicesBlocked} blocked by CSP`,
+                        ].filter(Boolean).join(', ')}
+                  </span>
+                </div>
+
+                <ul className="divide-y divide-border text-sm">
+                  {services.map(service => (
+                    <li key={`${service.kind}-${service.endpoint}`} className="py-2.5 flex items-start gap-2">
+                      {service.status === 'up'
+                        ? <CheckCircle weight="fill" size={18} className="text-green-600 flex-shrink-0 mt-0.5" />
+                        : service.status === 'blocked'
+                          ? <Warning weight="fill" size={18} className="text-amber-500 flex-shrink-0 mt-0.5" />
+                          : <XCircle weight="fill" size={18} className="text-red-600 flex-shrink-0 mt-0.5" />}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">{service.name}</p>
+                        <p className="font-mono text-xs text-muted-foreground break-all">{service.endpoint}</p>
+                        {service.detail && (
+                          <p className={`text-xs ${
+                            service.status === 'up' ? 'text-muted-foreground' : service.status === 'blocked' ? 'text-amber-700' : 'text-red-700'
+                          }`}>
+                            {service.detail}
+                          </p>
+                        )}
+                      </div>
+                      <span className={`font-mono text-xs whitespace-nowrap ${
+                        service.latencyMs === null ? 'text-muted-foreground' : latencyClass(service.latencyMs)
+                      }`}>
+                        {service.latencyMs === null ? '—' : `${service.latencyMs} ms`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {checkedAt && (
+                  <p className="text-xs text-muted-foreground">Checked at {checkedAt.toLocaleTimeString()}</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -14,7 +14,9 @@ import {
 import { useSealTrust } from '@/hooks/useSealTrust';
 import { computeFileHash, computeUrlHash, formatHash } from '@/lib/utils/crypto';
 import { toast } from 'sonner';
-import { DatasetNFT } from '@/lib/types';
+import { DatasetNFT, HashProgress, RegistryEntry } from '@/lib/types';
+import { detectDatasetFormat } from '@/lib/dataset-format';
+import { inferDatasetSchema, schemaFingerprint } from '@/lib/schema-inference';
 
 export default function VerifyPage() {
   const [verificationMethod, setVerificationMethod] = useState<'file' | 'url' | 'hash'>('file');
@@ -23,8 +25,11 @@ export default function VerifyPage() {
   const [manualHash, setManualHash] = useState('');
   const [computedHash, setComputedHash] = useState('');
   const [isHashing, setIsHashing] = useState(false);
+  const [hashProgress, setHashProgress] = useState<HashProgress | null>(null);
+  const [fileSchemaFingerprint, setFileSchemaFingerprint] = useState<string | null>(null);
+  const [schemaMatches, setSchemaMatches] = useState<RegistryEntry[]>([]);
 
-  const { verifyDataset, verifying } = useSealTrust();
+  const { verifyDataset, findDatasetsBySchema, verifying } = useSealTrust();
   const [verificationResult, setVerificationResult] = useState<{
     found: boolean;
     dataset: DatasetNFT | null;
@@ -70,6 +75,7 @@ export default function VerifyPage() {
     if (file) {
       setSelectedFile(file);
       setComputedHash('');
+      setFileSchemaFingerprint(null);
       setVerificationResult(null);
     }
   };
@@ -77,7 +83,9 @@ export default function VerifyPage() {
   const handleHashComputation = async () => {
     console.log('🔨 handleHashComputation called, method:', verificationMethod);
     setIsHashing(true);
+    setHashProgress(null);
     setVerificationResult(null);
+    setFileSchemaFingerprint(null);
 
     try {
       let hashResult;
@@ -89,7 +97,12 @@ export default function VerifyPage() {
           return;
         }
         console.log('📁 Computing hash for file:', selectedFile.name);
-        hashResult = await computeFileHash(selectedFile);
+        hashResult = await computeFileHash(selectedFile, setHashProgress);
+
+        // Schema fingerprint - lets an unregistered file be matched to datasets with the same columns
+        const { format } = await detectDatasetFormat(selectedFile);
+        const schema = await inferDatasetSchema(selectedFile, format);
+        if (schema) setFileSchemaFingerprint(await schemaFingerprint(schema));
       } else {
         if (!fileUrl) {
           toast.error('Please enter a valid URL');
@@ -97,18 +110,21 @@ export default function VerifyPage() {
           return;
         }
         console.log('🌐 Computing hash for URL:', fileUrl);
-        hashResult = await computeUrlHash(fileUrl);
+        hashResult = await computeUrlHash(fileUrl, setHashProgress);
       }
 
       console.log('✅ Hash computed:', hashResult.hash.substring(0, 16) + '...');
       setComputedHash(hashResult.hash);
-      toast.success(`Hash computed: ${formatHash(hashResult.hash, 16)}`);
+      toast.success(`Hash computed: ${formatHash(hashResult.hash, 16)}`, {
+        description: hashResult.serverVerified ? 'Matches the digest the fetch proxy computed' : undefined,
+      });
     } catch (error) {
       console.error('💥 Hash computation error:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to compute hash');
       setComputedHash('');
     } finally {
       setIsHashing(false);
+      setHashProgress(null);
     }
   };
 
@@ -122,6 +138,7 @@ export default function VerifyPage() {
     }
 
     const toastId = toast.loading('Searching blockchain...');
+    setSchemaMatches([]);
 
     try {
       console.log('📡 Calling verifyDataset...');
@@ -140,6 +157,13 @@ export default function VerifyPage() {
       } else {
         console.log('❌ Dataset not found in registry');
         toast.error('Dataset not found in registry', { id: toastId });
+
+        // The content is unknown - the file may still be a new version of a registered dataset
+        if (fileSchemaFingerprint && verificationMethod === 'file') {
+          const matches = await findDatasetsBySchema(fileSchemaFingerprint);
+          if (matches.length > 0) console.log('🧬 Same schema as', matches.length, 'registered dataset(s)');
+          setSchemaMatches(matches);
+        }
       }
     } catch (error) {
       console.error('💥 Verification error:', error);
@@ -325,7 +349,9 @@ export default function VerifyPage() {
                 computedHash={computedHash}
                 verifying={verifying}
                 isHashing={isHashing}
+                hashProgress={hashProgress}
                 verificationResult={verificationResult}
+                schemaMatches={schemaMatches}
               />
             </div>
           </div>
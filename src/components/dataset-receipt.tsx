@@ -5,6 +5,7 @@ import Image from "next/image";
 import { X, Share2, Download, Copy, Check, ExternalLink } from "lucide-react";
 import { toPng } from "html-to-image";
 import QRCode from "react-qr-code";
+import { explorerTxUrl } from "@/lib/networks";
 
 interface DatasetReceiptProps {
   datasetUrl: string;
@@ -19,6 +20,8 @@ interface DatasetReceiptProps {
   allowlistCapId?: string;
   format?: string;
   schemaVersion?: string;
+  schemaFingerprint?: string;    // SHA-256 of the inferred schema document
+  schemaColumns?: number;
   onClose?: () => void;
 }
 
@@ -35,6 +38,8 @@ export function DatasetReceipt({
   allowlistCapId,
   format = "CSV",
   schemaVersion = "v1.0",
+  schemaFingerprint,
+  schemaColumns,
   onClose
 }: DatasetReceiptProps) {
   const [copied, setCopied] = useState(false);
@@ -228,8 +233,15 @@ export function DatasetReceipt({
               <p className="text-sm text-gray-800">{format}</p>
             </div>
             <div>
-              <p className="text-xs text-gray-500 mb-1">Schema Version</p>
-              <p className="text-sm text-gray-800">{schemaVersion}</p>
+              <p className="text-xs text-gray-500 mb-1">{schemaFingerprint ? "Schema" : "Schema Version"}</p>
+              {schemaFingerprint ? (
+                <p className="text-sm text-gray-800">
+                  {schemaColumns} columns
+                  <span className="block text-xs text-gray-600 font-mono">{schemaFingerprint.slice(0, 16)}...</span>
+                </p>
+              ) : (
+                <p className="text-sm text-gray-800">{schemaVersion}</p>
+              )}
             </div>
             <div>
               <p className="text-xs text-gray-500 mb-1">Network</p>
@@ -254,7 +266,7 @@ export function DatasetReceipt({
                 </div>
               </div>
               <a
-                href={`https://suiscan.xyz/testnet/tx/${txId}`}
+                href={explorerTxUrl(txId)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="flex items-center gap-1.5 text-xs text-gray-600 hover:text-gray-900 transition-colors"
@@ -5,7 +5,7 @@ import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@
 import { toast } from 'sonner';
 import { Plus, Trash2, Users, Shield, AlertCircle, ListPlus } from 'lucide-react';
 import { allowlistService } from '@/lib/allowlist-service';
-import { CONFIG } from '@/lib/constants';
+import { getNetworkProfile } from '@/lib/networks';
 
 interface AccessManagementProps {
   allowlistId: string;
@@ -86,7 +86,7 @@ export function AccessManagement({
         allowlistId,
         capId,
         newMemberAddress,
-        CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
+        getNetworkProfile().sealAllowlistPackageId,
         signAndExecuteTransaction
       );
 
@@ -124,7 +124,7 @@ export function AccessManagement({
         allowlistId,
         capId,
         address,
-        CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
+        getNetworkProfile().sealAllowlistPackageId,
         signAndExecuteTransaction
       );
 
@@ -227,7 +227,7 @@ export function AccessManagement({
           allowlistId,
           capId,
           address,
-          CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
+          getNetworkProfile().sealAllowlistPackageId,
           signAndExecuteTransaction
         );
 
@@ -1,12 +1,17 @@
 'use client';
 
-import { useState } from 'react';
-import { Download, CheckCircle, X, Warning } from '@phosphor-icons/react';
+import { useRef, useState } from 'react';
+import { Download, CheckCircle, X, Warning, Table } from '@phosphor-icons/react';
 import { useCurrentAccount, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
 import { toast } from 'sonner';
 import { sealService } from '@/lib/seal-service';
-import { walrusService } from '@/lib/walrus-service';
-import { CONFIG } from '@/lib/constants';
+import { walrusService, WalrusTransferCancelledError } from '@/lib/walrus-service';
+import { getNetworkProfile } from '@/lib/networks';
+import { FORMAT_MIME_TYPES, normalizeFormat } from '@/lib/dataset-format';
+import { decodeSignedManifest, verifyManifestSignature } from '@/lib/chunked-dataset';
+import { TransferProgress } from '@/lib/types';
+import { TransferProgressBar } from '@/components/transfer-progress';
+import { DatasetPreview } from '@/components/dataset/DatasetPreview';
 
 interface DatasetDownloadProps {
   isOpen: boolean;
@@ -37,9 +42,24 @@ export function DatasetDownload({
   const [progress, setProgress] = useState('');
   const [error, setError] = useState('');
   const [decryptedBlob, setDecryptedBlob] = useState<Blob | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  // Walrus download bytes (the current chunk for chunked datasets), and its cancel controller
+  const [transfer, setTransfer] = useState<TransferProgress | null>(null);
+  const [transferLabel, setTransferLabel] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
 
   if (!isOpen) return null;
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleClose = () => {
+    handleCancel();
+    onClose();
+  };
+
   const handleDownload = async () => {
     if (!currentAccount) {
       toast.error('Please connect your wallet to download');
@@ -51,30 +71,70 @@ export function DatasetDownload({
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      // Step 1: Download encrypted blob from Walrus
+      // Step 1: Download encrypted blob (or chunk manifest) from Walrus
       setStep('downloading');
       setProgress('Downloading encrypted blob from Walrus...');
-      const encryptedArrayBuffer = await walrusService.downloadFromWalrus(walrusBlobId);
-      console.log('✅ Downloaded encrypted blob:', encryptedArrayBuffer.byteLength, 'bytes');
-
-      // DEBUG: Inspect the downloaded data structure
-      const uint8View = new Uint8Array(encryptedArrayBuffer);
-      console.log('🔍 First 64 bytes of encrypted data (hex):');
-      console.log(Array.from(uint8View.slice(0, 64))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join(' ')
-      );
+      setTransferLabel('Encrypted blob');
+      const { data: encryptedArrayBuffer, endpoint } = await walrusService.fetchBlob(walrusBlobId, {
+        signal: controller.signal,
+        onProgress: setTransfer,
+      });
+      setTransfer(null);
+      console.log('✅ Downloaded encrypted blob:', encryptedArrayBuffer.byteLength, 'bytes from', endpoint);
+
+      // Large datasets are stored as a signed manifest pointing at encrypted chunks
+      const signedManifest = decodeSignedManifest(new Uint8Array(encryptedArrayBuffer));
+      if (signedManifest) {
+        const { manifest } = signedManifest;
+        console.log('📦 Chunked dataset:', manifest.chunks.length, 'chunk(s)');
+
+        if (manifest.original_hash !== originalHash) {
+          throw new Error('Chunk manifest does not match this dataset (original hash differs from on-chain record).');
+        }
 
-      // Check if this might be plain text instead of encrypted data
-      const textPreview = new TextDecoder('utf-8', { fatal: false }).decode(uint8View.slice(0, 200));
-      console.log('🔍 Data preview (as text):', textPreview);
+        setProgress('Verifying chunk manifest signature...');
+        if (!(await verifyManifestSignature(signedManifest, suiClient))) {
+          throw new Error('Chunk manifest signature is invalid. The chunk list may have been tampered with.');
+        }
 
-      // Check specific BCS offsets that might contain the enum
-      console.log('🔍 Bytes at various offsets:');
-      console.log('  [0-4]:', Array.from(uint8View.slice(0, 4)).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(' '));
-      console.log('  [4-8]:', Array.from(uint8View.slice(4, 8)).map(b => `0x${b.toString(16).padStart(2, '0')}`).join(' '));
-      console.log('  Total size:', encryptedArrayBuffer.byteLength, 'bytes');
+        setStep('decrypting');
+        setProgress(`Downloading and decrypting chunk 1 of ${manifest.chunks.length}...`);
+
+        const blob = await sealService.downloadAndDecryptChunkedDataset(
+          signedManifest,
+          sealAllowlistId,
+          getNetworkProfile().sealPackageId,
+          getNetworkProfile().sealAllowlistPackageId,
+          currentAccount.address,
+          suiClient,
+          signPersonalMessage,
+          (blobId) => {
+            const index = manifest.chunks.findIndex(chunk => chunk.blob_id === blobId);
+            setTransferLabel(`Chunk ${index + 1} of ${manifest.chunks.length}`);
+            return walrusService.downloadFromWalrus(blobId, {
+              signal: controller.signal,
+              onProgress: setTransfer,
+            });
+          },
+          getContentType(format),
+          (completed, total) => {
+            setProgress(completed < total
+              ? `Downloading and decrypting chunk ${completed + 1} of ${total}...`
+              : 'Verifying data integrity...');
+          }
+        );
+
+        setDecryptedBlob(blob);
+        setStep('complete');
+        setProgress('');
+        setTransfer(null);
+        toast.success('Dataset decrypted and verified! 🎉');
+        return;
+      }
 
       // Step 2: Decrypt with Seal (handles session key + approval tx automatically)
       setStep('decrypting');
@@ -85,8 +145,8 @@ export function DatasetDownload({
         encryptedArrayBuffer,
         sealPolicyId,
         sealAllowlistId,
-        CONFIG.SEAL_PACKAGE_ID,
-        CONFIG.SEAL_ALLOWLIST_PACKAGE_ID,
+        getNetworkProfile().sealPackageId,
+        getNetworkProfile().sealAllowlistPackageId,
         currentAccount.address,
         suiClient,
         signPersonalMessage  // No wrapper needed - it expects Uint8Array now
@@ -116,6 +176,16 @@ export function DatasetDownload({
       toast.success('Dataset decrypted and verified! 🎉');
 
     } catch (err) {
+      setTransfer(null);
+
+      if (err instanceof WalrusTransferCancelledError) {
+        console.log('🛑 Download cancelled');
+        setStep('idle');
+        setProgress('');
+        toast.info('Download cancelled');
+        return;
+      }
+
       console.error('Download/decrypt failed:', err);
       let errorMessage = err instanceof Error ? err.message : 'Failed to download dataset';
 
@@ -151,15 +221,7 @@ export function DatasetDownload({
     toast.success('Download started!');
   };
 
-  const getContentType = (fmt: string): string => {
-    const typeMap: Record<string, string> = {
-      'CSV': 'text/csv',
-      'JSON': 'application/json',
-      'Parquet': 'application/octet-stream',
-      'AVRO': 'application/octet-stream',
-    };
-    return typeMap[fmt] || 'application/octet-stream';
-  };
+  const getContentType = (fmt: string): string => FORMAT_MIME_TYPES[normalizeFormat(fmt)];
 
   const isProcessing = step === 'downloading' || step === 'decrypting' || step === 'verifying';
 
@@ -168,14 +230,16 @@ export function DatasetDownload({
       {/* Backdrop */}
       <div
         className="absolute inset-0 bg-black/50 backdrop-blur-sm"
-        onClick={onClose}
+        onClick={handleClose}
       />
 
       {/* Modal */}
-      <div className="relative bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4">
+      <div className={`relative bg-white rounded-2xl shadow-2xl p-8 w-full mx-4 ${
+        showPreview ? 'max-w-5xl max-h-[90vh] overflow-y-auto' : 'max-w-md'
+      }`}>
         {/* Close Button */}
         <button
-          onClick={onClose}
+          onClick={handleClose}
           className="absolute top-4 right-4 text-muted-foreground hover:text-foreground transition-colors"
         >
           <X weight="regular" size={24} />
@@ -251,14 +315,30 @@ export function DatasetDownload({
 
           {/* Progress Messages */}
           {step === 'downloading' && (
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 space-y-2 text-left">
               <p className="text-sm text-blue-900">Downloading from Walrus...</p>
+              {transfer && (
+                <TransferProgressBar
+                  progress={transfer}
+                  label={transferLabel}
+                  barClassName="bg-blue-600"
+                  onCancel={handleCancel}
+                />
+              )}
             </div>
           )}
 
           {step === 'decrypting' && (
-            <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
-              <p className="text-sm text-purple-900">Decrypting with Seal...</p>
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 space-y-2 text-left">
+              <p className="text-sm text-purple-900">{progress || 'Decrypting with Seal...'}</p>
+              {transfer && (
+                <TransferProgressBar
+                  progress={transfer}
+                  label={transferLabel}
+                  barClassName="bg-purple-600"
+                  onCancel={handleCancel}
+                />
+              )}
             </div>
           )}
 
@@ -290,6 +370,16 @@ export function DatasetDownload({
               </button>
             )}
 
+            {step === 'complete' && (
+              <button
+                onClick={() => setShowPreview(!showPreview)}
+                className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-primary text-primary hover:bg-primary/5 transition-colors font-medium"
+              >
+                <Table weight="regular" size={16} />
+                {showPreview ? 'Hide Preview' : 'Preview'}
+              </button>
+            )}
+
             {step === 'error' && (
               <button
                 onClick={() => {
@@ -304,13 +394,18 @@ export function DatasetDownload({
             )}
 
             <button
-              onClick={onClose}
+              onClick={handleClose}
               className="flex-1 px-4 py-2 rounded-lg border border-border hover:bg-muted transition-colors font-medium"
             >
               {step === 'complete' ? 'Done' : 'Cancel'}
             </button>
           </div>
 
+          {/* Preview - parsed locally, the decrypted bytes stay in the browser */}
+          {step === 'complete' && showPreview && decryptedBlob && (
+            <DatasetPreview blob={decryptedBlob} fileName={datasetName} format={format} />
+          )}
+
           {/* Wallet Connection Notice */}
           {!currentAccount && step === 'idle' && (
             <p className="text-xs text-muted-foreground">
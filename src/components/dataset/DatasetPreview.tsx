@@ -0,0 +1,334 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CaretDown, CaretRight, CircleNotch, Warning } from '@phosphor-icons/react';
+import { ColumnStats, DatasetPreview as Preview, PREVIEW_MAX_ROWS, buildDatasetPreview } from '@/lib/dataset-preview';
+import { FORMAT_LABELS } from '@/lib/dataset-format';
+import { ParquetMetadata, ParquetSchemaElement } from '@/lib/parquet-metadata';
+import { formatFileSize } from '@/lib/utils/crypto';
+
+interface DatasetPreviewProps {
+  blob: Blob;                    // Decrypted, integrity-checked dataset
+  fileName: string;
+  format: string;                // Format recorded on-chain
+}
+
+const ROW_HEIGHT = 28;
+const TABLE_HEIGHT = 360;
+const OVERSCAN_ROWS = 10;
+const CELL_WIDTH = 160;
+const ROW_NUMBER_WIDTH = 64;
+const JSON_CHILDREN_SHOWN = 100;
+
+/**
+ * Preview pane for a decrypted dataset: a virtualized table for CSV/TSV/JSON Lines, a tree
+ * for JSON and the row groups and column chunks of Parquet files, with row counts and column
+ * statistics. Parsed in the browser from the Blob - the plaintext never leaves it.
+ */
+export function DatasetPreview({ blob, fileName, format }: DatasetPreviewProps) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setError(null);
+
+    buildDatasetPreview(blob, fileName, format)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(err => {
+        console.error('Failed to build dataset preview:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read the dataset');
+      });
+
+    return () => { cancelled = true; };
+  }, [blob, fileName, format]);
+
+  if (error) {
+    return (
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-left">
+        <Warning weight="fill" size={16} className="text-amber-500 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-amber-900">{error}</p>
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <CircleNotch weight="bold" size={18} className="animate-spin" />
+        Reading dataset...
+      </div>
+    );
+  }
+
+  if (preview.kind === 'unsupported') {
+    return <p className="text-sm text-muted-foreground py-4">{preview.reason}</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-left">
+      {preview.kind === 'table' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {FORMAT_LABELS[preview.format]} · {preview.rowCount.toLocaleString()} rows · {preview.columns.length} columns
+            {preview.rowCount > PREVIEW_MAX_ROWS && ` · table shows the first ${PREVIEW_MAX_ROWS.toLocaleString()} rows`}
+          </p>
+          <VirtualTable columns={preview.columns} rows={preview.rows} />
+          <ColumnStatsTable stats={preview.stats} />
+        </>
+      )}
+
+      {preview.kind === 'json' && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            JSON · {preview.rowCount !== null ? `${preview.rowCount.toLocaleString()} items` : 'single document'}
+            {' '}· {formatFileSize(blob.size)}
+          </p>
+          <div className="max-h-[360px] overflow-auto rounded-lg border border-border bg-gray-50 p-3 font-mono text-xs">
+            <JsonNode name={null} value={preview.value} depth={0} />
+          </div>
+          {preview.stats.length > 0 && <ColumnStatsTable stats={preview.stats} />}
+        </>
+      )}
+
+      {preview.kind === 'parquet' && <ParquetViewer metadata={preview.metadata} />}
+    </div>
+  );
+}
+
+/**
+ * Table that only renders the rows in view (plus a few either side)
+ */
+function VirtualTable({ columns, rows }: { columns: string[]; rows: string[][] }) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + TABLE_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const width = ROW_NUMBER_WIDTH + columns.length * CELL_WIDTH;
+
+  return (
+    <div
+      className="overflow-auto rounded-lg border border-border text-xs"
+      style={{ height: TABLE_HEIGHT }}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="sticky top-0 z-10 flex bg-gray-100 font-semibold border-b border-border" style={{ width, height: ROW_HEIGHT }}>
+        <div className="flex-shrink-0 px-2 flex items-center text-muted-foreground" style={{ width: ROW_NUMBER_WIDTH }}>#</div>
+        {columns.map((column, i) => (
+          <div key={i} className="flex-shrink-0 px-2 flex items-center truncate" style={{ width: CELL_WIDTH }} title={column}>
+            {column}
+          </div>
+        ))}
+      </div>
+      <div className="relative" style={{ width, height: rows.length * ROW_HEIGHT }}>
+        {rows.slice(first, last).map((row, offset) => {
+          const index = first + offset;
+          return (
+            <div
+              key={index}
+              className={`absolute left-0 flex font-mono ${index % 2 ? 'bg-gray-50' : 'bg-white'}`}
+              style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, width }}
+            >
+              <div className="flex-shrink-0 px-2 flex items-center text-muted-foreground" style={{ width: ROW_NUMBER_WIDTH }}>
+                {index + 1}
+              </div>
+              {columns.map((_, i) => (
+                <div key={i} className="flex-shrink-0 px-2 flex items-center truncate" style={{ width: CELL_WIDTH }} title={row[i]}>
+                  {row[i] ?? ''}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ColumnStatsTable({ stats }: { stats: ColumnStats[] }) {
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-100 text-left">
+          <tr>
+            <th className="px-2 py-1.5 font-semibold">Column</th>
+            <th className="px-2 py-1.5 font-semibold">Type</th>
+            <th className="px-2 py-1.5 font-semibold text-right">Values</th>
+            <th className="px-2 py-1.5 font-semibold text-right">Nulls</th>
+            <th className="px-2 py-1.5 font-semibold text-right">Distinct</th>
+            <th className="px-2 py-1.5 font-semibold">Min</th>
+            <th className="px-2 py-1.5 font-semibold">Max</th>
+            <th className="px-2 py-1.5 font-semibold text-right">Mean</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map(column => (
+            <tr key={column.name} className="border-t border-border">
+              <td className="px-2 py-1.5 font-medium truncate max-w-[160px]" title={column.name}>{column.name}</td>
+              <td className="px-2 py-1.5 text-muted-foreground">{column.type}</td>
+              <td className="px-2 py-1.5 text-right">{column.count.toLocaleString()}</td>
+              <td className="px-2 py-1.5 text-right">{column.nulls.toLocaleString()}</td>
+              <td className="px-2 py-1.5 text-right">
+                {column.distinctCapped ? `${column.distinct.toLocaleString()}+` : column.distinct.toLocaleString()}
+              </td>
+              <td className="px-2 py-1.5 font-mono">{column.min ?? '-'}</td>
+              <td className="px-2 py-1.5 font-mono">{column.max ?? '-'}</td>
+              <td className="px-2 py-1.5 text-right font-mono">
+                {column.mean !== undefined ? column.mean.toLocaleString(undefined, { maximumFractionDigits: 4 }) : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * One JSON value - objects and arrays expand on click (the top two levels start expanded)
+ */
+function JsonNode({ name, value, depth }: { name: string | null; value: unknown; depth: number }) {
+  const [expanded, setExpanded] = useState(depth < 2);
+  const [shown, setShown] = useState(JSON_CHILDREN_SHOWN);
+
+  const label = name !== null && <span className="text-purple-700">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    const color = typeof value === 'string' ? 'text-green-700' : typeof value === 'number' ? 'text-blue-700' : 'text-orange-700';
+    return (
+      <div style={{ paddingLeft: depth * 12 }} className="break-all">
+        {label}<span className={color}>{JSON.stringify(value)}</span>
+      </div>
+    );
+  }
+
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, i) => [String(i), item])
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 hover:bg-gray-100 rounded text-left"
+        style={{ paddingLeft: depth * 12 }}
+      >
+        {expanded ? <CaretDown size={10} /> : <CaretRight size={10} />}
+        {label}<span className="text-muted-foreground">{summary}</span>
+      </button>
+      {expanded && (
+        <>
+          {entries.slice(0, shown).map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+          {entries.length > shown && (
+            <button
+              onClick={() => setShown(shown + JSON_CHILDREN_SHOWN)}
+              className="text-primary hover:underline"
+              style={{ paddingLeft: (depth + 1) * 12 }}
+            >
+              Show {Math.min(JSON_CHILDREN_SHOWN, entries.length - shown)} more of {(entries.length - shown).toLocaleString()}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Schema, row groups and column chunk statistics from a Parquet footer
+ */
+function ParquetViewer({ metadata }: { metadata: ParquetMetadata }) {
+  const [selectedGroup, setSelectedGroup] = useState(0);
+  const group = metadata.rowGroups[selectedGroup];
+
+  return (
+    <>
+      <p className="text-xs text-muted-foreground">
+        Parquet · {metadata.numRows.toLocaleString()} rows · {metadata.rowGroups.length} row groups
+        {metadata.createdBy && ` · written by ${metadata.createdBy}`}
+      </p>
+
+      <div className="rounded-lg border border-border p-3 space-y-1 text-xs">
+        <p className="font-semibold mb-1">Columns</p>
+        {metadata.columns.map(column => <ParquetColumn key={column.name} element={column} depth={0} />)}
+      </div>
+
+      {metadata.rowGroups.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1">
+            {metadata.rowGroups.map((rowGroup, i) => (
+              <button
+                key={i}
+                onClick={() => setSelectedGroup(i)}
+                className={`px-2 py-1 rounded text-xs border ${
+                  i === selectedGroup ? 'border-primary bg-primary/10 text-primary' : 'border-border hover:bg-muted'
+                }`}
+              >
+                Row group {i + 1} · {rowGroup.numRows.toLocaleString()} rows
+              </button>
+            ))}
+          </div>
+
+          {group && (
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <p className="px-2 py-1.5 text-xs text-muted-foreground bg-gray-50">
+                {formatFileSize(group.compressedSize)} compressed · {formatFileSize(group.totalByteSize)} uncompressed
+              </p>
+              <table className="w-full text-xs">
+                <thead className="bg-gray-100 text-left">
+                  <tr>
+                    <th className="px-2 py-1.5 font-semibold">Column</th>
+                    <th className="px-2 py-1.5 font-semibold">Codec</th>
+                    <th className="px-2 py-1.5 font-semibold text-right">Values</th>
+                    <th className="px-2 py-1.5 font-semibold text-right">Nulls</th>
+                    <th className="px-2 py-1.5 font-semibold text-right">Distinct</th>
+                    <th className="px-2 py-1.5 font-semibold">Min</th>
+                    <th className="px-2 py-1.5 font-semibold">Max</th>
+                    <th className="px-2 py-1.5 font-semibold text-right">Size</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.columns.map(chunk => (
+                    <tr key={chunk.path.join('.')} className="border-t border-border">
+                      <td className="px-2 py-1.5 font-medium">{chunk.path.join('.')}</td>
+                      <td className="px-2 py-1.5 text-muted-foreground">{chunk.codec}</td>
+                      <td className="px-2 py-1.5 text-right">{chunk.numValues.toLocaleString()}</td>
+                      <td className="px-2 py-1.5 text-right">{chunk.nullCount?.toLocaleString() ?? '-'}</td>
+                      <td className="px-2 py-1.5 text-right">{chunk.distinctCount?.toLocaleString() ?? '-'}</td>
+                      <td className="px-2 py-1.5 font-mono truncate max-w-[160px]" title={chunk.min ?? undefined}>{chunk.min ?? '-'}</td>
+                      <td className="px-2 py-1.5 font-mono truncate max-w-[160px]" title={chunk.max ?? undefined}>{chunk.max ?? '-'}</td>
+                      <td className="px-2 py-1.5 text-right">{formatFileSize(chunk.compressedSize)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Shown from the file&apos;s footer - column values are compressed and are not decoded in the browser.
+      </p>
+    </>
+  );
+}
+
+function ParquetColumn({ element, depth }: { element: ParquetSchemaElement; depth: number }) {
+  const type = element.logicalType ?? element.physicalType ?? 'group';
+
+  return (
+    <>
+      <div className="flex items-center gap-2 font-mono" style={{ paddingLeft: depth * 12 }}>
+        <span className="font-medium">{element.name}</span>
+        <span className="text-muted-foreground">{type}</span>
+        {element.repetition !== 'REQUIRED' && <span className="text-muted-foreground">{element.repetition.toLowerCase()}</span>}
+      </div>
+      {element.children.map(child => <ParquetColumn key={child.name} element={child} depth={depth + 1} />)}
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
+import { ArrowClockwise, CheckCircle, CircleNotch, Clock, Warning } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { DatasetNFT } from '@/lib/types';
+import { DatasetStorageStatus, OwnedBlobObject, walrusStorageService } from '@/lib/walrus-storage';
+import { CONFIG } from '@/lib/constants';
+
+interface StorageLifetimeProps {
+  nft: DatasetNFT;
+}
+
+/**
+ * Walrus certification status and expiry of a dataset, with a storage extension flow
+ * for wallets that hold the dataset's Blob objects
+ */
+export function StorageLifetime({ nft }: StorageLifetimeProps) {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+
+  const [status, setStatus] = useState<DatasetStorageStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [extendEpochs, setExtendEpochs] = useState<number>(CONFIG.WALRUS_EPOCHS);
+  const [extensionCost, setExtensionCost] = useState<bigint | null>(null);
+  const [extending, setExtending] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const storage = await walrusStorageService.getDatasetStorageStatus(nft, suiClient, currentAccount?.address);
+      setStatus(storage);
+    } catch (err) {
+      console.error('Failed to load Walrus storage status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load storage status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nft.id, currentAccount?.address]);
+
+  const ownedBlobs = status?.extendable
+    ? status.blobs.map(blob => blob.owned).filter((blob): blob is OwnedBlobObject => blob !== null)
+    : [];
+
+  // Storage cannot end further ahead than the system accounts for
+  const maxExtension = status && status.endEpoch !== null
+    ? status.epochInfo.currentEpoch + status.epochInfo.maxEpochsAhead - status.endEpoch
+    : 0;
+
+  useEffect(() => {
+    if (ownedBlobs.length === 0 || extendEpochs < 1) {
+      setExtensionCost(null);
+      return;
+    }
+
+    let cancelled = false;
+    walrusStorageService.estimateExtensionCost(ownedBlobs, extendEpochs)
+      .then(cost => { if (!cancelled) setExtensionCost(cost); })
+      .catch(err => console.warn('Failed to estimate extension cost:', err));
+
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, extendEpochs]);
+
+  const handleExtend = async () => {
+    if (ownedBlobs.length === 0) return;
+
+    if (extendEpochs < 1 || extendEpochs > maxExtension) {
+      toast.error(`Storage can be extended by 1 to ${maxExtension} epochs`);
+      return;
+    }
+
+    try {
+      setExtending(true);
+      const tx = await walrusStorageService.buildExtendTransaction(ownedBlobs, extendEpochs);
+      const result = await signAndExecuteTransaction({ transaction: tx });
+      await suiClient.waitForTransaction({ digest: result.digest });
+
+      console.log(`🐋 Extended ${ownedBlobs.length} Walrus blob(s) by ${extendEpochs} epochs:`, result.digest);
+      toast.success(`Storage extended by ${extendEpochs} epochs`);
+      await loadStatus();
+    } catch (err) {
+      console.error('Failed to extend storage:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to extend storage');
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  if (loading && !status) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CircleNotch weight="regular" size={16} className="animate-spin" />
+        Checking Walrus storage...
+      </div>
+    );
+  }
+
+  if (error || !status) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        Walrus storage status unavailable{error ? `: ${error}` : ''}
+      </div>
+    );
+  }
+
+  const tone = status.expired
+    ? 'bg-red-50 border-red-200 text-red-900'
+    : status.expiringSoon
+      ? 'bg-amber-50 border-amber-200 text-amber-900'
+      : 'bg-gray-50 border-border text-foreground';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-sm font-semibold text-muted-foreground mb-1">Certification</p>
+          <p className="text-sm flex items-center gap-1.5">
+            {status.certified
+              ? <CheckCircle weight="fill" size={16} className="text-green-600" />
+              : <Warning weight="fill" size={16} className="text-amber-500" />}
+            {status.certified ? 'Certified' : 'Not certified'}
+            {status.blobs.length > 1 && (
+              <span className="text-muted-foreground">({status.blobs.length} blobs)</span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-muted-foreground mb-1">End Epoch</p>
+          <p className="text-sm">
+            {status.endEpoch ?? 'Unknown'}
+            <span className="text-muted-foreground"> (current {status.epochInfo.currentEpoch})</span>
+          </p>
+        </div>
+      </div>
+
+      {status.expiresAt !== null && (
+        <div className={`rounded-lg border p-3 flex items-start gap-2 text-sm ${tone}`}>
+          {status.expired || status.expiringSoon
+            ? <Warning weight="fill" size={18} className="flex-shrink-0 mt-0.5" />
+            : <Clock weight="regular" size={18} className="flex-shrink-0 mt-0.5" />}
+          <p>
+            {status.expired
+              ? 'Storage has expired - the encrypted dataset is no longer guaranteed to be available on Walrus.'
+              : `Stored until about ${new Date(status.expiresAt).toLocaleString()} (${status.epochsLeft} ${status.epochsLeft === 1 ? 'epoch' : 'epochs'} left).`}
+            {status.expiringSoon && !status.expired && ' Extend storage to keep the dataset available.'}
+          </p>
+        </div>
+      )}
+
+      {status.extendable && !status.expired && maxExtension > 0 ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={maxExtension}
+            value={extendEpochs}
+            onChange={(e) => setExtendEpochs(parseInt(e.target.value, 10) || 1)}
+            disabled={extending}
+            className="w-24 px-3 py-2 rounded-lg bg-white border border-border focus:outline-none focus:border-primary text-sm disabled:opacity-50"
+          />
+          <button
+            onClick={handleExtend}
+            disabled={extending}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-border text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+          >
+            {extending
+              ? <CircleNotch weight="regular" size={16} className="animate-spin" />
+              : <ArrowClockwise weight="regular" size={16} className="text-primary" />}
+            {extending ? 'Extending...' : 'Extend storage'}
+          </button>
+          <span className="text-xs text-muted-foreground">
+            {extensionCost !== null && `Estimated cost ${walrusStorageService.formatWal(extensionCost)} · `}
+            max {maxExtension} epochs
+          </span>
+        </div>
+      ) : currentAccount && !status.extendable && (
+        <p className="text-xs text-muted-foreground">
+          The Blob objects for this dataset are not in your wallet, so its storage cannot be extended from here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { SuiWalletButton } from '@/components/wallet/SuiWalletButton';
+import { NetworkSwitcher } from '@/components/layout/NetworkSwitcher';
 import {
   List,
   X,
@@ -12,7 +13,8 @@ import {
   ShieldCheck,
   Info,
   Compass,
-  BookOpen
+  BookOpen,
+  Folder
 } from '@phosphor-icons/react';
 import { cn } from '@/lib/utils';
 
@@ -34,6 +36,7 @@ export function Header() {
     { href: '/register', label: 'Register', icon: Database },
     { href: '/explore', label: 'Explore', icon: Compass },
     { href: '/verify', label: 'Verify', icon: ShieldCheck },
+    { href: '/my-datasets', label: 'My Datasets', icon: Folder },
     { href: '/about', label: 'About', icon: Info },
     { href: 'https://docs.sealtrust.app', label: 'Docs', icon: BookOpen, external: true },
   ];
@@ -87,6 +90,7 @@ export function Header() {
 
           {/* Desktop Wallet Button */}
           <div className="hidden md:flex items-center gap-2">
+            <NetworkSwitcher />
             <SuiWalletButton />
           </div>
 
@@ -130,7 +134,8 @@ export function Header() {
               })}
             </nav>
 
-            <div className="mt-4 pt-4 border-t border-border">
+            <div className="mt-4 pt-4 border-t border-border space-y-3">
+              <NetworkSwitcher />
               <SuiWalletButton />
             </div>
           </div>
@@ -0,0 +1,47 @@
+'use client';
+
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { GlobeHemisphereWest } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+import { NETWORK_PROFILES, SUI_NETWORKS, isNetworkConfigured, parseNetwork } from '@/lib/networks';
+import { cn } from '@/lib/utils';
+
+interface NetworkSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Select the Sui network the whole app operates on
+ */
+export function NetworkSwitcher({ className }: NetworkSwitcherProps) {
+  const { network, selectNetwork } = useSuiClientContext();
+
+  const handleChange = (value: string) => {
+    const next = parseNetwork(value);
+    if (!next) return;
+
+    selectNetwork(next);
+    if (!isNetworkConfigured(NETWORK_PROFILES[next])) {
+      toast.warning(`SealTrust is not deployed on ${NETWORK_PROFILES[next].label} in this configuration`);
+    }
+  };
+
+  return (
+    <label className={cn('flex items-center gap-1.5 text-sm text-muted-foreground', className)}>
+      <GlobeHemisphereWest weight="regular" size={18} />
+      <span className="sr-only">Sui network</span>
+      <select
+        value={network}
+        onChange={(e) => handleChange(e.target.value)}
+        className="bg-transparent border border-border rounded-lg px-2 py-1.5 text-sm text-foreground focus:outline-none focus:border-primary"
+      >
+        {SUI_NETWORKS.map(option => (
+          <option key={option} value={option}>
+            {NETWORK_PROFILES[option].label}
+            {!isNetworkConfigured(NETWORK_PROFILES[option]) && ' (not deployed)'}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
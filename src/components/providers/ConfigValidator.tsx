@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { toast } from 'sonner';
+import { useNetworkProfile } from '@/hooks/useNetworkProfile';
+import { ConfigIssue, hasDeployment, validateNetworkProfile, verifyNetworkObjects } from '@/lib/config-validation';
+import { SuiNetwork } from '@/lib/networks';
+
+/**
+ * Validate the active network profile on startup and after every network switch
+ *
+ * Malformed IDs and objects that are missing or have the wrong Move type are logged and
+ * surfaced in a toast pointing to /status, instead of failing later inside a transaction.
+ * Networks without any SealTrust deployment are left to the network switcher's warning.
+ */
+export function ConfigValidator() {
+  const profile = useNetworkProfile();
+  const suiClient = useSuiClient();
+  const router = useRouter();
+  const validated = useRef(new Set<SuiNetwork>());
+
+  useEffect(() => {
+    const validatedNetworks = validated.current;
+    if (validatedNetworks.has(profile.network) || !hasDeployment(profile)) return;
+    validatedNetworks.add(profile.network);
+
+    let cancelled = false;
+    let done = false;
+    const validate = async () => {
+      const issues: ConfigIssue[] = validateNetworkProfile(profile);
+      try {
+        issues.push(...await verifyNetworkObjects(profile, suiClient));
+      } catch (error) {
+        // Fullnode unreachable - /status reports it, the IDs themselves may be fine
+        console.warn(`Could not verify ${profile.label} objects on-chain:`, error);
+      }
+
+      if (cancelled) return;
+      if (issues.length === 0) {
+        console.log(`✅ ${profile.label} configuration valid`);
+        return;
+      }
+
+      console.error(`❌ ${profile.label} configuration issues:`, issues);
+      const errors = issues.filter(issue => issue.severity === 'error');
+      if (errors.length > 0) {
+        toast.error(`${profile.label} configuration has ${errors.length} ${errors.length === 1 ? 'problem' : 'problems'}`, {
+          description: `${errors[0].field}: ${errors[0].message}`,
+          duration: 10000,
+          action: { label: 'Details', onClick: () => router.push('/status') },
+        });
+      }
+    };
+
+    validate().finally(() => { done = true; });
+    return () => {
+      cancelled = true;
+      // Switched away mid-check - validate again when the network comes back
+      if (!done) validatedNetworks.delete(profile.network);
+    };
+  }, [profile, suiClient, router]);
+
+  return null;
+}
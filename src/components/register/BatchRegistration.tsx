@@ -0,0 +1,480 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowClockwise, CheckCircle, FileText, FolderOpen, Play, WarningCircle } from '@phosphor-icons/react';
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage, useSuiClient } from '@mysten/dapp-kit';
+import { SuiWalletButton } from '@/components/wallet/SuiWalletButton';
+import { useDatasetFetch } from '@/hooks/useDatasetFetch';
+import {
+  BatchEntry,
+  entriesFromDirectory,
+  isManifestFile,
+  parseBatchManifest,
+  resolveManifestEntries,
+} from '@/lib/batch-manifest';
+import { CONFIG, ERROR_MESSAGES } from '@/lib/constants';
+import { RegistrationJob, createRegistrationJob, registrationJobStore } from '@/lib/registration-jobs';
+import {
+  RegistrationContext,
+  createSharedAllowlist,
+  registerJobsTogether,
+  runRegistrationJob,
+} from '@/lib/registration-pipeline';
+import { formatFileSize } from '@/lib/utils/crypto';
+import { DATASET_FORMATS, DatasetFormat, FORMAT_LABELS } from '@/lib/dataset-format';
+
+type ItemStatus = 'queued' | 'running' | 'attested' | 'registered' | 'failed';
+
+interface ItemState {
+  status: ItemStatus;
+  message?: string;
+  job?: RegistrationJob;
+}
+
+type SharedAllowlist = { allowlistId: string; allowlistCapId: string; membersAdded: string[] };
+
+const STATUS_STYLES: Record<ItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  attested: 'bg-purple-100 text-purple-700',
+  registered: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// Directory pickers are not in React's input typings
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+export function BatchRegistration() {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+  const { fetchDataset } = useDatasetFetch();
+
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [manifestErrors, setManifestErrors] = useState<string[]>([]);
+  const [directoryFiles, setDirectoryFiles] = useState<File[]>([]);
+  const [description, setDescription] = useState('');
+  const [format, setFormat] = useState<DatasetFormat>('CSV');
+  const [membersInput, setMembersInput] = useState('');
+  const [shareAllowlist, setShareAllowlist] = useState(true);
+  const [groupTransactions, setGroupTransactions] = useState(true);
+
+  const [items, setItems] = useState<Record<string, ItemState>>({});
+  const [sharedAllowlist, setSharedAllowlist] = useState<SharedAllowlist | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState('');
+
+  const defaults = { description: description || 'Dataset registered via SealTrust', format };
+
+  const resetBatch = (nextEntries: BatchEntry[], errors: string[]) => {
+    setEntries(nextEntries);
+    setManifestErrors(errors);
+    setItems({});
+    setSharedAllowlist(null);
+  };
+
+  const setItem = (id: string, patch: Partial<ItemState>) => {
+    setItems(prev => ({ ...prev, [id]: { ...(prev[id] || { status: 'queued' }), ...patch } }));
+  };
+
+  // A directory may carry its own manifest - otherwise every file becomes an entry
+  const handleDirectoryChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setDirectoryFiles(files);
+    const manifest = files.find(isManifestFile);
+
+    try {
+      if (manifest) {
+        const rows = parseBatchManifest(await manifest.text(), manifest.name);
+        const { entries: resolved, errors } = resolveManifestEntries(rows, files, defaults);
+        resetBatch(resolved, errors);
+        toast.success(`Loaded ${resolved.length} dataset(s) from ${manifest.name}`);
+      } else {
+        const resolved = entriesFromDirectory(files, defaults);
+        resetBatch(resolved, []);
+        toast.success(`Loaded ${resolved.length} file(s) from folder`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read folder');
+    }
+  };
+
+  const handleManifestChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const manifest = e.target.files?.[0];
+    e.target.value = '';
+    if (!manifest) return;
+
+    try {
+      const rows = parseBatchManifest(await manifest.text(), manifest.name);
+      const { entries: resolved, errors } = resolveManifestEntries(rows, directoryFiles, defaults);
+      resetBatch(resolved, errors);
+      toast.success(`Loaded ${resolved.length} dataset(s) from ${manifest.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read manifest');
+    }
+  };
+
+  const parseMembers = (): string[] | null => {
+    const addresses = [...new Set(membersInput.split(/[\n,\s]+/).map(a => a.trim()).filter(Boolean))];
+    const invalid = addresses.filter(a => !a.startsWith('0x') || a.length !== 66);
+    if (invalid.length > 0) {
+      toast.error(`${invalid.length} invalid address(es) found. Please check the format.`);
+      return null;
+    }
+    return addresses.filter(a => a !== currentAccount?.address);
+  };
+
+  const getContext = (): RegistrationContext => ({
+    address: currentAccount!.address,
+    suiClient,
+    signAndExecuteTransaction,
+    signPersonalMessage,
+    fetchDataset,
+  });
+
+  /**
+   * Run one entry through the pipeline (creating its job on first run)
+   */
+  const runEntry = async (
+    entry: BatchEntry,
+    members: string[],
+    allowlist: SharedAllowlist | null,
+    deferRegister: boolean
+  ): Promise<RegistrationJob | null> => {
+    const ctx = getContext();
+
+    let job = items[entry.id]?.job;
+    if (!job) {
+      if (entry.file && entry.file.size > CONFIG.MAX_CHUNKED_FILE_SIZE) {
+        setItem(entry.id, { status: 'failed', message: `File too large. Maximum size is ${CONFIG.MAX_CHUNKED_FILE_SIZE_GB}GB` });
+        return null;
+      }
+
+      job = await registrationJobStore.save(createRegistrationJob({
+        owner: ctx.address,
+        source: entry.file
+          ? { kind: 'file', fileName: entry.file.name, fileSize: entry.file.size, fileType: entry.file.type, lastModified: entry.file.lastModified }
+          : { kind: 'url', url: entry.url! },
+        name: entry.name,
+        description: entry.description,
+        format: entry.format,
+        initialMembers: members,
+        allowlist: allowlist || undefined,
+      }));
+    }
+
+    setItem(entry.id, { status: 'running', message: 'Starting...', job });
+
+    try {
+      const result = await runRegistrationJob(
+        job,
+        entry.file || null,
+        ctx,
+        {
+          onStep: (_step, message) => setItem(entry.id, { message }),
+          onJobUpdate: (updated) => setItem(entry.id, { job: updated }),
+          onWarning: (message) => toast.warning(message),
+        },
+        { deferRegister }
+      );
+
+      if (deferRegister) {
+        setItem(entry.id, { status: 'attested', message: 'Waiting for grouped registration', job: result });
+      } else {
+        await registrationJobStore.remove(result.id);
+        setItem(entry.id, { status: 'registered', message: undefined, job: result });
+      }
+      return result;
+    } catch (error) {
+      console.error(`Batch entry ${entry.name} failed:`, error);
+      setItem(entry.id, { status: 'failed', message: error instanceof Error ? error.message : 'Registration failed' });
+      return null;
+    }
+  };
+
+  const handleStartBatch = async () => {
+    if (!currentAccount) {
+      toast.error(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+      return;
+    }
+
+    const members = parseMembers();
+    if (!members) return;
+
+    setRunning(true);
+    try {
+      // One allowlist for the whole batch - reused on later runs of the same batch
+      let allowlist = sharedAllowlist;
+      if (shareAllowlist && !allowlist) {
+        allowlist = await createSharedAllowlist(
+          `Access for batch of ${entries.length} datasets`,
+          members,
+          getContext(),
+          setProgress
+        );
+        setSharedAllowlist(allowlist);
+      }
+
+      const attested: { entry: BatchEntry; job: RegistrationJob }[] = [];
+      const pending = entries.filter(entry => items[entry.id]?.status !== 'registered');
+
+      for (const [i, entry] of pending.entries()) {
+        setProgress(`Processing ${i + 1} of ${pending.length}: ${entry.name}`);
+        const job = await runEntry(entry, members, shareAllowlist ? allowlist : null, groupTransactions);
+        if (job && groupTransactions) {
+          attested.push({ entry, job });
+        }
+      }
+
+      if (attested.length > 0) {
+        setProgress(`Registering ${attested.length} dataset(s) on Sui...`);
+        attested.forEach(({ entry }) => setItem(entry.id, { status: 'running', message: 'Registering on Sui blockchain...' }));
+
+        // Jobs are saved as each transaction finishes - a failed transaction leaves earlier ones done
+        const updated = new Map<string, RegistrationJob>();
+        let failure: string | null = null;
+        try {
+          await registerJobsTogether(attested.map(a => a.job), getContext(), job => updated.set(job.id, job));
+        } catch (error) {
+          failure = error instanceof Error ? error.message : 'Registration failed';
+        }
+
+        for (const { entry, job: attestedJob } of attested) {
+          const job = updated.get(attestedJob.id) || attestedJob;
+          const { register } = job.steps;
+          if (register.status === 'done') {
+            await registrationJobStore.remove(job.id);
+            setItem(entry.id, { status: 'registered', message: undefined, job });
+          } else if (register.status === 'failed') {
+            setItem(entry.id, { status: 'failed', message: register.error, job });
+          } else {
+            setItem(entry.id, { status: 'failed', message: `Not submitted - an earlier transaction failed: ${failure}`, job });
+          }
+        }
+      }
+
+      toast.success('Batch run finished');
+    } catch (error) {
+      console.error('Batch registration failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Batch registration failed');
+    } finally {
+      setRunning(false);
+      setProgress('');
+    }
+  };
+
+  const handleRetry = async (entry: BatchEntry) => {
+    const members = parseMembers();
+    if (!members) return;
+
+    setRunning(true);
+    try {
+      const job = await runEntry(entry, members, shareAllowlist ? sharedAllowlist : null, false);
+      if (job) toast.success(`${entry.name} registered`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const counts = entries.reduce((acc, entry) => {
+    const status = items[entry.id]?.status || 'queued';
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ItemStatus, number>>);
+
+  return (
+    <div className="space-y-4">
+      {/* Source pickers */}
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className={`flex items-center justify-center gap-2 px-3 py-3 rounded-xl border-2 border-dashed transition-all cursor-pointer border-border hover:border-primary hover:bg-muted ${running ? 'opacity-50 cursor-not-allowed' : ''}`}>
+          <FolderOpen weight="regular" size={20} />
+          <span className="text-sm">Choose folder</span>
+          <input type="file" multiple className="hidden" disabled={running} onChange={handleDirectoryChange} {...DIRECTORY_INPUT_PROPS} />
+        </label>
+        <label className={`flex items-center justify-center gap-2 px-3 py-3 rounded-xl border-2 border-dashed transition-all cursor-pointer border-border hover:border-primary hover:bg-muted ${running ? 'opacity-50 cursor-not-allowed' : ''}`}>
+          <FileText weight="regular" size={20} />
+          <span className="text-sm">Choose manifest (CSV / JSON)</span>
+          <input type="file" accept=".csv,.json" className="hidden" disabled={running} onChange={handleManifestChange} />
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Manifest columns: <code>source</code> (URL or file path), <code>name</code>, <code>description</code>, <code>format</code>.
+        A <code>manifest.csv</code> or <code>manifest.json</code> inside the folder is picked up automatically.
+        To register local files listed in a manifest, choose their folder first.
+      </p>
+
+      {manifestErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-3">
+          <p className="text-sm font-semibold text-red-900 mb-1">
+            {manifestErrors.length} manifest row(s) skipped
+          </p>
+          <ul className="text-xs text-red-700 space-y-0.5">
+            {manifestErrors.map(error => <li key={error} className="break-all">{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {/* Defaults and access */}
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium text-foreground mb-1.5 block">
+            Default description
+          </label>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={running}
+            placeholder="Used when the manifest has none"
+            className="w-full px-3 py-2.5 rounded-xl bg-white border border-border focus:outline-none focus:border-primary transition-colors disabled:opacity-50 text-sm"
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-foreground mb-1.5 block">
+            Default format
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as DatasetFormat)}
+            disabled={running}
+            className="w-full px-3 py-2.5 rounded-xl bg-white border border-border focus:outline-none focus:border-primary transition-colors disabled:opacity-50 text-sm"
+          >
+            {DATASET_FORMATS.map(value => (
+              <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-foreground mb-1.5 block">
+          Initial access list (Optional)
+        </label>
+        <textarea
+          value={membersInput}
+          onChange={(e) => setMembersInput(e.target.value)}
+          disabled={running}
+          rows={3}
+          placeholder="Addresses separated by comma, newline, or space. You are added automatically."
+          className="w-full px-3 py-2 rounded-xl bg-white border border-border focus:outline-none focus:border-primary transition-colors disabled:opacity-50 text-xs font-mono resize-none"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={shareAllowlist}
+            onChange={(e) => setShareAllowlist(e.target.checked)}
+            disabled={running || !!sharedAllowlist}
+          />
+          Share one allowlist across all datasets
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={groupTransactions}
+            onChange={(e) => setGroupTransactions(e.target.checked)}
+            disabled={running}
+          />
+          Register datasets together in grouped transactions (fewer wallet approvals)
+        </label>
+      </div>
+
+      {/* Status table */}
+      {entries.length > 0 && (
+        <div className="border border-border rounded-xl overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 bg-muted/50 text-xs text-muted-foreground">
+            <span>{entries.length} dataset(s)</span>
+            <span>
+              {counts.registered || 0} registered · {counts.failed || 0} failed · {counts.queued || 0} queued
+            </span>
+          </div>
+          <table className="w-full text-xs">
+            <thead className="bg-muted/30 text-left text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 font-medium">Dataset</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+                <th className="px-3 py-2 font-medium text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => {
+                const item = items[entry.id] || { status: 'queued' as ItemStatus };
+                return (
+                  <tr key={entry.id} className="border-t border-border align-top">
+                    <td className="px-3 py-2 max-w-[14rem]">
+                      <p className="font-medium text-foreground truncate">{entry.name}</p>
+                      <p className="text-muted-foreground truncate">
+                        {entry.file ? formatFileSize(entry.file.size) : entry.url} · {FORMAT_LABELS[entry.format]}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[item.status]}`}>
+                        {item.status === 'registered' && <CheckCircle size={12} weight="fill" />}
+                        {item.status === 'failed' && <WarningCircle size={12} weight="fill" />}
+                        {item.status}
+                      </span>
+                      {item.message && (
+                        <p className={`mt-1 break-words ${item.status === 'failed' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                          {item.message}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {item.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetry(entry)}
+                          disabled={running}
+                          className="inline-flex items-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                        >
+                          <ArrowClockwise size={12} />
+                          Retry
+                        </button>
+                      )}
+                      {item.status === 'registered' && item.job?.nftId && (
+                        <Link href={`/dataset/${item.job.nftId}`} className="text-primary hover:underline">
+                          View
+                        </Link>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {progress && (
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-3">
+          <p className="text-sm text-blue-900">{progress}</p>
+        </div>
+      )}
+
+      {!currentAccount ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground text-center">
+            Connect your wallet to register datasets
+          </p>
+          <SuiWalletButton />
+        </div>
+      ) : (
+        <button
+          onClick={handleStartBatch}
+          disabled={running || entries.length === 0 || entries.every(e => items[e.id]?.status === 'registered')}
+          className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-xl gradient-primary text-white font-semibold hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Play weight="fill" size={18} />
+          {running ? 'Processing...' : Object.keys(items).length > 0 ? 'Continue Batch' : 'Register Batch'}
+        </button>
+      )}
+    </div>
+  );
+}
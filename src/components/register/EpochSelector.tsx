@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CircleNotch, Coins } from '@phosphor-icons/react';
+import { WalrusEpochInfo, walrusStorageService } from '@/lib/walrus-storage';
+
+interface EpochSelectorProps {
+  epochs: number;
+  onChange: (epochs: number) => void;
+  size: number | null;           // Bytes to store (null until a file is chosen)
+  disabled?: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Walrus storage duration for a new dataset, with the WAL cost of storing it
+ */
+export function EpochSelector({ epochs, onChange, size, disabled }: EpochSelectorProps) {
+  const [epochInfo, setEpochInfo] = useState<WalrusEpochInfo | null>(null);
+  const [cost, setCost] = useState<bigint | null>(null);
+  const [estimating, setEstimating] = useState(false);
+
+  useEffect(() => {
+    walrusStorageService.getEpochInfo()
+      .then(setEpochInfo)
+      .catch(err => console.warn('Failed to load Walrus epoch info:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!size || epochs < 1) {
+      setCost(null);
+      return;
+    }
+
+    let cancelled = false;
+    setEstimating(true);
+    walrusStorageService.estimateStorageCost(size, epochs)
+      .then(total => { if (!cancelled) setCost(total); })
+      .catch(err => {
+        console.warn('Failed to estimate Walrus storage cost:', err);
+        if (!cancelled) setCost(null);
+      })
+      .finally(() => { if (!cancelled) setEstimating(false); });
+
+    return () => { cancelled = true; };
+  }, [size, epochs]);
+
+  const maxEpochs = epochInfo?.maxEpochsAhead;
+  const days = epochInfo ? Math.round((epochs * epochInfo.epochDurationMs) / MS_PER_DAY) : null;
+
+  const handleChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    onChange(Math.max(1, maxEpochs ? Math.min(parsed, maxEpochs) : parsed));
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-foreground mb-1.5 block">
+        Storage Duration (Walrus epochs)
+      </label>
+      <input
+        type="number"
+        min={1}
+        max={maxEpochs}
+        value={epochs}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2.5 rounded-xl bg-white border border-border focus:outline-none focus:border-primary transition-colors disabled:opacity-50 text-sm"
+      />
+      <div className="mt-1.5 flex items-center gap-1.5 text-xs text-muted-foreground">
+        {estimating
+          ? <CircleNotch weight="regular" size={14} className="animate-spin" />
+          : <Coins weight="regular" size={14} />}
+        <span>
+          {days !== null && `About ${days} ${days === 1 ? 'day' : 'days'}`}
+          {maxEpochs && ` (max ${maxEpochs} epochs)`}
+          {days !== null && ' · '}
+          {cost !== null
+            ? `Estimated cost ${walrusStorageService.formatWal(cost)}`
+            : estimating ? 'Estimating cost...'
+            : size ? 'Cost estimate unavailable' : 'Cost is estimated once a file is chosen'}
+        </span>
+      </div>
+    </div>
+  );
+}
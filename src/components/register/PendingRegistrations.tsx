@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { ArrowClockwise, ClockCounterClockwise, Trash } from '@phosphor-icons/react';
+import {
+  REGISTRATION_STEPS,
+  RegistrationJob,
+  getJobName,
+  getNextStep,
+  jobNeedsSourceFile,
+  registrationJobStore,
+} from '@/lib/registration-jobs';
+import { formatFileSize } from '@/lib/utils/crypto';
+import { useNetworkProfile } from '@/hooks/useNetworkProfile';
+
+interface PendingRegistrationsProps {
+  owner: string;
+  refreshKey: number;          // Bump to reload the list (e.g. after a failed run)
+  disabled: boolean;
+  onResume: (job: RegistrationJob, sourceFile: File | null) => void;
+}
+
+const STEP_LABELS: Record<typeof REGISTRATION_STEPS[number], string> = {
+  fetch: 'Fetch',
+  allowlist: 'Allowlist',
+  encrypt: 'Encrypt',
+  upload: 'Upload',
+  attest: 'TEE attestation',
+  register: 'Register',
+};
+
+export function PendingRegistrations({
+  owner,
+  refreshKey,
+  disabled,
+  onResume,
+}: PendingRegistrationsProps) {
+  const [jobs, setJobs] = useState<RegistrationJob[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileJob, setFileJob] = useState<RegistrationJob | null>(null);
+  const { network } = useNetworkProfile();
+
+  // Jobs are listed for the active network only - they cannot resume on another one
+  useEffect(() => {
+    registrationJobStore.listPending(owner, network)
+      .then(setJobs)
+      .catch(error => console.error('Failed to load pending registrations:', error));
+  }, [owner, refreshKey, network]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const handleResume = (job: RegistrationJob) => {
+    // File bytes are never persisted - ask for the same file again when a remaining step needs them
+    if (job.source.kind === 'file' && jobNeedsSourceFile(job)) {
+      setFileJob(job);
+      fileInputRef.current?.click();
+      return;
+    }
+    onResume(job, null);
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!fileJob || !selectedFile || fileJob.source.kind !== 'file') return;
+
+    if (selectedFile.name !== fileJob.source.fileName || selectedFile.size !== fileJob.source.fileSize) {
+      toast.error(`Please select the original file: ${fileJob.source.fileName} (${formatFileSize(fileJob.source.fileSize)})`);
+      return;
+    }
+
+    onResume(fileJob, selectedFile);
+    setFileJob(null);
+  };
+
+  const handleDiscard = async (job: RegistrationJob) => {
+    await registrationJobStore.remove(job.id);
+    setJobs(prev => prev.filter(j => j.id !== job.id));
+    toast.success('Pending registration discarded');
+  };
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 space-y-2">
+      <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileSelected} />
+
+      <div className="flex items-center gap-2">
+        <ClockCounterClockwise weight="duotone" size={18} className="text-blue-700" />
+        <p className="text-sm font-semibold text-blue-900">
+          Resume pending registrations
+        </p>
+      </div>
+      <p className="text-xs text-blue-700">
+        Progress is saved after every step. Resuming continues from the last completed step.
+      </p>
+
+      {jobs.map((job) => {
+        const nextStep = getNextStep(job);
+        const failed = nextStep ? job.steps[nextStep] : null;
+        const completed = REGISTRATION_STEPS.filter(step => job.steps[step].status === 'done').length;
+
+        return (
+          <div key={job.id} className="bg-white border border-blue-100 rounded-lg p-2.5">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-foreground truncate">{getJobName(job)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {completed}/{REGISTRATION_STEPS.length} steps done
+                  {nextStep && ` · next: ${STEP_LABELS[nextStep]}`}
+                  {' · '}{new Date(job.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button
+                  onClick={() => handleResume(job)}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-2.5 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ArrowClockwise size={14} />
+                  Resume
+                </button>
+                <button
+                  onClick={() => handleDiscard(job)}
+                  disabled={disabled}
+                  className="p-1.5 text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                  title="Discard"
+                >
+                  <Trash size={14} />
+                </button>
+              </div>
+            </div>
+            {failed?.status === 'failed' && failed.error && (
+              <p className="text-xs text-red-600 mt-1.5 break-words">{failed.error}</p>
+            )}
+            {job.source.kind === 'file' && jobNeedsSourceFile(job) && (
+              <p className="text-xs text-muted-foreground mt-1">
+                You will be asked to select {job.source.fileName} again.
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { X } from '@phosphor-icons/react';
+import { TransferProgress } from '@/lib/types';
+import { formatTransferRate } from '@/lib/utils/transfer-progress';
+import { walrusService } from '@/lib/walrus-service';
+
+interface TransferProgressBarProps {
+  progress: TransferProgress;
+  label?: string;
+  barClassName?: string;
+  onCancel?: () => void;
+}
+
+/**
+ * Byte-level progress of a Walrus transfer, with throughput, ETA and an optional cancel action
+ */
+export function TransferProgressBar({
+  progress,
+  label,
+  barClassName = 'gradient-primary',
+  onCancel,
+}: TransferProgressBarProps) {
+  const rate = formatTransferRate(progress);
+
+  return (
+    <div className="w-full space-y-1.5">
+      {label && <p className="text-xs font-medium text-foreground">{label}</p>}
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${barClassName} transition-all duration-200 ease-out ${progress.total > 0 ? '' : 'animate-pulse'}`}
+          style={{ width: `${progress.total > 0 ? progress.percentage : 100}%` }}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {walrusService.formatFileSize(progress.loaded)}
+          {progress.total > 0 && ` of ${walrusService.formatFileSize(progress.total)} (${progress.percentage}%)`}
+        </span>
+        {rate && <span>{rate}</span>}
+      </div>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 text-xs font-medium text-red-700 hover:underline"
+        >
+          <X weight="bold" size={12} />
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Shield, ExternalLink, CheckCircle2, Copy, Check } from "lucide-react";
 import { useState } from "react";
+import { explorerTxUrl } from "@/lib/networks";
 
 interface VerificationBadgeProps {
   hash: string;
@@ -62,7 +63,7 @@ export function VerificationBadge({
           </div>
           {txId && (
             <a
-              href={`https://suiscan.xyz/testnet/tx/${txId}`}
+              href={explorerTxUrl(txId)}
               target="_blank"
               rel="noopener noreferrer"
               className="flex items-center gap-2 px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-lg text-blue-400 text-sm font-medium transition-all"
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { CheckCircle, CircleNotch, Question, SealCheck, XCircle } from '@phosphor-icons/react';
+import { DatasetNFT } from '@/lib/types';
+import { DatasetProofResult, ProofFieldStatus, verifyDatasetProof } from '@/lib/dataset-proof';
+import { explorerTxUrl } from '@/lib/networks';
+
+interface ProofVerificationProps {
+  nft: DatasetNFT;
+}
+
+function FieldStatusIcon({ status }: { status: ProofFieldStatus }) {
+  if (status === 'pass') return <CheckCircle weight="fill" size={16} className="text-green-600 flex-shrink-0" />;
+  if (status === 'fail') return <XCircle weight="fill" size={16} className="text-red-600 flex-shrink-0" />;
+  return <Question weight="fill" size={16} className="text-amber-500 flex-shrink-0" />;
+}
+
+/**
+ * "Verify proof" action - re-checks the NFT's TEE signature from chain data only
+ */
+export function ProofVerification({ nft }: ProofVerificationProps) {
+  const suiClient = useSuiClient();
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<DatasetProofResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleVerifyProof = async () => {
+    setChecking(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const proof = await verifyDatasetProof(nft, suiClient);
+      console.log(proof.valid ? '✅ TEE proof verified' : '❌ TEE proof failed', proof);
+      setResult(proof);
+    } catch (err) {
+      console.error('Proof verification failed:', err);
+      setError(err instanceof Error ? err.message : 'Proof verification failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={handleVerifyProof}
+        disabled={checking}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-border text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+      >
+        {checking
+          ? <CircleNotch weight="regular" size={18} className="animate-spin" />
+          : <SealCheck weight="regular" size={18} className="text-primary" />}
+        {checking ? 'Verifying proof...' : 'Verify proof'}
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-700">{error}</p>
+      )}
+
+      {result && (
+        <div className={`rounded-xl border p-4 space-y-3 ${result.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+          <p className={`text-sm font-semibold ${result.valid ? 'text-green-900' : 'text-red-900'}`}>
+            {result.valid
+              ? 'TEE signature covers every stored field'
+              : 'TEE proof could not be verified'}
+          </p>
+
+          {result.errors.length > 0 && (
+            <ul className="text-xs text-red-800 space-y-1">
+              {result.errors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          {result.fields.length > 0 && (
+            <ul className="space-y-2 text-xs">
+              {result.fields.map(check => (
+                <li key={check.field} className="flex items-start gap-2">
+                  <FieldStatusIcon status={check.status} />
+                  <div className="min-w-0">
+                    <span className="font-medium">{check.field}</span>
+                    {check.source === 'transaction' && (
+                      <span className="text-muted-foreground"> (from registration transaction)</span>
+                    )}
+                    <p className="font-mono break-all text-muted-foreground">{check.value}</p>
+                    {check.detail && <p className="text-red-700">{check.detail}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-muted-foreground break-all">
+            Enclave <span className="font-mono">{result.enclaveId}</span>
+            {result.txDigest && (
+              <>
+                {' · '}
+                <a
+                  href={explorerTxUrl(result.txDigest)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  registration transaction
+                </a>
+              </>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
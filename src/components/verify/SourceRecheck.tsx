@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowsClockwise, CheckCircle, CircleNotch, Warning, XCircle } from '@phosphor-icons/react';
+import { DatasetNFT, HashProgress } from '@/lib/types';
+import { DriftCheck, DriftStatus, driftMonitor, getDriftSource, summarizeDriftHistory } from '@/lib/drift-monitor';
+import { formatFileSize, formatHash } from '@/lib/utils/crypto';
+
+interface SourceRecheckProps {
+  nft: DatasetNFT;
+  showSource?: boolean;          // Off where the page already shows the source
+}
+
+const STATUS_LABELS: Record<DriftStatus, string> = {
+  'match': 'Source still serves the registered bytes',
+  'mismatch': 'Source now serves different bytes',
+  'size-changed': 'Source now serves a different size',
+  'unreachable': 'Source could not be fetched',
+};
+
+function DriftStatusIcon({ status }: { status: DriftStatus }) {
+  if (status === 'match') return <CheckCircle weight="fill" size={16} className="text-green-600 flex-shrink-0" />;
+  if (status === 'unreachable') return <Warning weight="fill" size={16} className="text-amber-500 flex-shrink-0" />;
+  return <XCircle weight="fill" size={16} className="text-red-600 flex-shrink-0" />;
+}
+
+/**
+ * "Re-fetch source" action - downloads the URL the dataset was registered from again and checks
+ * it still hashes to original_hash. Every check goes into the local drift history, summarized
+ * as "unchanged since". Unpinned URLs are flagged, since their host can change what they serve.
+ *
+ * Renders nothing for datasets registered from a file.
+ */
+export function SourceRecheck({ nft, showSource = true }: SourceRecheckProps) {
+  const source = getDriftSource(nft);
+  const sourceUrl = source?.url ?? null;
+  const [history, setHistory] = useState<DriftCheck[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState<HashProgress | null>(null);
+
+  useEffect(() => {
+    if (!sourceUrl) return;
+    driftMonitor.getHistory(nft.id).then(setHistory).catch(err => {
+      console.error('Failed to load drift history:', err);
+    });
+  }, [nft.id, sourceUrl]);
+
+  if (!source) return null;
+
+  const { latest, unchangedSince } = summarizeDriftHistory(history);
+
+  const handleRecheck = async () => {
+    setChecking(true);
+    setProgress(null);
+
+    try {
+      await driftMonitor.checkDataset(nft, setProgress);
+      setHistory(await driftMonitor.getHistory(nft.id));
+    } catch (err) {
+      console.error('Source re-check failed:', err);
+    } finally {
+      setChecking(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClear = async () => {
+    await driftMonitor.clearHistory(nft.id);
+    setHistory([]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {showSource && (
+        <p className="text-xs text-muted-foreground break-all">
+          Registered from <span className="font-mono">{source.url}</span>
+          {!source.pinned && ' (not pinned - the host can change what it serves)'}
+        </p>
+      )}
+
+      {latest && (
+        <div className={`rounded-xl border p-4 space-y-1 ${
+          latest.status === 'match'
+            ? 'bg-green-50 border-green-200'
+            : latest.status === 'unreachable' ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'
+        }`}>
+          <p className="text-sm font-semibold flex items-center gap-2">
+            <DriftStatusIcon status={latest.status} />
+            {unchangedSince !== null
+              ? `Source unchanged since ${new Date(unchangedSince).toLocaleString()}`
+              : STATUS_LABELS[latest.status]}
+          </p>
+          {latest.status === 'unreachable' && latest.error && (
+            <p className="text-xs text-amber-800">{latest.error}</p>
+          )}
+          {latest.hash && latest.status !== 'match' && (
+            <p className="text-xs font-mono break-all text-muted-foreground">
+              {formatHash(latest.hash, 16)} ≠ {formatHash(nft.original_hash, 16)}
+              {latest.size !== undefined && ` · ${formatFileSize(latest.size)} (registered ${formatFileSize(Number(nft.size))})`}
+            </p>
+          )}
+          {latest.status !== 'match' && latest.status !== 'unreachable' && (
+            <p className="text-xs text-muted-foreground">
+              {source.pinned
+                ? 'The source is pinned to a revision, so it should never change - its host served other bytes.'
+                : 'The source URL is not pinned to a revision - its content was updated or replaced.'}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Last checked {new Date(latest.checkedAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRecheck}
+          disabled={checking}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-border text-sm font-medium hover:bg-muted transition-colors disabled:opacity-50"
+        >
+          {checking
+            ? <CircleNotch weight="regular" size={18} className="animate-spin" />
+            : <ArrowsClockwise weight="regular" size={18} className="text-primary" />}
+          {checking
+            ? `Re-fetching source...${progress ? ` ${formatFileSize(progress.loaded)}` : ''}`
+            : 'Re-fetch source'}
+        </button>
+        {history.length > 0 && !checking && (
+          <button onClick={handleClear} className="text-xs text-muted-foreground hover:text-foreground">
+            Clear history ({history.length})
+          </button>
+        )}
+      </div>
+
+      {history.length > 1 && (
+        <ul className="space-y-1 text-xs text-muted-foreground">
+          {history.slice(0, 5).map(check => (
+            <li key={check.checkedAt} className="flex items-center gap-2">
+              <DriftStatusIcon status={check.status} />
+              <span>{new Date(check.checkedAt).toLocaleString()}</span>
+              <span>· {STATUS_LABELS[check.status]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
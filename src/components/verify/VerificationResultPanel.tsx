@@ -1,26 +1,35 @@
 'use client';
 
-import { Files, CircleNotch, Warning, CheckCircle } from '@phosphor-icons/react';
+import Link from 'next/link';
+import { Files, CircleNotch, Warning, CheckCircle, TreeStructure } from '@phosphor-icons/react';
 import { DatasetQR } from '@/components/dataset/DatasetQR';
-import { DatasetNFT } from '@/lib/types';
+import { ProofVerification } from '@/components/verify/ProofVerification';
+import { SourceRecheck } from '@/components/verify/SourceRecheck';
+import { DatasetNFT, HashProgress, RegistryEntry } from '@/lib/types';
+import { formatFileSize } from '@/lib/utils/crypto';
+import { explorerTxUrl } from '@/lib/networks';
 
 interface VerificationResultPanelProps {
   computedHash: string;
   verifying: boolean;
   isHashing?: boolean;
+  hashProgress?: HashProgress | null;
   verificationResult: {
     found: boolean;
     dataset: DatasetNFT | null;
     registrant?: string;
     tx_digest?: string;
   } | null;
+  schemaMatches?: RegistryEntry[];   // Registered datasets with the file's schema fingerprint
 }
 
 export function VerificationResultPanel({
   computedHash,
   verifying,
   isHashing = false,
+  hashProgress = null,
   verificationResult,
+  schemaMatches = [],
 }: VerificationResultPanelProps) {
   // Debug logging
   console.log('🎨 VerificationResultPanel render:', {
@@ -41,6 +50,21 @@ export function VerificationResultPanel({
         <p className="text-muted-foreground">
           Generating SHA-256 fingerprint of your dataset
         </p>
+        {hashProgress && (
+          <div className="mt-6 space-y-1">
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-orange-500 transition-all"
+                style={{ width: `${hashProgress.percentage}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatFileSize(hashProgress.loaded)}
+              {hashProgress.total > 0 && ` / ${formatFileSize(hashProgress.total)}`}
+              {hashProgress.total > 0 && ` (${hashProgress.percentage}%)`}
+            </p>
+          </div>
+        )}
       </div>
     );
   }
@@ -99,7 +123,7 @@ export function VerificationResultPanel({
         <DatasetQR
           hash={computedHash}
           datasetName={verificationResult.dataset?.name}
-          timestamp={verificationResult.dataset?.verification_timestamp}
+          timestamp={verificationResult.dataset ? Number(verificationResult.dataset.verification_timestamp) : undefined}
         />
 
         <div className="mt-6 pt-6 border-t border-border space-y-2 text-sm">
@@ -109,11 +133,11 @@ export function VerificationResultPanel({
               <span className="text-foreground">{verificationResult.dataset.name}</span>
             </div>
           )}
-          {verificationResult.dataset?.verification_timestamp && (
+          {!!verificationResult.dataset?.verification_timestamp && (
             <div>
               <span className="font-medium text-muted-foreground">Registered: </span>
               <span className="text-foreground">
-                {new Date(verificationResult.dataset.verification_timestamp).toLocaleDateString()}
+                {new Date(Number(verificationResult.dataset.verification_timestamp)).toLocaleDateString()}
               </span>
             </div>
           )}
@@ -128,7 +152,7 @@ export function VerificationResultPanel({
           {verificationResult.tx_digest && (
             <div className="pt-2">
               <a
-                href={`https://suiscan.xyz/testnet/tx/${verificationResult.tx_digest}`}
+                href={explorerTxUrl(verificationResult.tx_digest)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="inline-flex items-center gap-1 text-primary hover:underline text-sm"
@@ -138,6 +162,13 @@ export function VerificationResultPanel({
             </div>
           )}
         </div>
+
+        {verificationResult.dataset && (
+          <div className="mt-6 pt-6 border-t border-border space-y-6">
+            <ProofVerification nft={verificationResult.dataset} />
+            <SourceRecheck nft={verificationResult.dataset} />
+          </div>
+        )}
       </div>
     );
   }
@@ -159,6 +190,30 @@ export function VerificationResultPanel({
           </p>
         </div>
 
+        {schemaMatches.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6 text-left">
+            <p className="text-sm font-semibold text-amber-900 flex items-center gap-2 mb-1">
+              <TreeStructure weight="fill" size={16} />
+              Same schema, different content
+            </p>
+            <p className="text-xs text-amber-800 mb-3">
+              This file has the same columns and types as {schemaMatches.length === 1 ? 'a registered dataset' : `${schemaMatches.length} registered datasets`}, but its bytes differ.
+            </p>
+            <ul className="space-y-1">
+              {schemaMatches.slice(0, 5).map(entry => (
+                <li key={entry.id} className="text-sm">
+                  <Link href={`/dataset/${entry.id}`} className="text-primary hover:underline">
+                    {entry.nft.name || 'Untitled Dataset'}
+                  </Link>
+                  <span className="text-xs text-muted-foreground">
+                    {' '}· registered {new Date(entry.registered_at).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="space-y-3">
           <p className="text-sm text-muted-foreground">
             Want to register this dataset?
@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef } from 'react';
+import { checkDatasetUrl } from '../lib/url-policy';
 
 interface FetchProgress {
   loaded: number;
@@ -44,18 +45,12 @@ export function useDatasetFetch(): UseDatasetFetchReturn {
     abortControllerRef.current = new AbortController();
 
     try {
-      // Validate URL format
-      let parsedUrl: URL;
-      try {
-        parsedUrl = new URL(url);
-      } catch {
-        throw new Error('Invalid URL format');
-      }
-
-      // Only allow HTTP/HTTPS
-      if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-        throw new Error('Only HTTP and HTTPS URLs are allowed');
+      // Same policy the proxy enforces - fail fast with the same message
+      const policy = checkDatasetUrl(url);
+      if (!policy.allowed) {
+        throw new Error(policy.rejection.message);
       }
+      const parsedUrl = policy.url;
 
       // Use Next.js API proxy to bypass CORS
       const proxyUrl = `/api/fetch-dataset?url=${encodeURIComponent(url)}`;
@@ -1,5 +1,6 @@
 import { useState, useCallback } from "react";
-import { CONFIG, ERROR_MESSAGES } from "~~/lib/constants";
+import { ERROR_MESSAGES } from "~~/lib/constants";
+import { getNetworkProfile } from "~~/lib/networks";
 import {
   ProcessDataRequest,
   ProcessedDataResponse,
@@ -60,7 +61,7 @@ export function useNautilus() {
         },
       };
 
-      const response = await fetch(`${CONFIG.NAUTILUS_URL}/process_data`, {
+      const response = await fetch(`${getNetworkProfile().nautilusUrl}/process_data`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -137,13 +138,13 @@ export function useNautilus() {
       };
 
       console.log("Calling Nautilus /verify_metadata:", {
-        url: `${CONFIG.NAUTILUS_URL}/verify_metadata`,
+        url: `${getNetworkProfile().nautilusUrl}/verify_metadata`,
         datasetId: metadata.dataset_id,
         name: metadata.name,
         size: metadata.size,
       });
 
-      const response = await fetch(`${CONFIG.NAUTILUS_URL}/verify_metadata`, {
+      const response = await fetch(`${getNetworkProfile().nautilusUrl}/verify_metadata`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -195,7 +196,7 @@ export function useNautilus() {
    */
   const checkHealth = useCallback(async (): Promise<boolean> => {
     try {
-      const response = await fetch(`${CONFIG.NAUTILUS_URL}/health`, {
+      const response = await fetch(`${getNetworkProfile().nautilusUrl}/health`, {
         method: "GET",
       });
       return response.ok;
@@ -209,7 +210,7 @@ export function useNautilus() {
    */
   const getAttestation = useCallback(async (): Promise<string | null> => {
     try {
-      const response = await fetch(`${CONFIG.NAUTILUS_URL}/get_attestation`, {
+      const response = await fetch(`${getNetworkProfile().nautilusUrl}/get_attestation`, {
         method: "GET",
       });
       if (!response.ok) return null;
@@ -0,0 +1,11 @@
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { getNetworkProfile, NetworkProfile, parseNetwork } from "../lib/networks";
+
+/**
+ * Profile of the network selected in the Sui client provider
+ * Re-renders the caller when the user switches networks
+ */
+export function useNetworkProfile(): NetworkProfile {
+  const { network } = useSuiClientContext();
+  return getNetworkProfile(parseNetwork(network) ?? undefined);
+}
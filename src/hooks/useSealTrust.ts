@@ -5,47 +5,21 @@ import {
   useSignAndExecuteTransaction,
 } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
-import { CONFIG, ERROR_MESSAGES, GAS_BUDGET } from "../lib/constants";
+import { ERROR_MESSAGES, GAS_BUDGET } from "../lib/constants";
+import { getNetworkProfile } from "../lib/networks";
 import {
   DatasetNFT,
   RegistryEntry,
   VerificationResult,
 } from "../lib/types";
-import { hexToBytes, stringToBytes, bytesToHex } from "../lib/utils/crypto";
-
-// Type definitions for Sui object responses
-interface SuiObjectChange {
-  objectId: string;
-  objectType?: string;
-}
-
-interface SuiObjectContent {
-  dataType: string;
-  fields: {
-    original_hash?: number[];
-    metadata_hash?: number[];
-    walrus_blob_id?: string;
-    seal_policy_id?: string;
-    seal_allowlist_id?: string;
-    name?: string;
-    dataset_url?: string;
-    format?: string;
-    size?: string;
-    schema_version?: string;
-    verification_timestamp?: string;
-    enclave_id?: string;
-    tee_signature?: number[];
-    [key: string]: unknown;
-  };
-}
-
-interface SuiObjectOwner {
-  AddressOwner?: string;
-  ObjectOwner?: string;
-  Shared?: {
-    initial_shared_version: string;
-  };
-}
+import { hexToBytes, stringToBytes } from "../lib/utils/crypto";
+import { getDatasetRegistry } from "../lib/dataset-registry";
+import { DATASET_NFT_OBJECT_OPTIONS, decodeDatasetNFT, isDatasetNFTDecodeError } from "../lib/dataset-nft";
+import {
+  AttestedRegistration,
+  BatchRegistrationResult,
+  registerAttestedDatasets,
+} from "../lib/batch-register";
 
 /**
  * Main hook for SealTrust blockchain operations
@@ -99,8 +73,8 @@ export function useSealTrust() {
         walrusBlobId: params.walrusBlobId.substring(0, 20) + "...",
         timestampMs: params.timestampMs,
         signatureLength: sigBytes.length,
-        enclaveId: CONFIG.ENCLAVE_ID,
-        packageId: CONFIG.VERIFICATION_PACKAGE,
+        enclaveId: getNetworkProfile().enclaveId,
+        packageId: getNetworkProfile().verificationPackage,
       });
 
       // Build arguments for register_dataset
@@ -120,13 +94,13 @@ export function useSealTrust() {
           : tx.pure.option("address", null),
         tx.pure.u64(params.timestampMs),                            // timestamp_ms
         tx.pure.vector("u8", sigBytes),                             // tee_signature
-        tx.object(CONFIG.ENCLAVE_ID),                               // enclave: &Enclave<T>
+        tx.object(getNetworkProfile().enclaveId),                   // enclave: &Enclave<T>
       ];
 
       // Call production register_dataset function (verifies signature on-chain)
       const [nft] = tx.moveCall({
-        target: `${CONFIG.VERIFICATION_PACKAGE}::sealtrust::register_dataset`,
-        typeArguments: [`${CONFIG.VERIFICATION_PACKAGE}::sealtrust::SEALTRUST`],
+        target: `${getNetworkProfile().verificationPackage}::sealtrust::register_dataset`,
+        typeArguments: [`${getNetworkProfile().verificationPackage}::sealtrust::SEALTRUST`],
         arguments: args,
       });
 
@@ -137,6 +111,7 @@ export function useSealTrust() {
 
       const result = await signAndExecute({
         transaction: tx,
+        chain: getNetworkProfile().chain,
       });
 
       console.log("Production transaction result:", JSON.stringify(result, null, 2));
@@ -175,6 +150,43 @@ export function useSealTrust() {
     }
   }, [account, signAndExecute, suiClient]);
 
+  /**
+   * PRODUCTION: Register several Nautilus-attested datasets with as few wallet approvals as possible
+   * register_dataset calls are composed into programmable transaction blocks, split to stay
+   * within gas and size limits
+   *
+   * @param registrations - Attested metadata payloads with their TEE signatures
+   * @returns Transaction digest and created NFT ID per input, in input order
+   */
+  const registerDatasetsBatch = useCallback(async (
+    registrations: AttestedRegistration[]
+  ): Promise<BatchRegistrationResult[] | null> => {
+    if (!account) {
+      setError(ERROR_MESSAGES.WALLET_NOT_CONNECTED);
+      return null;
+    }
+
+    setRegistering(true);
+    setError(null);
+
+    try {
+      const results = await registerAttestedDatasets(registrations, {
+        address: account.address,
+        suiClient,
+        signAndExecuteTransaction: signAndExecute,
+      });
+
+      setRegistering(false);
+      return results;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : ERROR_MESSAGES.TRANSACTION_FAILED;
+      console.error("Batch registration error:", err);
+      setError(message);
+      setRegistering(false);
+      return null;
+    }
+  }, [account, signAndExecute, suiClient]);
+
   /**
    * DEV ONLY: Register a dataset on-chain (skips signature verification)
    * Use registerDatasetProduction for production deployments
@@ -209,14 +221,14 @@ export function useSealTrust() {
         timestamp,
         signature: signature.substring(0, 20) + "...",
         signatureLength: sigBytes.length,
-        enclaveConfigId: CONFIG.ENCLAVE_CONFIG_ID,
-        packageId: CONFIG.VERIFICATION_PACKAGE,
+        enclaveConfigId: getNetworkProfile().enclaveConfigId,
+        packageId: getNetworkProfile().verificationPackage,
       });
 
       // Call register_dataset_dev function (DEV ONLY - skips signature verification)
       const [nft] = tx.moveCall({
-        target: `${CONFIG.VERIFICATION_PACKAGE}::sealtrust::register_dataset_dev`,
-        typeArguments: [`${CONFIG.VERIFICATION_PACKAGE}::sealtrust::SEALTRUST`],
+        target: `${getNetworkProfile().verificationPackage}::sealtrust::register_dataset_dev`,
+        typeArguments: [`${getNetworkProfile().verificationPackage}::sealtrust::SEALTRUST`],
         arguments: [
           tx.pure.vector("u8", hexToBytes(hash)), // dataset_hash
           tx.pure.vector("u8", stringToBytes(datasetUrl)), // dataset_url
@@ -224,7 +236,7 @@ export function useSealTrust() {
           tx.pure.vector("u8", stringToBytes(schemaVersion)), // schema_version
           tx.pure.u64(timestamp), // timestamp_ms
           tx.pure.vector("u8", sigBytes), // signature (unused in dev version)
-          tx.object(CONFIG.ENCLAVE_CONFIG_ID), // enclave_config object (NOT Enclave)
+          tx.object(getNetworkProfile().enclaveConfigId), // enclave_config object (NOT Enclave)
         ],
       });
 
@@ -235,6 +247,7 @@ export function useSealTrust() {
 
       const result = await signAndExecute({
         transaction: tx,
+        chain: getNetworkProfile().chain,
       });
 
       console.log("DEV Transaction result:", JSON.stringify(result, null, 2));
@@ -290,6 +303,7 @@ export function useSealTrust() {
 
   /**
    * Verify if a dataset hash exists on-chain
+   * Answered from the registry index (refreshed incrementally on a miss)
    */
   const verifyDataset = useCallback(async (
     hash: string
@@ -298,83 +312,22 @@ export function useSealTrust() {
     setError(null);
 
     try {
-      // Query transactions that called register_dataset (production only)
-      const txBlocks = await suiClient.queryTransactionBlocks({
-        filter: {
-          MoveFunction: {
-            package: CONFIG.VERIFICATION_PACKAGE,
-            module: "sealtrust",
-            function: "register_dataset",
-          },
-        },
-        options: {
-          showObjectChanges: true,
-          showInput: true,
-        },
-        limit: 100,
-      });
+      const entry = await getDatasetRegistry().findByHash(suiClient, hash);
 
-      // Search through created NFTs for matching hash
-      for (const txBlock of txBlocks.data) {
-        const objectChanges = txBlock.objectChanges || [];
-
-        for (const change of objectChanges) {
-          if (
-            change.type === "created" &&
-            change.objectType?.includes("DatasetNFT")
-          ) {
-            // Get the NFT object details
-            const objectResponse = await suiClient.getObject({
-              id: (change as SuiObjectChange).objectId,
-              options: {
-                showContent: true,
-                showOwner: true,
-              },
-            });
+      setVerifying(false);
 
-            if (objectResponse.data?.content) {
-              const content = objectResponse.data.content as SuiObjectContent;
-              const nftHash = bytesToHex(content.fields.original_hash || []);
-
-              // Check if this NFT's hash matches
-              if (nftHash === hash) {
-                const owner = objectResponse.data.owner as SuiObjectOwner;
-
-                const dataset: DatasetNFT = {
-                  id: (change as SuiObjectChange).objectId,
-                  original_hash: hash,
-                  metadata_hash: bytesToHex(content.fields.metadata_hash || []),
-                  walrus_blob_id: content.fields.walrus_blob_id || "",
-                  seal_policy_id: content.fields.seal_policy_id || "",
-                  seal_allowlist_id: content.fields.seal_allowlist_id || "",
-                  name: content.fields.name || "",
-                  dataset_url: content.fields.dataset_url || "",
-                  format: content.fields.format || "",
-                  size: parseInt(content.fields.size || "0"),
-                  schema_version: content.fields.schema_version || "",
-                  verification_timestamp: parseInt(content.fields.verification_timestamp || "0"),
-                  enclave_id: content.fields.enclave_id || "",
-                  tee_signature: bytesToHex(content.fields.tee_signature || []),
-                  owner: owner?.AddressOwner || "",
-                };
-
-                setVerifying(false);
-                return {
-                  found: true,
-                  dataset,
-                  registrant: owner?.AddressOwner || "",
-                  tx_digest: txBlock.digest,
-                };
-              }
-            }
-          }
-        }
+      if (!entry) {
+        return {
+          found: false,
+          dataset: null,
+        };
       }
 
-      setVerifying(false);
       return {
-        found: false,
-        dataset: null,
+        found: true,
+        dataset: entry.nft,
+        registrant: entry.registrant,
+        tx_digest: entry.tx_digest,
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : ERROR_MESSAGES.NETWORK_ERROR;
@@ -388,82 +341,25 @@ export function useSealTrust() {
   }, [suiClient]);
 
   /**
-   * Get all registered datasets from the blockchain
+   * Find datasets registered with the same schema fingerprint (oldest first)
    */
-  const getAllDatasets = useCallback(async (): Promise<RegistryEntry[]> => {
+  const findDatasetsBySchema = useCallback(async (
+    fingerprint: string
+  ): Promise<RegistryEntry[]> => {
     try {
-      // Query all transactions that called register_dataset (production only)
-      const txBlocks = await suiClient.queryTransactionBlocks({
-        filter: {
-          MoveFunction: {
-            package: CONFIG.VERIFICATION_PACKAGE,
-            module: "sealtrust",
-            function: "register_dataset",
-          },
-        },
-        options: {
-          showObjectChanges: true,
-          showInput: true,
-        },
-        limit: 100,
-      });
-
-      const entries: RegistryEntry[] = [];
-
-      // Process each transaction to find created NFTs
-      for (const txBlock of txBlocks.data) {
-        const objectChanges = txBlock.objectChanges || [];
-
-        for (const change of objectChanges) {
-          if (
-            change.type === "created" &&
-            change.objectType?.includes("DatasetNFT")
-          ) {
-            // Get the NFT object details
-            const objectResponse = await suiClient.getObject({
-              id: (change as SuiObjectChange).objectId,
-              options: {
-                showContent: true,
-                showOwner: true,
-              },
-            });
-
-            if (objectResponse.data?.content) {
-              const content = objectResponse.data.content as SuiObjectContent;
-              const owner = objectResponse.data.owner as SuiObjectOwner;
-
-              const nft: DatasetNFT = {
-                id: (change as SuiObjectChange).objectId,
-                original_hash: bytesToHex(content.fields.original_hash || []),
-                metadata_hash: bytesToHex(content.fields.metadata_hash || []),
-                walrus_blob_id: content.fields.walrus_blob_id || "",
-                seal_policy_id: content.fields.seal_policy_id || "",
-                seal_allowlist_id: content.fields.seal_allowlist_id || "",
-                name: content.fields.name || "",
-                dataset_url: content.fields.dataset_url || "",
-                format: content.fields.format || "",
-                size: parseInt(content.fields.size || "0"),
-                schema_version: content.fields.schema_version || "",
-                verification_timestamp: parseInt(content.fields.verification_timestamp || "0"),
-                enclave_id: content.fields.enclave_id || "",
-                tee_signature: bytesToHex(content.fields.tee_signature || []),
-                owner: owner?.AddressOwner || "",
-              };
-
-              entries.push({
-                id: (change as SuiObjectChange).objectId,
-                nft,
-                registrant: owner?.AddressOwner || "",
-                tx_digest: txBlock.digest,
-                registered_at: nft.verification_timestamp,
-              });
-            }
-          }
-        }
-      }
+      return await getDatasetRegistry().findBySchema(suiClient, fingerprint);
+    } catch (err) {
+      console.error("Error searching datasets by schema:", err);
+      return [];
+    }
+  }, [suiClient]);
 
-      // Sort by timestamp (newest first)
-      return entries.sort((a, b) => b.registered_at - a.registered_at);
+  /**
+   * Get all registered datasets from the registry index
+   */
+  const getAllDatasets = useCallback(async (): Promise<RegistryEntry[]> => {
+    try {
+      return await getDatasetRegistry().getAll(suiClient);
     } catch (err) {
       console.error("Error fetching datasets:", err);
       return [];
@@ -477,49 +373,38 @@ export function useSealTrust() {
     address: string
   ): Promise<RegistryEntry[]> => {
     try {
-      const objects = await suiClient.getOwnedObjects({
-        owner: address,
-        filter: {
-          StructType: `${CONFIG.VERIFICATION_PACKAGE}::sealtrust::DatasetNFT`,
-        },
-        options: {
-          showContent: true,
-        },
-      });
-
       const entries: RegistryEntry[] = [];
 
-      for (const obj of objects.data) {
-        if (obj.data?.content) {
-          const content = obj.data.content as SuiObjectContent;
-
-          const nft: DatasetNFT = {
-            id: obj.data.objectId,
-            original_hash: bytesToHex(content.fields.original_hash || []),
-            metadata_hash: bytesToHex(content.fields.metadata_hash || []),
-            walrus_blob_id: content.fields.walrus_blob_id || "",
-            seal_policy_id: content.fields.seal_policy_id || "",
-            seal_allowlist_id: content.fields.seal_allowlist_id || "",
-            name: content.fields.name || "",
-            dataset_url: content.fields.dataset_url || "",
-            format: content.fields.format || "",
-            size: parseInt(content.fields.size || "0"),
-            schema_version: content.fields.schema_version || "",
-            verification_timestamp: parseInt(content.fields.verification_timestamp || "0"),
-            enclave_id: content.fields.enclave_id || "",
-            tee_signature: bytesToHex(content.fields.tee_signature || []),
-            owner: address,
-          };
-
-          entries.push({
-            id: obj.data.objectId,
-            nft,
-            registrant: address,
-            tx_digest: obj.data.digest || "",
-            registered_at: nft.verification_timestamp,
-          });
+      // Owned objects are paginated - walk every page
+      let cursor: string | null | undefined = null;
+      do {
+        const objects = await suiClient.getOwnedObjects({
+          owner: address,
+          cursor,
+          filter: {
+            StructType: `${getNetworkProfile().verificationPackage}::sealtrust::DatasetNFT`,
+          },
+          options: DATASET_NFT_OBJECT_OPTIONS,
+        });
+
+        for (const obj of objects.data) {
+          try {
+            const nft = decodeDatasetNFT(obj);
+            entries.push({
+              id: nft.id,
+              nft,
+              registrant: address,
+              tx_digest: obj.data?.digest || "",
+              registered_at: Number(nft.verification_timestamp),
+            });
+          } catch (err) {
+            if (!isDatasetNFTDecodeError(err)) throw err;
+            console.warn("Skipping malformed DatasetNFT:", err.message);
+          }
         }
-      }
+
+        cursor = objects.hasNextPage ? objects.nextCursor : null;
+      } while (cursor);
 
       return entries.sort((a, b) => b.registered_at - a.registered_at);
     } catch (err) {
@@ -537,37 +422,19 @@ export function useSealTrust() {
     try {
       const object = await suiClient.getObject({
         id: nftId,
-        options: {
-          showContent: true,
-          showOwner: true,
-        },
+        options: DATASET_NFT_OBJECT_OPTIONS,
       });
 
-      if (object.data?.content) {
-        const content = object.data.content as SuiObjectContent;
-        const owner = object.data.owner as SuiObjectOwner;
-
-        return {
-          id: nftId,
-          original_hash: bytesToHex(content.fields.original_hash || []),
-          metadata_hash: bytesToHex(content.fields.metadata_hash || []),
-          walrus_blob_id: content.fields.walrus_blob_id || "",
-          seal_policy_id: content.fields.seal_policy_id || "",
-          seal_allowlist_id: content.fields.seal_allowlist_id || "",
-          name: content.fields.name || "",
-          dataset_url: content.fields.dataset_url || "",
-          format: content.fields.format || "",
-          size: parseInt(content.fields.size || "0"),
-          schema_version: content.fields.schema_version || "",
-          verification_timestamp: parseInt(content.fields.verification_timestamp || "0"),
-          enclave_id: content.fields.enclave_id || "",
-          tee_signature: bytesToHex(content.fields.tee_signature || []),
-          owner: owner?.AddressOwner || "",
-        };
+      if (!object.data) {
+        return null;
       }
 
-      return null;
-    } catch {
+      return decodeDatasetNFT(object);
+    } catch (err) {
+      if (isDatasetNFTDecodeError(err)) {
+        console.error("Malformed DatasetNFT:", err);
+        setError(err.message);
+      }
       return null;
     }
   }, [suiClient]);
@@ -583,8 +450,10 @@ export function useSealTrust() {
     // Functions
     registerDataset,              // Backwards compatible (uses dev mode)
     registerDatasetProduction,    // PRODUCTION: Full TEE verification
+    registerDatasetsBatch,        // PRODUCTION: Several datasets per transaction
     registerDatasetDev,           // DEV ONLY: Skips signature verification
     verifyDataset,
+    findDatasetsBySchema,
     getAllDatasets,
     getDatasetsByOwner,
     getDatasetDetails,
@@ -1,6 +1,7 @@
 import { Transaction } from '@mysten/sui/transactions';
 import { SuiClient } from '@mysten/sui/client';
 import { toHex } from '@mysten/sui/utils';
+import { getNetworkProfile } from './networks';
 
 interface AllowlistFields {
   list?: string[];
@@ -26,7 +27,7 @@ export interface AddUserResult {
 }
 
 // Type for the signAndExecuteTransaction function from dapp-kit
-type SignAndExecuteFn = (args: {
+export type SignAndExecuteFn = (args: {
   transaction: Transaction;
   chain?: `${string}:${string}`;
 }) => Promise<{ digest: string }>;
@@ -68,7 +69,7 @@ export class AllowlistService {
     // Execute transaction
     const result = await signAndExecuteTransaction({
       transaction: tx,
-      chain: 'sui:testnet' as `${string}:${string}`,
+      chain: getNetworkProfile().chain,
     });
 
     console.log('Transaction digest:', result.digest);
@@ -181,7 +182,7 @@ export class AllowlistService {
 
     const result = await signAndExecuteTransaction({
       transaction: tx,
-      chain: 'sui:testnet' as `${string}:${string}`,
+      chain: getNetworkProfile().chain,
     });
 
     console.log('✅ User added to allowlist');
@@ -223,7 +224,7 @@ export class AllowlistService {
 
     const result = await signAndExecuteTransaction({
       transaction: tx,
-      chain: 'sui:testnet' as `${string}:${string}`,
+      chain: getNetworkProfile().chain,
     });
 
     console.log('✅ User removed from allowlist');
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchManifest } from './batch-manifest';
+
+describe('parseBatchManifest', () => {
+  it('reads CSV manifests with quoted fields, CRLF line breaks and blank lines', () => {
+    const csv = 'path,name,description\r\n' +
+      'data/a.csv,"Sales, 2024","Quarterly ""raw"" export\nfrom the ERP"\r\n' +
+      '\r\n' +
+      ',,\r\n' +
+      'https://example.com/b.json,,';
+
+    expect(parseBatchManifest(csv, 'manifest.csv')).toEqual([
+      { source: 'data/a.csv', name: 'Sales, 2024', description: 'Quarterly "raw" export\nfrom the ERP', format: undefined },
+      { source: 'https://example.com/b.json', name: undefined, description: undefined, format: undefined },
+    ]);
+  });
+
+  it('rejects CSV manifests without a source column or with a row missing its source', () => {
+    expect(() => parseBatchManifest('name,format\na,CSV\n', 'manifest.csv')).toThrow('"source", "url" or "path" column');
+    expect(() => parseBatchManifest('source,name\na.csv,A\n,B\n', 'manifest.csv')).toThrow('Manifest row 3 has no source');
+  });
+
+  it('rejects manifests that list no datasets', () => {
+    expect(() => parseBatchManifest('source,name\n', 'manifest.csv')).toThrow('does not list any datasets');
+    expect(() => parseBatchManifest('[]', 'manifest.json')).toThrow('does not list any datasets');
+  });
+});
@@ -0,0 +1,221 @@
+import { DatasetFormat, formatFromFileName, normalizeFormat } from './dataset-format';
+import { DelimitedParser } from './delimited-parser';
+import { detectFormatFromURL, extractFilenameFromURL, validateDatasetURL } from './url-validation';
+
+/**
+ * Batch Manifest
+ *
+ * A batch is a list of datasets registered in one run: every file of a selected
+ * directory, or the rows of a CSV/JSON manifest. Manifest rows reference either a
+ * URL or a file path (resolved against the selected directory) and can give each
+ * dataset its own name, description and format.
+ *
+ * CSV manifest header: source,name,description,format  (`path` or `url` also accepted for source)
+ * JSON manifest: [{ "source": "...", "name": "...", ... }] or { "datasets": [...] }
+ */
+
+export interface BatchManifestRow {
+  source: string;                // URL or file path relative to the selected directory
+  name?: string;
+  description?: string;
+  format?: string;
+}
+
+export interface BatchEntry {
+  id: string;
+  name: string;
+  description: string;
+  format: DatasetFormat;
+  file?: File;
+  url?: string;
+}
+
+// Manifest files found in a selected directory are read, not registered
+const MANIFEST_FILE_NAMES = ['manifest.csv', 'manifest.json', 'sealtrust-manifest.csv', 'sealtrust-manifest.json'];
+
+/**
+ * Parse a CSV or JSON manifest
+ *
+ * @param text - Manifest file contents
+ * @param fileName - Manifest file name (extension decides the parser)
+ * @returns Manifest rows in file order
+ */
+export function parseBatchManifest(text: string, fileName: string): BatchManifestRow[] {
+  const rows = fileName.toLowerCase().endsWith('.json')
+    ? parseJsonManifest(text)
+    : parseCsvManifest(text);
+
+  if (rows.length === 0) {
+    throw new Error('Manifest does not list any datasets');
+  }
+  return rows;
+}
+
+function parseJsonManifest(text: string): BatchManifestRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Manifest is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { datasets?: unknown })?.datasets;
+
+  if (!Array.isArray(list)) {
+    throw new Error('JSON manifest must be an array or { "datasets": [...] }');
+  }
+
+  return list.map((item, i) => {
+    const row = (typeof item === 'string' ? { source: item } : item) as Record<string, unknown>;
+    const source = row.source ?? row.url ?? row.path;
+    if (typeof source !== 'string' || !source.trim()) {
+      throw new Error(`Manifest entry ${i + 1} has no source, url or path`);
+    }
+    return {
+      source: source.trim(),
+      name: typeof row.name === 'string' ? row.name : undefined,
+      description: typeof row.description === 'string' ? row.description : undefined,
+      format: typeof row.format === 'string' ? row.format : undefined,
+    };
+  });
+}
+
+function parseCsvManifest(text: string): BatchManifestRow[] {
+  const parser = new DelimitedParser(',');
+  const records = [...parser.push(text), ...parser.flush()].filter(record => record.some(cell => cell.trim()));
+  if (records.length === 0) return [];
+
+  const header = records[0].map(cell => cell.trim().toLowerCase());
+  const sourceIndex = ['source', 'url', 'path'].map(col => header.indexOf(col)).find(i => i >= 0);
+  if (sourceIndex === undefined) {
+    throw new Error('CSV manifest needs a "source", "url" or "path" column');
+  }
+
+  const column = (record: string[], name: string) => {
+    const index = header.indexOf(name);
+    const value = index >= 0 ? record[index]?.trim() : undefined;
+    return value || undefined;
+  };
+
+  return records.slice(1).map((record, i) => {
+    const source = record[sourceIndex]?.trim();
+    if (!source) {
+      throw new Error(`Manifest row ${i + 2} has no source`);
+    }
+    return {
+      source,
+      name: column(record, 'name'),
+      description: column(record, 'description'),
+      format: column(record, 'format'),
+    };
+  });
+}
+
+/**
+ * Whether a file from a selected directory is a batch manifest
+ */
+export function isManifestFile(file: File): boolean {
+  return MANIFEST_FILE_NAMES.includes(file.name.toLowerCase());
+}
+
+/**
+ * Path of a file inside the selected directory, without the directory name itself
+ */
+function relativePath(file: File): string {
+  const path = file.webkitRelativePath || file.name;
+  const slash = path.indexOf('/');
+  return slash >= 0 ? path.slice(slash + 1) : path;
+}
+
+/**
+ * Detect a dataset format from a file name, falling back to the given default
+ * (the content is sniffed again when the pipeline reads the file)
+ */
+function detectFormat(fileName: string, fallback: string): DatasetFormat {
+  return formatFromFileName(fileName) ?? normalizeFormat(fallback);
+}
+
+/**
+ * Turn every file of a selected directory into a batch entry (hidden files and manifests skipped)
+ *
+ * @param files - Files from a directory picker
+ * @param defaults - Description and format used for every entry
+ */
+export function entriesFromDirectory(
+  files: File[],
+  defaults: { description: string; format: string }
+): BatchEntry[] {
+  return files
+    .filter(file => !file.name.startsWith('.') && !isManifestFile(file))
+    .sort((a, b) => relativePath(a).localeCompare(relativePath(b)))
+    .map((file, i) => ({
+      id: `${i}:${relativePath(file)}`,
+      name: file.name,
+      description: defaults.description,
+      format: detectFormat(file.name, defaults.format),
+      file,
+    }));
+}
+
+/**
+ * Resolve manifest rows to batch entries
+ *
+ * URL rows are validated against the URL allowlist. Path rows are matched against the
+ * selected directory by relative path, then by file name.
+ *
+ * @param rows - Parsed manifest rows
+ * @param files - Files from the selected directory (empty if only a manifest was chosen)
+ * @param defaults - Description and format for rows that do not set them
+ * @returns Resolved entries, and one error per row that could not be resolved
+ */
+export function resolveManifestEntries(
+  rows: BatchManifestRow[],
+  files: File[],
+  defaults: { description: string; format: string }
+): { entries: BatchEntry[]; errors: string[] } {
+  const byPath = new Map(files.map(file => [relativePath(file), file]));
+  const byName = new Map(files.map(file => [file.name, file]));
+  const entries: BatchEntry[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, i) => {
+    const isUrl = /^(https?|ipfs|ar):\/\//i.test(row.source);
+
+    if (isUrl) {
+      const validation = validateDatasetURL(row.source);
+      if (!validation.isValid) {
+        errors.push(`${row.source}: ${validation.error}`);
+        return;
+      }
+      entries.push({
+        id: `${i}:${row.source}`,
+        name: row.name || extractFilenameFromURL(row.source),
+        description: row.description || defaults.description,
+        format: row.format
+          ? normalizeFormat(row.format)
+          : detectFormatFromURL(row.source) ?? normalizeFormat(defaults.format),
+        url: row.source,
+      });
+      return;
+    }
+
+    const path = row.source.replace(/^\.?\//, '');
+    const file = byPath.get(path) || byName.get(path.split('/').pop()!);
+    if (!file) {
+      errors.push(`${row.source}: file not found in the selected folder`);
+      return;
+    }
+
+    entries.push({
+      id: `${i}:${path}`,
+      name: row.name || file.name,
+      description: row.description || defaults.description,
+      format: row.format ? normalizeFormat(row.format) : detectFormat(file.name, defaults.format),
+      file,
+    });
+  });
+
+  return { entries, errors };
+}
@@ -0,0 +1,200 @@
+// @vitest-environment node
+import { bcs } from '@mysten/sui/bcs';
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { fromBase64 } from '@mysten/sui/utils';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AttestedRegistration,
+  BatchRegistrationResult,
+  RegistrationTransactionError,
+  estimateRegistrationBytes,
+  planRegistrationBatches,
+  registerAttestedDatasets,
+} from './batch-register';
+import { GAS_BUDGET, MAX_BATCH_GAS_BUDGET, MAX_BATCH_TX_BYTES } from './constants';
+import { stringToVecU8 } from './types';
+
+const MAX_CALLS = MAX_BATCH_GAS_BUDGET / GAS_BUDGET;
+
+function registration(blobId: string, descriptionBytes = 10): AttestedRegistration {
+  return {
+    metadata: {
+      dataset_id: stringToVecU8(`dataset-${blobId}`),
+      name: stringToVecU8('name'),
+      description: Array(descriptionBytes).fill(0x61),
+      format: stringToVecU8('CSV'),
+      size: 100,
+      original_hash: Array(32).fill(1),
+      walrus_blob_id: stringToVecU8(blobId),
+      seal_policy_id: stringToVecU8('policy'),
+      timestamp: 1,
+      uploader: Array(32).fill(2),
+    },
+    signature: 'ab'.repeat(64),
+    allowlistId: '0x1',
+  };
+}
+
+describe('planRegistrationBatches', () => {
+  it('keeps small registrations in one transaction, in input order', () => {
+    expect(planRegistrationBatches([registration('a'), registration('b'), registration('c')])).toEqual([[0, 1, 2]]);
+    expect(planRegistrationBatches([])).toEqual([]);
+  });
+
+  it('splits by the gas budget', () => {
+    const registrations = Array.from({ length: MAX_CALLS * 2 + 1 }, (_, i) => registration(`blob-${i}`));
+    const batches = planRegistrationBatches(registrations);
+    expect(batches.map(batch => batch.length)).toEqual([MAX_CALLS, MAX_CALLS, 1]);
+    expect(batches.flat()).toEqual(registrations.map((_, i) => i));
+  });
+
+  it('splits by transaction size', () => {
+    const large = registration('large', 40 * 1024);
+    const bytes = estimateRegistrationBytes(large);
+    expect(bytes * 2).toBeLessThan(MAX_BATCH_TX_BYTES);
+    expect(bytes * 3).toBeGreaterThan(MAX_BATCH_TX_BYTES);
+
+    expect(planRegistrationBatches([large, large, large, registration('small')])).toEqual([[0, 1], [2, 3]]);
+  });
+
+  it('rejects a registration too large for any transaction', () => {
+    expect(() => planRegistrationBatches([registration('ok'), registration('huge', MAX_BATCH_TX_BYTES)]))
+      .toThrow(/^Registration 2 is too large for a single transaction/);
+  });
+});
+
+describe('registerAttestedDatasets', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // A client whose transactions have the given statuses (one per transaction, the last repeats)
+  // and create NFTs for every registered blob ID not listed as missing
+  function client(
+    statuses: { status: 'success' | 'failure'; error?: string }[],
+    options: { balance?: number; missingBlobIds?: string[] } = {}
+  ): SuiClient {
+    const created: string[][] = [];
+    let transaction = 0;
+    return {
+      getBalance: vi.fn().mockResolvedValue({ totalBalance: String(options.balance ?? MAX_BATCH_GAS_BUDGET * 5) }),
+      waitForTransaction: vi.fn().mockImplementation(async ({ digest }: { digest: string }) => {
+        const status = statuses[Math.min(transaction++, statuses.length - 1)];
+        const blobIds = status.status === 'success' ? submitted.get(digest)! : [];
+        created.push(blobIds.filter(blobId => !options.missingBlobIds?.includes(blobId)));
+        return {
+          effects: { status },
+          objectChanges: created[created.length - 1].map(blobId => ({
+            type: 'created',
+            objectType: '0x1::sealtrust::DatasetNFT',
+            objectId: `0x${blobId}`,
+          })),
+        };
+      }),
+      multiGetObjects: vi.fn().mockImplementation(async ({ ids }: { ids: string[] }) => ids.reverse().map(id => ({
+        data: { objectId: id, content: { dataType: 'moveObject', fields: { walrus_blob_id: id.slice(2) } } },
+      }))),
+    } as unknown as SuiClient;
+  }
+
+  // Blob IDs registered by each submitted transaction, by digest
+  const submitted = new Map<string, string[]>();
+
+  const signAndExecuteTransaction = vi.fn();
+
+  beforeEach(() => {
+    submitted.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    signAndExecuteTransaction.mockReset().mockImplementation(async ({ transaction }: { transaction: Transaction }) => {
+      const digest = `digest-${submitted.size + 1}`;
+      const blobIds = transaction.getData().commands
+        .filter(command => command.MoveCall)
+        .map(command => {
+          const blobIdArgument = command.MoveCall!.arguments[7] as { Input: number };
+          const input = transaction.getData().inputs[blobIdArgument.Input];
+          return bcs.string().parse(fromBase64(input.Pure!.bytes));
+        });
+      submitted.set(digest, blobIds);
+      return { digest };
+    });
+  });
+
+  it('returns the NFT of each registration and reports each transaction', async () => {
+    const onBatchRegistered = vi.fn();
+
+    const results = await registerAttestedDatasets(
+      [registration('a'), registration('b')],
+      { address: '0x2', suiClient: client([{ status: 'success' }]), signAndExecuteTransaction },
+      { onBatchRegistered }
+    );
+
+    expect(results).toEqual([
+      { index: 0, txDigest: 'digest-1', nftId: '0xa' },
+      { index: 1, txDigest: 'digest-1', nftId: '0xb' },
+    ]);
+    expect(onBatchRegistered).toHaveBeenCalledExactlyOnceWith(results);
+  });
+
+  it('fails a registration whose transaction created no NFT for its blob', async () => {
+    const results = await registerAttestedDatasets(
+      [registration('a'), registration('b')],
+      { address: '0x2', suiClient: client([{ status: 'success' }], { missingBlobIds: ['b'] }), signAndExecuteTransaction }
+    );
+
+    expect(results[0].nftId).toBe('0xa');
+    expect(results[1]).toEqual({
+      index: 1,
+      txDigest: 'digest-1',
+      nftId: null,
+      error: 'Transaction digest-1 created no DatasetNFT for Walrus blob b',
+    });
+  });
+
+  it('reports earlier transactions before failing only the failed one', async () => {
+    const onBatchRegistered = vi.fn();
+    const onBatchFailed = vi.fn();
+    const registrations = Array.from({ length: MAX_CALLS * 2 + 1 }, (_, i) => registration(`${i}`));
+
+    const error = await registerAttestedDatasets(
+      registrations,
+      {
+        address: '0x2',
+        suiClient: client([{ status: 'success' }, { status: 'failure', error: 'MoveAbort(register_dataset, 1)' }]),
+        signAndExecuteTransaction,
+      },
+      { onBatchRegistered, onBatchFailed }
+    ).then(() => null, (error: unknown) => error);
+
+    expect(error).toBeInstanceOf(RegistrationTransactionError);
+    expect((error as Error).message).toBe('Registration transaction digest-2 failed: MoveAbort(register_dataset, 1)');
+
+    expect(onBatchRegistered).toHaveBeenCalledOnce();
+    const [firstBatch] = onBatchRegistered.mock.calls[0] as [BatchRegistrationResult[]];
+    expect(firstBatch.map(result => result.index)).toEqual(registrations.slice(0, MAX_CALLS).map((_, i) => i));
+    expect(firstBatch.every(result => result.txDigest === 'digest-1' && result.nftId)).toBe(true);
+
+    expect(onBatchFailed).toHaveBeenCalledExactlyOnceWith(registrations.slice(MAX_CALLS, MAX_CALLS * 2).map((_, i) => MAX_CALLS + i), error);
+    // The last transaction is never submitted
+    expect(signAndExecuteTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('sizes transactions so the wallet balance covers their gas budget', async () => {
+    const results = await registerAttestedDatasets(
+      [registration('a'), registration('b'), registration('c')],
+      { address: '0x2', suiClient: client([{ status: 'success' }], { balance: GAS_BUDGET * 2.5 }), signAndExecuteTransaction }
+    );
+
+    expect(results.map(result => result.txDigest)).toEqual(['digest-1', 'digest-1', 'digest-2']);
+    const [first] = signAndExecuteTransaction.mock.calls[0] as [{ transaction: Transaction }];
+    expect(first.transaction.getData().gasData.budget).toBe(String(GAS_BUDGET * 2));
+  });
+
+  it('fails up front when the wallet cannot pay for one registration', async () => {
+    await expect(registerAttestedDatasets(
+      [registration('a')],
+      { address: '0x2', suiClient: client([{ status: 'success' }], { balance: GAS_BUDGET / 2 }), signAndExecuteTransaction }
+    )).rejects.toThrow('Registering needs at least 0.1 SUI for gas, but the wallet holds 0.05 SUI');
+    expect(signAndExecuteTransaction).not.toHaveBeenCalled();
+  });
+});
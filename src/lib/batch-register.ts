@@ -0,0 +1,298 @@
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction, TransactionResult } from '@mysten/sui/transactions';
+import { SignAndExecuteFn } from './allowlist-service';
+import { GAS_BUDGET, MAX_BATCH_GAS_BUDGET, MAX_BATCH_TX_BYTES } from './constants';
+import { getNetworkProfile } from './networks';
+import { sealService } from './seal-service';
+import { DatasetVerification, hexToVecU8, vecU8ToString } from './types';
+
+/**
+ * Batch Registration
+ *
+ * Composes several register_dataset calls into one programmable transaction block so N
+ * attested datasets need one wallet approval instead of N. Payloads are split across
+ * transactions to stay within the gas budget and transaction size limits.
+ */
+
+export interface AttestedRegistration {
+  metadata: DatasetVerification; // Metadata exactly as signed by Nautilus
+  signature: string;             // Hex encoded TEE signature from /verify_metadata
+  allowlistId?: string;          // Seal allowlist ID (None on-chain when omitted)
+}
+
+export interface BatchRegistrationResult {
+  index: number;                 // Position in the input array
+  txDigest: string;
+  nftId: string | null;          // Null when the transaction created no DatasetNFT for this input
+  error?: string;                // Why nftId is null
+}
+
+export interface BatchRegistrationCallbacks {
+  // Results of each successful transaction, before the next one is submitted
+  onBatchRegistered?: (results: BatchRegistrationResult[]) => Promise<void> | void;
+  // Input indices of the transaction that failed (later ones are not submitted)
+  onBatchFailed?: (indices: number[], error: unknown) => Promise<void> | void;
+}
+
+/**
+ * Thrown when a registration transaction executed but did not succeed (nothing was registered)
+ */
+export class RegistrationTransactionError extends Error {
+  constructor(readonly digest: string, reason: string) {
+    super(`Registration transaction ${digest} failed: ${reason}`);
+    this.name = 'RegistrationTransactionError';
+  }
+}
+
+// Command, argument indices, type argument and the shared enclave reference
+const CALL_OVERHEAD_BYTES = 256;
+
+const MIST_PER_SUI = 1_000_000_000;
+
+/**
+ * Rough serialized size of one register_dataset call
+ */
+export function estimateRegistrationBytes(registration: AttestedRegistration): number {
+  const { metadata } = registration;
+  return CALL_OVERHEAD_BYTES +
+    metadata.dataset_id.length +
+    metadata.name.length +
+    metadata.description.length +
+    metadata.format.length +
+    metadata.original_hash.length +
+    32 +                                  // metadata_hash
+    metadata.walrus_blob_id.length +
+    metadata.seal_policy_id.length +
+    32 +                                  // seal_allowlist_id
+    16 +                                  // size + timestamp_ms
+    registration.signature.length / 2;
+}
+
+/**
+ * Split registrations into transaction-sized groups (input order is kept)
+ *
+ * @param registrations - Attested payloads
+ * @param maxGasBudget - Largest gas budget one transaction may ask for (GAS_BUDGET per call)
+ * @returns Input indices per transaction
+ */
+export function planRegistrationBatches(
+  registrations: AttestedRegistration[],
+  maxGasBudget: number = MAX_BATCH_GAS_BUDGET
+): number[][] {
+  const maxCalls = Math.max(1, Math.floor(maxGasBudget / GAS_BUDGET));
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentBytes = 0;
+
+  registrations.forEach((registration, index) => {
+    const bytes = estimateRegistrationBytes(registration);
+    if (bytes > MAX_BATCH_TX_BYTES) {
+      throw new Error(`Registration ${index + 1} is too large for a single transaction (${bytes} bytes)`);
+    }
+
+    if (current.length >= maxCalls || currentBytes + bytes > MAX_BATCH_TX_BYTES) {
+      batches.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+
+    current.push(index);
+    currentBytes += bytes;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Add a register_dataset call to a transaction
+ *
+ * @returns The DatasetNFT result (must be transferred by the caller)
+ */
+export async function addRegisterDatasetCall(
+  tx: Transaction,
+  registration: AttestedRegistration
+): Promise<TransactionResult[number]> {
+  const { metadata, signature, allowlistId } = registration;
+
+  // Compute metadata hash (for DatasetNFT.metadata_hash field)
+  const metadataHash = await sealService.hashData(new TextEncoder().encode(JSON.stringify(metadata)));
+
+  // PRODUCTION: Use register_dataset with full TEE signature verification
+  const [nft] = tx.moveCall({
+    target: `${getNetworkProfile().verificationPackage}::sealtrust::register_dataset`,
+    typeArguments: [`${getNetworkProfile().verificationPackage}::sealtrust::SEALTRUST`],
+    arguments: [
+      tx.pure.vector('u8', metadata.dataset_id),                       // dataset_id
+      tx.pure.vector('u8', metadata.name),                             // name
+      tx.pure.vector('u8', metadata.description),                      // description
+      tx.pure.vector('u8', metadata.format),                           // format
+      tx.pure.u64(metadata.size),                                      // size
+      tx.pure.vector('u8', metadata.original_hash),                    // original_hash
+      tx.pure.vector('u8', hexToVecU8(metadataHash)),                  // metadata_hash
+      tx.pure.string(vecU8ToString(metadata.walrus_blob_id).trim()),   // walrus_blob_id
+      tx.pure.string(vecU8ToString(metadata.seal_policy_id).trim()),   // seal_policy_id
+      tx.pure.option('id', allowlistId?.trim() || null),               // seal_allowlist_id
+      tx.pure.u64(metadata.timestamp),                                 // timestamp_ms
+      tx.pure.vector('u8', hexToVecU8(signature)),                     // tee_signature
+      tx.object(getNetworkProfile().enclaveId),                        // enclave (Enclave<T>)
+    ],
+  });
+
+  return nft;
+}
+
+/**
+ * Build one transaction registering every payload and transferring the NFTs to the recipient
+ *
+ * Callers are responsible for keeping the group within limits (see planRegistrationBatches).
+ */
+export async function buildRegisterDatasetsTransaction(
+  registrations: AttestedRegistration[],
+  recipient: string
+): Promise<Transaction> {
+  const tx = new Transaction();
+
+  const nfts = [];
+  for (const registration of registrations) {
+    nfts.push(await addRegisterDatasetCall(tx, registration));
+  }
+
+  // Transfer the NFTs to the user (required by Move resource safety)
+  tx.transferObjects(nfts, tx.pure.address(recipient));
+  tx.setGasBudget(GAS_BUDGET * registrations.length);
+
+  return tx;
+}
+
+/**
+ * Wait for a registration transaction and list the created DatasetNFT IDs per Walrus blob ID
+ *
+ * @throws RegistrationTransactionError if the transaction did not succeed
+ */
+export async function resolveCreatedDatasetNfts(
+  digest: string,
+  suiClient: SuiClient
+): Promise<Map<string, string[]>> {
+  // Wait for transaction to be indexed, then get NFT IDs
+  const txResponse = await suiClient.waitForTransaction({
+    digest,
+    options: { showEffects: true, showObjectChanges: true },
+  });
+
+  const status = txResponse.effects?.status;
+  if (status?.status !== 'success') {
+    throw new RegistrationTransactionError(digest, status?.error || 'no effects returned');
+  }
+
+  const nftIds = (txResponse.objectChanges || [])
+    .filter(change => change.type === 'created' && change.objectType.includes('::sealtrust::DatasetNFT'))
+    .map(change => (change as { objectId: string }).objectId);
+
+  const byBlobId = new Map<string, string[]>();
+  if (nftIds.length === 0) {
+    return byBlobId;
+  }
+
+  // Object changes are not in call order - match NFTs back to inputs by their blob ID
+  const objects = await suiClient.multiGetObjects({ ids: nftIds, options: { showContent: true } });
+  for (const object of objects) {
+    const content = object.data?.content;
+    if (content?.dataType !== 'moveObject') continue;
+
+    const blobId = String((content.fields as Record<string, unknown>).walrus_blob_id);
+    byBlobId.set(blobId, [...(byBlobId.get(blobId) || []), object.data!.objectId]);
+  }
+  return byBlobId;
+}
+
+/**
+ * Largest gas budget the wallet's SUI balance covers, capped at MAX_BATCH_GAS_BUDGET
+ *
+ * @throws If the balance does not cover the gas budget of a single register_dataset call
+ */
+export async function affordableGasBudget(address: string, suiClient: SuiClient): Promise<number> {
+  const { totalBalance } = await suiClient.getBalance({ owner: address });
+  const balance = Number(totalBalance);
+
+  if (balance < GAS_BUDGET) {
+    throw new Error(
+      `Registering needs at least ${GAS_BUDGET / MIST_PER_SUI} SUI for gas, ` +
+      `but the wallet holds ${balance / MIST_PER_SUI} SUI`
+    );
+  }
+  return Math.min(MAX_BATCH_GAS_BUDGET, balance);
+}
+
+/**
+ * Register attested datasets with as few transactions as the limits allow
+ *
+ * Transactions are submitted one after another, each with no more calls than the wallet's
+ * balance can budget gas for. If one fails, the earlier ones are already on-chain - their
+ * results have been passed to onBatchRegistered.
+ *
+ * @param registrations - Attested payloads
+ * @param ctx - Recipient address, client and wallet signer
+ * @param callbacks - Called after each transaction succeeds or fails
+ * @returns Created NFT ID per input (or why there is none), in input order
+ * @throws RegistrationTransactionError if a transaction did not succeed
+ */
+export async function registerAttestedDatasets(
+  registrations: AttestedRegistration[],
+  ctx: { address: string; suiClient: SuiClient; signAndExecuteTransaction: SignAndExecuteFn },
+  callbacks: BatchRegistrationCallbacks = {}
+): Promise<BatchRegistrationResult[]> {
+  const results: BatchRegistrationResult[] = [];
+  const batches = planRegistrationBatches(registrations, await affordableGasBudget(ctx.address, ctx.suiClient));
+
+  for (const [i, indices] of batches.entries()) {
+    let batchResults: BatchRegistrationResult[];
+    try {
+      batchResults = await registerBatch(indices, registrations, ctx);
+    } catch (error) {
+      await callbacks.onBatchFailed?.(indices, error);
+      throw error;
+    }
+
+    console.log(`✅ Registered ${indices.length} dataset(s) in transaction ${i + 1}/${batches.length}:`, batchResults[0].txDigest);
+    await callbacks.onBatchRegistered?.(batchResults);
+    results.push(...batchResults);
+  }
+
+  return results.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Submit one transaction for the given inputs and match the created NFTs back to them
+ */
+async function registerBatch(
+  indices: number[],
+  registrations: AttestedRegistration[],
+  ctx: { address: string; suiClient: SuiClient; signAndExecuteTransaction: SignAndExecuteFn }
+): Promise<BatchRegistrationResult[]> {
+  const tx = await buildRegisterDatasetsTransaction(indices.map(index => registrations[index]), ctx.address);
+
+  const result = await ctx.signAndExecuteTransaction({
+    transaction: tx,
+    chain: getNetworkProfile().chain,
+  });
+
+  const nftsByBlobId = await resolveCreatedDatasetNfts(result.digest, ctx.suiClient);
+
+  return indices.map(index => {
+    const blobId = vecU8ToString(registrations[index].metadata.walrus_blob_id).trim();
+    const nftId = nftsByBlobId.get(blobId)?.shift();
+    return nftId
+      ? { index, txDigest: result.digest, nftId }
+      : { index, txDigest: result.digest, nftId: null, error: missingDatasetNftMessage(result.digest, blobId) };
+  });
+}
+
+/**
+ * Error for a successful registration transaction that created no DatasetNFT for a blob
+ */
+export function missingDatasetNftMessage(digest: string, blobId: string): string {
+  return `Transaction ${digest} created no DatasetNFT for Walrus blob ${blobId}`;
+}
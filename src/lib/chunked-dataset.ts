@@ -0,0 +1,208 @@
+import { SuiClient } from '@mysten/sui/client';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { allowlistService } from './allowlist-service';
+import { sealService } from './seal-service';
+import { walrusService, WalrusTransferOptions } from './walrus-service';
+import { ChunkManifest, SignedChunkManifest, UploadedChunk } from './types';
+
+/**
+ * Chunked Dataset Storage
+ *
+ * Large datasets are split into fixed-size chunks. Each chunk is Seal-encrypted under
+ * the dataset's policy ID and stored as its own Walrus blob. A manifest listing the
+ * chunk blob IDs in order, with the hashes of their encrypted bytes, is signed by the
+ * uploader's wallet and stored as one more blob. The DatasetNFT's walrus_blob_id points at
+ * that manifest blob. The manifest is stored unencrypted, so it carries no file name and no
+ * plaintext chunk hashes.
+ */
+
+const MANIFEST_KIND = 'sealtrust-chunk-manifest';
+
+type SignPersonalMessageFn = (msg: { message: Uint8Array }) => Promise<{ signature: string }>;
+
+/**
+ * Canonical bytes of a manifest (fixed key order) - this is what gets signed
+ */
+export function canonicalManifestBytes(manifest: ChunkManifest): Uint8Array {
+  const canonical: ChunkManifest = {
+    kind: manifest.kind,
+    version: manifest.version,
+    size: manifest.size,
+    chunk_size: manifest.chunk_size,
+    original_hash: manifest.original_hash,
+    seal_policy_id: manifest.seal_policy_id,
+    uploader: manifest.uploader,
+    created_at: manifest.created_at,
+    chunks: manifest.chunks.map(chunk => ({
+      index: chunk.index,
+      blob_id: chunk.blob_id,
+      size: chunk.size,
+      encrypted_hash: chunk.encrypted_hash,
+    })),
+  };
+  return new TextEncoder().encode(JSON.stringify(canonical));
+}
+
+/**
+ * Serialize a signed manifest for storage on Walrus
+ */
+export function encodeSignedManifest(signed: SignedChunkManifest): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(signed));
+}
+
+/**
+ * Try to read a signed manifest from a downloaded blob
+ *
+ * Seal-encrypted blobs are BCS and never start with `{`, so single-blob datasets
+ * are told apart from chunked ones without extra on-chain fields.
+ *
+ * @param bytes - Blob bytes downloaded from Walrus
+ * @returns The signed manifest, or null if the blob is not a manifest
+ */
+export function decodeSignedManifest(bytes: Uint8Array): SignedChunkManifest | null {
+  if (bytes.length === 0 || bytes[0] !== 0x7b /* '{' */) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(bytes)) as Partial<SignedChunkManifest>;
+    if (
+      parsed.manifest?.kind !== MANIFEST_KIND ||
+      typeof parsed.signature !== 'string' ||
+      !Array.isArray(parsed.manifest.chunks)
+    ) {
+      return null;
+    }
+    return parsed as SignedChunkManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the uploader's signature over the manifest
+ *
+ * @param signed - Signed manifest
+ * @param suiClient - SuiClient instance (needed for zkLogin signatures)
+ * @returns True if the signature is valid for manifest.uploader
+ */
+export async function verifyManifestSignature(
+  signed: SignedChunkManifest,
+  suiClient: SuiClient
+): Promise<boolean> {
+  try {
+    await verifyPersonalMessageSignature(
+      canonicalManifestBytes(signed.manifest),
+      signed.signature,
+      { address: signed.manifest.uploader, client: suiClient }
+    );
+    return true;
+  } catch (error) {
+    console.error('Manifest signature verification failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Encrypt a file chunk by chunk, upload every chunk to Walrus, then sign and upload the manifest
+ *
+ * @param file - File to store
+ * @param packageId - Seal package ID
+ * @param allowlistId - Allowlist object ID (namespace for policy ID)
+ * @param uploader - Uploader's Sui address (manifest signer)
+ * @param suiClient - SuiClient instance from dapp-kit
+ * @param signPersonalMessage - Function to sign personal message (from dapp-kit)
+ * @param chunkSize - Plaintext bytes per chunk
+ * @param epochs - Walrus storage epochs for every blob
+ * @param onProgress - Called after each chunk is uploaded
+ * @param resume - Chunks already uploaded by an interrupted run, and the policy ID they used
+ * @param onChunkUploaded - Called with each uploaded chunk (e.g. to persist progress)
+ * @param transfer - Cancellation signal and byte progress of each Walrus upload
+ * @returns Manifest blob ID (store this on the DatasetNFT), policy ID and original hash
+ */
+export async function uploadChunkedDataset(
+  file: File,
+  packageId: string,
+  allowlistId: string,
+  uploader: string,
+  suiClient: SuiClient,
+  signPersonalMessage: SignPersonalMessageFn,
+  chunkSize: number,
+  epochs: number,
+  onProgress?: (completed: number, total: number) => void,
+  resume?: { policyId: string; chunks: UploadedChunk[] },
+  onChunkUploaded?: (entry: UploadedChunk, policyId: string) => Promise<void>,
+  transfer: WalrusTransferOptions = {}
+): Promise<{
+  manifestBlobId: string;
+  policyId: string;
+  originalHash: string;
+  manifest: ChunkManifest;
+}> {
+  const chunks: UploadedChunk[] = [...(resume?.chunks || [])];
+  const total = Math.max(1, Math.ceil(file.size / chunkSize));
+  const policyId = resume?.policyId || allowlistService.generatePolicyId(allowlistId);
+
+  if (chunks.length > 0) {
+    console.log(`♻️ Resuming chunked upload after ${chunks.length}/${total} chunk(s)`);
+  }
+
+  const { originalHash } = await sealService.encryptDatasetChunked(
+    file,
+    packageId,
+    allowlistId,
+    suiClient,
+    chunkSize,
+    async (chunk) => {
+      const { blobId } = await walrusService.uploadToWalrus(
+        new File([new Uint8Array(chunk.encryptedData)], `${file.name}.part${chunk.index}.encrypted`, {
+          type: 'application/octet-stream',
+        }),
+        epochs,
+        { ...transfer, sendObjectTo: uploader }
+      );
+
+      const entry: UploadedChunk = {
+        index: chunk.index,
+        blob_id: blobId,
+        size: chunk.plaintextSize,
+        plaintext_hash: chunk.plaintextHash,
+        encrypted_hash: await sealService.hashData(chunk.encryptedData),
+      };
+      chunks.push(entry);
+      await onChunkUploaded?.(entry, policyId);
+
+      console.log(`✅ Uploaded chunk ${chunk.index + 1}/${total}:`, blobId);
+      onProgress?.(chunk.index + 1, total);
+    },
+    { policyId, chunks: resume?.chunks || [] }
+  );
+
+  const manifest: ChunkManifest = {
+    kind: MANIFEST_KIND,
+    version: 1,
+    size: file.size,
+    chunk_size: chunkSize,
+    original_hash: originalHash,
+    seal_policy_id: policyId,
+    uploader,
+    created_at: Date.now(),
+    // Plaintext hashes stay local - the encrypted hashes and the original hash cover integrity
+    chunks: chunks.map(({ index, blob_id, size, encrypted_hash }) => ({ index, blob_id, size, encrypted_hash })),
+  };
+
+  // Wallet signs the manifest so downloaders can detect a swapped chunk list
+  const { signature } = await signPersonalMessage({ message: canonicalManifestBytes(manifest) });
+
+  const { blobId: manifestBlobId } = await walrusService.uploadToWalrus(
+    new File([new Uint8Array(encodeSignedManifest({ manifest, signature }))], `${file.name}.manifest.json`, {
+      type: 'application/json',
+    }),
+    epochs,
+    { ...transfer, sendObjectTo: uploader }
+  );
+
+  console.log('✅ Uploaded signed chunk manifest:', manifestBlobId);
+
+  return { manifestBlobId, policyId, originalHash, manifest };
+}
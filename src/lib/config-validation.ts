@@ -0,0 +1,183 @@
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { isValidSuiObjectId, normalizeSuiAddress } from '@mysten/sui/utils';
+import { NetworkProfile } from './networks';
+
+/**
+ * Network Configuration Validation
+ *
+ * A network profile silently falls back to built-in object IDs when env vars are missing, and a
+ * wrong ID only surfaces deep inside a transaction. These checks catch that up front:
+ * - validateNetworkProfile: every ID is a well-formed Sui address, every endpoint a valid URL
+ * - verifyNetworkObjects: every ID exists on-chain with the Move type the app expects
+ */
+
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+export interface ConfigIssue {
+  field: string;                  // Profile field, e.g. "enclaveId" or "sealKeyServers[2]"
+  value: string;
+  severity: ConfigIssueSeverity;
+  message: string;
+}
+
+// Fields the app sends transactions against
+const OBJECT_ID_FIELDS = [
+  'verificationPackage',
+  'enclaveId',
+  'enclaveConfigId',
+  'enclavePackageId',
+  'sealPackageId',
+  'sealAllowlistPackageId',
+] as const;
+
+type ObjectIdField = typeof OBJECT_ID_FIELDS[number];
+
+/**
+ * What an on-chain object must be for the profile to work
+ */
+interface ObjectExpectation {
+  field: string;
+  id: string;
+  description: string;
+  matches: (object: NonNullable<SuiObjectResponse['data']>) => boolean;
+}
+
+/**
+ * Whether any SealTrust object is configured for a network
+ * A network with none is simply not deployed rather than misconfigured
+ */
+export function hasDeployment(profile: NetworkProfile): boolean {
+  return OBJECT_ID_FIELDS.some(field => Boolean(profile[field])) || profile.sealKeyServers.length > 0;
+}
+
+/**
+ * Check that every ID in a profile is a well-formed Sui address and every endpoint a valid URL
+ *
+ * @param profile - Network profile to check
+ * @returns Issues found (empty if the profile is well-formed)
+ */
+export function validateNetworkProfile(profile: NetworkProfile): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  for (const field of OBJECT_ID_FIELDS) {
+    checkObjectId(issues, field, profile[field]);
+  }
+
+  if (profile.sealKeyServers.length === 0) {
+    issues.push({ field: 'sealKeyServers', value: '', severity: 'error', message: 'No Seal key servers configured' });
+  }
+  profile.sealKeyServers.forEach((id, index) => checkObjectId(issues, `sealKeyServers[${index}]`, id));
+
+  checkUrl(issues, 'rpcUrl', profile.rpcUrl);
+  checkUrl(issues, 'nautilusUrl', profile.nautilusUrl);
+  profile.walrusAggregators.forEach((url, index) => checkUrl(issues, `walrusAggregators[${index}]`, url));
+  profile.walrusPublishers.forEach((url, index) => checkUrl(issues, `walrusPublishers[${index}]`, url));
+
+  if (profile.walrusAggregators.length === 0) {
+    issues.push({ field: 'walrusAggregators', value: '', severity: 'error', message: 'No Walrus aggregators configured - downloads will fail' });
+  }
+  if (profile.walrusPublishers.length === 0) {
+    issues.push({ field: 'walrusPublishers', value: '', severity: 'warning', message: 'No Walrus publishers configured - uploads will fail' });
+  }
+
+  return issues;
+}
+
+/**
+ * Check that every configured object exists on-chain with the expected Move type
+ * Fields that are not well-formed are skipped - validateNetworkProfile reports them.
+ *
+ * @param profile - Network profile to check
+ * @param suiClient - SuiClient connected to the profile's network
+ * @returns Issues found (empty if every object matches)
+ */
+export async function verifyNetworkObjects(
+  profile: NetworkProfile,
+  suiClient: SuiClient
+): Promise<ConfigIssue[]> {
+  const expectations = buildExpectations(profile).filter(expectation => isValidSuiObjectId(expectation.id));
+  if (expectations.length === 0) return [];
+
+  // Fields may share an object (e.g. the Seal and allowlist packages) - look each one up once
+  const ids = [...new Set(expectations.map(expectation => normalizeSuiAddress(expectation.id)))];
+  const objects = await suiClient.multiGetObjects({ ids, options: { showType: true } });
+  const byId = new Map(ids.map((id, index) => [id, objects[index]?.data]));
+
+  const issues: ConfigIssue[] = [];
+  expectations.forEach(expectation => {
+    const data = byId.get(normalizeSuiAddress(expectation.id));
+    if (!data) {
+      issues.push({
+        field: expectation.field,
+        value: expectation.id,
+        severity: 'error',
+        message: `Object not found on ${profile.label} (expected ${expectation.description})`,
+      });
+    } else if (!expectation.matches(data)) {
+      issues.push({
+        field: expectation.field,
+        value: expectation.id,
+        severity: 'error',
+        message: `Expected ${expectation.description}, found ${data.type ?? 'unknown type'}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+function buildExpectations(profile: NetworkProfile): ObjectExpectation[] {
+  const witness = `${normalizeSuiAddress(profile.verificationPackage)}::sealtrust::SEALTRUST`;
+  const enclaveModule = `${normalizeSuiAddress(profile.enclavePackageId)}::enclave`;
+
+  const packageExpectation = (field: ObjectIdField): ObjectExpectation => ({
+    field,
+    id: profile[field],
+    description: 'a Move package',
+    matches: object => object.type === 'package',
+  });
+
+  return [
+    packageExpectation('verificationPackage'),
+    packageExpectation('enclavePackageId'),
+    packageExpectation('sealPackageId'),
+    packageExpectation('sealAllowlistPackageId'),
+    {
+      field: 'enclaveId',
+      id: profile.enclaveId,
+      description: `${enclaveModule}::Enclave<${witness}>`,
+      matches: object => object.type === `${enclaveModule}::Enclave<${witness}>`,
+    },
+    {
+      field: 'enclaveConfigId',
+      id: profile.enclaveConfigId,
+      description: `${enclaveModule}::EnclaveConfig<${witness}>`,
+      matches: object => object.type === `${enclaveModule}::EnclaveConfig<${witness}>`,
+    },
+    ...profile.sealKeyServers.map((id, index): ObjectExpectation => ({
+      field: `sealKeyServers[${index}]`,
+      id,
+      description: 'a Seal key_server::KeyServer',
+      matches: object => Boolean(object.type?.endsWith('::key_server::KeyServer')),
+    })),
+  ];
+}
+
+function checkObjectId(issues: ConfigIssue[], field: string, value: string): void {
+  if (!value) {
+    issues.push({ field, value, severity: 'error', message: 'Not set' });
+  } else if (!isValidSuiObjectId(value)) {
+    issues.push({ field, value, severity: 'error', message: 'Not a well-formed Sui address (0x followed by 64 hex characters)' });
+  }
+}
+
+function checkUrl(issues: ConfigIssue[], field: string, value: string): void {
+  try {
+    const url = new URL(value);
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      issues.push({ field, value, severity: 'error', message: 'Must be an http(s) URL' });
+    }
+  } catch {
+    issues.push({ field, value, severity: 'error', message: 'Not a valid URL' });
+  }
+}
@@ -0,0 +1,132 @@
+import { toBase58, toHex } from '@mysten/sui/utils';
+import { sha256 } from '@noble/hashes/sha2';
+import { describe, expect, it } from 'vitest';
+import {
+  ContentAddressMismatchError,
+  assertContentMatches,
+  contentAddressGatewayUrls,
+  isContentAddressProtocol,
+  parseContentAddress,
+} from './content-address';
+
+const digest = sha256(new TextEncoder().encode('a,b\n1,2\n'));
+const digestHex = toHex(digest);
+
+// CIDv1 bytes: version, codec, multihash (sha2-256, 32 bytes)
+function cidBytes(codec: number): Uint8Array {
+  return Uint8Array.from([0x01, codec, 0x12, 0x20, ...digest]);
+}
+
+function base32(bytes: Uint8Array): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += alphabet[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  return bits > 0 ? output + alphabet[(buffer << (5 - bits)) & 31] : output;
+}
+
+const RAW_CID = `b${base32(cidBytes(0x55))}`;
+const DAG_PB_CID = `b${base32(cidBytes(0x70))}`;
+const CID_V0 = toBase58(Uint8Array.from([0x12, 0x20, ...digest]));
+const ARWEAVE_ID = 'bNbA3TEQVL60xlgCcqdz4ZPHFZ711cZ3hmkpGttDt_U';
+
+describe('isContentAddressProtocol', () => {
+  it('matches ipfs: and ar: only', () => {
+    expect(isContentAddressProtocol('ipfs:')).toBe(true);
+    expect(isContentAddressProtocol('ar:')).toBe(true);
+    expect(isContentAddressProtocol('https:')).toBe(false);
+  });
+});
+
+describe('parseContentAddress', () => {
+  it('pins the SHA-256 of a raw sha2-256 CIDv1', () => {
+    expect(parseContentAddress(`ipfs://${RAW_CID}`)).toEqual({
+      scheme: 'ipfs',
+      id: RAW_CID,
+      path: '',
+      uri: `ipfs://${RAW_CID}`,
+      sha256: digestHex,
+    });
+  });
+
+  it('reads CIDv1 in base32, base58btc and base16', () => {
+    for (const cid of [RAW_CID, RAW_CID.toUpperCase(), `z${toBase58(cidBytes(0x55))}`, `f${toHex(cidBytes(0x55))}`]) {
+      expect(parseContentAddress(`ipfs://${cid}`)?.sha256).toBe(digestHex);
+    }
+  });
+
+  it('does not pin DAG-PB CIDs, CIDv0 or sub-paths', () => {
+    expect(parseContentAddress(`ipfs://${DAG_PB_CID}`)?.sha256).toBeNull();
+    expect(parseContentAddress(`ipfs://${CID_V0}`)).toMatchObject({ id: CID_V0, sha256: null });
+    expect(parseContentAddress(`ipfs://${RAW_CID}/data.csv`)).toMatchObject({
+      path: '/data.csv',
+      uri: `ipfs://${RAW_CID}/data.csv`,
+      sha256: null,
+    });
+  });
+
+  it('rejects malformed CIDs', () => {
+    expect(parseContentAddress('ipfs://not-a-cid')).toBeNull();
+    expect(parseContentAddress(`ipfs://${RAW_CID.slice(0, -2)}`)).toBeNull();    // Truncated digest
+    expect(parseContentAddress(`ipfs://${CID_V0.slice(0, -1)}0`)).toBeNull();     // 0 is not base58
+    expect(parseContentAddress('ipfs://b0000')).toBeNull();                       // Not base32
+    expect(parseContentAddress(`ipfs://f${toHex(Uint8Array.from([0x02, 0x55, 0x12, 0x20, ...digest]))}`)).toBeNull();
+  });
+
+  it('parses Arweave transaction IDs without pinning them', () => {
+    expect(parseContentAddress(`ar://${ARWEAVE_ID}/data.csv`)).toEqual({
+      scheme: 'ar',
+      id: ARWEAVE_ID,
+      path: '/data.csv',
+      uri: `ar://${ARWEAVE_ID}/data.csv`,
+      sha256: null,
+    });
+    expect(parseContentAddress('ar://too-short')).toBeNull();
+  });
+
+  it('ignores other URLs', () => {
+    expect(parseContentAddress('https://ipfs.io/ipfs/' + RAW_CID)).toBeNull();
+    expect(parseContentAddress('not a url')).toBeNull();
+  });
+});
+
+describe('contentAddressGatewayUrls', () => {
+  it('builds one URL per gateway', () => {
+    const ipfs = parseContentAddress(`ipfs://${RAW_CID}`)!;
+    expect(contentAddressGatewayUrls(ipfs, ['https://ipfs.io/', 'https://dweb.link']).map(String)).toEqual([
+      `https://ipfs.io/ipfs/${RAW_CID}`,
+      `https://dweb.link/ipfs/${RAW_CID}`,
+    ]);
+
+    const ar = parseContentAddress(`ar://${ARWEAVE_ID}/data.csv`)!;
+    expect(contentAddressGatewayUrls(ar, ['https://arweave.net']).map(String)).toEqual([
+      `https://arweave.net/${ARWEAVE_ID}/data.csv`,
+    ]);
+  });
+});
+
+describe('assertContentMatches', () => {
+  it('accepts the pinned hash in any case', () => {
+    const address = parseContentAddress(`ipfs://${RAW_CID}`)!;
+    expect(() => assertContentMatches(address, digestHex.toUpperCase())).not.toThrow();
+  });
+
+  it('throws on other bytes', () => {
+    const address = parseContentAddress(`ipfs://${RAW_CID}`)!;
+    expect(() => assertContentMatches(address, '00'.repeat(32))).toThrow(ContentAddressMismatchError);
+  });
+
+  it('skips addresses that do not pin their bytes', () => {
+    const address = parseContentAddress(`ipfs://${CID_V0}`)!;
+    expect(() => assertContentMatches(address, '00'.repeat(32))).not.toThrow();
+  });
+});
@@ -0,0 +1,194 @@
+import { fromBase58, toHex } from '@mysten/sui/utils';
+
+/**
+ * Content-Addressed Dataset Sources (IPFS and Arweave)
+ *
+ * ipfs://<cid>[/path] and ar://<transaction id>[/path] are resolved through configurable HTTP
+ * gateways (see ./url-policy). A gateway is not trusted to serve the right bytes, so where the
+ * address pins the bytes directly - a CIDv1 with the raw codec and a sha2-256 multihash - their
+ * SHA-256 is checked against it. DAG-PB CIDs (the default for `ipfs add`, incl. every CIDv0)
+ * hash a UnixFS DAG that cannot be rebuilt from the file alone, and Arweave IDs hash the
+ * transaction signature, so those are fetched unverified.
+ *
+ * The content address is recorded on-chain in the DatasetNFT's dataset_url field (./dataset-source).
+ */
+
+export type ContentAddressScheme = 'ipfs' | 'ar';
+
+export interface ContentAddress {
+  scheme: ContentAddressScheme;
+  id: string;                   // CID or Arweave transaction ID
+  path: string;                 // Path inside the content ('' for the root)
+  uri: string;                  // Canonical form, e.g. ipfs://bafk.../data.csv
+  sha256: string | null;        // Hex SHA-256 the bytes must have, when the address pins it
+}
+
+/**
+ * Thrown when fetched bytes do not match the content address they were requested by
+ */
+export class ContentAddressMismatchError extends Error {
+  constructor(public readonly address: ContentAddress, public readonly actualSha256: string) {
+    super(`Content does not match ${address.uri}: expected SHA-256 ${address.sha256}, got ${actualSha256}`);
+    this.name = 'ContentAddressMismatchError';
+  }
+}
+
+export const CONTENT_ADDRESS_LABELS: Record<ContentAddressScheme, string> = {
+  ipfs: 'IPFS',
+  ar: 'Arweave',
+};
+
+const MULTICODEC_RAW = 0x55;
+const MULTIHASH_SHA2_256 = 0x12;
+const ARWEAVE_TX_ID = /^[A-Za-z0-9_-]{43}$/;
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Whether a URL uses a content-addressed scheme (ipfs: or ar:)
+ */
+export function isContentAddressProtocol(protocol: string): boolean {
+  return protocol === 'ipfs:' || protocol === 'ar:';
+}
+
+/**
+ * Parse an ipfs:// or ar:// URL
+ *
+ * @returns The content address, or null if the URL is not one or its CID/ID is malformed
+ */
+export function parseContentAddress(input: string | URL): ContentAddress | null {
+  let url: URL;
+  try {
+    url = input instanceof URL ? input : new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  // Non-special schemes keep the host as written - CIDv0 and Arweave IDs are case-sensitive
+  const id = url.host;
+  const path = url.pathname === '/' ? '' : url.pathname;
+
+  if (url.protocol === 'ipfs:') {
+    const cid = parseCid(id);
+    if (!cid) return null;
+    return {
+      scheme: 'ipfs',
+      id,
+      path,
+      uri: `ipfs://${id}${path}`,
+      // A sub-path names a file inside a directory DAG - the CID does not hash its bytes
+      sha256: cid.codec === MULTICODEC_RAW && cid.hashCode === MULTIHASH_SHA2_256 && !path ? cid.digestHex : null,
+    };
+  }
+
+  if (url.protocol === 'ar:') {
+    if (!ARWEAVE_TX_ID.test(id)) return null;
+    return { scheme: 'ar', id, path, uri: `ar://${id}${path}`, sha256: null };
+  }
+
+  return null;
+}
+
+/**
+ * HTTP URLs of a content address on each gateway, in order
+ *
+ * @param address - Parsed content address
+ * @param gateways - Gateway base URLs for the address's scheme
+ */
+export function contentAddressGatewayUrls(address: ContentAddress, gateways: string[]): URL[] {
+  return gateways.map(gateway => {
+    const base = gateway.replace(/\/+$/, '');
+    return new URL(address.scheme === 'ipfs'
+      ? `${base}/ipfs/${address.id}${address.path}`
+      : `${base}/${address.id}${address.path}`);
+  });
+}
+
+/**
+ * Check fetched bytes against their content address (no-op if the address does not pin them)
+ *
+ * @param address - Content address the bytes were requested by
+ * @param sha256 - Hex SHA-256 of the fetched bytes
+ * @throws ContentAddressMismatchError
+ */
+export function assertContentMatches(address: ContentAddress, sha256: string): void {
+  if (address.sha256 && address.sha256 !== sha256.toLowerCase()) {
+    throw new ContentAddressMismatchError(address, sha256);
+  }
+}
+
+/**
+ * Decode a CID (v0 base58btc or v1 in base32, base58btc or base16)
+ */
+function parseCid(text: string): { codec: number; hashCode: number; digestHex: string } | null {
+  let bytes: Uint8Array | null;
+
+  if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(text)) {
+    // CIDv0: a bare sha2-256 multihash of a DAG-PB node
+    bytes = decodeBase58(text);
+    return bytes && bytes.length === 34 && bytes[0] === MULTIHASH_SHA2_256 && bytes[1] === 32
+      ? { codec: 0x70, hashCode: MULTIHASH_SHA2_256, digestHex: toHex(bytes.slice(2)) }
+      : null;
+  }
+
+  const prefix = text[0];
+  const body = text.slice(1);
+  if (prefix === 'b' || prefix === 'B') {
+    bytes = decodeBase32(body.toLowerCase());
+  } else if (prefix === 'z') {
+    bytes = decodeBase58(body);
+  } else if (prefix === 'f' || prefix === 'F') {
+    bytes = /^([0-9a-f]{2})+$/i.test(body) ? Uint8Array.from(body.match(/../g)!.map(byte => parseInt(byte, 16))) : null;
+  } else {
+    return null;
+  }
+  if (!bytes) return null;
+
+  let offset = 0;
+  const next = (): number | null => {
+    // Unsigned varint
+    let value = 0;
+    for (let shift = 0; offset < bytes!.length && shift < 28; shift += 7) {
+      const byte = bytes![offset++];
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    return null;
+  };
+
+  const version = next();
+  const codec = next();
+  const hashCode = next();
+  const digestLength = next();
+  if (version !== 1 || codec === null || hashCode === null || digestLength === null) return null;
+  if (bytes.length - offset !== digestLength) return null;
+
+  return { codec, hashCode, digestHex: toHex(bytes.slice(offset)) };
+}
+
+function decodeBase58(text: string): Uint8Array | null {
+  try {
+    return fromBase58(text);
+  } catch {
+    return null;
+  }
+}
+
+function decodeBase32(text: string): Uint8Array | null {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return null;
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+      buffer &= (1 << bits) - 1;
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
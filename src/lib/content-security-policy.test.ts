@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { connectSources, contentSecurityPolicy, isConnectAllowed } from './content-security-policy';
+import { NETWORK_PROFILES } from './networks';
+
+describe('connectSources', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('allows every endpoint of every network profile', () => {
+    const sources = connectSources();
+
+    for (const profile of Object.values(NETWORK_PROFILES)) {
+      for (const url of [
+        profile.rpcUrl,
+        profile.nautilusUrl,
+        ...profile.walrusAggregators,
+        ...profile.walrusPublishers,
+        ...profile.sealKeyServerUrls,
+      ]) {
+        expect(sources).toContain(new URL(url).origin);
+      }
+    }
+    expect(sources).toContain('https://seal-key-server-testnet-1.mystenlabs.com');
+  });
+
+  it('reduces configured endpoints to origins without duplicates', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const mainnet = {
+      ...NETWORK_PROFILES.mainnet,
+      walrusAggregators: ['https://walrus.example.com/aggregator', 'https://walrus.example.com'],
+      walrusPublishers: ['https://walrus.example.com:8443/publisher'],
+      sealKeyServerUrls: ['https://seal.example.com', 'not a url'],
+    };
+
+    const sources = connectSources([mainnet]);
+
+    expect(sources.filter(source => source.includes('example.com'))).toEqual([
+      'https://walrus.example.com',
+      'https://walrus.example.com:8443',
+      'https://seal.example.com',
+    ]);
+    expect(sources).toContain("'self'");
+  });
+});
+
+describe('isConnectAllowed', () => {
+  const sources = ["'self'", 'https://walrus.example.com', 'wss://*.walletconnect.org', 'http://127.0.0.1:9000'];
+
+  it('matches scheme, host and port of exact sources', () => {
+    expect(isConnectAllowed('https://walrus.example.com/v1/api', sources)).toBe(true);
+    expect(isConnectAllowed('http://walrus.example.com/v1/api', sources)).toBe(false);
+    expect(isConnectAllowed('https://walrus.example.com:8443/v1/api', sources)).toBe(false);
+    expect(isConnectAllowed('https://other.walrus.example.com', sources)).toBe(false);
+    expect(isConnectAllowed('http://127.0.0.1:9000', sources)).toBe(true);
+    expect(isConnectAllowed('http://127.0.0.1:9001', sources)).toBe(false);
+  });
+
+  it('matches subdomains of wildcard sources only', () => {
+    expect(isConnectAllowed('wss://relay.walletconnect.org', sources)).toBe(true);
+    expect(isConnectAllowed('wss://walletconnect.org', sources)).toBe(false);
+  });
+
+  it('matches the page origin through self and rejects invalid URLs', () => {
+    expect(isConnectAllowed(`${window.location.origin}/api/walrus-status`, sources)).toBe(true);
+    expect(isConnectAllowed('not a url', sources)).toBe(false);
+  });
+});
+
+describe('contentSecurityPolicy', () => {
+  it('puts the connect sources in connect-src', () => {
+    const connectSrc = contentSecurityPolicy().split('; ').find(directive => directive.startsWith('connect-src '));
+    expect(connectSrc).toBe(`connect-src ${connectSources().join(' ')}`);
+  });
+});
@@ -0,0 +1,99 @@
+import { NETWORK_PROFILES, NetworkProfile } from './networks';
+
+/**
+ * Content Security Policy
+ *
+ * connect-src lists every origin the browser fetches from. Network-specific origins - the
+ * fullnode, Walrus aggregators and publishers, Seal key servers and Nautilus - come from the
+ * network profiles, so endpoints configured through NEXT_PUBLIC_NETWORK_PROFILES (or the
+ * unprefixed variables) are reachable without editing the policy.
+ */
+
+// Origins every network uses: wallets (WalletConnect / Reown), Sei and Convex
+const SHARED_CONNECT_SOURCES = [
+  "'self'",
+  'https://evm-rpc-testnet.sei-apis.com',
+  'https://evm-rpc.sei-apis.com',
+  'https://reliable-pig-585.convex.cloud',
+  'wss://reliable-pig-585.convex.cloud',
+  'https://*.walletconnect.com',
+  'wss://*.walletconnect.com',
+  'https://*.walletconnect.org',
+  'wss://*.walletconnect.org',
+  'https://api.web3modal.org',
+  'https://*.reown.com',
+  'wss://*.reown.com',
+  'https://pulse.walletconnect.org',
+];
+
+/**
+ * connect-src sources for a set of network profiles (every profile by default)
+ *
+ * @returns Source expressions, without duplicates
+ */
+export function connectSources(profiles: NetworkProfile[] = Object.values(NETWORK_PROFILES)): string[] {
+  const origins = profiles.flatMap(profile => [
+    profile.rpcUrl,
+    profile.nautilusUrl,
+    ...profile.walrusAggregators,
+    ...profile.walrusPublishers,
+    ...profile.sealKeyServerUrls,
+  ]).map(toOrigin).filter((origin): origin is string => origin !== null);
+
+  return [...new Set([...SHARED_CONNECT_SOURCES, ...origins])];
+}
+
+/**
+ * Whether connect-src lets the browser fetch a URL
+ *
+ * @param url - Absolute URL
+ * @param sources - connect-src sources (those of every profile by default)
+ */
+export function isConnectAllowed(url: string, sources: string[] = connectSources()): boolean {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return false;
+  }
+
+  return sources.some(source => {
+    if (source === "'self'") {
+      return typeof window !== 'undefined' && target.origin === window.location.origin;
+    }
+
+    const match = /^([a-z][a-z0-9+.-]*):\/\/(\*\.)?([^/:]+)(?::(\d+))?$/i.exec(source);
+    if (!match) return false;
+
+    const [, scheme, wildcard, host, port] = match;
+    if (target.protocol !== `${scheme.toLowerCase()}:` || target.port !== (port ?? '')) return false;
+    return wildcard
+      ? target.hostname.endsWith(`.${host.toLowerCase()}`)
+      : target.hostname === host.toLowerCase();
+  });
+}
+
+/**
+ * The Content-Security-Policy header value
+ */
+export function contentSecurityPolicy(): string {
+  return [
+    "default-src 'self'",
+    "script-src 'self' 'unsafe-eval' 'unsafe-inline'",
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' data: https:",
+    "font-src 'self' data:",
+    `connect-src ${connectSources().join(' ')}`,
+    "frame-src 'self'",
+    "media-src 'self'",
+  ].join('; ');
+}
+
+function toOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    console.warn(`⚠️ Not a valid URL, left out of the CSP: ${url}`);
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+// @vitest-environment node
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import {
+  detectDatasetFormat,
+  formatFromFileName,
+  formatLabel,
+  normalizeFormat,
+  readDatasetHead,
+  sniffFormat,
+} from './dataset-format';
+
+function blob(content: string | Uint8Array): Blob {
+  return new Blob([typeof content === 'string' ? content : new Uint8Array(content)]);
+}
+
+// Local file header of a zip archive whose first entry has the given name
+function zipWithEntry(name: string): Uint8Array {
+  const nameBytes = new TextEncoder().encode(name);
+  const header = new Uint8Array(30 + nameBytes.length);
+  header.set([0x50, 0x4b, 0x03, 0x04]);
+  header[26] = nameBytes.length & 0xff;
+  header[27] = nameBytes.length >> 8;
+  header.set(nameBytes, 30);
+  return header;
+}
+
+describe('normalizeFormat', () => {
+  it.each([
+    ['csv', 'CSV'],
+    [' Parquet ', 'PARQUET'],
+    ['.tsv', 'TSV'],
+    ['ndjson', 'JSONL'],
+    ['JSON Lines', 'JSONL'],
+    ['text/csv; charset=utf-8', 'CSV'],
+    ['application/x-parquet', 'PARQUET'],
+    ['nc', 'HDF5'],
+    ['spreadsheet', 'OTHER'],
+    ['', 'OTHER'],
+    [undefined, 'OTHER'],
+  ])('maps %j to %s', (value, format) => {
+    expect(normalizeFormat(value)).toBe(format);
+  });
+});
+
+describe('formatLabel', () => {
+  it('labels canonical formats and keeps unknown legacy values', () => {
+    expect(formatLabel('jsonl')).toBe('JSON Lines');
+    expect(formatLabel('application/json')).toBe('JSON');
+    expect(formatLabel('Spreadsheet')).toBe('Spreadsheet');
+    expect(formatLabel('')).toBe('Other');
+  });
+});
+
+describe('formatFromFileName', () => {
+  it('reads the extension, skipping compression suffixes', () => {
+    expect(formatFromFileName('data.csv')).toBe('CSV');
+    expect(formatFromFileName('dir/DATA.JSONL.GZ')).toBe('JSONL');
+    expect(formatFromFileName('events.ndjson.gzip')).toBe('JSONL');
+    expect(formatFromFileName('table.parquet.zip')).toBe('PARQUET');
+  });
+
+  it('returns null for unknown or missing extensions', () => {
+    expect(formatFromFileName('README')).toBeNull();
+    expect(formatFromFileName('data.xlsx')).toBeNull();
+    expect(formatFromFileName('archive.gz')).toBeNull();
+  });
+});
+
+describe('sniffFormat', () => {
+  it('recognises binary signatures', async () => {
+    expect((await sniffFormat(blob(Uint8Array.from([0x50, 0x41, 0x52, 0x31, 0, 0])))).format).toBe('PARQUET');
+    expect((await sniffFormat(blob(Uint8Array.from([0x4f, 0x62, 0x6a, 0x01, 0, 0])))).format).toBe('AVRO');
+
+    const hdf5 = new Uint8Array(600);
+    hdf5.set([0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a], 512);  // After a 512-byte user block
+    expect((await sniffFormat(blob(hdf5))).format).toBe('HDF5');
+  });
+
+  it('tells JSON, JSON Lines and delimited text apart', async () => {
+    expect((await sniffFormat(blob('{"a": 1}'))).format).toBe('JSON');
+    expect((await sniffFormat(blob('[\n  {"a": 1},\n  {"a": 2}\n]\n'))).format).toBe('JSON');
+    expect((await sniffFormat(blob('{"a": 1}\n{"a": 2}\n'))).format).toBe('JSONL');
+    expect((await sniffFormat(blob('a,b,c\n1,2,3\n4,5,6\n'))).format).toBe('CSV');
+    expect((await sniffFormat(blob('a\tb\n1\t2\n'))).format).toBe('TSV');
+    expect((await sniffFormat(blob('\uFEFFname,"city, country"\nAda,"London, UK"\n'))).format).toBe('CSV');
+  });
+
+  it('recognises XML', async () => {
+    expect((await sniffFormat(blob('<?xml version="1.0"?><rows/>'))).format).toBe('XML');
+    expect((await sniffFormat(blob('  <rows><row/></rows>'))).format).toBe('XML');
+    expect((await sniffFormat(blob('<!-- comment -->'))).format).toBeNull();
+  });
+
+  it('does not guess on plain text or binary data', async () => {
+    expect((await sniffFormat(blob('just some words\nwithout structure\n'))).format).toBeNull();
+    expect((await sniffFormat(blob(Uint8Array.from([0x01, 0x00, 0x02, 0x03])))).format).toBeNull();
+    expect((await sniffFormat(blob(''))).format).toBeNull();
+  });
+
+  it('looks inside gzip files', async () => {
+    expect(await sniffFormat(blob(gzipSync('{"a": 1}\n{"a": 2}\n')))).toEqual({ format: 'JSONL', compression: 'gzip' });
+  });
+
+  it('judges zip archives by their first entry', async () => {
+    expect(await sniffFormat(blob(zipWithEntry('data/train.csv')))).toEqual({ format: 'CSV', compression: 'zip' });
+    expect((await sniffFormat(blob(zipWithEntry('store.zarr/.zgroup')))).format).toBe('ZARR');
+    expect((await sniffFormat(blob(zipWithEntry('notes.txt')))).format).toBeNull();
+  });
+});
+
+describe('readDatasetHead', () => {
+  it('reports whether the bytes are the whole content', async () => {
+    const text = 'a,b\n'.repeat(100);
+    expect(await readDatasetHead(blob(text), 1024)).toMatchObject({ complete: true, compression: null });
+    const head = await readDatasetHead(blob(text), 10);
+    expect(head.bytes).toHaveLength(10);
+    expect(head.complete).toBe(false);
+  });
+
+  it('decompresses gzip up to the limit', async () => {
+    const text = 'x'.repeat(5000);
+    const head = await readDatasetHead(blob(gzipSync(text)), 100);
+    expect(new TextDecoder().decode(head.bytes!)).toBe(text.slice(0, 100));
+    expect(head).toMatchObject({ complete: false, compression: 'gzip' });
+
+    const whole = await readDatasetHead(blob(gzipSync(text)), 10_000);
+    expect(whole.bytes).toHaveLength(5000);
+    expect(whole.complete).toBe(true);
+  });
+});
+
+describe('detectDatasetFormat', () => {
+  it('prefers the content over the extension and warns when they disagree', async () => {
+    const detection = await detectDatasetFormat(new File(['{"a": 1}\n{"a": 2}\n'], 'events.csv'));
+    expect(detection).toMatchObject({ format: 'JSONL', fromContent: 'JSONL', fromExtension: 'CSV', compression: null });
+    expect(detection.warning).toBe(
+      'events.csv has a CSV extension but contains JSON Lines data - registering it as JSON Lines'
+    );
+  });
+
+  it('falls back to the declared format, then the extension', async () => {
+    const text = 'plain words\n';
+    expect((await detectDatasetFormat(new File([text], 'data.xml'), 'csv')).format).toBe('CSV');
+    expect((await detectDatasetFormat(new File([text], 'data.xml'))).format).toBe('XML');
+    expect((await detectDatasetFormat(new File([text], 'data.bin'))).format).toBe('OTHER');
+  });
+
+  it('does not warn when the content matches the extension', async () => {
+    const detection = await detectDatasetFormat(new File(['a,b\n1,2\n'], 'data.csv.gz'));
+    expect(detection.format).toBe('CSV');
+    expect(detection.warning).toBeUndefined();
+  });
+});
@@ -0,0 +1,303 @@
+import { SUPPORTED_FORMATS } from './constants';
+
+/**
+ * Dataset Format Detection
+ *
+ * Every format that ends up on-chain is one canonical value: a SUPPORTED_FORMATS entry, or
+ * OTHER. The format is read from the file's first bytes where the content has a signature
+ * (Parquet, HDF5, Avro, XML) or a recognisable text shape (JSON vs JSON Lines vs CSV/TSV),
+ * and from the user's choice or the file extension otherwise. gzip and zip wrappers are looked through: gzip is
+ * decompressed far enough to sniff, zip is judged by its first entry's name.
+ *
+ * When the extension and the content disagree, the content wins and a warning says so.
+ */
+
+export type DatasetFormat = typeof SUPPORTED_FORMATS[number] | 'OTHER';
+
+export type DatasetCompression = 'gzip' | 'zip';
+
+export interface FormatDetection {
+  format: DatasetFormat;                     // Canonical format to register
+  fromContent: DatasetFormat | null;         // Format the bytes identify, null if they do not
+  fromExtension: DatasetFormat | null;       // Format the file name implies
+  compression: DatasetCompression | null;    // Wrapper around the data, if any
+  warning?: string;                          // Set when the extension and the content disagree
+}
+
+export const DATASET_FORMATS: DatasetFormat[] = [...SUPPORTED_FORMATS, 'OTHER'];
+
+export const FORMAT_LABELS: Record<DatasetFormat, string> = {
+  CSV: 'CSV',
+  TSV: 'TSV',
+  JSON: 'JSON',
+  JSONL: 'JSON Lines',
+  PARQUET: 'Parquet',
+  AVRO: 'Avro',
+  XML: 'XML',
+  HDF5: 'HDF5',
+  ZARR: 'Zarr',
+  OTHER: 'Other',
+};
+
+export const FORMAT_MIME_TYPES: Record<DatasetFormat, string> = {
+  CSV: 'text/csv',
+  TSV: 'text/tab-separated-values',
+  JSON: 'application/json',
+  JSONL: 'application/x-ndjson',
+  PARQUET: 'application/vnd.apache.parquet',
+  AVRO: 'application/avro',
+  XML: 'application/xml',
+  HDF5: 'application/x-hdf5',
+  ZARR: 'application/octet-stream',
+  OTHER: 'application/octet-stream',
+};
+
+const SNIFF_BYTES = 64 * 1024;
+
+const EXTENSION_FORMATS: Record<string, DatasetFormat> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  tab: 'TSV',
+  json: 'JSON',
+  jsonl: 'JSONL',
+  ndjson: 'JSONL',
+  parquet: 'PARQUET',
+  pq: 'PARQUET',
+  avro: 'AVRO',
+  xml: 'XML',
+  h5: 'HDF5',
+  hdf5: 'HDF5',
+  he5: 'HDF5',
+  nc: 'HDF5',                                // netCDF-4 is HDF5 underneath
+  zarr: 'ZARR',
+};
+
+// Legacy format values (select options, MIME types) that predate the canonical enum
+const FORMAT_ALIASES: Record<string, DatasetFormat> = {
+  'text/csv': 'CSV',
+  'text/tab-separated-values': 'TSV',
+  'application/json': 'JSON',
+  'application/x-ndjson': 'JSONL',
+  'application/jsonl': 'JSONL',
+  'application/vnd.apache.parquet': 'PARQUET',
+  'application/x-parquet': 'PARQUET',
+  'application/avro': 'AVRO',
+  'application/xml': 'XML',
+  'text/xml': 'XML',
+  'application/x-hdf5': 'HDF5',
+  'application/x-hdf': 'HDF5',
+  'json lines': 'JSONL',
+};
+
+const HDF5_SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+const HDF5_OFFSETS = [0, 512, 1024, 2048];   // The superblock may follow a user block
+
+/**
+ * Canonical format for any format string (enum value, label, extension or MIME type)
+ *
+ * @returns The canonical format, OTHER if the value is not recognised
+ */
+export function normalizeFormat(value: string | null | undefined): DatasetFormat {
+  const text = (value || '').trim();
+  const upper = text.toUpperCase();
+  if ((DATASET_FORMATS as string[]).includes(upper)) return upper as DatasetFormat;
+
+  const lower = text.toLowerCase().split(';')[0].trim();
+  return FORMAT_ALIASES[lower] ?? EXTENSION_FORMATS[lower.replace(/^\./, '')] ?? 'OTHER';
+}
+
+/**
+ * Display label for a stored format value (legacy values that are not recognised are shown as-is)
+ */
+export function formatLabel(value: string | null | undefined): string {
+  const format = normalizeFormat(value);
+  return format !== 'OTHER' || !value ? FORMAT_LABELS[format] : value;
+}
+
+/**
+ * Format implied by a file name's extension (compression suffixes are skipped)
+ *
+ * @returns The format, or null if the extension is unknown
+ */
+export function formatFromFileName(fileName: string): DatasetFormat | null {
+  const parts = fileName.toLowerCase().split('/').pop()!.split('.').slice(1);
+  while (parts.length > 0 && ['gz', 'gzip', 'zip'].includes(parts[parts.length - 1])) parts.pop();
+  return parts.length > 0 ? EXTENSION_FORMATS[parts[parts.length - 1]] ?? null : null;
+}
+
+/**
+ * Detect a dataset's format from its first bytes and its name
+ *
+ * @param file - Dataset file (only the first SNIFF_BYTES are read)
+ * @param declared - Format chosen by the user, used when the content does not identify one
+ * @returns Canonical format with what the content and the extension each said
+ */
+export async function detectDatasetFormat(file: File, declared?: string): Promise<FormatDetection> {
+  const fromExtension = formatFromFileName(file.name);
+  const { format: fromContent, compression } = await sniffFormat(file);
+
+  const chosen = normalizeFormat(declared);
+  const format = fromContent ?? (chosen !== 'OTHER' ? chosen : null) ?? fromExtension ?? 'OTHER';
+  const detection: FormatDetection = { format, fromContent, fromExtension, compression };
+
+  if (fromContent && fromExtension && fromContent !== fromExtension) {
+    detection.warning = `${file.name} has a ${FORMAT_LABELS[fromExtension]} extension but contains ` +
+      `${FORMAT_LABELS[fromContent]} data - registering it as ${FORMAT_LABELS[fromContent]}`;
+  }
+
+  return detection;
+}
+
+/**
+ * Identify a format from a file's leading bytes
+ *
+ * @returns The format (null if the bytes are not recognised) and the compression wrapper, if any
+ */
+export async function sniffFormat(blob: Blob): Promise<{ format: DatasetFormat | null; compression: DatasetCompression | null }> {
+  const { bytes, complete, compression } = await readDatasetHead(blob);
+
+  if (compression === 'zip') return { format: zipEntryFormat(bytes!), compression };
+  return { format: bytes ? sniffBytes(bytes, complete) : null, compression };
+}
+
+/**
+ * First bytes of a dataset's content - gzip files are decompressed, zip archives are returned as-is
+ *
+ * @param maxBytes - How much content to read
+ * @returns The bytes (null for gzip where DecompressionStream is unavailable), whether they
+ *          are the whole content, and the wrapper they came in
+ */
+export async function readDatasetHead(blob: Blob, maxBytes: number = SNIFF_BYTES): Promise<{
+  bytes: Uint8Array | null;
+  complete: boolean;
+  compression: DatasetCompression | null;
+}> {
+  const head = new Uint8Array(await blob.slice(0, maxBytes).arrayBuffer());
+
+  if (startsWith(head, [0x1f, 0x8b])) {
+    const inner = await gunzipHead(blob, maxBytes);
+    return { bytes: inner?.bytes ?? null, complete: inner?.complete ?? false, compression: 'gzip' };
+  }
+
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    return { bytes: head, complete: blob.size <= maxBytes, compression: 'zip' };
+  }
+
+  return { bytes: head, complete: blob.size <= maxBytes, compression: null };
+}
+
+/**
+ * @param complete - Whether bytes hold the whole file (the last line is not cut off)
+ */
+function sniffBytes(bytes: Uint8Array, complete: boolean): DatasetFormat | null {
+  if (startsWith(bytes, [0x50, 0x41, 0x52, 0x31])) return 'PARQUET';             // "PAR1"
+  if (startsWith(bytes, [0x4f, 0x62, 0x6a, 0x01])) return 'AVRO';                // "Obj\x01"
+  if (HDF5_OFFSETS.some(offset => startsWith(bytes.subarray(offset), HDF5_SIGNATURE))) return 'HDF5';
+
+  // Text formats - binary content with NUL bytes is none of them
+  if (bytes.subarray(0, 1024).includes(0)) return null;
+  const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes).replace(/^\uFEFF/, '').trimStart();
+  if (!text) return null;
+
+  if (text.startsWith('<')) return text.startsWith('<?xml') || /^<[A-Za-z_]/.test(text) ? 'XML' : null;
+
+  const lines = text.split(/\r?\n/);
+  if (!complete) lines.pop();                // Last line may be cut off
+  const sample = lines.filter(line => line.trim()).slice(0, 50);
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    if (complete && isJson(text)) return 'JSON';
+    // One JSON value per line; a document spread over lines has lines that do not parse alone
+    if (sample.length > 1 && sample.every(isJson)) return 'JSONL';
+    return 'JSON';
+  }
+
+  return sample.length > 0 ? delimitedFormat(sample) : null;
+}
+
+/**
+ * CSV or TSV: the delimiter appears on every line, the same number of times on most
+ */
+function delimitedFormat(lines: string[]): DatasetFormat | null {
+  for (const [delimiter, format] of [['\t', 'TSV'], [',', 'CSV']] as const) {
+    const counts = lines.map(line => countDelimiters(line, delimiter));
+    if (counts.some(count => count === 0)) continue;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    if (lines.length === 1 || consistent / lines.length >= 0.8) return format;
+  }
+  return null;
+}
+
+function countDelimiters(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * First maxBytes of a gzip file's decompressed content, null where DecompressionStream is unavailable
+ */
+async function gunzipHead(blob: Blob, maxBytes: number): Promise<{ bytes: Uint8Array; complete: boolean } | null> {
+  if (typeof DecompressionStream === 'undefined') return null;
+
+  const reader = blob.stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let complete = false;
+
+  try {
+    while (length < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) {
+        complete = true;
+        break;
+      }
+      chunks.push(value);
+      length += value.byteLength;
+    }
+  } catch {
+    // Truncated or corrupt stream - sniff what was decompressed
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  const bytes = new Uint8Array(Math.min(length, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+    if (offset >= bytes.length) break;
+  }
+  return { bytes, complete: complete && length <= maxBytes };
+}
+
+/**
+ * Format of a zip archive, judged by the name of its first entry (a zipped Zarr store
+ * starts with .zarray, .zgroup or zarr.json metadata)
+ */
+function zipEntryFormat(head: Uint8Array): DatasetFormat | null {
+  if (head.length < 30) return null;
+  const nameLength = head[26] | (head[27] << 8);
+  const name = new TextDecoder().decode(head.subarray(30, 30 + nameLength));
+
+  if (/(^|\/)(\.zarray|\.zgroup|\.zattrs|zarr\.json)$/.test(name) || /\.zarr\//i.test(name)) return 'ZARR';
+  return formatFromFileName(name);
+}
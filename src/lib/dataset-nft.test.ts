@@ -0,0 +1,168 @@
+import { SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { describe, expect, it } from 'vitest';
+import {
+  DatasetNFTBcs,
+  DatasetNFTDecodeError,
+  decodeDatasetNFT,
+  decodeDatasetNFTBcs,
+  decodeDatasetNFTFields,
+  isDatasetNFTDecodeError,
+} from './dataset-nft';
+
+const OBJECT_ID = normalizeSuiAddress('0xa1');
+const ALLOWLIST_ID = normalizeSuiAddress('0xb2');
+const ENCLAVE_ID = normalizeSuiAddress('0xc3');
+const OWNER = normalizeSuiAddress('0xd4');
+const TYPE = '0x123::sealtrust::DatasetNFT';
+
+const FIELDS = {
+  id: { id: '0xa1' },
+  original_hash: [0xde, 0xad, 0xbe, 0xef],
+  metadata_hash: [0x01, 0x02],
+  walrus_blob_id: 'blob-1',
+  seal_policy_id: 'policy-1',
+  seal_allowlist_id: '0xb2',
+  name: 'Weather',
+  dataset_url: 'https://raw.githubusercontent.com/org/repo/main/weather.csv',
+  format: 'CSV',
+  size: '1024',
+  schema_version: '1.0',
+  verification_timestamp: '18446744073709551615',
+  enclave_id: '0xc3',
+  tee_signature: [0xff],
+};
+
+const DECODED = {
+  id: OBJECT_ID,
+  original_hash: 'deadbeef',
+  metadata_hash: '0102',
+  walrus_blob_id: 'blob-1',
+  seal_policy_id: 'policy-1',
+  seal_allowlist_id: ALLOWLIST_ID,
+  name: 'Weather',
+  dataset_url: 'https://raw.githubusercontent.com/org/repo/main/weather.csv',
+  format: 'CSV',
+  size: BigInt(1024),
+  schema_version: '1.0',
+  verification_timestamp: BigInt('18446744073709551615'),
+  enclave_id: ENCLAVE_ID,
+  tee_signature: 'ff',
+};
+
+function bcsBytes(overrides: Partial<Parameters<typeof DatasetNFTBcs.serialize>[0]> = {}): Uint8Array {
+  return DatasetNFTBcs.serialize({
+    id: OBJECT_ID,
+    original_hash: [0xde, 0xad, 0xbe, 0xef],
+    metadata_hash: [0x01, 0x02],
+    walrus_blob_id: 'blob-1',
+    seal_policy_id: 'policy-1',
+    seal_allowlist_id: ALLOWLIST_ID,
+    name: 'Weather',
+    dataset_url: 'https://raw.githubusercontent.com/org/repo/main/weather.csv',
+    format: 'CSV',
+    size: 1024,
+    schema_version: '1.0',
+    verification_timestamp: '18446744073709551615',
+    enclave_id: ENCLAVE_ID,
+    tee_signature: [0xff],
+    ...overrides,
+  }).toBytes();
+}
+
+function decodeError(decode: () => unknown): DatasetNFTDecodeError {
+  try {
+    decode();
+  } catch (error) {
+    expect(isDatasetNFTDecodeError(error)).toBe(true);
+    return error as DatasetNFTDecodeError;
+  }
+  throw new Error('Expected a DatasetNFTDecodeError');
+}
+
+describe('decodeDatasetNFTFields', () => {
+  it('decodes parsed content', () => {
+    expect(decodeDatasetNFTFields(FIELDS, OBJECT_ID, OWNER)).toEqual({ ...DECODED, owner: OWNER });
+  });
+
+  it('accepts a missing allowlist and falls back to the object ID', () => {
+    const withoutId = Object.fromEntries(Object.entries(FIELDS).filter(([field]) => field !== 'id'));
+    const nft = decodeDatasetNFTFields({ ...withoutId, seal_allowlist_id: null }, OBJECT_ID);
+    expect(nft.id).toBe(OBJECT_ID);
+    expect(nft.seal_allowlist_id).toBeNull();
+    expect(nft.owner).toBe('');
+  });
+
+  it.each([
+    ['name', 42, 'field name should be a string (got number)'],
+    ['original_hash', [1, 256], 'field original_hash should be a byte vector (got array)'],
+    ['size', 1024, 'field size should be a u64 string (got number)'],
+    ['size', '-1', 'field size should be a u64 string (got string)'],
+    ['verification_timestamp', '18446744073709551616', 'field verification_timestamp should be within u64 range (got string)'],
+    ['enclave_id', 'enclave', 'field enclave_id should be an object ID (got string)'],
+    ['tee_signature', undefined, 'field tee_signature should be a byte vector (missing)'],
+  ])('rejects a malformed %s', (field, value, message) => {
+    const error = decodeError(() => decodeDatasetNFTFields({ ...FIELDS, [field]: value }, OBJECT_ID));
+    expect(error.message).toBe(`DatasetNFT ${OBJECT_ID}: ${message}`);
+    expect(error.field).toBe(field);
+    expect(error.objectId).toBe(OBJECT_ID);
+  });
+});
+
+describe('decodeDatasetNFTBcs', () => {
+  it('decodes BCS bytes', () => {
+    expect(decodeDatasetNFTBcs(bcsBytes(), OWNER)).toEqual({ ...DECODED, owner: OWNER });
+    expect(decodeDatasetNFTBcs(bcsBytes({ seal_allowlist_id: null })).seal_allowlist_id).toBeNull();
+  });
+
+  it('rejects truncated bytes and trailing bytes', () => {
+    const bytes = bcsBytes();
+    expect(decodeError(() => decodeDatasetNFTBcs(bytes.slice(0, -1))).message).toMatch(/^DatasetNFT: invalid BCS/);
+    expect(decodeError(() => decodeDatasetNFTBcs(Uint8Array.from([...bytes, 0, 0]))).message)
+      .toBe(`DatasetNFT ${OBJECT_ID}: invalid BCS (2 trailing bytes)`);
+  });
+});
+
+describe('decodeDatasetNFT', () => {
+  const owner = { AddressOwner: OWNER };
+
+  it('decodes parsed content and the owner', () => {
+    const response: SuiObjectResponse = {
+      data: {
+        objectId: OBJECT_ID, version: '1', digest: 'd', owner,
+        content: { dataType: 'moveObject', type: TYPE, hasPublicTransfer: true, fields: FIELDS },
+      },
+    };
+    expect(decodeDatasetNFT(response)).toEqual({ ...DECODED, owner: OWNER });
+  });
+
+  it('falls back to BCS', () => {
+    const response: SuiObjectResponse = {
+      data: {
+        objectId: OBJECT_ID, version: '1', digest: 'd', owner: 'Immutable',
+        bcs: { dataType: 'moveObject', type: TYPE, hasPublicTransfer: true, version: '1', bcsBytes: toBase64(bcsBytes()) },
+      },
+    };
+    expect(decodeDatasetNFT(response)).toEqual({ ...DECODED, owner: '' });
+  });
+
+  it('rejects missing objects, other types and objects without content', () => {
+    expect(decodeError(() => decodeDatasetNFT({ error: { code: 'notExists', object_id: OBJECT_ID } })).message)
+      .toBe('DatasetNFT: object not available (notExists)');
+
+    const otherType: SuiObjectResponse = {
+      data: {
+        objectId: OBJECT_ID, version: '1', digest: 'd',
+        content: { dataType: 'moveObject', type: '0x2::coin::Coin<0x2::sui::SUI>', hasPublicTransfer: true, fields: {} },
+      },
+    };
+    expect(decodeError(() => decodeDatasetNFT(otherType)).message).toBe(
+      `DatasetNFT ${OBJECT_ID}: unexpected type 0x2::coin::Coin<0x2::sui::SUI>`
+    );
+
+    const bare: SuiObjectResponse = { data: { objectId: OBJECT_ID, version: '1', digest: 'd' } };
+    expect(decodeError(() => decodeDatasetNFT(bare)).message).toBe(
+      `DatasetNFT ${OBJECT_ID}: object was fetched without content or BCS`
+    );
+  });
+});
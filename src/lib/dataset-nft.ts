@@ -0,0 +1,246 @@
+import { ObjectOwner, SuiObjectResponse } from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import { DatasetNFT } from './types';
+import { bytesToHex } from './utils/crypto';
+
+/**
+ * DatasetNFT Decoder
+ *
+ * The one place that turns an on-chain `sealtrust::DatasetNFT` into the `DatasetNFT` type,
+ * from either the JSON-RPC parsed content (`showContent`) or raw BCS (`showBcs`).
+ * u64 fields are kept as bigint and every field's shape is checked - a malformed object
+ * throws DatasetNFTDecodeError instead of being filled in with empty strings or zeros.
+ */
+
+/**
+ * Thrown when an object is not a well-formed DatasetNFT
+ */
+export class DatasetNFTDecodeError extends Error {
+  constructor(
+    message: string,
+    public readonly objectId?: string,
+    public readonly field?: string
+  ) {
+    super(objectId ? `DatasetNFT ${objectId}: ${message}` : `DatasetNFT: ${message}`);
+    this.name = 'DatasetNFTDecodeError';
+  }
+}
+
+/**
+ * BCS layout of sealtrust::DatasetNFT - must mirror the Move struct's field order
+ */
+export const DatasetNFTBcs = bcs.struct('DatasetNFT', {
+  id: bcs.Address,                           // UID
+  original_hash: bcs.vector(bcs.u8()),
+  metadata_hash: bcs.vector(bcs.u8()),
+  walrus_blob_id: bcs.string(),
+  seal_policy_id: bcs.string(),
+  seal_allowlist_id: bcs.option(bcs.Address),  // Option<ID>
+  name: bcs.string(),
+  dataset_url: bcs.string(),
+  format: bcs.string(),
+  size: bcs.u64(),
+  schema_version: bcs.string(),
+  verification_timestamp: bcs.u64(),
+  enclave_id: bcs.Address,                   // ID
+  tee_signature: bcs.vector(bcs.u8()),
+});
+
+// Object options needed by decodeDatasetNFT (content decoding)
+export const DATASET_NFT_OBJECT_OPTIONS = { showContent: true, showOwner: true } as const;
+
+const DATASET_NFT_TYPE_SUFFIX = '::sealtrust::DatasetNFT';
+
+const U64_MAX = BigInt('18446744073709551615');
+
+/**
+ * Decode a DatasetNFT from an object response
+ *
+ * Uses the parsed content when present, otherwise the BCS bytes.
+ *
+ * @param object - Response from getObject / multiGetObjects / getOwnedObjects
+ * @returns Decoded DatasetNFT
+ * @throws DatasetNFTDecodeError if the object is missing, of another type, or malformed
+ */
+export function decodeDatasetNFT(object: SuiObjectResponse): DatasetNFT {
+  const data = object.data;
+  if (!data) {
+    throw new DatasetNFTDecodeError(object.error ? `object not available (${object.error.code})` : 'object not available');
+  }
+
+  const owner = ownerAddress(data.owner);
+
+  if (data.content) {
+    if (data.content.dataType !== 'moveObject') {
+      throw new DatasetNFTDecodeError('not a Move object', data.objectId);
+    }
+    assertDatasetNFTType(data.content.type, data.objectId);
+    return decodeDatasetNFTFields(data.content.fields as Record<string, unknown>, data.objectId, owner);
+  }
+
+  if (data.bcs) {
+    if (data.bcs.dataType !== 'moveObject') {
+      throw new DatasetNFTDecodeError('not a Move object', data.objectId);
+    }
+    assertDatasetNFTType(data.bcs.type, data.objectId);
+    return decodeDatasetNFTBcs(fromBase64(data.bcs.bcsBytes), owner);
+  }
+
+  throw new DatasetNFTDecodeError('object was fetched without content or BCS', data.objectId);
+}
+
+/**
+ * Decode a DatasetNFT from raw BCS bytes
+ *
+ * @param bytes - BCS-encoded Move object contents
+ * @param owner - Owner address (not part of the object contents)
+ * @throws DatasetNFTDecodeError if the bytes do not match the DatasetNFT layout
+ */
+export function decodeDatasetNFTBcs(bytes: Uint8Array, owner = ''): DatasetNFT {
+  let parsed: ReturnType<typeof DatasetNFTBcs.parse>;
+  try {
+    parsed = DatasetNFTBcs.parse(bytes);
+  } catch (error) {
+    throw new DatasetNFTDecodeError(`invalid BCS (${error instanceof Error ? error.message : 'parse failed'})`);
+  }
+
+  // parse() ignores trailing bytes - a length mismatch means a different layout
+  const consumed = DatasetNFTBcs.serialize(parsed).toBytes().length;
+  if (consumed !== bytes.length) {
+    throw new DatasetNFTDecodeError(`invalid BCS (${bytes.length - consumed} trailing bytes)`, parsed.id);
+  }
+
+  return {
+    id: parsed.id,
+    original_hash: bytesToHex(parsed.original_hash),
+    metadata_hash: bytesToHex(parsed.metadata_hash),
+    walrus_blob_id: parsed.walrus_blob_id,
+    seal_policy_id: parsed.seal_policy_id,
+    seal_allowlist_id: parsed.seal_allowlist_id ?? null,
+    name: parsed.name,
+    dataset_url: parsed.dataset_url,
+    format: parsed.format,
+    size: BigInt(parsed.size),
+    schema_version: parsed.schema_version,
+    verification_timestamp: BigInt(parsed.verification_timestamp),
+    enclave_id: parsed.enclave_id,
+    tee_signature: bytesToHex(parsed.tee_signature),
+    owner,
+  };
+}
+
+/**
+ * Decode a DatasetNFT from JSON-RPC parsed content fields
+ *
+ * @param fields - `content.fields` of the object
+ * @param objectId - Object ID (used when the fields lack `id`, and in errors)
+ * @param owner - Owner address
+ * @throws DatasetNFTDecodeError naming the first malformed field
+ */
+export function decodeDatasetNFTFields(
+  fields: Record<string, unknown>,
+  objectId: string,
+  owner = ''
+): DatasetNFT {
+  const read = new FieldReader(fields, objectId);
+
+  return {
+    id: read.uid('id'),
+    original_hash: read.bytes('original_hash'),
+    metadata_hash: read.bytes('metadata_hash'),
+    walrus_blob_id: read.string('walrus_blob_id'),
+    seal_policy_id: read.string('seal_policy_id'),
+    seal_allowlist_id: read.optionalId('seal_allowlist_id'),
+    name: read.string('name'),
+    dataset_url: read.string('dataset_url'),
+    format: read.string('format'),
+    size: read.u64('size'),
+    schema_version: read.string('schema_version'),
+    verification_timestamp: read.u64('verification_timestamp'),
+    enclave_id: read.id('enclave_id'),
+    tee_signature: read.bytes('tee_signature'),
+    owner,
+  };
+}
+
+/**
+ * Whether an error came from the DatasetNFT decoder
+ */
+export function isDatasetNFTDecodeError(error: unknown): error is DatasetNFTDecodeError {
+  return error instanceof DatasetNFTDecodeError;
+}
+
+function assertDatasetNFTType(type: string, objectId: string) {
+  if (!type.endsWith(DATASET_NFT_TYPE_SUFFIX)) {
+    throw new DatasetNFTDecodeError(`unexpected type ${type}`, objectId);
+  }
+}
+
+/**
+ * Address of the owner, or '' for shared/immutable objects (no single owner)
+ */
+function ownerAddress(owner: ObjectOwner | null | undefined): string {
+  if (!owner || typeof owner === 'string') return '';
+  if ('AddressOwner' in owner) return owner.AddressOwner;
+  if ('ObjectOwner' in owner) return owner.ObjectOwner;
+  if ('ConsensusAddressOwner' in owner) return owner.ConsensusAddressOwner.owner;
+  return '';
+}
+
+/**
+ * Typed accessors over parsed Move fields
+ */
+class FieldReader {
+  constructor(
+    private readonly fields: Record<string, unknown>,
+    private readonly objectId: string
+  ) {}
+
+  private fail(field: string, expected: string): never {
+    const value = this.fields[field];
+    const actual = value === undefined ? 'missing' : `got ${Array.isArray(value) ? 'array' : typeof value}`;
+    throw new DatasetNFTDecodeError(`field ${field} should be ${expected} (${actual})`, this.objectId, field);
+  }
+
+  string(field: string): string {
+    const value = this.fields[field];
+    if (typeof value !== 'string') this.fail(field, 'a string');
+    return value;
+  }
+
+  bytes(field: string): string {
+    const value = this.fields[field];
+    if (!Array.isArray(value) || !value.every(b => Number.isInteger(b) && b >= 0 && b <= 255)) {
+      this.fail(field, 'a byte vector');
+    }
+    return bytesToHex(value);
+  }
+
+  u64(field: string): bigint {
+    const value = this.fields[field];
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) this.fail(field, 'a u64 string');
+    const parsed = BigInt(value);
+    if (parsed > U64_MAX) this.fail(field, 'within u64 range');
+    return parsed;
+  }
+
+  id(field: string): string {
+    const value = this.fields[field];
+    if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) this.fail(field, 'an object ID');
+    return normalizeSuiAddress(value);
+  }
+
+  optionalId(field: string): string | null {
+    const value = this.fields[field];
+    if (value === null) return null;
+    return this.id(field);
+  }
+
+  uid(field: string): string {
+    const value = this.fields[field] as { id?: unknown } | undefined;
+    if (value === undefined) return this.objectId;
+    if (typeof value?.id !== 'string') this.fail(field, 'a UID');
+    return normalizeSuiAddress(value.id);
+  }
+}
@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { binary, i32, i64, list, parquetFile, struct } from '../test/parquet';
+import { buildDatasetPreview } from './dataset-preview';
+
+const PARQUET = parquetFile({
+  1: i32(1),
+  2: list(struct({ 4: binary('schema'), 5: i32(1) }), struct({ 1: i32(1), 3: i32(0), 4: binary('id') })),
+  3: i64(3),
+});
+
+describe('buildDatasetPreview', () => {
+  it('reads CSV rows with column statistics', async () => {
+    const preview = await buildDatasetPreview(new Blob(['id,score\n1,2.5\n2,\n3,4.5\n']), 'data.csv', 'CSV');
+    expect(preview).toMatchObject({
+      kind: 'table',
+      format: 'CSV',
+      columns: ['id', 'score'],
+      rows: [['1', '2.5'], ['2', ''], ['3', '4.5']],
+      rowCount: 3,
+    });
+    expect(preview.kind === 'table' && preview.stats).toEqual([
+      { name: 'id', type: 'integer', count: 3, nulls: 0, distinct: 3, distinctCapped: false, min: '1', max: '3', mean: 2 },
+      { name: 'score', type: 'number', count: 2, nulls: 1, distinct: 2, distinctCapped: false, min: '2.5', max: '4.5', mean: 3.5 },
+    ]);
+  });
+
+  it('reads gzip-compressed JSON Lines', async () => {
+    const gzipped = new Uint8Array(gzipSync('{"a": 1}\n{"a": 2, "b": "x"}\n'));
+    const preview = await buildDatasetPreview(new Blob([gzipped]), 'events.jsonl.gz');
+    expect(preview).toMatchObject({ kind: 'table', format: 'JSONL', columns: ['a', 'b'], rows: [['1'], ['2', 'x']], rowCount: 2 });
+  });
+
+  it('reads the footer of Parquet files', async () => {
+    const preview = await buildDatasetPreview(PARQUET, 'data.parquet');
+    expect(preview).toMatchObject({ kind: 'parquet', metadata: { numRows: 3, columns: [{ name: 'id' }] } });
+  });
+
+  it('does not preview gzip-compressed Parquet files', async () => {
+    const gzipped = new Uint8Array(gzipSync(new Uint8Array(await PARQUET.arrayBuffer())));
+    expect(await buildDatasetPreview(new Blob([gzipped]), 'data.parquet.gz')).toEqual({
+      kind: 'unsupported',
+      format: 'PARQUET',
+      reason: 'Compressed Parquet files cannot be previewed - save the file to open it.',
+    });
+  });
+
+  it('does not preview formats without a viewer', async () => {
+    expect(await buildDatasetPreview(new Blob(['<rows/>']), 'data.xml')).toMatchObject({ kind: 'unsupported', format: 'XML' });
+  });
+});
@@ -0,0 +1,316 @@
+import { DatasetFormat, detectDatasetFormat, FORMAT_LABELS } from './dataset-format';
+import { DelimitedParser } from './delimited-parser';
+import { ParquetMetadata, readParquetMetadata } from './parquet-metadata';
+import { inferJsonValueType, inferTextValueType, mergeColumnTypes, SchemaColumnType } from './schema-inference';
+
+/**
+ * Dataset Preview
+ *
+ * Reads a decrypted dataset in the browser for the preview pane: the rows of CSV/TSV/JSON Lines
+ * files, the parsed document of JSON files and the footer of Parquet files, with row counts and
+ * per-column statistics. Everything is computed from the Blob in memory - no plaintext is sent
+ * anywhere.
+ *
+ * Text files are streamed, so the row count and statistics cover the whole file while only the
+ * first PREVIEW_MAX_ROWS rows are kept for the table.
+ */
+
+export interface ColumnStats {
+  name: string;
+  type: SchemaColumnType;
+  count: number;                 // Non-empty values
+  nulls: number;                 // Empty or missing values
+  distinct: number;              // Distinct values seen, up to DISTINCT_LIMIT
+  distinctCapped: boolean;       // More distinct values than DISTINCT_LIMIT
+  min?: string;                  // Numeric, date and timestamp columns
+  max?: string;
+  mean?: number;                 // Numeric columns
+}
+
+export interface TablePreview {
+  kind: 'table';
+  format: DatasetFormat;
+  columns: string[];
+  rows: string[][];              // First PREVIEW_MAX_ROWS rows (JSON values as text)
+  rowCount: number;
+  stats: ColumnStats[];
+}
+
+export interface JsonPreview {
+  kind: 'json';
+  value: unknown;
+  rowCount: number | null;       // Items of a top-level array
+  stats: ColumnStats[];          // Keys of a top-level array of objects
+}
+
+export interface ParquetPreview {
+  kind: 'parquet';
+  metadata: ParquetMetadata;
+}
+
+export interface UnsupportedPreview {
+  kind: 'unsupported';
+  format: DatasetFormat;
+  reason: string;
+}
+
+export type DatasetPreview = TablePreview | JsonPreview | ParquetPreview | UnsupportedPreview;
+
+export const PREVIEW_MAX_ROWS = 100_000;
+const MAX_JSON_PREVIEW_BYTES = 64 * 1024 * 1024;
+const DISTINCT_LIMIT = 1000;
+const MAX_CELL_LENGTH = 500;
+
+/**
+ * Build the preview of a decrypted dataset
+ *
+ * @param blob - Decrypted dataset
+ * @param fileName - Name to judge the format by when the content does not identify it
+ * @param declaredFormat - Format recorded on-chain
+ */
+export async function buildDatasetPreview(blob: Blob, fileName: string, declaredFormat?: string): Promise<DatasetPreview> {
+  const detection = await detectDatasetFormat(new File([blob], fileName), declaredFormat);
+  const format = detection.format;
+
+  if (detection.compression === 'zip') {
+    return { kind: 'unsupported', format, reason: 'Zip archives cannot be previewed - save the file to open it.' };
+  }
+
+  switch (format) {
+    case 'PARQUET':
+      // The footer is read from the end of the file - it cannot be reached through gzip
+      if (detection.compression === 'gzip') {
+        return { kind: 'unsupported', format, reason: 'Compressed Parquet files cannot be previewed - save the file to open it.' };
+      }
+      return { kind: 'parquet', metadata: await readParquetMetadata(blob) };
+    case 'JSON':
+      return previewJson(blob, detection.compression === 'gzip');
+    case 'CSV':
+    case 'TSV':
+    case 'JSONL':
+      return previewRows(blob, format, detection.compression === 'gzip');
+    default:
+      return { kind: 'unsupported', format, reason: `${FORMAT_LABELS[format]} files have no preview - save the file to open it.` };
+  }
+}
+
+async function previewRows(blob: Blob, format: DatasetFormat, gzipped: boolean): Promise<TablePreview> {
+  const columns: string[] = [];
+  const rows: string[][] = [];
+  const stats: ColumnStatsBuilder[] = [];
+  let rowCount = 0;
+  let header: string[] | null = null;            // CSV/TSV header row
+
+  const columnIndex = (name: string): number => {
+    let index = columns.indexOf(name);
+    if (index === -1) {
+      index = columns.push(name) - 1;
+      stats.push(new ColumnStatsBuilder(name));
+    }
+    return index;
+  };
+
+  const addDelimitedRow = (fields: string[]) => {
+    if (!header) {
+      header = fields;
+      fields.forEach((name, i) => columnIndex(name.trim() || `column_${i + 1}`));
+      return;
+    }
+    fields.forEach((value, i) => {
+      const index = i < header!.length ? i : columnIndex(`column_${i + 1}`);
+      if (value.trim() !== '') stats[index].add(value.trim(), inferTextValueType(value.trim()));
+    });
+    if (rows.length < PREVIEW_MAX_ROWS) rows.push(fields.map(truncateCell));
+    rowCount++;
+  };
+
+  let lineNumber = 0;
+  const addJsonLine = (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${lineNumber} is not valid JSON`);
+    }
+    const row: string[] = [];
+    const entries = record && typeof record === 'object' && !Array.isArray(record)
+      ? Object.entries(record)
+      : [['value', record] as [string, unknown]];
+
+    for (const [name, value] of entries) {
+      const index = columnIndex(name);
+      if (value !== null && value !== undefined) stats[index].add(cellText(value), inferJsonValueType(value));
+      row[index] = truncateCell(cellText(value));
+    }
+    if (rows.length < PREVIEW_MAX_ROWS) rows.push(Array.from(row, cell => cell ?? ''));
+    rowCount++;
+  };
+
+  const parser = new DelimitedParser(format === 'TSV' ? '\t' : ',');
+  let pending = '';
+
+  for await (const text of readText(blob, gzipped)) {
+    if (format === 'JSONL') {
+      const lines = (pending + text).split('\n');
+      pending = lines.pop()!;
+      lines.forEach(addJsonLine);
+    } else {
+      parser.push(text).forEach(addDelimitedRow);
+    }
+  }
+
+  if (format === 'JSONL') addJsonLine(pending);
+  else parser.flush().forEach(addDelimitedRow);
+
+  return {
+    kind: 'table',
+    format,
+    columns,
+    rows,
+    rowCount,
+    stats: stats.map(builder => builder.build(rowCount)),
+  };
+}
+
+async function previewJson(blob: Blob, gzipped: boolean): Promise<JsonPreview> {
+  if (!gzipped && blob.size > MAX_JSON_PREVIEW_BYTES) {
+    throw new Error('This JSON document is too large to preview - save the file to open it.');
+  }
+
+  let text = '';
+  for await (const chunk of readText(blob, gzipped)) {
+    text += chunk;
+    if (text.length > MAX_JSON_PREVIEW_BYTES) {
+      throw new Error('This JSON document is too large to preview - save the file to open it.');
+    }
+  }
+
+  const value = JSON.parse(text.replace(/^\uFEFF/, ''));
+  if (!Array.isArray(value)) return { kind: 'json', value, rowCount: null, stats: [] };
+
+  // An array of objects is a table - give its keys column statistics
+  const stats = new Map<string, ColumnStatsBuilder>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    for (const [name, field] of Object.entries(item)) {
+      if (!stats.has(name)) stats.set(name, new ColumnStatsBuilder(name));
+      if (field !== null && field !== undefined) stats.get(name)!.add(cellText(field), inferJsonValueType(field));
+    }
+  }
+
+  return {
+    kind: 'json',
+    value,
+    rowCount: value.length,
+    stats: Array.from(stats.values(), builder => builder.build(value.length)),
+  };
+}
+
+/**
+ * Decoded text of a Blob, chunk by chunk
+ */
+async function* readText(blob: Blob, gzipped: boolean): AsyncGenerator<string> {
+  if (gzipped && typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress gzip files - save the file to open it.');
+  }
+
+  const stream = gzipped ? blob.stream().pipeThrough(new DecompressionStream('gzip')) : blob.stream();
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let first = true;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      let text = decoder.decode(value, { stream: true });
+      if (first) {
+        text = text.replace(/^\uFEFF/, '');
+        first = false;
+      }
+      yield text;
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function truncateCell(value: string): string {
+  return value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH)}…` : value;
+}
+
+/**
+ * Running statistics of one column
+ */
+class ColumnStatsBuilder {
+  private type: SchemaColumnType | null = null;
+  private count = 0;
+  private distinct = new Set<string>();
+  private distinctCapped = false;
+  private numericMin = Infinity;
+  private numericMax = -Infinity;
+  private sum = 0;
+  private textMin: string | null = null;
+  private textMax: string | null = null;
+
+  constructor(private readonly name: string) {}
+
+  add(value: string, type: SchemaColumnType): void {
+    this.type = this.type ? mergeColumnTypes(this.type, type) : type;
+    this.count++;
+
+    if (!this.distinctCapped) {
+      this.distinct.add(value);
+      if (this.distinct.size > DISTINCT_LIMIT) {
+        this.distinctCapped = true;
+        this.distinct.clear();           // The exact set is no longer needed
+      }
+    }
+
+    if (type === 'integer' || type === 'number') {
+      const number = Number(value);
+      this.numericMin = Math.min(this.numericMin, number);
+      this.numericMax = Math.max(this.numericMax, number);
+      this.sum += number;
+    } else if (type === 'date' || type === 'timestamp') {
+      // ISO dates sort as text
+      if (this.textMin === null || value < this.textMin) this.textMin = value;
+      if (this.textMax === null || value > this.textMax) this.textMax = value;
+    }
+  }
+
+  /**
+   * @param rowCount - Rows in the dataset (values not added count as nulls)
+   */
+  build(rowCount: number): ColumnStats {
+    const type = this.type ?? 'null';
+    const stats: ColumnStats = {
+      name: this.name,
+      type,
+      count: this.count,
+      nulls: rowCount - this.count,
+      distinct: this.distinctCapped ? DISTINCT_LIMIT : this.distinct.size,
+      distinctCapped: this.distinctCapped,
+    };
+
+    if ((type === 'integer' || type === 'number') && this.count > 0) {
+      stats.min = String(this.numericMin);
+      stats.max = String(this.numericMax);
+      stats.mean = this.sum / this.count;
+    } else if ((type === 'date' || type === 'timestamp') && this.textMin !== null) {
+      stats.min = this.textMin;
+      stats.max = this.textMax!;
+    }
+
+    return stats;
+  }
+}
@@ -0,0 +1,215 @@
+import { SuiCallArg, SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { getNetworkProfile } from './networks';
+import {
+  DATASET_VERIFICATION_FIELDS,
+  fetchEnclavePublicKey,
+  formatMetadataField,
+  verifyDatasetSignature,
+} from './tee-signature';
+import { DatasetNFT, DatasetVerification, hexToVecU8, stringToVecU8 } from './types';
+
+/**
+ * DatasetNFT Proof Re-verification
+ *
+ * Rebuilds the DatasetVerification message a registration was signed over and checks the
+ * NFT's tee_signature against the key of the enclave that signed it. Everything comes from
+ * chain data: the NFT for the stored fields, and the transaction that created it for the
+ * signed fields the NFT does not keep (dataset_id, description, uploader).
+ */
+
+export type ProofFieldStatus = 'pass' | 'fail' | 'unverified';
+
+export interface ProofFieldCheck {
+  field: keyof DatasetVerification;
+  value: string;                 // Value used to rebuild the signed message
+  source: 'nft' | 'transaction'; // Where the value was read from
+  status: ProofFieldStatus;
+  detail?: string;
+}
+
+export interface DatasetProofResult {
+  valid: boolean;                // Signature verifies and every stored field matches
+  signatureValid: boolean;
+  enclaveId: string;
+  txDigest: string | null;       // Transaction that created the NFT
+  fields: ProofFieldCheck[];
+  errors: string[];
+}
+
+// register_dataset argument positions (see addRegisterDatasetCall)
+const REGISTER_ARGS = {
+  dataset_id: 0,
+  name: 1,
+  description: 2,
+  format: 3,
+  size: 4,
+  original_hash: 5,
+  walrus_blob_id: 7,
+  seal_policy_id: 8,
+  timestamp: 10,
+} as const;
+
+// Signed fields only found in the registration transaction
+const TRANSACTION_FIELDS = new Set<keyof DatasetVerification>(['dataset_id', 'description', 'uploader']);
+
+/**
+ * Re-verify the TEE proof of a registered dataset
+ *
+ * @param nft - Decoded DatasetNFT
+ * @param suiClient - SuiClient instance
+ * @returns Signature result and a pass/fail entry per signed field
+ */
+export async function verifyDatasetProof(nft: DatasetNFT, suiClient: SuiClient): Promise<DatasetProofResult> {
+  const result: DatasetProofResult = {
+    valid: false,
+    signatureValid: false,
+    enclaveId: nft.enclave_id || getNetworkProfile().enclaveId,
+    txDigest: null,
+    fields: [],
+    errors: [],
+  };
+
+  const creation = await findCreationTransaction(nft.id, suiClient);
+  result.txDigest = creation?.digest ?? null;
+
+  const call = creation ? findRegisterCall(creation, nft) : null;
+  if (!call) {
+    result.errors.push(creation
+      ? 'The NFT was not created by register_dataset - there is no TEE signature to check'
+      : 'Could not find the transaction that created this NFT');
+    return result;
+  }
+
+  // The signed message as the NFT stores it, completed from the transaction inputs
+  const fromNft: Omit<DatasetVerification, 'dataset_id' | 'description' | 'uploader'> = {
+    name: stringToVecU8(nft.name),
+    format: stringToVecU8(nft.format),
+    size: Number(nft.size),
+    original_hash: hexToVecU8(nft.original_hash),
+    walrus_blob_id: stringToVecU8(nft.walrus_blob_id),
+    seal_policy_id: stringToVecU8(nft.seal_policy_id),
+    timestamp: Number(nft.verification_timestamp),
+  };
+  const metadata: DatasetVerification = {
+    dataset_id: call.bytes(REGISTER_ARGS.dataset_id),
+    description: call.bytes(REGISTER_ARGS.description),
+    // register_dataset signs the transaction sender, not a call argument
+    uploader: hexToVecU8(call.sender.replace(/^0x/, '')),
+    ...fromNft,
+  };
+
+  // Stored fields must match what was submitted with the signature
+  const submitted: Partial<DatasetVerification> = {
+    name: call.bytes(REGISTER_ARGS.name),
+    format: call.bytes(REGISTER_ARGS.format),
+    size: call.number(REGISTER_ARGS.size),
+    original_hash: call.bytes(REGISTER_ARGS.original_hash),
+    walrus_blob_id: call.bytes(REGISTER_ARGS.walrus_blob_id),
+    seal_policy_id: call.bytes(REGISTER_ARGS.seal_policy_id),
+    timestamp: call.number(REGISTER_ARGS.timestamp),
+  };
+
+  try {
+    const publicKey = await fetchEnclavePublicKey(suiClient, result.enclaveId);
+    result.signatureValid = await verifyDatasetSignature(metadata, nft.tee_signature, publicKey);
+    if (!result.signatureValid) {
+      result.errors.push('tee_signature does not verify against the enclave public key');
+    }
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Failed to read the enclave public key');
+  }
+
+  result.fields = DATASET_VERIFICATION_FIELDS.map((field): ProofFieldCheck => {
+    const value = formatMetadataField(field, metadata[field]);
+    const source = TRANSACTION_FIELDS.has(field) ? 'transaction' : 'nft';
+
+    if (source === 'nft') {
+      const sent = formatMetadataField(field, submitted[field]!);
+      if (sent !== value) {
+        return { field, value, source, status: 'fail', detail: `Registered with ${sent}` };
+      }
+    }
+    return { field, value, source, status: result.signatureValid ? 'pass' : 'unverified' };
+  });
+
+  result.valid = result.signatureValid && result.fields.every(f => f.status === 'pass');
+  return result;
+}
+
+interface RegisterCall {
+  sender: string;
+  bytes(index: number): number[];
+  number(index: number): number;
+}
+
+/**
+ * First transaction that touched the object - the one that created it
+ */
+async function findCreationTransaction(
+  objectId: string,
+  suiClient: SuiClient
+): Promise<SuiTransactionBlockResponse | null> {
+  try {
+    const { data } = await suiClient.queryTransactionBlocks({
+      filter: { ChangedObject: objectId },
+      order: 'ascending',
+      limit: 1,
+      options: { showInput: true },
+    });
+    if (data.length > 0) return data[0];
+  } catch (error) {
+    console.warn('ChangedObject query failed, falling back to previousTransaction:', error);
+  }
+
+  // Correct as long as the NFT has not been modified or transferred since registration
+  const object = await suiClient.getObject({ id: objectId, options: { showPreviousTransaction: true } });
+  const digest = object.data?.previousTransaction;
+  if (!digest) return null;
+  return suiClient.getTransactionBlock({ digest, options: { showInput: true } });
+}
+
+/**
+ * The register_dataset call that created this NFT (batches hold several - match on blob ID and hash)
+ */
+function findRegisterCall(tx: SuiTransactionBlockResponse, nft: DatasetNFT): RegisterCall | null {
+  const data = tx.transaction?.data;
+  if (data?.transaction.kind !== 'ProgrammableTransaction') return null;
+
+  const { inputs, transactions } = data.transaction;
+
+  for (const command of transactions) {
+    if (!('MoveCall' in command)) continue;
+    const moveCall = command.MoveCall;
+    if (moveCall.module !== 'sealtrust' || moveCall.function !== 'register_dataset') continue;
+
+    const args = (moveCall.arguments || []).map(arg =>
+      typeof arg === 'object' && 'Input' in arg ? inputs[arg.Input] : undefined
+    );
+    const call: RegisterCall = {
+      sender: data.sender,
+      bytes: index => pureBytes(args[index]),
+      number: index => Number(pureValue(args[index])),
+    };
+
+    const blobId = new TextDecoder().decode(new Uint8Array(call.bytes(REGISTER_ARGS.walrus_blob_id)));
+    const hash = formatMetadataField('original_hash', call.bytes(REGISTER_ARGS.original_hash));
+    if (blobId === nft.walrus_blob_id && hash === `0x${nft.original_hash}`) {
+      return call;
+    }
+  }
+  return null;
+}
+
+function pureValue(arg: SuiCallArg | undefined): unknown {
+  return arg?.type === 'pure' ? arg.value : undefined;
+}
+
+/**
+ * Pure input as bytes - vector<u8> is rendered as a number array, String as text
+ */
+function pureBytes(arg: SuiCallArg | undefined): number[] {
+  const value = pureValue(arg);
+  if (Array.isArray(value)) return value.map(Number);
+  if (typeof value === 'string') return stringToVecU8(value);
+  return [];
+}
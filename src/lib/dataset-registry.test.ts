@@ -0,0 +1,111 @@
+import { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DatasetRegistry } from './dataset-registry';
+
+const PACKAGE_ID = '0x123';
+
+function nftObject(id: string, hash: string): SuiObjectResponse {
+  return {
+    data: {
+      objectId: id,
+      version: '1',
+      digest: 'object-digest',
+      owner: { AddressOwner: normalizeSuiAddress('0xd4') },
+      content: {
+        dataType: 'moveObject',
+        type: `${PACKAGE_ID}::sealtrust::DatasetNFT`,
+        hasPublicTransfer: true,
+        fields: {
+          id: { id },
+          original_hash: Array.from(Buffer.from(hash, 'hex')),
+          metadata_hash: [1],
+          walrus_blob_id: `blob-${id}`,
+          seal_policy_id: 'policy',
+          seal_allowlist_id: null,
+          name: `Dataset ${id}`,
+          dataset_url: '',
+          format: 'CSV',
+          size: '10',
+          schema_version: '1.0',
+          verification_timestamp: '1700000000000',
+          enclave_id: '0xc3',
+          tee_signature: [2],
+        },
+      },
+    },
+  };
+}
+
+// One register_dataset transaction creating the given NFTs
+function page(digest: string, ids: string[], nextCursor: string | null) {
+  return {
+    data: [{
+      digest,
+      objectChanges: ids.map(objectId => ({
+        type: 'created',
+        objectType: `${PACKAGE_ID}::sealtrust::DatasetNFT`,
+        objectId,
+      })),
+    }],
+    nextCursor,
+    hasNextPage: false,
+  };
+}
+
+const EMPTY_PAGE = { data: [], nextCursor: null, hasNextPage: false };
+
+describe('DatasetRegistry', () => {
+  const first = normalizeSuiAddress('0xa1');
+  const second = normalizeSuiAddress('0xa2');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries objects of a page that failed to load on the next sync', async () => {
+    const queryTransactionBlocks = vi.fn()
+      .mockResolvedValueOnce(page('tx-1', [first, second], 'cursor-1'))
+      .mockResolvedValue(EMPTY_PAGE);
+    const multiGetObjects = vi.fn()
+      .mockResolvedValueOnce([nftObject(first, 'aa'), { error: { code: 'notExists', object_id: second } }])
+      .mockImplementation(async ({ ids }: { ids: string[] }) => ids.map(id => nftObject(id, 'bb')));
+    const suiClient = { queryTransactionBlocks, multiGetObjects } as unknown as SuiClient;
+
+    const registry = new DatasetRegistry(PACKAGE_ID);
+    expect((await registry.getAll(suiClient)).map(entry => entry.id)).toEqual([first]);
+
+    await registry.sync(suiClient, true);
+
+    // The cursor moved on, and only the failed object was fetched again
+    expect(queryTransactionBlocks).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'cursor-1' }));
+    expect(multiGetObjects).toHaveBeenLastCalledWith(expect.objectContaining({ ids: [second] }));
+    const entry = await registry.getById(suiClient, second);
+    expect(entry).toMatchObject({ id: second, tx_digest: 'tx-1' });
+    expect(await registry.findByHash(suiClient, 'BB')).toMatchObject({ id: second });
+  });
+
+  it('keeps retrying malformed objects without refetching indexed ones', async () => {
+    const queryTransactionBlocks = vi.fn()
+      .mockResolvedValueOnce(page('tx-1', [first, second], 'cursor-1'))
+      .mockResolvedValue(EMPTY_PAGE);
+    const malformed = nftObject(second, 'bb');
+    (malformed.data!.content as { fields: Record<string, unknown> }).fields.size = 'ten';
+    const multiGetObjects = vi.fn().mockImplementation(async ({ ids }: { ids: string[] }) =>
+      ids.map(id => (id === first ? nftObject(first, 'aa') : malformed)));
+    const suiClient = { queryTransactionBlocks, multiGetObjects } as unknown as SuiClient;
+
+    const registry = new DatasetRegistry(PACKAGE_ID);
+    await registry.sync(suiClient);
+    await registry.sync(suiClient, true);
+
+    expect(multiGetObjects).toHaveBeenCalledTimes(2);
+    expect(multiGetObjects).toHaveBeenLastCalledWith(expect.objectContaining({ ids: [second] }));
+    expect((await registry.getAll(suiClient)).map(entry => entry.id)).toEqual([first]);
+  });
+});
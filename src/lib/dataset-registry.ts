@@ -0,0 +1,291 @@
+import { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { getActiveNetwork, getNetworkProfile, SuiNetwork } from './networks';
+import { DATASET_NFT_OBJECT_OPTIONS, decodeDatasetNFT, isDatasetNFTDecodeError } from './dataset-nft';
+import { parseDatasetUrlField } from './dataset-source';
+import { RegistryEntry } from './types';
+
+/**
+ * Dataset Registry Index
+ *
+ * Keeps an in-memory index of every DatasetNFT created by `register_dataset`.
+ * The index pages through the full transaction history with cursors on first use,
+ * then only asks the fullnode for transactions newer than the last cursor it saw.
+ *
+ * Lookups by `original_hash`, schema fingerprint and object ID are answered from the index,
+ * so Verify and Explore no longer rescan the chain on every search.
+ *
+ * Each network has its own index (its own package, its own history).
+ */
+
+// Transactions requested per page (QUERY_MAX_RESULT_LIMIT on the fullnode)
+const PAGE_SIZE = 50;
+
+// multiGetObjects accepts at most 50 IDs per call
+const OBJECT_BATCH_SIZE = 50;
+
+// How long a synced index is considered fresh before the next incremental refresh
+const REFRESH_INTERVAL_MS = 30_000;
+
+export class DatasetRegistry {
+  private entriesById = new Map<string, RegistryEntry>();
+  private idsByHash = new Map<string, string[]>();
+  private idsBySchema = new Map<string, string[]>();
+
+  // Cursor of the newest register_dataset transaction already indexed
+  private cursor: string | null = null;
+  // NFT object ID -> creating transaction digest, for objects that could not be fetched or
+  // decoded yet (the cursor has moved past them) - retried on every sync
+  private pendingIds = new Map<string, string>();
+  private lastSyncedAt = 0;
+  private inflightSync: Promise<void> | null = null;
+
+  /**
+   * @param packageId - SealTrust verification package whose register_dataset calls are indexed
+   */
+  constructor(private readonly packageId: string) {}
+
+  /**
+   * Bring the index up to date with the chain
+   *
+   * The first call pages through every register_dataset transaction.
+   * Later calls resume from the stored cursor and only fetch new registrations.
+   * Concurrent callers share the same in-flight sync.
+   *
+   * @param suiClient - SuiClient instance (typically from useSuiClient hook)
+   * @param force - Refresh even if the index was synced recently
+   */
+  async sync(suiClient: SuiClient, force: boolean = false): Promise<void> {
+    if (this.inflightSync) {
+      return this.inflightSync;
+    }
+
+    if (!force && this.lastSyncedAt > 0 && Date.now() - this.lastSyncedAt < REFRESH_INTERVAL_MS) {
+      return;
+    }
+
+    this.inflightSync = this.syncFromCursor(suiClient).finally(() => {
+      this.inflightSync = null;
+    });
+
+    return this.inflightSync;
+  }
+
+  /**
+   * Get every indexed dataset, newest first
+   *
+   * @param suiClient - SuiClient instance
+   * @returns Registry entries sorted by registration time
+   */
+  async getAll(suiClient: SuiClient): Promise<RegistryEntry[]> {
+    await this.sync(suiClient);
+    return Array.from(this.entriesById.values())
+      .sort((a, b) => b.registered_at - a.registered_at);
+  }
+
+  /**
+   * Find the earliest registration of a dataset by its original hash
+   *
+   * Answers from the index first. On a miss, the index is refreshed once
+   * (a dataset may have been registered since the last sync) before giving up.
+   *
+   * @param suiClient - SuiClient instance
+   * @param hash - Hex SHA-256 of the unencrypted file
+   * @returns Matching registry entry, or null if the hash is not registered
+   */
+  async findByHash(suiClient: SuiClient, hash: string): Promise<RegistryEntry | null> {
+    const normalized = hash.toLowerCase();
+
+    await this.sync(suiClient);
+    let match = this.lookupHash(normalized);
+
+    if (!match) {
+      await this.sync(suiClient, true);
+      match = this.lookupHash(normalized);
+    }
+
+    return match;
+  }
+
+  /**
+   * Find datasets registered with a schema fingerprint (see ./schema-inference), oldest first
+   *
+   * @param suiClient - SuiClient instance
+   * @param fingerprint - Hex SHA-256 of a canonical schema document
+   * @returns Matching registry entries (empty if no dataset recorded this schema)
+   */
+  async findBySchema(suiClient: SuiClient, fingerprint: string): Promise<RegistryEntry[]> {
+    await this.sync(suiClient);
+    return (this.idsBySchema.get(fingerprint.toLowerCase()) || [])
+      .map(id => this.entriesById.get(id))
+      .filter((entry): entry is RegistryEntry => !!entry)
+      .sort((a, b) => a.registered_at - b.registered_at);
+  }
+
+  /**
+   * Get an indexed dataset by its NFT object ID
+   *
+   * @param suiClient - SuiClient instance
+   * @param nftId - DatasetNFT object ID
+   * @returns Registry entry, or null if the object is not indexed
+   */
+  async getById(suiClient: SuiClient, nftId: string): Promise<RegistryEntry | null> {
+    await this.sync(suiClient);
+    return this.entriesById.get(nftId) || null;
+  }
+
+  /**
+   * Drop the index (e.g. after switching package or network)
+   */
+  clear(): void {
+    this.entriesById.clear();
+    this.idsByHash.clear();
+    this.idsBySchema.clear();
+    this.pendingIds.clear();
+    this.cursor = null;
+    this.lastSyncedAt = 0;
+  }
+
+  private lookupHash(hash: string): RegistryEntry | null {
+    const ids = this.idsByHash.get(hash);
+    if (!ids || ids.length === 0) return null;
+
+    // Several NFTs can share a hash - the earliest registration wins
+    const entries = ids
+      .map(id => this.entriesById.get(id))
+      .filter((entry): entry is RegistryEntry => !!entry)
+      .sort((a, b) => a.registered_at - b.registered_at);
+
+    return entries[0] || null;
+  }
+
+  private async syncFromCursor(suiClient: SuiClient): Promise<void> {
+    // NFT object ID -> digest of the transaction that created it
+    const created = new Map<string, string>();
+    let cursor = this.cursor;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await suiClient.queryTransactionBlocks({
+        filter: {
+          MoveFunction: {
+            package: this.packageId,
+            module: 'sealtrust',
+            function: 'register_dataset',
+          },
+        },
+        options: {
+          showObjectChanges: true,
+        },
+        cursor,
+        limit: PAGE_SIZE,
+        order: 'ascending',
+      });
+
+      for (const txBlock of page.data) {
+        for (const change of txBlock.objectChanges || []) {
+          if (change.type === 'created' && change.objectType.includes('::sealtrust::DatasetNFT')) {
+            created.set(change.objectId, txBlock.digest);
+          }
+        }
+      }
+
+      // An empty last page returns a null cursor - keep the previous one
+      cursor = page.nextCursor ?? cursor;
+      hasNextPage = page.hasNextPage;
+    }
+
+    for (const [id, digest] of this.pendingIds) {
+      if (!created.has(id)) created.set(id, digest);
+    }
+
+    const newIds = Array.from(created.keys()).filter(id => !this.entriesById.has(id));
+    if (newIds.length > 0) {
+      console.log(`📚 Indexing ${newIds.length} new DatasetNFT(s)...`);
+    }
+
+    for (let i = 0; i < newIds.length; i += OBJECT_BATCH_SIZE) {
+      const batch = newIds.slice(i, i + OBJECT_BATCH_SIZE);
+      const objects = await suiClient.multiGetObjects({
+        ids: batch,
+        options: DATASET_NFT_OBJECT_OPTIONS,
+      });
+
+      objects.forEach((object, index) => {
+        const id = batch[index];
+        const entry = toRegistryEntry(object, created.get(id) || '');
+        if (entry) {
+          this.addEntry(entry);
+          this.pendingIds.delete(id);
+        } else {
+          this.pendingIds.set(id, created.get(id) || '');
+        }
+      });
+    }
+
+    if (this.pendingIds.size > 0) {
+      console.warn(`⚠️ ${this.pendingIds.size} DatasetNFT(s) could not be indexed - retrying on the next sync`);
+    }
+
+    // Objects that failed are kept in pendingIds, so the cursor can move past their pages
+    this.cursor = cursor;
+    this.lastSyncedAt = Date.now();
+  }
+
+  private addEntry(entry: RegistryEntry): void {
+    this.entriesById.set(entry.id, entry);
+
+    const hash = entry.nft.original_hash.toLowerCase();
+    const ids = this.idsByHash.get(hash) || [];
+    if (!ids.includes(entry.id)) {
+      this.idsByHash.set(hash, [...ids, entry.id]);
+    }
+
+    const { schemaFingerprint } = parseDatasetUrlField(entry.nft.dataset_url || '');
+    if (schemaFingerprint) {
+      const schemaIds = this.idsBySchema.get(schemaFingerprint) || [];
+      if (!schemaIds.includes(entry.id)) {
+        this.idsBySchema.set(schemaFingerprint, [...schemaIds, entry.id]);
+      }
+    }
+  }
+}
+
+/**
+ * Map a DatasetNFT object response to a registry entry
+ * Unavailable and malformed objects are logged and skipped so one bad NFT cannot break the index
+ */
+function toRegistryEntry(
+  object: SuiObjectResponse,
+  txDigest: string
+): RegistryEntry | null {
+  try {
+    const nft = decodeDatasetNFT(object);
+    return {
+      id: nft.id,
+      nft,
+      registrant: nft.owner,
+      tx_digest: txDigest,
+      registered_at: Number(nft.verification_timestamp),
+    };
+  } catch (error) {
+    if (isDatasetNFTDecodeError(error)) {
+      console.warn('⚠️ Skipping malformed DatasetNFT:', error.message);
+      return null;
+    }
+    throw error;
+  }
+}
+
+const registries = new Map<SuiNetwork, DatasetRegistry>();
+
+/**
+ * Registry index of a network (the active one by default)
+ */
+export function getDatasetRegistry(network: SuiNetwork = getActiveNetwork()): DatasetRegistry {
+  let registry = registries.get(network);
+  if (!registry) {
+    registry = new DatasetRegistry(getNetworkProfile(network).verificationPackage);
+    registries.set(network, registry);
+  }
+  return registry;
+}
@@ -0,0 +1,94 @@
+import { ContentAddress, parseContentAddress } from './content-address';
+import { isPinnedUrl } from './revision-pinning';
+
+/**
+ * Dataset Source Field
+ *
+ * register_dataset stores the attested description as the DatasetNFT's dataset_url. For datasets
+ * registered from a URL, the URL that was fetched goes on the first line, so the NFT records where
+ * the hashed bytes came from. Immutable sources - an IPFS/Arweave content address
+ * (./content-address) or a GitHub/Hugging Face URL pinned to a commit (./revision-pinning) - are
+ * recorded as-is; any other URL (S3, plain HTTPS, a branch that could not be pinned) is marked as
+ * unpinned, since its host can serve other bytes later. A URL pinning rewrote is kept after the
+ * description, and the schema fingerprint (./schema-inference), if one was inferred, on the last line.
+ */
+
+export interface DatasetSource {
+  uri: string;                           // Content address, pinned URL or unpinned URL
+  contentAddress: ContentAddress | null;
+  originalUrl: string | null;            // URL as entered, when pinning rewrote it
+  pinned: boolean;                       // False for mutable URLs - their content can change
+}
+
+export interface DatasetUrlFieldExtras {
+  sourceUri?: string;                    // URL the dataset was fetched from (content address, pinned or mutable URL)
+  originalUrl?: string;                  // URL as entered, if pinning rewrote it
+  schemaFingerprint?: string;            // SHA-256 of the canonical schema document
+}
+
+const UNPINNED_PREFIX = 'Unpinned source: ';
+const ORIGINAL_URL_PREFIX = 'Pinned from ';
+const SCHEMA_PREFIX = 'Schema sha256:';
+
+/**
+ * Whether a source URI is immutable (a content address or a URL pinned to a revision)
+ */
+export function isImmutableSource(uri: string): boolean {
+  return /^(ipfs|ar):\/\//.test(uri) ? parseContentAddress(uri) !== null : isPinnedUrl(uri);
+}
+
+/**
+ * On-chain dataset_url value for a description, its source and its schema fingerprint
+ *
+ * @param description - Dataset description
+ */
+export function formatDatasetUrlField(description: string, extras: DatasetUrlFieldExtras = {}): string {
+  const { originalUrl, schemaFingerprint } = extras;
+  const sourceUri = extras.sourceUri && /^\S+$/.test(extras.sourceUri) ? extras.sourceUri : undefined;
+  if (!sourceUri && !schemaFingerprint) return description;
+
+  const pinned = !!sourceUri && isImmutableSource(sourceUri);
+  const lines = sourceUri ? [pinned ? sourceUri : `${UNPINNED_PREFIX}${sourceUri}`] : [];
+  if (description) lines.push(description);
+  if (pinned && originalUrl && originalUrl !== sourceUri) lines.push(`${ORIGINAL_URL_PREFIX}${originalUrl}`);
+  if (schemaFingerprint) lines.push(`${SCHEMA_PREFIX}${schemaFingerprint}`);
+  return lines.join('\n');
+}
+
+/**
+ * Split a DatasetNFT's dataset_url back into the recorded source, schema fingerprint and description
+ */
+export function parseDatasetUrlField(value: string): {
+  source: DatasetSource | null;
+  schemaFingerprint: string | null;
+  description: string;
+} {
+  const lines = value.split('\n');
+
+  let schemaFingerprint: string | null = null;
+  const schemaLine = lines[lines.length - 1].trim();
+  if (schemaLine.startsWith(SCHEMA_PREFIX) && /^[0-9a-f]{64}$/i.test(schemaLine.slice(SCHEMA_PREFIX.length))) {
+    schemaFingerprint = schemaLine.slice(SCHEMA_PREFIX.length).toLowerCase();
+    lines.pop();
+  }
+
+  const first = (lines[0] ?? '').trim();
+  const pinned = !first.startsWith(UNPINNED_PREFIX);
+  const uri = pinned ? first : first.slice(UNPINNED_PREFIX.length).trim();
+  if (!/^\S+$/.test(uri) || !(pinned ? isImmutableSource(uri) : /^https?:\/\//i.test(uri))) {
+    return { source: null, schemaFingerprint, description: lines.join('\n') };
+  }
+
+  let originalUrl: string | null = null;
+  const last = lines[lines.length - 1];
+  if (pinned && lines.length > 1 && last.startsWith(ORIGINAL_URL_PREFIX)) {
+    originalUrl = last.slice(ORIGINAL_URL_PREFIX.length).trim();
+    lines.pop();
+  }
+
+  return {
+    source: { uri, contentAddress: pinned ? parseContentAddress(uri) : null, originalUrl, pinned },
+    schemaFingerprint,
+    description: lines.slice(1).join('\n'),
+  };
+}
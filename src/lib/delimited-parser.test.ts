@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DelimitedParser } from './delimited-parser';
+
+function parse(text: string, delimiter = ','): string[][] {
+  const parser = new DelimitedParser(delimiter);
+  return [...parser.push(text), ...parser.flush()];
+}
+
+// Same text pushed one character at a time
+function parseByCharacter(text: string, delimiter = ','): string[][] {
+  const parser = new DelimitedParser(delimiter);
+  return [...Array.from(text).flatMap(char => parser.push(char)), ...parser.flush()];
+}
+
+describe('DelimitedParser', () => {
+  it('splits rows and fields', () => {
+    expect(parse('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    expect(parse('a\tb\n1\t2', '\t')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parse(',a,\n')).toEqual([['', 'a', '']]);
+  });
+
+  it('reads quoted delimiters, doubled quotes and line breaks', () => {
+    expect(parse('"a,b","say ""hi""","two\nlines"\n')).toEqual([['a,b', 'say "hi"', 'two\nlines']]);
+    expect(parse('"",x\n')).toEqual([['', 'x']]);
+  });
+
+  it('treats quotes inside unquoted fields as text', () => {
+    expect(parse('5" screen,x\n')).toEqual([['5" screen', 'x']]);
+  });
+
+  it('accepts LF, CRLF and CR line endings', () => {
+    expect(parse('a\r\nb\rc\nd')).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parse('a\n\n\r\n\nb\n')).toEqual([['a'], ['b']]);
+  });
+
+  it('gives the same rows however the text is chunked', () => {
+    const text = 'id,"note"\r\n1,"a ""quoted"", multi\r\nline"\r\n2,plain\r\n';
+    expect(parseByCharacter(text)).toEqual(parse(text));
+    expect(parse(text)).toEqual([['id', 'note'], ['1', 'a "quoted", multi\r\nline'], ['2', 'plain']]);
+  });
+
+  it('returns the unterminated last row on flush', () => {
+    const parser = new DelimitedParser(',');
+    expect(parser.push('a,b\n1,2')).toEqual([['a', 'b']]);
+    expect(parser.flush()).toEqual([['1', '2']]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it('closes an unterminated quoted field on flush', () => {
+    expect(parse('a,"open')).toEqual([['a', 'open']]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Delimited Text Parser
+ *
+ * Incremental CSV/TSV parser (RFC 4180 quoting: doubled quotes, quoted delimiters and line
+ * breaks). Text is pushed in chunks of any size - a row, a quote pair or a CRLF split across
+ * two chunks is still read correctly - so files can be parsed while they stream.
+ *
+ * Blank lines are skipped.
+ */
+
+export class DelimitedParser {
+  private row: string[] = [];
+  private field = '';
+  private quoted = false;
+  private quoteInQuoted = false;     // Saw a quote inside a quoted field - closes it unless another follows
+  private skipLineFeed = false;      // Last row ended on \r - drop the \n of a CRLF
+
+  constructor(private readonly delimiter: string) {}
+
+  /**
+   * Parse the next chunk of text
+   *
+   * @returns Rows completed by this chunk
+   */
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of text) {
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quoteInQuoted) {
+        this.quoteInQuoted = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.quoted = false;
+      }
+
+      if (this.quoted) {
+        if (char === '"') this.quoteInQuoted = true;
+        else this.field += char;
+      } else if (char === '"' && this.field === '') {
+        this.quoted = true;
+      } else if (char === this.delimiter) {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r';
+        this.endRow(rows);
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * End of input - the last row, if it had no trailing line break
+   */
+  flush(): string[][] {
+    const rows: string[][] = [];
+    if (this.field !== '' || this.row.length > 0 || this.quoted) this.endRow(rows);
+    this.quoted = false;
+    this.quoteInQuoted = false;
+    return rows;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.row.push(this.field);
+    if (this.row.length > 1 || this.row[0] !== '') rows.push(this.row);
+    this.row = [];
+    this.field = '';
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { formatDatasetUrlField, parseDatasetUrlField } from './dataset-source';
+import { getDriftSource } from './drift-monitor';
+import { DatasetNFT } from './types';
+
+const SCHEMA = 'ab'.repeat(32);
+const COMMIT = '0123456789abcdef0123456789abcdef01234567';
+
+function nft(datasetUrl: string): DatasetNFT {
+  return {
+    id: '0x1',
+    original_hash: 'aa'.repeat(32),
+    metadata_hash: 'bb'.repeat(32),
+    walrus_blob_id: 'blob',
+    seal_policy_id: 'policy',
+    seal_allowlist_id: null,
+    name: 'Dataset',
+    dataset_url: datasetUrl,
+    format: 'CSV',
+    size: BigInt(10),
+    schema_version: '1.0',
+    verification_timestamp: BigInt(0),
+    enclave_id: '0x2',
+    tee_signature: '',
+    owner: '0x3',
+  };
+}
+
+describe('getDriftSource', () => {
+  it('finds a mutable URL the dataset was registered from', () => {
+    const url = 'https://my-bucket.s3.amazonaws.com/exports/sales.csv';
+    const field = formatDatasetUrlField('Quarterly sales', { sourceUri: url, originalUrl: url, schemaFingerprint: SCHEMA });
+
+    expect(getDriftSource(nft(field))).toEqual({ url, pinned: false });
+    expect(parseDatasetUrlField(field)).toEqual({
+      source: { uri: url, contentAddress: null, originalUrl: null, pinned: false },
+      schemaFingerprint: SCHEMA,
+      description: 'Quarterly sales',
+    });
+  });
+
+  it('finds a pinned URL and keeps the URL as entered', () => {
+    const entered = 'https://huggingface.co/datasets/org/repo/resolve/main/data.csv';
+    const pinned = `https://huggingface.co/datasets/org/repo/resolve/${COMMIT}/data.csv`;
+    const field = formatDatasetUrlField('Training data', { sourceUri: pinned, originalUrl: entered });
+
+    expect(getDriftSource(nft(field))).toEqual({ url: pinned, pinned: true });
+    expect(parseDatasetUrlField(field).source?.originalUrl).toBe(entered);
+  });
+
+  it('marks a Hugging Face URL that could not be pinned as mutable', () => {
+    const url = 'https://huggingface.co/datasets/org/repo/resolve/main/data.csv';
+    const field = formatDatasetUrlField('Training data', { sourceUri: url, originalUrl: url });
+
+    expect(field.split('\n')[0]).toBe(`Unpinned source: ${url}`);
+    expect(getDriftSource(nft(field))).toEqual({ url, pinned: false });
+  });
+
+  it('finds the plain URL of register_dataset_dev datasets', () => {
+    const url = 'https://raw.githubusercontent.com/org/repo/main/data.csv';
+    expect(getDriftSource(nft(url))).toEqual({ url, pinned: false });
+  });
+
+  it('finds nothing for datasets registered from a file', () => {
+    expect(getDriftSource(nft(formatDatasetUrlField('Local export', { schemaFingerprint: SCHEMA })))).toBeNull();
+    expect(getDriftSource(nft('Unpinned source: not-a-url\nLocal export'))).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { del, get, set } from 'idb-keyval';
+import { isImmutableSource, parseDatasetUrlField } from './dataset-source';
+import { getActiveNetwork, SuiNetwork } from './networks';
+import { DatasetNFT, HashProgress } from './types';
+import { checkDatasetUrl } from './url-policy';
+import { computeUrlHash } from './utils/crypto';
+
+/**
+ * Source Drift Monitor
+ *
+ * A dataset registered from a URL is only as trustworthy as that URL: the source can start
+ * serving other bytes at any time. A drift check re-fetches the recorded source through
+ * /api/fetch-dataset, hashes it and compares the result with the NFT's original_hash and size.
+ *
+ * Every check is kept in a local history (IndexedDB, per network and dataset), so the detail
+ * page can show how long the source has been unchanged.
+ */
+
+export type DriftStatus = 'match' | 'mismatch' | 'size-changed' | 'unreachable';
+
+export interface DriftCheck {
+  datasetId: string;
+  sourceUrl: string;
+  checkedAt: number;
+  status: DriftStatus;
+  hash?: string;                 // SHA-256 of what the source serves now
+  size?: number;                 // Bytes the source serves now
+  error?: string;                // Why the source could not be fetched
+}
+
+export interface DriftSource {
+  url: string;
+  pinned: boolean;               // False for mutable URLs, whose host can legitimately serve new bytes
+}
+
+export interface DriftSummary {
+  latest: DriftCheck | null;
+  unchangedSince: number | null; // First check of the current run of matches (null unless the last reachable check matched)
+}
+
+export const DRIFT_STATUS_LABELS: Record<DriftStatus, string> = {
+  'match': 'Unchanged',
+  'mismatch': 'Changed',
+  'size-changed': 'Changed size',
+  'unreachable': 'Unreachable',
+};
+
+const HISTORY_KEY_PREFIX = 'driftHistory_';
+const MAX_HISTORY = 50;          // Checks kept per dataset
+
+function historyKey(network: SuiNetwork, datasetId: string): string {
+  return `${HISTORY_KEY_PREFIX}${network}_${datasetId}`;
+}
+
+/**
+ * URL a dataset was registered from, null if it was registered from a file
+ *
+ * The fetched URL is recorded at the start of dataset_url, marked when it is not pinned;
+ * datasets registered through register_dataset_dev store the plain URL.
+ */
+export function getDriftSource(nft: DatasetNFT): DriftSource | null {
+  const value = nft.dataset_url || '';
+  const { source } = parseDatasetUrlField(value);
+  if (source) return { url: source.uri, pinned: source.pinned };
+
+  const url = value.trim();
+  return !/\s/.test(url) && checkDatasetUrl(url).allowed ? { url, pinned: isImmutableSource(url) } : null;
+}
+
+/**
+ * Latest check and how long the source has served the registered bytes
+ *
+ * @param history - Checks, newest first
+ */
+export function summarizeDriftHistory(history: DriftCheck[]): DriftSummary {
+  let unchangedSince: number | null = null;
+
+  // Unreachable checks say nothing about the content - skip them
+  for (const check of history) {
+    if (check.status === 'unreachable') continue;
+    if (check.status !== 'match') break;
+    unchangedSince = check.checkedAt;
+  }
+
+  return { latest: history[0] ?? null, unchangedSince };
+}
+
+export class DriftMonitor {
+  /**
+   * Re-fetch a dataset's source, compare it with the registered hash and record the result
+   *
+   * @param nft - Dataset to check (must have a URL source - see getDriftSource)
+   * @param onProgress - Download progress
+   * @returns The recorded check
+   */
+  async checkDataset(nft: DatasetNFT, onProgress?: (progress: HashProgress) => void): Promise<DriftCheck> {
+    const source = getDriftSource(nft);
+    if (!source) {
+      throw new Error('This dataset was not registered from a URL');
+    }
+    const sourceUrl = source.url;
+
+    let check: DriftCheck;
+    try {
+      const { hash, size } = await computeUrlHash(sourceUrl, onProgress);
+      const status: DriftStatus = hash.toLowerCase() === nft.original_hash.toLowerCase()
+        ? 'match'
+        : size !== Number(nft.size) ? 'size-changed' : 'mismatch';
+      check = { datasetId: nft.id, sourceUrl, checkedAt: Date.now(), status, hash, size };
+    } catch (error) {
+      check = {
+        datasetId: nft.id,
+        sourceUrl,
+        checkedAt: Date.now(),
+        status: 'unreachable',
+        error: error instanceof Error ? error.message : 'Failed to fetch the source',
+      };
+    }
+
+    console.log(check.status === 'match' ? '✅ Source unchanged:' : `⚠️ Source drift check: ${check.status}`, sourceUrl);
+    await this.record(check);
+    return check;
+  }
+
+  /**
+   * Drift checks of a dataset, newest first
+   */
+  async getHistory(datasetId: string, network: SuiNetwork = getActiveNetwork()): Promise<DriftCheck[]> {
+    return (await get<DriftCheck[]>(historyKey(network, datasetId))) || [];
+  }
+
+  /**
+   * Forget a dataset's drift checks
+   */
+  async clearHistory(datasetId: string, network: SuiNetwork = getActiveNetwork()): Promise<void> {
+    await del(historyKey(network, datasetId));
+  }
+
+  private async record(check: DriftCheck): Promise<void> {
+    const network = getActiveNetwork();
+    const history = await this.getHistory(check.datasetId, network);
+    await set(historyKey(network, check.datasetId), [check, ...history].slice(0, MAX_HISTORY));
+  }
+}
+
+// Export singleton instance
+export const driftMonitor = new DriftMonitor();
@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { createHash } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { digestStream, getFetchDigest } from './fetch-digests';
+
+const MAX_DIGESTS = 1000;
+const MAX_SIZE = 1024;
+
+function body(text = 'a,b\n1,2\n'): ReadableStream<Uint8Array> {
+  return new Response(text).body!;
+}
+
+describe('digestStream', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores the size and SHA-256 of the streamed bytes', async () => {
+    const { fetchId, stream } = digestStream(body(), MAX_SIZE);
+    expect(getFetchDigest(fetchId)).toMatchObject({ status: 'streaming', size: 0 });
+
+    await new Response(stream).arrayBuffer();
+
+    expect(getFetchDigest(fetchId)).toEqual({
+      status: 'complete',
+      size: 8,
+      hash: createHash('sha256').update('a,b\n1,2\n').digest('hex'),
+      error: undefined,
+    });
+  });
+
+  it('evicts the least recently updated digest, not the first one created', async () => {
+    const first = digestStream(body(), MAX_SIZE);
+    const others = Array.from({ length: MAX_DIGESTS - 1 }, () => digestStream(body(), MAX_SIZE).fetchId);
+
+    // The first download finishes last, so its digest is the most recently updated
+    await new Response(first.stream).arrayBuffer();
+    digestStream(body(), MAX_SIZE);
+
+    expect(getFetchDigest(first.fetchId)?.status).toBe('complete');
+    expect(getFetchDigest(others[0])).toBeNull();
+    expect(getFetchDigest(others[1])?.status).toBe('streaming');
+  });
+
+  it('forgets digests after their TTL', () => {
+    vi.useFakeTimers();
+    const { fetchId } = digestStream(body(), MAX_SIZE);
+
+    vi.advanceTimersByTime(10 * 60 * 1000 + 1);
+
+    expect(getFetchDigest(fetchId)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { FetchDigest } from './types';
+import { checkDatasetSize } from './url-policy';
+
+/**
+ * Fetch Proxy Digests (server-only)
+ *
+ * /api/fetch-dataset pipes every dataset through digestStream, which counts bytes as they
+ * stream - aborting past the size limit even when the upstream sent no Content-Length - and
+ * hashes them with SHA-256 on the fly. Browsers cannot read HTTP trailers, so the digest is
+ * kept here under a fetch ID (sent in the X-Fetch-Id header) and served by
+ * /api/fetch-dataset/digest, letting the client cross-check its own hash.
+ *
+ * Digests live in memory for DIGEST_TTL; a client that lands on another server instance gets
+ * a 404 and simply skips the cross-check. For content addresses that pin their bytes (raw
+ * sha2-256 CIDs) the digest is also checked against the CID before the stream completes.
+ */
+
+const DIGEST_TTL = 10 * 60 * 1000;    // 10 minutes
+const MAX_DIGESTS = 1000;
+
+interface StoredDigest extends FetchDigest {
+  updatedAt: number;
+}
+
+// Kept on globalThis so every route (and dev hot reloads) share one store
+const globalStore = globalThis as typeof globalThis & { __sealtrustFetchDigests?: Map<string, StoredDigest> };
+const digests = globalStore.__sealtrustFetchDigests ??= new Map<string, StoredDigest>();
+
+/**
+ * Count and hash a dataset body while it streams to the client
+ *
+ * @param body - Upstream response body
+ * @param maxSize - Size limit in bytes; the stream errors (and the upstream is cancelled) past it
+ * @param expectedSha256 - Hex SHA-256 pinned by the URL's content address; the stream errors at the end if it differs
+ * @returns Fetch ID of the digest and the pass-through stream
+ */
+export function digestStream(
+  body: ReadableStream<Uint8Array>,
+  maxSize: number,
+  expectedSha256?: string
+): { fetchId: string; stream: ReadableStream<Uint8Array> } {
+  const fetchId = randomUUID();
+  const hash = createHash('sha256');
+  let size = 0;
+
+  saveDigest(fetchId, { status: 'streaming', size });
+
+  const stream = body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+
+      const tooLarge = checkDatasetSize(maxSize, size, false);
+      if (tooLarge) {
+        console.warn(`🚫 Aborted proxied download ${fetchId} - ${tooLarge.message}`);
+        saveDigest(fetchId, { status: 'aborted', size, error: tooLarge.message });
+        controller.error(new Error(tooLarge.message));
+        return;
+      }
+
+      hash.update(chunk);
+      controller.enqueue(chunk);
+    },
+    flush(controller) {
+      const digest = hash.digest('hex');
+      if (expectedSha256 && digest !== expectedSha256) {
+        const message = `Content does not match its CID: expected SHA-256 ${expectedSha256}, got ${digest}`;
+        console.warn(`🚫 Rejected proxied download ${fetchId} - ${message}`);
+        saveDigest(fetchId, { status: 'aborted', size, hash: digest, error: message });
+        controller.error(new Error(message));
+        return;
+      }
+      saveDigest(fetchId, { status: 'complete', size, hash: digest });
+    },
+  }));
+
+  return { fetchId, stream };
+}
+
+/**
+ * Digest of a proxied download, null if unknown or expired
+ */
+export function getFetchDigest(fetchId: string): FetchDigest | null {
+  const digest = digests.get(fetchId);
+  if (!digest || Date.now() - digest.updatedAt > DIGEST_TTL) return null;
+
+  const { status, size, hash, error } = digest;
+  return { status, size, hash, error };
+}
+
+function saveDigest(fetchId: string, digest: FetchDigest): void {
+  const now = Date.now();
+  // Re-insert on update so the Map's insertion order stays the order of updatedAt
+  digests.delete(fetchId);
+  digests.set(fetchId, { ...digest, updatedAt: now });
+
+  // Drop expired entries, then the least recently updated ones if still over the cap
+  for (const [id, stored] of digests) {
+    if (digests.size <= MAX_DIGESTS && now - stored.updatedAt <= DIGEST_TTL) break;
+    digests.delete(id);
+  }
+}
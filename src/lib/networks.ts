@@ -0,0 +1,298 @@
+import { getFullnodeUrl } from '@mysten/sui/client';
+
+/**
+ * Network Profiles
+ *
+ * Everything that differs between Sui networks - package and enclave IDs, Seal key servers,
+ * Walrus endpoints, the Nautilus URL - lives in one profile per network. Services read the
+ * active profile at call time, so switching networks in the header switches the whole app.
+ *
+ * Profiles start from the built-in values below. The unprefixed NEXT_PUBLIC_* variables
+ * (NEXT_PUBLIC_VERIFICATION_PACKAGE, ...) override the default network's profile, and
+ * NEXT_PUBLIC_NETWORK_PROFILES (JSON keyed by network) overrides any profile field, e.g.
+ *   {"mainnet": {"verificationPackage": "0x...", "walrusPublishers": ["https://..."]}}
+ */
+
+export type SuiNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet';
+
+export const SUI_NETWORKS: SuiNetwork[] = ['mainnet', 'testnet', 'devnet', 'localnet'];
+
+export interface NetworkProfile {
+  network: SuiNetwork;
+  label: string;
+  rpcUrl: string;
+  chain: `sui:${SuiNetwork}`;                 // Wallet standard chain identifier
+
+  // Move packages and objects
+  verificationPackage: string;
+  enclaveId: string;                          // Enclave object used by register_dataset
+  enclaveConfigId: string;
+  enclavePackageId: string;                   // Official Nautilus package
+  sealPackageId: string;
+  sealAllowlistPackageId: string;
+
+  // Services
+  sealKeyServers: string[];                   // Key server object IDs
+  sealKeyServerUrls: string[];                // Origins those key servers answer on (allowed by the CSP)
+  walrusNetwork: 'mainnet' | 'testnet' | null; // Walrus system for this network (null: none)
+  walrusAggregators: string[];                // Tried in order
+  walrusPublishers: string[];                 // Tried in order
+  nautilusUrl: string;
+  explorerUrl: string;                        // Suiscan base URL
+}
+
+const STORAGE_KEY = 'sealtrust:network';
+
+export const DEFAULT_NETWORK: SuiNetwork = parseNetwork(process.env.NEXT_PUBLIC_SUI_NETWORK) || 'testnet';
+
+const BUILT_IN_PROFILES: Record<SuiNetwork, NetworkProfile> = {
+  testnet: {
+    network: 'testnet',
+    label: 'Testnet',
+    rpcUrl: getFullnodeUrl('testnet'),
+    chain: 'sui:testnet',
+    // SealTrust (deployed 2025-11-22)
+    verificationPackage: '0xcdc25c90e328f2905c97c01e90424395dd7b10e67769fc8f4ae62b87f1e63e4e',
+    // Registered from AWS Nitro attestation on 2025-11-22
+    enclaveId: '0x611b83f2b4d97471a6c164877ff23a2f0570806baf3d9380d1f11433a2b685ec',
+    enclaveConfigId: '0x55d6a15a5e8822b39f76dc53031d83beddc1e5b0e3ef804b82e8d4bfe4fbdc32',
+    enclavePackageId: '0x0ff344b5b6f07b79b56a4ce1e9b1ef5a96ba219f6e6f2c49f194dee29dfc8b7f',
+    // SealTrust's allowlist package (2025-11-22)
+    sealPackageId: '0x705937d7b0ffc7c37aa23a445ed52ae521a47adcdffa27fe965e0b73464a9925',
+    sealAllowlistPackageId: '0x705937d7b0ffc7c37aa23a445ed52ae521a47adcdffa27fe965e0b73464a9925',
+    // Public testnet providers (verified working)
+    sealKeyServers: [
+      '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75', // Mysten Labs testnet-1
+      '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8', // Mysten Labs testnet-2
+      '0x6068c0acb197dddbacd4746a9de7f025b2ed5a5b6c1b1ab44dade4426d141da2', // Ruby Nodes
+      '0x5466b7df5c15b508678d51496ada8afab0d6f70a01c10613123382b1b8131007', // NodeInfra
+      '0x9c949e53c36ab7a9c484ed9e8b43267a77d4b8d70e79aa6b39042e3d4c434105', // Overclock
+    ],
+    sealKeyServerUrls: [
+      'https://seal-key-server-testnet-1.mystenlabs.com',
+      'https://seal-key-server-testnet-2.mystenlabs.com',
+      'https://seal-testnet.api.rubynodes.io',
+      'https://open-seal-testnet.nodeinfra.com',
+      'https://seal-testnet-open.overclock.run',
+      'https://seal-open.sui-testnet.h2o-nodes.com',
+    ],
+    walrusNetwork: 'testnet',
+    walrusAggregators: ['https://aggregator.walrus-testnet.walrus.space'],
+    walrusPublishers: ['https://publisher.walrus-testnet.walrus.space'],
+    nautilusUrl: 'https://nautilus.sealtrust.app',
+    explorerUrl: 'https://suiscan.xyz/testnet',
+  },
+  // Not deployed yet - configure through NEXT_PUBLIC_NETWORK_PROFILES
+  mainnet: {
+    network: 'mainnet',
+    label: 'Mainnet',
+    rpcUrl: getFullnodeUrl('mainnet'),
+    chain: 'sui:mainnet',
+    verificationPackage: '',
+    enclaveId: '',
+    enclaveConfigId: '',
+    enclavePackageId: '',
+    sealPackageId: '',
+    sealAllowlistPackageId: '',
+    sealKeyServers: [],
+    sealKeyServerUrls: [],
+    walrusNetwork: 'mainnet',
+    walrusAggregators: ['https://aggregator.walrus-mainnet.walrus.space'],
+    walrusPublishers: [],          // No public mainnet publisher - uploads cost WAL
+    nautilusUrl: 'https://nautilus.sealtrust.app',
+    explorerUrl: 'https://suiscan.xyz/mainnet',
+  },
+  devnet: {
+    network: 'devnet',
+    label: 'Devnet',
+    rpcUrl: getFullnodeUrl('devnet'),
+    chain: 'sui:devnet',
+    verificationPackage: '',
+    enclaveId: '',
+    enclaveConfigId: '',
+    enclavePackageId: '',
+    sealPackageId: '',
+    sealAllowlistPackageId: '',
+    sealKeyServers: [],
+    sealKeyServerUrls: [],
+    walrusNetwork: null,
+    walrusAggregators: [],
+    walrusPublishers: [],
+    nautilusUrl: 'https://nautilus.sealtrust.app',
+    explorerUrl: 'https://suiscan.xyz/devnet',
+  },
+  localnet: {
+    network: 'localnet',
+    label: 'Localnet',
+    rpcUrl: getFullnodeUrl('localnet'),
+    chain: 'sui:localnet',
+    verificationPackage: '',
+    enclaveId: '',
+    enclaveConfigId: '',
+    enclavePackageId: '',
+    sealPackageId: '',
+    sealAllowlistPackageId: '',
+    sealKeyServers: [],
+    sealKeyServerUrls: [],
+    walrusNetwork: null,
+    walrusAggregators: [],
+    walrusPublishers: [],
+    nautilusUrl: 'http://localhost:3000',
+    explorerUrl: 'https://custom.suiscan.xyz/custom',
+  },
+};
+
+// Unprefixed variables configure the default network (kept for existing deployments)
+const DEFAULT_NETWORK_ENV: Partial<NetworkProfile> = withoutEmpty({
+  verificationPackage: process.env.NEXT_PUBLIC_VERIFICATION_PACKAGE,
+  enclaveId: process.env.NEXT_PUBLIC_ENCLAVE_ID,
+  enclaveConfigId: process.env.NEXT_PUBLIC_ENCLAVE_CONFIG_ID,
+  sealPackageId: process.env.NEXT_PUBLIC_SEAL_PACKAGE_ID,
+  sealAllowlistPackageId: process.env.NEXT_PUBLIC_SEAL_ALLOWLIST_PACKAGE_ID,
+  sealKeyServers: parseList(process.env.NEXT_PUBLIC_SEAL_KEY_SERVERS),
+  sealKeyServerUrls: parseUrlList(process.env.NEXT_PUBLIC_SEAL_KEY_SERVER_URLS),
+  walrusAggregators: parseUrlList(process.env.NEXT_PUBLIC_WALRUS_AGGREGATORS),
+  walrusPublishers: parseUrlList(process.env.NEXT_PUBLIC_WALRUS_PUBLISHERS),
+  nautilusUrl: process.env.NEXT_PUBLIC_NAUTILUS_URL,
+});
+
+export const NETWORK_PROFILES: Record<SuiNetwork, NetworkProfile> = buildProfiles(
+  process.env.NEXT_PUBLIC_NETWORK_PROFILES
+);
+
+let activeNetwork: SuiNetwork = DEFAULT_NETWORK;
+const listeners = new Set<(network: SuiNetwork) => void>();
+
+/**
+ * Network the app is currently operating on
+ */
+export function getActiveNetwork(): SuiNetwork {
+  return activeNetwork;
+}
+
+/**
+ * Profile of a network (the active one by default)
+ */
+export function getNetworkProfile(network: SuiNetwork = activeNetwork): NetworkProfile {
+  return NETWORK_PROFILES[network];
+}
+
+/**
+ * Switch the active network and remember the choice for the next visit
+ */
+export function setActiveNetwork(network: SuiNetwork): void {
+  if (network === activeNetwork) return;
+
+  activeNetwork = network;
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, network);
+  }
+  console.log(`🌐 Switched to Sui ${network}`);
+  listeners.forEach(listener => listener(network));
+}
+
+/**
+ * Network chosen on a previous visit (browser only)
+ */
+export function getStoredNetwork(): SuiNetwork | null {
+  if (typeof window === 'undefined') return null;
+  return parseNetwork(localStorage.getItem(STORAGE_KEY));
+}
+
+/**
+ * Subscribe to network switches
+ *
+ * @returns Unsubscribe function
+ */
+export function onNetworkChange(listener: (network: SuiNetwork) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Whether SealTrust is deployed on a network (contracts, enclave and Seal configured)
+ */
+export function isNetworkConfigured(profile: NetworkProfile): boolean {
+  return Boolean(
+    profile.verificationPackage &&
+    profile.enclaveId &&
+    profile.enclaveConfigId &&
+    profile.sealPackageId &&
+    profile.sealAllowlistPackageId &&
+    profile.sealKeyServers.length > 0
+  );
+}
+
+/**
+ * Explorer link for a transaction on the active network
+ */
+export function explorerTxUrl(digest: string, profile: NetworkProfile = getNetworkProfile()): string {
+  return explorerUrl(`tx/${digest}`, profile);
+}
+
+/**
+ * Explorer link for an object on the active network
+ */
+export function explorerObjectUrl(objectId: string, profile: NetworkProfile = getNetworkProfile()): string {
+  return explorerUrl(`object/${objectId}`, profile);
+}
+
+export function parseNetwork(value: string | null | undefined): SuiNetwork | null {
+  return SUI_NETWORKS.includes(value as SuiNetwork) ? value as SuiNetwork : null;
+}
+
+function explorerUrl(path: string, profile: NetworkProfile): string {
+  // Suiscan's custom explorer is pointed at a local RPC through the query string
+  const query = profile.network === 'localnet' ? `?network=${encodeURIComponent(profile.rpcUrl)}` : '';
+  return `${profile.explorerUrl}/${path}${query}`;
+}
+
+function buildProfiles(overridesJson: string | undefined): Record<SuiNetwork, NetworkProfile> {
+  const profiles = { ...BUILT_IN_PROFILES };
+  profiles[DEFAULT_NETWORK] = { ...profiles[DEFAULT_NETWORK], ...DEFAULT_NETWORK_ENV };
+
+  if (!overridesJson) return profiles;
+
+  let overrides: Partial<Record<SuiNetwork, Partial<NetworkProfile>>>;
+  try {
+    overrides = JSON.parse(overridesJson);
+  } catch (error) {
+    console.error('Ignoring NEXT_PUBLIC_NETWORK_PROFILES - invalid JSON:', error);
+    return profiles;
+  }
+
+  for (const network of SUI_NETWORKS) {
+    const override = overrides[network];
+    if (!override) continue;
+    profiles[network] = {
+      ...profiles[network],
+      ...override,
+      network,
+      chain: `sui:${network}`,
+      walrusAggregators: override.walrusAggregators?.map(trimUrl) ?? profiles[network].walrusAggregators,
+      walrusPublishers: override.walrusPublishers?.map(trimUrl) ?? profiles[network].walrusPublishers,
+      sealKeyServerUrls: override.sealKeyServerUrls?.map(trimUrl) ?? profiles[network].sealKeyServerUrls,
+    };
+  }
+
+  return profiles;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseUrlList(value: string | undefined): string[] | undefined {
+  return parseList(value)?.map(trimUrl);
+}
+
+function trimUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function withoutEmpty<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== '')
+  ) as Partial<T>;
+}
@@ -0,0 +1,578 @@
+import { SuiClient } from '@mysten/sui/client';
+import { fromBase64, toHex } from '@mysten/sui/utils';
+import { getNetworkProfile } from './networks';
+
+/**
+ * AWS Nitro Attestation Documents
+ *
+ * Decodes the attestation document returned by Nautilus /get_attestation (a COSE_Sign1
+ * envelope around a CBOR map) and checks it the way the on-chain Nautilus registration
+ * does: the certificate chain must lead to the AWS Nitro Enclaves root, and the leaf
+ * certificate must have signed the document.
+ *
+ * Only the parts of CBOR, COSE and X.509 that Nitro documents use are implemented.
+ */
+
+/**
+ * SHA-256 fingerprint of the AWS Nitro Enclaves Root-G1 certificate
+ * (https://aws-nitro-enclaves.amazonaws.com/AWS_NitroEnclaves_Root-G1.zip).
+ * Every attestation document carries the root as the first cabundle entry - it is
+ * trusted only if its DER bytes hash to this value.
+ */
+export const AWS_NITRO_ROOT_G1_SHA256 = '641a0321a3e244efe456463195d606317ed7cdcc3c1756e09893f3c68f79bb5b';
+
+// PCRs registered on-chain by Nautilus (image, kernel, application)
+export const NITRO_PCR_INDICES = [0, 1, 2] as const;
+
+export interface NitroAttestationDocument {
+  moduleId: string;
+  digest: string;                     // Hash used for the PCRs (SHA384)
+  timestamp: number;                  // Milliseconds since epoch
+  pcrs: Record<number, string>;       // Hex encoded PCR values by index
+  certificate: Uint8Array;            // Leaf certificate (DER)
+  cabundle: Uint8Array[];             // Root first, then intermediates (DER)
+  publicKey: string | null;           // Hex encoded enclave public key
+  userData: string | null;            // Hex encoded
+  nonce: string | null;               // Hex encoded
+  // COSE_Sign1 parts needed to verify the document signature
+  cose: {
+    protectedHeader: Uint8Array;
+    payload: Uint8Array;
+    signature: Uint8Array;
+    algorithm: number;
+  };
+}
+
+export interface NitroCertificateInfo {
+  subject: string;
+  notBefore: Date;
+  notAfter: Date;
+}
+
+export interface NitroVerificationResult {
+  rootTrusted: boolean;               // cabundle[0] is the bundled AWS Nitro root
+  chainValid: boolean;                // Every certificate is signed by its parent and valid at the document time
+  signatureValid: boolean;            // The leaf certificate signed the COSE_Sign1 envelope
+  certificates: NitroCertificateInfo[]; // Root to leaf
+  errors: string[];
+}
+
+export interface OnChainEnclaveInfo {
+  configId: string;
+  name: string;
+  version: number | null;
+  pcrs: Record<number, string>;       // Hex encoded PCRs from EnclaveConfig
+}
+
+/**
+ * Thrown when an attestation document cannot be decoded
+ */
+export class NitroAttestationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NitroAttestationError';
+  }
+}
+
+/**
+ * Decode a Nitro attestation document
+ *
+ * @param attestation - Document as hex (Nautilus) or base64, or raw bytes
+ * @returns Decoded document fields
+ * @throws NitroAttestationError if the document is not a Nitro COSE_Sign1 document
+ */
+export function parseNitroAttestation(attestation: string | Uint8Array): NitroAttestationDocument {
+  const bytes = typeof attestation === 'string' ? decodeAttestationString(attestation) : attestation;
+
+  const envelope = decodeCbor(bytes);
+  if (!Array.isArray(envelope) || envelope.length !== 4) {
+    throw new NitroAttestationError('Attestation is not a COSE_Sign1 structure');
+  }
+
+  const [protectedHeader, , payload, signature] = envelope;
+  if (!(protectedHeader instanceof Uint8Array) || !(payload instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    throw new NitroAttestationError('Malformed COSE_Sign1 structure');
+  }
+
+  const header = protectedHeader.length > 0 ? decodeCbor(protectedHeader) : new Map();
+  const algorithm = header instanceof Map ? header.get(1) : undefined;
+  if (typeof algorithm !== 'number') {
+    throw new NitroAttestationError('COSE protected header has no algorithm');
+  }
+
+  const doc = decodeCbor(payload);
+  if (!(doc instanceof Map)) {
+    throw new NitroAttestationError('Attestation payload is not a CBOR map');
+  }
+
+  const pcrMap = doc.get('pcrs');
+  if (!(pcrMap instanceof Map)) {
+    throw new NitroAttestationError('Attestation document has no PCRs');
+  }
+  const pcrs: Record<number, string> = {};
+  pcrMap.forEach((value, index) => {
+    if (typeof index === 'number' && value instanceof Uint8Array) {
+      pcrs[index] = toHex(value);
+    }
+  });
+
+  const certificate = doc.get('certificate');
+  const cabundle = doc.get('cabundle');
+  if (!(certificate instanceof Uint8Array) || !Array.isArray(cabundle) || !cabundle.every(c => c instanceof Uint8Array)) {
+    throw new NitroAttestationError('Attestation document has no certificate chain');
+  }
+
+  const moduleId = doc.get('module_id');
+  const timestamp = doc.get('timestamp');
+  if (typeof moduleId !== 'string' || (typeof timestamp !== 'number' && typeof timestamp !== 'bigint')) {
+    throw new NitroAttestationError('Attestation document has no module ID or timestamp');
+  }
+
+  return {
+    moduleId,
+    digest: String(doc.get('digest') ?? ''),
+    timestamp: Number(timestamp),
+    pcrs,
+    certificate,
+    cabundle: cabundle as Uint8Array[],
+    publicKey: optionalHex(doc.get('public_key')),
+    userData: optionalHex(doc.get('user_data')),
+    nonce: optionalHex(doc.get('nonce')),
+    cose: { protectedHeader, payload, signature, algorithm },
+  };
+}
+
+/**
+ * Check the certificate chain and the document signature
+ *
+ * Certificates are checked for validity at the document timestamp - Nitro leaf
+ * certificates only live for a few hours, so checking against "now" would reject
+ * every document older than that.
+ *
+ * @param doc - Parsed attestation document
+ * @returns Result of each check, with the reason for every failure
+ */
+export async function verifyNitroAttestation(doc: NitroAttestationDocument): Promise<NitroVerificationResult> {
+  const result: NitroVerificationResult = {
+    rootTrusted: false,
+    chainValid: false,
+    signatureValid: false,
+    certificates: [],
+    errors: [],
+  };
+
+  let chain: ParsedCertificate[];
+  try {
+    chain = [...doc.cabundle, doc.certificate].map(parseCertificate);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Invalid certificate');
+    return result;
+  }
+  result.certificates = chain.map(({ subject, notBefore, notAfter }) => ({ subject, notBefore, notAfter }));
+
+  // Root must be the bundled AWS Nitro root
+  const rootFingerprint = toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(chain[0].der))));
+  result.rootTrusted = rootFingerprint === AWS_NITRO_ROOT_G1_SHA256;
+  if (!result.rootTrusted) {
+    result.errors.push(`Root certificate is not the AWS Nitro Enclaves root (SHA-256 ${rootFingerprint})`);
+  }
+
+  // Each certificate must be issued and signed by the one before it
+  const at = new Date(doc.timestamp);
+  let chainValid = true;
+  for (const [i, cert] of chain.entries()) {
+    if (at < cert.notBefore || at > cert.notAfter) {
+      chainValid = false;
+      result.errors.push(`Certificate "${cert.subject}" is not valid at ${at.toISOString()}`);
+    }
+
+    const issuer = chain[i === 0 ? 0 : i - 1];
+    if (!bytesEqual(cert.issuerDer, issuer.subjectDer)) {
+      chainValid = false;
+      result.errors.push(`Certificate "${cert.subject}" was not issued by "${issuer.subject}"`);
+      continue;
+    }
+
+    try {
+      const signed = await verifyEcdsa(issuer.spki, cert.signatureAlgorithm, cert.tbs, derSignatureToRaw(cert.signature, issuer.curveSize));
+      if (!signed) {
+        chainValid = false;
+        result.errors.push(`Signature on certificate "${cert.subject}" is invalid`);
+      }
+    } catch (error) {
+      chainValid = false;
+      result.errors.push(`Cannot check certificate "${cert.subject}": ${error instanceof Error ? error.message : 'unsupported key'}`);
+    }
+  }
+  result.chainValid = chainValid;
+
+  // The leaf certificate signs Sig_structure = ["Signature1", protected, external_aad, payload]
+  const leaf = chain[chain.length - 1];
+  const hash = COSE_ALGORITHMS[doc.cose.algorithm];
+  if (!hash) {
+    result.errors.push(`Unsupported COSE algorithm ${doc.cose.algorithm}`);
+  } else {
+    try {
+      const sigStructure = encodeCborArray([
+        encodeCborText('Signature1'),
+        encodeCborBytes(doc.cose.protectedHeader),
+        encodeCborBytes(new Uint8Array(0)),
+        encodeCborBytes(doc.cose.payload),
+      ]);
+      result.signatureValid = await verifyEcdsa(leaf.spki, hash, sigStructure, doc.cose.signature);
+      if (!result.signatureValid) {
+        result.errors.push('Attestation document signature does not match the leaf certificate');
+      }
+    } catch (error) {
+      result.errors.push(`Cannot check document signature: ${error instanceof Error ? error.message : 'unsupported key'}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read the PCRs registered in the on-chain EnclaveConfig object
+ *
+ * @param suiClient - SuiClient instance
+ * @param configId - EnclaveConfig object ID
+ */
+export async function fetchOnChainEnclaveInfo(
+  suiClient: SuiClient,
+  configId: string = getNetworkProfile().enclaveConfigId
+): Promise<OnChainEnclaveInfo> {
+  const object = await suiClient.getObject({ id: configId, options: { showContent: true } });
+  const content = object.data?.content;
+  if (content?.dataType !== 'moveObject') {
+    throw new Error(`EnclaveConfig object ${configId} not found`);
+  }
+
+  const fields = content.fields as Record<string, unknown>;
+  const pcrFields = unwrapFields(fields.pcrs);
+
+  // Pcrs is a tuple struct - the JSON-RPC renders its fields as pos0, pos1, pos2
+  const pcrs: Record<number, string> = {};
+  for (const index of NITRO_PCR_INDICES) {
+    const value = Array.isArray(pcrFields) ? pcrFields[index] : pcrFields?.[`pos${index}`];
+    if (Array.isArray(value)) {
+      pcrs[index] = toHex(new Uint8Array(value as number[]));
+    }
+  }
+
+  return {
+    configId,
+    name: typeof fields.name === 'string' ? fields.name : '',
+    version: fields.version === undefined ? null : Number(fields.version),
+    pcrs,
+  };
+}
+
+function decodeAttestationString(value: string): Uint8Array {
+  const trimmed = value.trim().replace(/^0x/, '');
+  try {
+    if (/^([0-9a-fA-F]{2})+$/.test(trimmed)) {
+      return new Uint8Array(trimmed.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
+    }
+    return fromBase64(trimmed);
+  } catch {
+    throw new NitroAttestationError('Attestation is neither hex nor base64');
+  }
+}
+
+function optionalHex(value: unknown): string | null {
+  return value instanceof Uint8Array ? toHex(value) : null;
+}
+
+function unwrapFields(value: unknown): Record<string, unknown> | unknown[] | undefined {
+  if (Array.isArray(value)) return value;
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  return record.fields && typeof record.fields === 'object'
+    ? record.fields as Record<string, unknown>
+    : record;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// ===== CBOR (RFC 8949) - definite-length items only, as produced by the Nitro NSM =====
+
+type CborValue = number | bigint | string | boolean | null | undefined | Uint8Array | CborValue[] | Map<CborValue, CborValue>;
+
+function decodeCbor(bytes: Uint8Array): CborValue {
+  let offset = 0;
+
+  const need = (n: number) => {
+    if (offset + n > bytes.length) throw new NitroAttestationError('Truncated CBOR data');
+  };
+
+  const readLength = (info: number): number | bigint => {
+    if (info < 24) return info;
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (size === 0) throw new NitroAttestationError('Unsupported CBOR length encoding');
+    need(size);
+    let value = BigInt(0);
+    for (let i = 0; i < size; i++) {
+      value = (value << BigInt(8)) | BigInt(bytes[offset++]);
+    }
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  };
+
+  const readSize = (info: number): number => {
+    const length = readLength(info);
+    if (typeof length !== 'number') throw new NitroAttestationError('CBOR item too large');
+    return length;
+  };
+
+  const readItem = (): CborValue => {
+    need(1);
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1: {
+        const value = readLength(info);
+        return typeof value === 'number' ? -1 - value : BigInt(-1) - value;
+      }
+      case 2: {
+        const length = readSize(info);
+        need(length);
+        return bytes.slice(offset, (offset += length));
+      }
+      case 3: {
+        const length = readSize(info);
+        need(length);
+        return new TextDecoder().decode(bytes.subarray(offset, (offset += length)));
+      }
+      case 4: {
+        const length = readSize(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readSize(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 6:
+        // Tags (e.g. 18 for COSE_Sign1) carry no information we need
+        readLength(info);
+        return readItem();
+      default:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        throw new NitroAttestationError('Unsupported CBOR simple value');
+    }
+  };
+
+  return readItem();
+}
+
+function encodeCborHeader(major: number, length: number): Uint8Array {
+  if (length < 24) return new Uint8Array([(major << 5) | length]);
+  if (length < 0x100) return new Uint8Array([(major << 5) | 24, length]);
+  if (length < 0x10000) return new Uint8Array([(major << 5) | 25, length >> 8, length & 0xff]);
+  return new Uint8Array([(major << 5) | 26, length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+}
+
+function encodeCborBytes(value: Uint8Array): Uint8Array {
+  return concatBytes([encodeCborHeader(2, value.length), value]);
+}
+
+function encodeCborText(value: string): Uint8Array {
+  const encoded = new TextEncoder().encode(value);
+  return concatBytes([encodeCborHeader(3, encoded.length), encoded]);
+}
+
+function encodeCborArray(items: Uint8Array[]): Uint8Array {
+  return concatBytes([encodeCborHeader(4, items.length), ...items]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// ===== X.509 (DER) - just enough to walk an ECDSA certificate chain =====
+
+// COSE algorithm ID -> hash (ES256, ES384, ES512)
+const COSE_ALGORITHMS: Record<number, string> = { [-7]: 'SHA-256', [-35]: 'SHA-384', [-36]: 'SHA-512' };
+
+// ecdsa-with-SHA* signature algorithm OIDs
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '2a8648ce3d040302': 'SHA-256',
+  '2a8648ce3d040303': 'SHA-384',
+  '2a8648ce3d040304': 'SHA-512',
+};
+
+// Named curve OIDs -> WebCrypto curve and coordinate size
+const CURVES: Record<string, { name: string; size: number }> = {
+  '2a8648ce3d030107': { name: 'P-256', size: 32 },
+  '2b81040022': { name: 'P-384', size: 48 },
+  '2b81040023': { name: 'P-521', size: 66 },
+};
+
+// id-at-commonName
+const OID_COMMON_NAME = '550403';
+
+interface DerNode {
+  tag: number;
+  start: number;                      // Offset of the tag byte
+  contentStart: number;
+  end: number;
+}
+
+interface ParsedCertificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  signatureAlgorithm: string;         // WebCrypto hash name
+  signature: Uint8Array;              // DER encoded ECDSA signature
+  issuerDer: Uint8Array;
+  subjectDer: Uint8Array;
+  subject: string;
+  notBefore: Date;
+  notAfter: Date;
+  spki: { der: Uint8Array; curve: string };
+  curveSize: number;
+}
+
+function readDer(bytes: Uint8Array, offset: number): DerNode {
+  if (offset + 2 > bytes.length) throw new NitroAttestationError('Truncated certificate');
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const size = length & 0x7f;
+    if (size === 0 || size > 4) throw new NitroAttestationError('Unsupported certificate length encoding');
+    length = 0;
+    for (let i = 0; i < size; i++) length = length * 256 + bytes[contentStart + i];
+    contentStart += size;
+  }
+  const end = contentStart + length;
+  if (end > bytes.length) throw new NitroAttestationError('Truncated certificate');
+  return { tag, start: offset, contentStart, end };
+}
+
+function derChildren(bytes: Uint8Array, node: DerNode): DerNode[] {
+  const children: DerNode[] = [];
+  for (let offset = node.contentStart; offset < node.end;) {
+    const child = readDer(bytes, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+function derContent(bytes: Uint8Array, node: DerNode): Uint8Array {
+  return bytes.subarray(node.contentStart, node.end);
+}
+
+function derTime(bytes: Uint8Array, node: DerNode): Date {
+  const text = new TextDecoder().decode(derContent(bytes, node));
+  // UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ)
+  const full = node.tag === 0x17 ? `${parseInt(text.slice(0, 2), 10) >= 50 ? '19' : '20'}${text}` : text;
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(full);
+  if (!match) throw new NitroAttestationError(`Unsupported certificate time ${text}`);
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+}
+
+function commonName(bytes: Uint8Array, name: DerNode): string {
+  for (const rdn of derChildren(bytes, name)) {
+    for (const attribute of derChildren(bytes, rdn)) {
+      const [oid, value] = derChildren(bytes, attribute);
+      if (toHex(derContent(bytes, oid)) === OID_COMMON_NAME) {
+        return new TextDecoder().decode(derContent(bytes, value));
+      }
+    }
+  }
+  return '(no common name)';
+}
+
+function parseCertificate(der: Uint8Array): ParsedCertificate {
+  const [tbsNode, algorithmNode, signatureNode] = derChildren(der, readDer(der, 0));
+  if (!tbsNode || !algorithmNode || !signatureNode) {
+    throw new NitroAttestationError('Malformed certificate');
+  }
+
+  // Optional [0] version comes first
+  const tbsFields = derChildren(der, tbsNode);
+  const fields = tbsFields[0].tag === 0xa0 ? tbsFields.slice(1) : tbsFields;
+  const [, , issuer, validity, subject, spki] = fields;
+
+  const algorithmOid = toHex(derContent(der, derChildren(der, algorithmNode)[0]));
+  const signatureAlgorithm = SIGNATURE_ALGORITHMS[algorithmOid];
+  if (!signatureAlgorithm) {
+    throw new NitroAttestationError(`Unsupported certificate signature algorithm (${algorithmOid})`);
+  }
+
+  const [spkiAlgorithm] = derChildren(der, spki);
+  const curveOid = toHex(derContent(der, derChildren(der, spkiAlgorithm)[1]));
+  const curve = CURVES[curveOid];
+  if (!curve) {
+    throw new NitroAttestationError(`Unsupported certificate key curve (${curveOid})`);
+  }
+
+  const [notBefore, notAfter] = derChildren(der, validity);
+
+  return {
+    der,
+    tbs: der.subarray(tbsNode.start, tbsNode.end),
+    signatureAlgorithm,
+    signature: derContent(der, signatureNode).subarray(1),   // Skip the BIT STRING unused-bits byte
+    issuerDer: der.subarray(issuer.start, issuer.end),
+    subjectDer: der.subarray(subject.start, subject.end),
+    subject: commonName(der, subject),
+    notBefore: derTime(der, notBefore),
+    notAfter: derTime(der, notAfter),
+    spki: { der: der.subarray(spki.start, spki.end), curve: curve.name },
+    curveSize: curve.size,
+  };
+}
+
+/**
+ * Convert a DER ECDSA signature (SEQUENCE of r, s) to the raw r||s form WebCrypto expects
+ */
+function derSignatureToRaw(signature: Uint8Array, size: number): Uint8Array {
+  const [r, s] = derChildren(signature, readDer(signature, 0));
+  const raw = new Uint8Array(size * 2);
+  [r, s].forEach((node, i) => {
+    let value = derContent(signature, node);
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    if (value.length > size) throw new NitroAttestationError('Malformed ECDSA signature');
+    raw.set(value, (i + 1) * size - value.length);
+  });
+  return raw;
+}
+
+async function verifyEcdsa(
+  spki: { der: Uint8Array; curve: string },
+  hash: string,
+  data: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    'spki',
+    new Uint8Array(spki.der),
+    { name: 'ECDSA', namedCurve: spki.curve },
+    false,
+    ['verify']
+  );
+  return crypto.subtle.verify({ name: 'ECDSA', hash }, key, new Uint8Array(signature), new Uint8Array(data));
+}
@@ -0,0 +1,132 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { binary, double, encodeStruct, i32, i64, list, parquetFile, struct } from '../test/parquet';
+import { ParquetFormatError, readParquetMetadata } from './parquet-metadata';
+
+function le(bytes: number, value: number): Uint8Array {
+  const buffer = new Uint8Array(bytes);
+  const view = new DataView(buffer.buffer);
+  if (bytes === 4) view.setInt32(0, value, true);
+  else view.setBigInt64(0, BigInt(value), true);
+  return buffer;
+}
+
+// FileMetaData footer bytes wrapped as a file without checking they parse
+function rawFile(footer: number[]): Blob {
+  const magic = [0x50, 0x41, 0x52, 0x31];
+  return new Blob([Uint8Array.from([...magic, ...footer, ...le(4, footer.length), ...magic])]);
+}
+
+async function formatError(blob: Blob): Promise<string> {
+  const error = await readParquetMetadata(blob).then(() => null, (error: unknown) => error);
+  expect(error).toBeInstanceOf(ParquetFormatError);
+  return (error as Error).message;
+}
+
+describe('readParquetMetadata', () => {
+  it('reads the schema, row groups and statistics', async () => {
+    const metadata = await readParquetMetadata(parquetFile({
+      1: i32(2),
+      2: list(
+        struct({ 4: binary('schema'), 5: i32(2) }),
+        struct({ 1: i32(2), 3: i32(0), 4: binary('id') }),
+        struct({ 1: i32(6), 3: i32(1), 4: binary('city'), 6: i32(0) }),
+      ),
+      3: i64(10),
+      4: list(struct({
+        1: list(
+          struct({ 3: struct({
+            1: i32(2), 3: list(binary('id')), 4: i32(1), 5: i64(10), 6: i64(200), 7: i64(120),
+            12: struct({ 3: i64(0), 5: binary(le(8, 99)), 6: binary(le(8, 1)) }),
+          }) }),
+          struct({ 3: struct({
+            1: i32(6), 3: list(binary('city')), 4: i32(6), 5: i64(10), 6: i64(300), 7: i64(80),
+            12: struct({ 3: i64(2), 4: i64(5), 5: binary('Zurich'), 6: binary('Amsterdam') }),
+          }) }),
+        ),
+        2: i64(500),
+        3: i64(10),
+      })),
+      6: binary('parquet-cpp-arrow version 15.0.0'),
+    }));
+
+    expect(metadata).toEqual({
+      version: 2,
+      numRows: 10,
+      columns: [
+        { name: 'id', physicalType: 'INT64', repetition: 'REQUIRED', logicalType: null, children: [] },
+        { name: 'city', physicalType: 'BYTE_ARRAY', repetition: 'OPTIONAL', logicalType: 'UTF8', children: [] },
+      ],
+      rowGroups: [{
+        numRows: 10,
+        totalByteSize: 500,
+        compressedSize: 200,
+        columns: [
+          {
+            path: ['id'], physicalType: 'INT64', codec: 'SNAPPY', numValues: 10, uncompressedSize: 200,
+            compressedSize: 120, nullCount: 0, distinctCount: null, min: '1', max: '99',
+          },
+          {
+            path: ['city'], physicalType: 'BYTE_ARRAY', codec: 'ZSTD', numValues: 10, uncompressedSize: 300,
+            compressedSize: 80, nullCount: 2, distinctCount: 5, min: 'Amsterdam', max: 'Zurich',
+          },
+        ],
+      }],
+      createdBy: 'parquet-cpp-arrow version 15.0.0',
+    });
+  });
+
+  it('nests group children and reads logical types', async () => {
+    const metadata = await readParquetMetadata(parquetFile({
+      2: list(
+        struct({ 4: binary('schema'), 5: i32(1) }),
+        struct({ 3: i32(1), 4: binary('point'), 5: i32(2) }),
+        struct({ 1: i32(5), 3: i32(0), 4: binary('x') }),
+        struct({ 1: i32(1), 3: i32(0), 4: binary('day'), 10: struct({ 6: struct({}) }) }),
+      ),
+      3: i64(0),
+    }));
+
+    expect(metadata.columns).toEqual([{
+      name: 'point',
+      physicalType: null,
+      repetition: 'OPTIONAL',
+      logicalType: null,
+      children: [
+        { name: 'x', physicalType: 'DOUBLE', repetition: 'REQUIRED', logicalType: null, children: [] },
+        { name: 'day', physicalType: 'INT32', repetition: 'REQUIRED', logicalType: 'DATE', children: [] },
+      ],
+    }]);
+  });
+
+  it('skips fields it does not use, including doubles', async () => {
+    const metadata = await readParquetMetadata(parquetFile({
+      2: list(struct({ 4: binary('schema'), 5: i32(0) })),
+      3: i64(7),
+      99: double(1.5),
+    }));
+    expect(metadata.numRows).toBe(7);
+  });
+
+  it('rejects files without a footer', async () => {
+    expect(await formatError(new Blob(['a,b\n1,2\n3,4\n']))).toBe('Not a readable Parquet file: missing PAR1 footer');
+    expect(await formatError(new Blob(['PAR1']))).toBe('Not a readable Parquet file: file is too small');
+  });
+
+  it('rejects invalid footer lengths and empty schemas', async () => {
+    const magic = [0x50, 0x41, 0x52, 0x31];
+    const tooLong = new Blob([Uint8Array.from([...magic, 0, 0, 0, 0, ...le(4, 1000), ...magic])]);
+    expect(await formatError(tooLong)).toBe('Not a readable Parquet file: invalid footer length');
+    expect(await formatError(parquetFile({ 3: i64(1) }))).toBe('Not a readable Parquet file: footer has no schema');
+  });
+
+  it('rejects truncated footers', async () => {
+    const footer = encodeStruct({ 2: list(struct({ 4: binary('schema') })), 3: i64(1) });
+    expect(await formatError(rawFile(footer.slice(0, 6)))).toBe('Not a readable Parquet file: truncated footer');
+  });
+
+  it('rejects a double cut off by the end of the footer', async () => {
+    // Field 1, type double, then 3 of its 8 bytes
+    expect(await formatError(rawFile([0x17, 0, 0, 0]))).toBe('Not a readable Parquet file: truncated footer');
+  });
+});
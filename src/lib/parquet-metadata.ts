@@ -0,0 +1,330 @@
+/**
+ * Parquet Footer Reader
+ *
+ * A Parquet file ends with its FileMetaData (Thrift compact protocol), a 4-byte little-endian
+ * length and "PAR1". Only the footer is read - the schema, row counts, row groups and column
+ * chunk statistics are there, so no column data is decoded and no Parquet library is needed.
+ *
+ * Field IDs follow parquet-format's parquet.thrift.
+ */
+
+export type ParquetPhysicalType =
+  | 'BOOLEAN' | 'INT32' | 'INT64' | 'INT96' | 'FLOAT' | 'DOUBLE' | 'BYTE_ARRAY' | 'FIXED_LEN_BYTE_ARRAY';
+
+export type ParquetRepetition = 'REQUIRED' | 'OPTIONAL' | 'REPEATED';
+
+export interface ParquetSchemaElement {
+  name: string;
+  physicalType: ParquetPhysicalType | null;  // null for groups
+  repetition: ParquetRepetition;
+  logicalType: string | null;                // LogicalType union member, or the legacy ConvertedType
+  children: ParquetSchemaElement[];
+}
+
+export interface ParquetColumnChunk {
+  path: string[];                            // Leaf column path in the schema
+  physicalType: ParquetPhysicalType | null;
+  codec: string;
+  numValues: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  nullCount: number | null;                  // null when the writer recorded no statistics
+  distinctCount: number | null;
+  min: string | null;                        // Decoded for display
+  max: string | null;
+}
+
+export interface ParquetRowGroup {
+  numRows: number;
+  totalByteSize: number;                     // Uncompressed
+  compressedSize: number;
+  columns: ParquetColumnChunk[];
+}
+
+export interface ParquetMetadata {
+  version: number;
+  numRows: number;
+  columns: ParquetSchemaElement[];           // Top-level fields (children of the schema root)
+  rowGroups: ParquetRowGroup[];
+  createdBy: string | null;
+}
+
+export class ParquetFormatError extends Error {
+  constructor(message: string) {
+    super(`Not a readable Parquet file: ${message}`);
+    this.name = 'ParquetFormatError';
+  }
+}
+
+const MAGIC = [0x50, 0x41, 0x52, 0x31];         // "PAR1"
+const MAX_FOOTER_BYTES = 64 * 1024 * 1024;
+
+const PHYSICAL_TYPES: ParquetPhysicalType[] = [
+  'BOOLEAN', 'INT32', 'INT64', 'INT96', 'FLOAT', 'DOUBLE', 'BYTE_ARRAY', 'FIXED_LEN_BYTE_ARRAY',
+];
+
+const REPETITIONS: ParquetRepetition[] = ['REQUIRED', 'OPTIONAL', 'REPEATED'];
+
+const CONVERTED_TYPES = [
+  'UTF8', 'MAP', 'MAP_KEY_VALUE', 'LIST', 'ENUM', 'DECIMAL', 'DATE', 'TIME_MILLIS', 'TIME_MICROS',
+  'TIMESTAMP_MILLIS', 'TIMESTAMP_MICROS', 'UINT_8', 'UINT_16', 'UINT_32', 'UINT_64', 'INT_8', 'INT_16',
+  'INT_32', 'INT_64', 'JSON', 'BSON', 'INTERVAL',
+];
+
+const CODECS = ['UNCOMPRESSED', 'SNAPPY', 'GZIP', 'LZO', 'BROTLI', 'LZ4', 'ZSTD', 'LZ4_RAW'];
+
+const MAX_STAT_LENGTH = 64;                  // Characters of a string min/max shown
+
+// LogicalType union field ID -> member name
+const LOGICAL_TYPES: Record<number, string> = {
+  1: 'STRING', 2: 'MAP', 3: 'LIST', 4: 'ENUM', 5: 'DECIMAL', 6: 'DATE', 7: 'TIME', 8: 'TIMESTAMP',
+  10: 'INTEGER', 11: 'UNKNOWN', 12: 'JSON', 13: 'BSON', 14: 'UUID', 15: 'FLOAT16',
+};
+
+/**
+ * Read the schema, row groups and statistics from a Parquet file's footer
+ *
+ * @throws ParquetFormatError if the file has no valid footer
+ */
+export async function readParquetMetadata(blob: Blob): Promise<ParquetMetadata> {
+  if (blob.size < 12) throw new ParquetFormatError('file is too small');
+
+  const tail = new Uint8Array(await blob.slice(blob.size - 8).arrayBuffer());
+  if (!MAGIC.every((byte, i) => tail[4 + i] === byte)) throw new ParquetFormatError('missing PAR1 footer');
+
+  const length = new DataView(tail.buffer).getUint32(0, true);
+  if (length > MAX_FOOTER_BYTES || length > blob.size - 12) throw new ParquetFormatError('invalid footer length');
+
+  const footer = new Uint8Array(await blob.slice(blob.size - 8 - length, blob.size - 8).arrayBuffer());
+  const fields = new CompactReader(footer).readStruct();
+
+  const schema = (fields.get(2) as ThriftStruct[] | undefined) || [];
+  if (schema.length === 0) throw new ParquetFormatError('footer has no schema');
+
+  // The schema is a depth-first list: the root, then every element followed by its children
+  let position = 1;
+  const readChildren = (count: number): ParquetSchemaElement[] => {
+    const children: ParquetSchemaElement[] = [];
+    for (let i = 0; i < count && position < schema.length; i++) {
+      const element = schema[position++];
+      children.push({
+        name: decodeString(element.get(4)),
+        physicalType: element.has(1) ? PHYSICAL_TYPES[element.get(1) as number] ?? null : null,
+        repetition: REPETITIONS[element.get(3) as number] ?? 'REQUIRED',
+        logicalType: logicalTypeName(element),
+        children: readChildren((element.get(5) as number | undefined) ?? 0),
+      });
+    }
+    return children;
+  };
+
+  const columns = readChildren((schema[0].get(5) as number | undefined) ?? schema.length - 1);
+
+  // Leaf columns by path, to decode statistics with their types
+  const leaves = new Map<string, ParquetSchemaElement>();
+  const addLeaves = (elements: ParquetSchemaElement[], path: string[]) => {
+    for (const element of elements) {
+      if (element.children.length > 0) addLeaves(element.children, [...path, element.name]);
+      else leaves.set([...path, element.name].join('.'), element);
+    }
+  };
+  addLeaves(columns, []);
+
+  const rowGroups = ((fields.get(4) as ThriftStruct[] | undefined) || []).map(rowGroup => {
+    const chunks = ((rowGroup.get(1) as ThriftStruct[] | undefined) || []).map(chunk =>
+      readColumnChunk((chunk.get(3) as ThriftStruct | undefined) ?? new Map(), leaves));
+    return {
+      numRows: Number(rowGroup.get(3) ?? 0),
+      totalByteSize: Number(rowGroup.get(2) ?? 0),
+      compressedSize: chunks.reduce((total, chunk) => total + chunk.compressedSize, 0),
+      columns: chunks,
+    };
+  });
+
+  return {
+    version: (fields.get(1) as number | undefined) ?? 0,
+    numRows: Number(fields.get(3) ?? 0),
+    columns,
+    rowGroups,
+    createdBy: fields.has(6) ? decodeString(fields.get(6)) : null,
+  };
+}
+
+function readColumnChunk(metadata: ThriftStruct, leaves: Map<string, ParquetSchemaElement>): ParquetColumnChunk {
+  const path = ((metadata.get(3) as ThriftValue[] | undefined) || []).map(decodeString);
+  const leaf = leaves.get(path.join('.'));
+  const physicalType = metadata.has(1) ? PHYSICAL_TYPES[metadata.get(1) as number] ?? null : null;
+  const statistics = metadata.get(12) as ThriftStruct | undefined;
+
+  // min_value/max_value (5, 6) replaced min/max (2, 1), which only sort correctly for signed types
+  const bound = (current: number, legacy: number): string | null => {
+    const value = statistics?.get(current) ?? statistics?.get(legacy);
+    return value instanceof Uint8Array ? decodeStatistic(value, physicalType, leaf?.logicalType ?? null) : null;
+  };
+
+  return {
+    path,
+    physicalType,
+    codec: CODECS[metadata.get(4) as number] ?? 'UNKNOWN',
+    numValues: Number(metadata.get(5) ?? 0),
+    uncompressedSize: Number(metadata.get(6) ?? 0),
+    compressedSize: Number(metadata.get(7) ?? 0),
+    nullCount: statistics?.has(3) ? Number(statistics.get(3)) : null,
+    distinctCount: statistics?.has(4) ? Number(statistics.get(4)) : null,
+    min: bound(6, 2),
+    max: bound(5, 1),
+  };
+}
+
+/**
+ * Plain-encoded statistic value as display text
+ */
+function decodeStatistic(bytes: Uint8Array, type: ParquetPhysicalType | null, logicalType: string | null): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    switch (type) {
+      case 'BOOLEAN': return bytes[0] ? 'true' : 'false';
+      case 'INT32': {
+        const value = view.getInt32(0, true);
+        return logicalType === 'DATE' ? new Date(value * 86_400_000).toISOString().slice(0, 10) : String(value);
+      }
+      case 'INT64': return view.getBigInt64(0, true).toString();
+      case 'FLOAT': return String(view.getFloat32(0, true));
+      case 'DOUBLE': return String(view.getFloat64(0, true));
+      case 'BYTE_ARRAY':
+        if (logicalType && ['STRING', 'UTF8', 'ENUM', 'JSON'].includes(logicalType)) {
+          const text = new TextDecoder().decode(bytes);
+          return text.length > MAX_STAT_LENGTH ? `${text.slice(0, MAX_STAT_LENGTH)}…` : text;
+        }
+        return toHexPreview(bytes);
+      default: return toHexPreview(bytes);
+    }
+  } catch {
+    return null;                             // Shorter than its type - nothing to show
+  }
+}
+
+function toHexPreview(bytes: Uint8Array): string {
+  const hex = Array.from(bytes.subarray(0, MAX_STAT_LENGTH / 2), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `0x${hex}${bytes.length > MAX_STAT_LENGTH / 2 ? '…' : ''}`;
+}
+
+function logicalTypeName(element: ThriftStruct): string | null {
+  const logical = element.get(10) as ThriftStruct | undefined;
+  if (logical) {
+    const member = Array.from(logical.keys())[0];
+    if (member !== undefined && LOGICAL_TYPES[member]) return LOGICAL_TYPES[member];
+  }
+  return element.has(6) ? CONVERTED_TYPES[element.get(6) as number] ?? null : null;
+}
+
+function decodeString(value: ThriftValue | undefined): string {
+  return value instanceof Uint8Array ? new TextDecoder().decode(value) : '';
+}
+
+type ThriftValue = number | bigint | boolean | Uint8Array | ThriftValue[] | ThriftStruct;
+type ThriftStruct = Map<number, ThriftValue>;
+
+/**
+ * Thrift compact protocol decoder - reads structs as field ID -> value maps
+ */
+class CompactReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  readStruct(): ThriftStruct {
+    const fields: ThriftStruct = new Map();
+    let fieldId = 0;
+
+    for (;;) {
+      const header = this.readByte();
+      const type = header & 0x0f;
+      if (type === 0) return fields;             // STOP
+
+      const delta = header >> 4;
+      fieldId = delta !== 0 ? fieldId + delta : this.readZigzag();
+
+      // Booleans carry their value in the field type
+      fields.set(fieldId, type === 1 || type === 2 ? type === 1 : this.readValue(type));
+    }
+  }
+
+  private readValue(type: number): ThriftValue {
+    switch (type) {
+      case 1: case 2: return this.readByte() === 1;
+      case 3: return (this.readByte() << 24) >> 24;
+      case 4: case 5: return this.readZigzag();
+      case 6: return this.readZigzagBig();
+      case 7: {
+        this.ensure(8);
+        const value = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, 8).getFloat64(0, true);
+        this.offset += 8;
+        return value;
+      }
+      case 8: {
+        const length = this.readVarint();
+        this.ensure(length);
+        const value = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+      }
+      case 9: case 10: {
+        const header = this.readByte();
+        const size = header >> 4 === 15 ? this.readVarint() : header >> 4;
+        const items: ThriftValue[] = [];
+        for (let i = 0; i < size; i++) items.push(this.readValue(header & 0x0f));
+        return items;
+      }
+      case 11: {
+        const size = this.readVarint();
+        if (size === 0) return [];
+        const types = this.readByte();
+        const entries: ThriftValue[] = [];
+        for (let i = 0; i < size; i++) entries.push([this.readValue(types >> 4), this.readValue(types & 0x0f)]);
+        return entries;
+      }
+      case 12: return this.readStruct();
+      default: throw new ParquetFormatError(`unknown Thrift type ${type}`);
+    }
+  }
+
+  private readByte(): number {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  private readVarint(): number {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      const byte = this.readByte();
+      result += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7;
+      if (shift > 49) throw new ParquetFormatError('varint too long');
+    }
+  }
+
+  private readZigzag(): number {
+    const value = this.readVarint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  private readZigzagBig(): bigint {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      const byte = this.readByte();
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) break;
+      shift += BigInt(7);
+    }
+    return (result >> BigInt(1)) ^ -(result & BigInt(1));
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) throw new ParquetFormatError('truncated footer');
+  }
+}
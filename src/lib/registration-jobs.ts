@@ -0,0 +1,197 @@
+import { entries, del, get, set } from 'idb-keyval';
+import { getActiveNetwork, SuiNetwork } from './networks';
+import { DatasetSchema } from './schema-inference';
+import { DatasetVerification, UploadedChunk } from './types';
+
+/**
+ * Registration Jobs
+ *
+ * A registration job is the persisted state of one dataset registration.
+ * Every pipeline step records its own status and results in IndexedDB as soon as it
+ * finishes, so a reload or wallet crash between paid steps (allowlist creation,
+ * Walrus storage) can be resumed from the last completed step instead of starting over.
+ */
+
+export const REGISTRATION_STEPS = ['fetch', 'allowlist', 'encrypt', 'upload', 'attest', 'register'] as const;
+
+export type RegistrationStep = typeof REGISTRATION_STEPS[number];
+
+export type RegistrationStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface RegistrationStepState {
+  status: RegistrationStepStatus;
+  error?: string;
+  updatedAt?: number;
+}
+
+export type RegistrationSource =
+  | { kind: 'file'; fileName: string; fileSize: number; fileType: string; lastModified: number }
+  | { kind: 'url'; url: string };
+
+export interface RegistrationJob {
+  id: string;
+  owner: string;                 // Wallet address that started the job
+  network?: SuiNetwork;          // Network the job runs on (jobs from before network profiles are testnet)
+  createdAt: number;
+  updatedAt: number;
+
+  // Inputs
+  source: RegistrationSource;
+  name?: string;                 // Dataset name override (defaults to the file name)
+  description: string;
+  format: string;                // Canonical format (./dataset-format) - replaced by the sniffed one at fetch
+  initialMembers: string[];
+  epochs?: number;               // Walrus storage epochs (defaults to CONFIG.WALRUS_EPOCHS)
+
+  steps: Record<RegistrationStep, RegistrationStepState>;
+
+  // fetch
+  sourceUrl?: string;            // URL sources: the URL actually fetched, pinned to a commit where possible
+  fileName?: string;
+  fileSize?: number;
+  fileType?: string;
+  schema?: DatasetSchema;        // Inferred columns (formats with a schema only)
+  schemaFingerprint?: string;    // SHA-256 of the canonical schema document - recorded with the description
+
+  // allowlist
+  allowlistId?: string;
+  allowlistCapId?: string;
+  membersAdded?: string[];       // Addresses already added (uploader included)
+
+  // encrypt
+  originalHash?: string;
+  policyId?: string;
+  encryptedData?: Uint8Array;    // Single-blob datasets only - dropped once uploaded
+  uploadedChunks?: UploadedChunk[]; // Chunked datasets - chunks already on Walrus
+
+  // upload
+  blobId?: string;
+
+  // attest
+  metadata?: DatasetVerification;
+  signature?: string;            // Hex encoded TEE signature
+
+  // register
+  txDigest?: string;
+  nftId?: string;
+}
+
+const JOB_KEY_PREFIX = 'registrationJob_';
+
+function jobKey(id: string): string {
+  return `${JOB_KEY_PREFIX}${id}`;
+}
+
+/**
+ * Create a new job with every step pending (not persisted until saved)
+ *
+ * @param params.allowlist - An allowlist already set up for this job (e.g. shared by a batch);
+ *                           the allowlist step is then marked done
+ */
+export function createRegistrationJob(params: {
+  owner: string;
+  source: RegistrationSource;
+  name?: string;
+  description: string;
+  format: string;
+  initialMembers: string[];
+  epochs?: number;
+  allowlist?: { allowlistId: string; allowlistCapId: string; membersAdded: string[] };
+}): RegistrationJob {
+  const { allowlist, ...inputs } = params;
+  const now = Date.now();
+  const steps = Object.fromEntries(
+    REGISTRATION_STEPS.map(step => [step, { status: 'pending' }])
+  ) as Record<RegistrationStep, RegistrationStepState>;
+
+  if (allowlist) {
+    steps.allowlist = { status: 'done', updatedAt: now };
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    network: getActiveNetwork(),
+    createdAt: now,
+    updatedAt: now,
+    steps,
+    ...inputs,
+    ...allowlist,
+  };
+}
+
+/**
+ * Network a job runs on
+ */
+export function getJobNetwork(job: RegistrationJob): SuiNetwork {
+  return job.network ?? 'testnet';
+}
+
+/**
+ * First step that has not completed yet, or null if the job is finished
+ */
+export function getNextStep(job: RegistrationJob): RegistrationStep | null {
+  return REGISTRATION_STEPS.find(step => job.steps[step].status !== 'done') || null;
+}
+
+/**
+ * Whether resuming this job needs the original file bytes again
+ * (the file itself is never persisted - only what was derived from it)
+ */
+export function jobNeedsSourceFile(job: RegistrationJob): boolean {
+  if (job.steps.encrypt.status !== 'done') return true;
+  return job.steps.upload.status !== 'done' && !job.encryptedData;
+}
+
+/**
+ * Display name for a job
+ */
+export function getJobName(job: RegistrationJob): string {
+  if (job.name) return job.name;
+  if (job.fileName) return job.fileName;
+  return job.source.kind === 'file' ? job.source.fileName : job.source.url;
+}
+
+export class RegistrationJobStore {
+  /**
+   * Persist a job (stamps updatedAt)
+   */
+  async save(job: RegistrationJob): Promise<RegistrationJob> {
+    const saved = { ...job, updatedAt: Date.now() };
+    await set(jobKey(job.id), saved);
+    return saved;
+  }
+
+  /**
+   * Load a job by ID
+   */
+  async get(id: string): Promise<RegistrationJob | null> {
+    return (await get<RegistrationJob>(jobKey(id))) || null;
+  }
+
+  /**
+   * List unfinished jobs, newest first
+   *
+   * @param owner - Only return jobs started by this wallet address
+   * @param network - Only return jobs on this network (default: the active network)
+   */
+  async listPending(owner?: string, network: SuiNetwork = getActiveNetwork()): Promise<RegistrationJob[]> {
+    const all = await entries<IDBValidKey, RegistrationJob>();
+    return all
+      .filter(([key]) => typeof key === 'string' && key.startsWith(JOB_KEY_PREFIX))
+      .map(([, job]) => job)
+      .filter(job => getNextStep(job) !== null)
+      .filter(job => !owner || job.owner === owner)
+      .filter(job => getJobNetwork(job) === network)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Delete a job (after completion, or when the user discards it)
+   */
+  async remove(id: string): Promise<void> {
+    await del(jobKey(id));
+  }
+}
+
+// Export singleton instance
+export const registrationJobStore = new RegistrationJobStore();
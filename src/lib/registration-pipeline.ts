@@ -0,0 +1,535 @@
+import { SuiClient } from '@mysten/sui/client';
+import { allowlistService, SignAndExecuteFn } from './allowlist-service';
+import {
+  AttestedRegistration,
+  buildRegisterDatasetsTransaction,
+  missingDatasetNftMessage,
+  registerAttestedDatasets,
+  RegistrationTransactionError,
+  resolveCreatedDatasetNfts,
+} from './batch-register';
+import { uploadChunkedDataset } from './chunked-dataset';
+import { CONFIG, ERROR_MESSAGES } from './constants';
+import { assertContentMatches, parseContentAddress } from './content-address';
+import { detectDatasetFormat, normalizeFormat } from './dataset-format';
+import { formatDatasetUrlField } from './dataset-source';
+import { getActiveNetwork, getNetworkProfile, isNetworkConfigured } from './networks';
+import {
+  RegistrationJob,
+  RegistrationStep,
+  RegistrationStepState,
+  getJobNetwork,
+  jobNeedsSourceFile,
+  registrationJobStore,
+} from './registration-jobs';
+import { pinDatasetUrl } from './revision-pinning';
+import { inferDatasetSchema, schemaFingerprint } from './schema-inference';
+import { DatasetChangedError, sealService } from './seal-service';
+import { assertValidNautilusAttestation } from './tee-signature';
+import { hexToVecU8, MetadataVerificationRequest, stringToVecU8, TransferProgress } from './types';
+import { checkDatasetSize, checkDatasetUrl } from './url-policy';
+import { walrusService } from './walrus-service';
+
+/**
+ * Registration Pipeline
+ *
+ * Runs a registration job step by step: fetch → allowlist → encrypt → upload → attest → register.
+ * Steps already marked done are skipped, and every result is persisted before moving on,
+ * so calling this again on a failed or interrupted job continues where it stopped.
+ */
+
+type SignPersonalMessageFn = (msg: { message: Uint8Array }) => Promise<{ signature: string }>;
+
+export interface RegistrationContext {
+  address: string;
+  suiClient: SuiClient;
+  signAndExecuteTransaction: SignAndExecuteFn;
+  signPersonalMessage: SignPersonalMessageFn;
+  fetchDataset: (url: string) => Promise<File>;
+}
+
+export interface RegistrationCallbacks {
+  onStep?: (step: RegistrationStep, message: string) => void;
+  onJobUpdate?: (job: RegistrationJob) => void;
+  onTransferProgress?: (step: RegistrationStep, progress: TransferProgress) => void;  // Walrus upload bytes
+  onWarning?: (message: string) => void;  // Non-fatal problems, e.g. a file extension that contradicts its content
+}
+
+export interface RegistrationOptions {
+  deferRegister?: boolean;       // Stop after the TEE attestation (batch registers jobs together)
+  signal?: AbortSignal;          // Cancels Walrus uploads (the job stays resumable)
+}
+
+/**
+ * Run (or resume) a registration job
+ *
+ * @param job - Job to run; completed steps are skipped
+ * @param sourceFile - The dataset file for file-sourced jobs (null for URL jobs, or when
+ *                     the remaining steps no longer need the file bytes)
+ * @param ctx - Wallet and client dependencies
+ * @param callbacks - Progress callbacks
+ * @param options - Pipeline options
+ * @returns The completed job (register still pending when options.deferRegister is set)
+ */
+export async function runRegistrationJob(
+  job: RegistrationJob,
+  sourceFile: File | null,
+  ctx: RegistrationContext,
+  callbacks: RegistrationCallbacks = {},
+  options: RegistrationOptions = {}
+): Promise<RegistrationJob> {
+  if (job.owner !== ctx.address) {
+    throw new Error('This registration was started by a different wallet. Switch accounts to resume it.');
+  }
+
+  if (getJobNetwork(job) !== getActiveNetwork()) {
+    throw new Error(`This registration was started on ${getNetworkProfile(getJobNetwork(job)).label}. Switch networks to resume it.`);
+  }
+
+  if (!isNetworkConfigured(getNetworkProfile())) {
+    throw new Error(`SealTrust is not deployed on ${getNetworkProfile().label} in this configuration.`);
+  }
+
+  let current = job;
+
+  const update = async (patch: Partial<RegistrationJob>) => {
+    current = await registrationJobStore.save({ ...current, ...patch });
+    callbacks.onJobUpdate?.(current);
+  };
+
+  const setStepState = (step: RegistrationStep, state: RegistrationStepState) =>
+    update({ steps: { ...current.steps, [step]: { ...state, updatedAt: Date.now() } } });
+
+  const runStep = async (step: RegistrationStep, work: () => Promise<void>) => {
+    if (current.steps[step].status === 'done') return;
+
+    await setStepState(step, { status: 'running' });
+    try {
+      await work();
+      await setStepState(step, { status: 'done' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Step failed';
+      await setStepState(step, { status: 'failed', error: message });
+      throw error;
+    }
+  };
+
+  let file = sourceFile;
+
+  // Step 0: Get the dataset bytes (only when a remaining step still needs them)
+  if (jobNeedsSourceFile(current)) {
+    await setStepState('fetch', { status: 'running' });
+    try {
+      // Branch URLs can serve other bytes tomorrow - fetch (and record) the commit they point at now
+      if (current.source.kind === 'url' && !current.sourceUrl) {
+        callbacks.onStep?.('fetch', 'Pinning URL to an immutable revision...');
+        const pinned = await pinDatasetUrl(current.source.url);
+        if (pinned.revision) console.log('📌 Pinned dataset URL to revision', pinned.revision);
+        await update({ sourceUrl: pinned.url });
+      }
+      file = await resolveSourceFile(current, sourceFile, ctx, callbacks);
+
+      // Register the format the bytes actually have
+      const detection = await detectDatasetFormat(file, current.format);
+      if (detection.warning) {
+        console.warn('⚠️', detection.warning);
+        callbacks.onWarning?.(detection.warning);
+      }
+      await update({ format: detection.format });
+
+      // Fingerprint the columns so files with the same layout can be matched later
+      const schema = await inferDatasetSchema(file, detection.format);
+      await update({ schema: schema ?? undefined, schemaFingerprint: schema ? await schemaFingerprint(schema) : undefined });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : ERROR_MESSAGES.URL_FETCH_FAILED;
+      await setStepState('fetch', { status: 'failed', error: message });
+      throw error;
+    }
+    await update({ fileName: file.name, fileSize: file.size, fileType: file.type });
+    await setStepState('fetch', { status: 'done' });
+  }
+
+  // Step 1: Create allowlist for access control and add members
+  await runStep('allowlist', async () => {
+    let reused = false;
+
+    if (current.allowlistId) {
+      // Verify the persisted allowlist still exists on-chain before reusing it
+      callbacks.onStep?.('allowlist', 'Checking saved allowlist...');
+      const obj = await ctx.suiClient.getObject({ id: current.allowlistId }).catch(() => null);
+      if (obj?.data) {
+        console.log('♻️ Reusing allowlist from previous attempt');
+        reused = true;
+      } else {
+        console.log('⚠️ Saved allowlist not found on-chain, creating new one...');
+        await update({ allowlistId: undefined, allowlistCapId: undefined, membersAdded: [] });
+      }
+    }
+
+    if (!current.allowlistId || !current.allowlistCapId) {
+      callbacks.onStep?.('allowlist', 'Creating Seal allowlist for access control...');
+      const result = await allowlistService.createAllowlist(
+        `Access for ${current.name || current.fileName || 'dataset'}`,
+        getNetworkProfile().sealAllowlistPackageId,
+        ctx.signAndExecuteTransaction,
+        ctx.suiClient
+      );
+      await update({ allowlistId: result.allowlistId, allowlistCapId: result.capId, membersAdded: [] });
+      console.log('✅ Allowlist created:', result.allowlistId);
+    }
+
+    // Uploader first so they can download their own dataset, then the initial members
+    // IMPORTANT: Must be sequential (not parallel) because each transaction modifies the same capId object
+    const members = [ctx.address, ...current.initialMembers];
+    for (const member of members) {
+      if (current.membersAdded?.includes(member)) continue;
+
+      callbacks.onStep?.('allowlist', member === ctx.address
+        ? 'Adding uploader to allowlist...'
+        : `Adding member ${(current.membersAdded?.length || 0)} of ${current.initialMembers.length} to allowlist...`);
+
+      try {
+        await allowlistService.addUser(
+          current.allowlistId!,
+          current.allowlistCapId!,
+          member,
+          getNetworkProfile().sealAllowlistPackageId,
+          ctx.signAndExecuteTransaction
+        );
+      } catch (error) {
+        // A reused allowlist that rejects additions (e.g. abort code 2) is unusable - start fresh next time
+        if (reused) {
+          await update({ allowlistId: undefined, allowlistCapId: undefined, membersAdded: [] });
+          throw new Error('Saved allowlist was invalid. Resume again to create a new one.');
+        }
+        throw error;
+      }
+
+      await update({ membersAdded: [...(current.membersAdded || []), member] });
+    }
+  });
+
+  // ipfs:// sources whose CID pins the bytes are checked against it - the fetch proxy does
+  // too, but it is not the party attesting the hash
+  const contentAddress = current.source.kind === 'url' ? parseContentAddress(current.source.url) : null;
+
+  // Step 2: Hash and encrypt with Seal (chunked datasets are uploaded as they are encrypted)
+  await runStep('encrypt', async () => {
+    const datasetFile = file!;
+
+    if (datasetFile.size > CONFIG.CHUNK_SIZE) {
+      callbacks.onStep?.('encrypt', 'Encrypting and uploading dataset in chunks...');
+
+      const result = await uploadChunkedDataset(
+        datasetFile,
+        getNetworkProfile().sealPackageId,
+        current.allowlistId!,
+        ctx.address,
+        ctx.suiClient,
+        ctx.signPersonalMessage,
+        CONFIG.CHUNK_SIZE,
+        current.epochs ?? CONFIG.WALRUS_EPOCHS,
+        (completed, total) => {
+          callbacks.onStep?.('upload', `Encrypted and uploaded chunk ${completed} of ${total}...`);
+        },
+        current.policyId ? { policyId: current.policyId, chunks: current.uploadedChunks || [] } : undefined,
+        async (entry, policyId) => {
+          await update({ policyId, uploadedChunks: [...(current.uploadedChunks || []), entry] });
+        },
+        {
+          signal: options.signal,
+          onProgress: (progress) => callbacks.onTransferProgress?.('upload', progress),
+        }
+      ).catch(async (error) => {
+        // Chunks uploaded from the old content cannot be reused - the next resume starts over
+        if (error instanceof DatasetChangedError) {
+          await update({ policyId: undefined, uploadedChunks: undefined });
+        }
+        throw error;
+      });
+
+      if (contentAddress) assertContentMatches(contentAddress, result.originalHash);
+
+      await update({
+        originalHash: result.originalHash,
+        policyId: result.policyId,
+        blobId: result.manifestBlobId,
+        uploadedChunks: undefined,
+      });
+      await setStepState('upload', { status: 'done' });
+      console.log('✅ Chunk manifest blob ID:', result.manifestBlobId);
+      return;
+    }
+
+    callbacks.onStep?.('encrypt', 'Encrypting dataset with Seal (includes hashing)...');
+    const result = await sealService.encryptDataset(
+      datasetFile,
+      getNetworkProfile().sealPackageId,
+      current.allowlistId!,
+      ctx.suiClient
+    );
+
+    if (contentAddress) assertContentMatches(contentAddress, result.originalHash);
+
+    // Persist the ciphertext so the upload can be retried without re-encrypting
+    await update({
+      originalHash: result.originalHash,
+      policyId: result.policyId,
+      encryptedData: result.encryptedData,
+    });
+    console.log('✅ Encrypted. Policy ID:', result.policyId);
+  });
+
+  // Step 3: Upload encrypted blob to Walrus
+  await runStep('upload', async () => {
+    callbacks.onStep?.('upload', 'Uploading encrypted blob to Walrus...');
+    const encryptedBlob = new Uint8Array(current.encryptedData!);
+
+    const uploadResult = await walrusService.uploadToWalrus(
+      new File([encryptedBlob], `${current.fileName}.encrypted`, { type: 'application/octet-stream' }),
+      current.epochs ?? CONFIG.WALRUS_EPOCHS,
+      {
+        sendObjectTo: ctx.address,
+        signal: options.signal,
+        onProgress: (progress) => callbacks.onTransferProgress?.('upload', progress),
+      }
+    );
+
+    // Ciphertext is on Walrus now - drop the local copy
+    await update({ blobId: uploadResult.blobId, encryptedData: undefined });
+    console.log('✅ Uploaded to Walrus. Blob ID:', uploadResult.blobId, 'via', uploadResult.endpoint);
+  });
+
+  // Step 4: Get metadata signed by Nautilus TEE
+  await runStep('attest', async () => {
+    callbacks.onStep?.('attest', 'Sending metadata to Nautilus TEE for verification...');
+
+    // Convert address to raw 32 bytes (remove 0x prefix and convert hex to bytes)
+    // This MUST match Move's address::to_bytes(ctx.sender()) format
+    const uploaderAddress = ctx.address.startsWith('0x') ? ctx.address.slice(2) : ctx.address;
+    // register_dataset stores the description as the NFT's dataset_url - lead it with the fetched
+    // URL (marked when it could not be pinned) and end it with the schema fingerprint
+    const description = formatDatasetUrlField(current.description || 'Dataset registered via SealTrust', {
+      sourceUri: current.source.kind === 'url' ? current.sourceUrl ?? current.source.url : undefined,
+      originalUrl: current.source.kind === 'url' ? current.source.url : undefined,
+      schemaFingerprint: current.schemaFingerprint,
+    });
+    const metadata = {
+      dataset_id: stringToVecU8(crypto.randomUUID()),
+      name: stringToVecU8(current.name || current.fileName!),
+      description: stringToVecU8(description),
+      format: stringToVecU8(normalizeFormat(current.format)),
+      size: current.fileSize!,
+      original_hash: hexToVecU8(current.originalHash!),
+      walrus_blob_id: stringToVecU8(current.blobId!),
+      seal_policy_id: stringToVecU8(current.policyId!),
+      timestamp: Date.now(),
+      uploader: hexToVecU8(uploaderAddress),
+    };
+
+    const nautilusRequest: MetadataVerificationRequest = { metadata };
+
+    const nautilusResponse = await fetch(`${getNetworkProfile().nautilusUrl}/verify_metadata`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(nautilusRequest),
+    });
+
+    if (!nautilusResponse.ok) {
+      const error = await nautilusResponse.json().catch(() => ({}));
+      throw new Error(`Nautilus verification failed: ${error.error || nautilusResponse.statusText}`);
+    }
+
+    const attestation = await nautilusResponse.json();
+
+    // Check the signature locally - a bad one would only surface as an aborted, paid transaction
+    callbacks.onStep?.('attest', 'Verifying TEE signature against the enclave key...');
+    await assertValidNautilusAttestation(metadata, attestation, ctx.suiClient);
+
+    await update({ metadata, signature: attestation.signature });
+    console.log('✅ Nautilus attestation received');
+  });
+
+  if (options.deferRegister) {
+    return current;
+  }
+
+  // Step 5: Register on-chain
+  await runStep('register', async () => {
+    callbacks.onStep?.('register', 'Registering dataset on Sui blockchain...');
+
+    // A digest means the transaction was already submitted - never submit it twice
+    if (!current.txDigest) {
+      const tx = await buildRegisterDatasetsTransaction([toAttestedRegistration(current)], ctx.address);
+
+      const result = await ctx.signAndExecuteTransaction({
+        transaction: tx,
+        chain: getNetworkProfile().chain,
+      });
+
+      await update({ txDigest: result.digest });
+      console.log('📌 Transaction submitted:', result.digest);
+    }
+
+    const nftIds = await resolveCreatedDatasetNfts(current.txDigest!, ctx.suiClient).catch(async (error) => {
+      // A failed transaction registered nothing - forget it so a resume submits a new one
+      if (error instanceof RegistrationTransactionError) {
+        await update({ txDigest: undefined });
+      }
+      throw error;
+    });
+    console.log('✅ Transaction successful:', current.txDigest);
+
+    const nftId = nftIds.get(current.blobId!)?.[0];
+    if (!nftId) {
+      throw new Error(missingDatasetNftMessage(current.txDigest!, current.blobId!));
+    }
+    await update({ nftId });
+  });
+
+  return current;
+}
+
+/**
+ * Create one allowlist for several jobs and add the uploader and members to it
+ *
+ * @param name - Allowlist name
+ * @param members - Addresses to add besides the uploader
+ * @param ctx - Wallet and client dependencies
+ * @param onProgress - Progress message callback
+ * @returns Allowlist fields to pass to createRegistrationJob
+ */
+export async function createSharedAllowlist(
+  name: string,
+  members: string[],
+  ctx: RegistrationContext,
+  onProgress?: (message: string) => void
+): Promise<{ allowlistId: string; allowlistCapId: string; membersAdded: string[] }> {
+  onProgress?.('Creating shared Seal allowlist...');
+  const { allowlistId, capId } = await allowlistService.createAllowlist(
+    name,
+    getNetworkProfile().sealAllowlistPackageId,
+    ctx.signAndExecuteTransaction,
+    ctx.suiClient
+  );
+
+  // Sequential - each transaction modifies the same capId object
+  const membersAdded: string[] = [];
+  for (const member of [ctx.address, ...members]) {
+    onProgress?.(`Adding member ${membersAdded.length + 1} of ${members.length + 1} to allowlist...`);
+    await allowlistService.addUser(
+      allowlistId,
+      capId,
+      member,
+      getNetworkProfile().sealAllowlistPackageId,
+      ctx.signAndExecuteTransaction
+    );
+    membersAdded.push(member);
+  }
+
+  console.log('✅ Shared allowlist ready:', allowlistId);
+  return { allowlistId, allowlistCapId: capId, membersAdded };
+}
+
+/**
+ * Register attested jobs with several register_dataset calls per transaction
+ *
+ * Jobs must have completed the attest step (see RegistrationOptions.deferRegister).
+ * Jobs are grouped by registerAttestedDatasets; each group needs one wallet approval.
+ *
+ * @param jobs - Attested jobs
+ * @param ctx - Wallet and client dependencies
+ * @param onJobUpdate - Called whenever a job is persisted
+ * @returns The jobs, in input order (register step done, or failed if no DatasetNFT was created)
+ * @throws If a transaction fails - jobs of earlier transactions are already done, the failed
+ *         transaction's jobs are failed, and later jobs are left attested
+ */
+export async function registerJobsTogether(
+  jobs: RegistrationJob[],
+  ctx: RegistrationContext,
+  onJobUpdate?: (job: RegistrationJob) => void
+): Promise<RegistrationJob[]> {
+  const current = [...jobs];
+
+  const save = async (index: number, patch: Partial<RegistrationJob>) => {
+    current[index] = await registrationJobStore.save({ ...current[index], ...patch });
+    onJobUpdate?.(current[index]);
+  };
+
+  await registerAttestedDatasets(jobs.map(toAttestedRegistration), ctx, {
+    // Finish each transaction's jobs as soon as it succeeds so a later failure cannot resubmit them.
+    // A job whose transaction created no DatasetNFT fails its register step instead.
+    onBatchRegistered: async (results) => {
+      for (const { index, txDigest, nftId, error } of results) {
+        await save(index, nftId
+          ? { txDigest, nftId, steps: { ...current[index].steps, register: { status: 'done', updatedAt: Date.now() } } }
+          : { txDigest, steps: { ...current[index].steps, register: { status: 'failed', error, updatedAt: Date.now() } } });
+      }
+    },
+    // Only the failed transaction's jobs fail - jobs of later transactions were never submitted
+    onBatchFailed: async (indices, error) => {
+      const message = error instanceof Error ? error.message : 'Registration failed';
+      for (const index of indices) {
+        await save(index, { steps: { ...current[index].steps, register: { status: 'failed', error: message, updatedAt: Date.now() } } });
+      }
+    },
+  });
+
+  return current;
+}
+
+/**
+ * Registration payload of an attested job
+ */
+function toAttestedRegistration(job: RegistrationJob): AttestedRegistration {
+  if (!job.allowlistId || job.allowlistId.trim() === '') {
+    throw new Error('Invalid allowlist ID - allowlist creation may have failed');
+  }
+
+  return {
+    metadata: job.metadata!,
+    signature: job.signature!,
+    allowlistId: job.allowlistId,
+  };
+}
+
+/**
+ * Get the dataset bytes for a job: fetch URL sources, check re-selected files match
+ */
+async function resolveSourceFile(
+  job: RegistrationJob,
+  sourceFile: File | null,
+  ctx: RegistrationContext,
+  callbacks: RegistrationCallbacks
+): Promise<File> {
+  if (job.source.kind === 'url') {
+    callbacks.onStep?.('fetch', 'Fetching dataset from URL...');
+    const url = job.sourceUrl ?? job.source.url;
+    const fetched = await ctx.fetchDataset(url);
+
+    // Same limit the proxy enforces when the server sends a Content-Length
+    const policy = checkDatasetUrl(url);
+    if (!policy.allowed) throw new Error(policy.rejection.message);
+    const tooLarge = checkDatasetSize(policy.maxSize, fetched.size);
+    if (tooLarge) throw new Error(tooLarge.message);
+
+    // Content behind the URL must not change while a job is half done (a resumed chunked
+    // upload also checks every chunk it skips against its stored hash)
+    if (job.fileSize !== undefined && fetched.size !== job.fileSize) {
+      throw new Error('The dataset at this URL changed since the registration started. Discard it and register again.');
+    }
+
+    console.log('✅ Fetched dataset:', fetched.name, fetched.size, 'bytes');
+    return fetched;
+  }
+
+  if (!sourceFile) {
+    throw new Error(`Select ${job.source.fileName} again to resume this registration`);
+  }
+
+  if (sourceFile.name !== job.source.fileName || sourceFile.size !== job.source.fileSize) {
+    throw new Error(`Selected file does not match ${job.source.fileName} (${job.source.fileSize} bytes)`);
+  }
+
+  return sourceFile;
+}
@@ -0,0 +1,183 @@
+/**
+ * Revision Pinning
+ *
+ * GitHub and Hugging Face URLs usually name a branch ("main"), so the same URL can serve
+ * different bytes tomorrow. Before a URL dataset is fetched and hashed, its ref is resolved to
+ * the commit SHA (GitHub) or revision hash (Hugging Face) it points at, and that pinned URL is
+ * the one hashed and recorded on-chain. URLs on other hosts are returned unchanged.
+ *
+ * Refs are resolved server-side by /api/pin-url (the GitHub and Hugging Face APIs are not in
+ * the browser's connect-src policy). GITHUB_TOKEN and HF_TOKEN raise rate limits and allow
+ * private or gated repositories.
+ */
+
+export type PinnableHost = 'github' | 'huggingface';
+
+export interface PinnableUrl {
+  host: PinnableHost;
+  url: URL;
+  repo: string;                 // "owner/name"
+  repoType?: 'models' | 'datasets' | 'spaces';  // Hugging Face only
+  prefix: string[];             // Path segments before the ref
+  refSegments: string[];        // Ref and path segments - where the ref ends is resolved by the host
+}
+
+export interface PinnedUrl {
+  url: string;                  // URL pinned to an immutable revision (the original if not pinnable)
+  original: string;             // URL as entered
+  revision: string | null;      // Commit SHA / revision hash, null if the host has no revisions
+}
+
+const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+const RESOLVE_TIMEOUT = 15000;  // 15s
+
+/**
+ * Split a GitHub or Hugging Face file URL into repository, ref and path
+ *
+ * @returns null if the URL is not a file URL on either host
+ */
+export function parsePinnableUrl(input: string | URL): PinnableUrl | null {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const hostname = url.hostname.toLowerCase();
+
+  // raw.githubusercontent.com/<owner>/<repo>/<ref>/<path>
+  if (hostname === 'raw.githubusercontent.com' && segments.length >= 4) {
+    const [owner, name, ...rest] = segments;
+    return { host: 'github', url, repo: `${owner}/${name}`, prefix: [owner, name], refSegments: rest };
+  }
+
+  // github.com/<owner>/<repo>/(raw|blob)/<ref>/<path>
+  if (hostname === 'github.com' && segments.length >= 5 && (segments[2] === 'raw' || segments[2] === 'blob')) {
+    const [owner, name, kind, ...rest] = segments;
+    return { host: 'github', url, repo: `${owner}/${name}`, prefix: [owner, name, kind], refSegments: rest };
+  }
+
+  // huggingface.co/[datasets|spaces/]<owner>/<repo>/(resolve|blob)/<revision>/<path>
+  if (hostname === 'huggingface.co') {
+    const repoType = segments[0] === 'datasets' || segments[0] === 'spaces' ? segments[0] : 'models';
+    const offset = repoType === 'models' ? 0 : 1;
+    const [owner, name, kind, ...rest] = segments.slice(offset);
+    if (!owner || !name || (kind !== 'resolve' && kind !== 'blob') || rest.length < 2) return null;
+    return {
+      host: 'huggingface',
+      url,
+      repo: `${owner}/${name}`,
+      repoType,
+      prefix: [...segments.slice(0, offset), owner, name, kind],
+      // Hugging Face encodes slashes in revisions (refs%2Fconvert%2Fparquet) - one segment is the ref
+      refSegments: rest,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a URL already names an immutable revision (a full commit SHA)
+ */
+export function isPinnedUrl(input: string | URL): boolean {
+  const parsed = parsePinnableUrl(input);
+  return !!parsed && COMMIT_SHA.test(parsed.refSegments[0]);
+}
+
+/**
+ * Resolve the ref of a GitHub or Hugging Face URL to its commit SHA (server-side)
+ *
+ * @param input - Dataset URL
+ * @returns The pinned URL; URLs on other hosts and URLs already naming a SHA come back unchanged
+ * @throws If the ref cannot be resolved
+ */
+export async function resolvePinnedUrl(input: string): Promise<PinnedUrl> {
+  const parsed = parsePinnableUrl(input);
+  if (!parsed) return { url: input, original: input, revision: null };
+
+  if (isPinnedUrl(parsed.url)) {
+    return { url: input, original: input, revision: parsed.refSegments[0].toLowerCase() };
+  }
+
+  const resolved = parsed.host === 'github' ? await resolveGitHubRef(parsed) : await resolveHuggingFaceRevision(parsed);
+  if (!resolved) {
+    throw new Error(`Cannot resolve ${parsed.refSegments[0]} in ${parsed.repo} to a commit`);
+  }
+
+  const pinned = new URL(parsed.url);
+  pinned.pathname = '/' + [...parsed.prefix, resolved.sha, ...parsed.refSegments.slice(resolved.refLength)].join('/');
+  return { url: pinned.toString(), original: input, revision: resolved.sha };
+}
+
+/**
+ * Pin a dataset URL to an immutable revision through /api/pin-url
+ *
+ * @returns The pinned URL (unchanged for hosts without revisions)
+ * @throws If the host has revisions but the ref cannot be resolved
+ */
+export async function pinDatasetUrl(url: string): Promise<PinnedUrl> {
+  if (!parsePinnableUrl(url)) return { url, original: url, revision: null };
+
+  const response = await fetch(`/api/pin-url?url=${encodeURIComponent(url)}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to pin URL to a revision: ${response.statusText}`);
+  }
+  return body as PinnedUrl;
+}
+
+async function resolveGitHubRef(parsed: PinnableUrl): Promise<{ sha: string; refLength: number } | null> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github.sha',
+    'User-Agent': 'SealTrust/1.0',
+  };
+  if (process.env.GITHUB_TOKEN) headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+
+  // refs/heads/<branch> and refs/tags/<tag> name the ref explicitly
+  let { refSegments } = parsed;
+  let skipped = 0;
+  if (refSegments[0] === 'refs' && (refSegments[1] === 'heads' || refSegments[1] === 'tags')) {
+    refSegments = refSegments.slice(2);
+    skipped = 2;
+  }
+
+  // Branch names may contain slashes - try the shortest ref first, leaving at least the file name
+  for (let length = 1; length < refSegments.length && length <= 3; length++) {
+    const ref = refSegments.slice(0, length).map(decodeURIComponent).join('/');
+    const response = await fetch(
+      `https://api.github.com/repos/${parsed.repo}/commits/${encodeURIComponent(ref)}`,
+      { headers, signal: AbortSignal.timeout(RESOLVE_TIMEOUT), cache: 'no-store' }
+    );
+
+    if (response.ok) {
+      const sha = (await response.text()).trim();
+      if (COMMIT_SHA.test(sha)) return { sha: sha.toLowerCase(), refLength: skipped + length };
+    } else if (response.status !== 404 && response.status !== 422) {
+      throw new Error(`GitHub API error resolving ${ref}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  return null;
+}
+
+async function resolveHuggingFaceRevision(parsed: PinnableUrl): Promise<{ sha: string; refLength: number } | null> {
+  const headers: Record<string, string> = { 'User-Agent': 'SealTrust/1.0' };
+  if (process.env.HF_TOKEN) headers.Authorization = `Bearer ${process.env.HF_TOKEN}`;
+
+  const revision = parsed.refSegments[0];   // Still URL-encoded, as the API expects
+  const response = await fetch(
+    `https://huggingface.co/api/${parsed.repoType}/${parsed.repo}/revision/${revision}`,
+    { headers, signal: AbortSignal.timeout(RESOLVE_TIMEOUT), cache: 'no-store' }
+  );
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Hugging Face API error resolving ${decodeURIComponent(revision)}: ${response.status} ${response.statusText}`);
+  }
+
+  const { sha } = await response.json() as { sha?: string };
+  return sha && COMMIT_SHA.test(sha) ? { sha: sha.toLowerCase(), refLength: 1 } : null;
+}
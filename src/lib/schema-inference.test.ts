@@ -0,0 +1,191 @@
+// @vitest-environment node
+import { createHash } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { binary, i32, i64, list, parquetFile, struct } from '../test/parquet';
+import {
+  DatasetSchema,
+  canonicalSchemaDocument,
+  inferDatasetSchema,
+  inferJsonValueType,
+  inferTextValueType,
+  mergeColumnTypes,
+  schemaFingerprint,
+} from './schema-inference';
+
+function file(content: string | Blob, name = 'data'): File {
+  return new File([content], name);
+}
+
+describe('inferTextValueType', () => {
+  it.each([
+    ['true', 'boolean'],
+    ['FALSE', 'boolean'],
+    ['42', 'integer'],
+    ['-7', 'integer'],
+    ['3.14', 'number'],
+    ['.5', 'number'],
+    ['1e10', 'number'],
+    ['2024-01-31', 'date'],
+    ['2024-01-31T12:00:00Z', 'timestamp'],
+    ['2024-01-31 12:00:00.123+02:00', 'timestamp'],
+    ['12abc', 'string'],
+    ['2024-1-31', 'string'],
+  ])('infers %j as %s', (value, type) => {
+    expect(inferTextValueType(value)).toBe(type);
+  });
+});
+
+describe('inferJsonValueType', () => {
+  it('types parsed JSON values', () => {
+    expect(inferJsonValueType(true)).toBe('boolean');
+    expect(inferJsonValueType(1)).toBe('integer');
+    expect(inferJsonValueType(1.5)).toBe('number');
+    expect(inferJsonValueType('2024-01-31')).toBe('date');
+    expect(inferJsonValueType('hello')).toBe('string');
+    expect(inferJsonValueType([1])).toBe('array');
+    expect(inferJsonValueType({ a: 1 })).toBe('object');
+  });
+});
+
+describe('mergeColumnTypes', () => {
+  it('widens to the narrowest common type', () => {
+    expect(mergeColumnTypes('integer', 'integer')).toBe('integer');
+    expect(mergeColumnTypes('integer', 'number')).toBe('number');
+    expect(mergeColumnTypes('number', 'integer')).toBe('number');
+    expect(mergeColumnTypes('timestamp', 'date')).toBe('timestamp');
+    expect(mergeColumnTypes('integer', 'boolean')).toBe('string');
+    expect(mergeColumnTypes('object', 'array')).toBe('string');
+  });
+});
+
+describe('inferDatasetSchema', () => {
+  it('infers CSV columns from the sampled rows', async () => {
+    const csv = 'id,price,active,day,note\n1,9.5,true,2024-01-01,"a, b"\n2,10,false,2024-01-02T08:00:00Z,\n';
+    expect(await inferDatasetSchema(file(csv), 'CSV')).toEqual({
+      format: 'CSV',
+      columns: [
+        { name: 'id', type: 'integer', nullable: false },
+        { name: 'price', type: 'number', nullable: false },
+        { name: 'active', type: 'boolean', nullable: false },
+        { name: 'day', type: 'timestamp', nullable: false },
+        { name: 'note', type: 'string', nullable: true },
+      ],
+      sampledRows: 2,
+    });
+  });
+
+  it('infers TSV columns and treats short rows as missing values', async () => {
+    const schema = await inferDatasetSchema(file('a\tb\r\n1\t2\r\n3\r\n'), 'TSV');
+    expect(schema?.columns).toEqual([
+      { name: 'a', type: 'integer', nullable: false },
+      { name: 'b', type: 'integer', nullable: true },
+    ]);
+  });
+
+  it('gives all-empty columns the null type', async () => {
+    const schema = await inferDatasetSchema(file('a,b\n1,\n2,\n'), 'CSV');
+    expect(schema?.columns[1]).toEqual({ name: 'b', type: 'null', nullable: true });
+  });
+
+  it('infers JSON columns in first-seen order', async () => {
+    const json = JSON.stringify([{ id: 1, tags: ['x'] }, { id: 2.5, meta: { a: 1 } }, { id: 3, tags: null }]);
+    expect(await inferDatasetSchema(file(json), 'JSON')).toEqual({
+      format: 'JSON',
+      columns: [
+        { name: 'id', type: 'number', nullable: false },
+        { name: 'tags', type: 'array', nullable: true },
+        { name: 'meta', type: 'object', nullable: true },
+      ],
+      sampledRows: 3,
+    });
+  });
+
+  it('reads a single JSON object as one record', async () => {
+    const schema = await inferDatasetSchema(file('{"name": "a", "when": "2024-01-01"}'), 'JSON');
+    expect(schema?.columns).toEqual([
+      { name: 'name', type: 'string', nullable: false },
+      { name: 'when', type: 'date', nullable: false },
+    ]);
+  });
+
+  it('infers JSON Lines columns', async () => {
+    const schema = await inferDatasetSchema(file('{"a": 1}\n\n{"a": 2, "b": true}\n'), 'JSONL');
+    expect(schema).toEqual({
+      format: 'JSONL',
+      columns: [
+        { name: 'a', type: 'integer', nullable: false },
+        { name: 'b', type: 'boolean', nullable: true },
+      ],
+      sampledRows: 2,
+    });
+  });
+
+  it('reads Parquet columns from the footer', async () => {
+    const parquet = parquetFile({
+      1: i32(1),
+      2: list(
+        struct({ 4: binary('schema'), 5: i32(5) }),
+        struct({ 1: i32(2), 3: i32(0), 4: binary('id') }),                                  // INT64
+        struct({ 1: i32(6), 3: i32(1), 4: binary('name'), 10: struct({ 1: struct({}) }) }),  // STRING
+        struct({ 1: i32(1), 3: i32(1), 4: binary('day'), 6: i32(6) }),                       // DATE
+        struct({ 1: i32(5), 3: i32(2), 4: binary('scores') }),                               // Repeated DOUBLE
+        struct({ 3: i32(1), 4: binary('address'), 5: i32(1) }),                              // Group
+        struct({ 1: i32(6), 3: i32(0), 4: binary('city'), 6: i32(0) }),
+      ),
+      3: i64(0),
+    });
+
+    expect(await inferDatasetSchema(file(parquet), 'PARQUET')).toEqual({
+      format: 'PARQUET',
+      columns: [
+        { name: 'id', type: 'integer', nullable: false },
+        { name: 'name', type: 'string', nullable: true },
+        { name: 'day', type: 'date', nullable: true },
+        { name: 'scores', type: 'array', nullable: false },
+        { name: 'address', type: 'object', nullable: true },
+      ],
+      sampledRows: null,
+    });
+  });
+
+  it('returns null for formats without an inferable schema or content that does not parse', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await inferDatasetSchema(file('<rows/>'), 'XML')).toBeNull();
+    expect(await inferDatasetSchema(file('{"a": '), 'JSON')).toBeNull();
+    expect(await inferDatasetSchema(file('not,parquet'), 'PARQUET')).toBeNull();
+    expect(await inferDatasetSchema(file('[1, 2, 3]'), 'JSON')).toBeNull();
+    expect(await inferDatasetSchema(file('\n\n'), 'CSV')).toBeNull();
+  });
+});
+
+describe('schema fingerprint', () => {
+  const schema: DatasetSchema = {
+    format: 'CSV',
+    columns: [
+      { name: 'id', type: 'integer', nullable: false },
+      { name: 'name', type: 'string', nullable: true },
+    ],
+    sampledRows: 10,
+  };
+
+  it('serializes the columns canonically', () => {
+    expect(canonicalSchemaDocument(schema)).toBe(
+      '{"version":1,"columns":[{"name":"id","type":"integer","nullable":false},{"name":"name","type":"string","nullable":true}]}'
+    );
+  });
+
+  it('is the SHA-256 of the canonical document', async () => {
+    const expected = createHash('sha256').update(canonicalSchemaDocument(schema)).digest('hex');
+    expect(await schemaFingerprint(schema)).toBe(expected);
+  });
+
+  it('ignores the format and sample size, not the columns', async () => {
+    const fingerprint = await schemaFingerprint(schema);
+    expect(await schemaFingerprint({ ...schema, format: 'PARQUET', sampledRows: null })).toBe(fingerprint);
+    expect(await schemaFingerprint({ ...schema, columns: [...schema.columns].reverse() })).not.toBe(fingerprint);
+    expect(await schemaFingerprint({
+      ...schema,
+      columns: [{ ...schema.columns[0], nullable: true }, schema.columns[1]],
+    })).not.toBe(fingerprint);
+  });
+});
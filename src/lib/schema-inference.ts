@@ -0,0 +1,220 @@
+import { DatasetFormat, readDatasetHead } from './dataset-format';
+import { DelimitedParser } from './delimited-parser';
+import { ParquetSchemaElement, readParquetMetadata } from './parquet-metadata';
+import { bytesToHex } from './utils/crypto';
+
+/**
+ * Schema Inference
+ *
+ * Infers a dataset's columns - name, type and nullability - in the browser: CSV/TSV and
+ * JSON/JSON Lines from a sample of their first rows, Parquet from its footer. The schema is
+ * serialized to one canonical JSON document, and the SHA-256 of that document is the schema
+ * fingerprint recorded with the dataset (./dataset-source).
+ *
+ * Two files with the same fingerprint have the same columns in the same order with the same
+ * types, whatever their content.
+ */
+
+export type SchemaColumnType =
+  | 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'timestamp' | 'binary' | 'array' | 'object' | 'null';
+
+export interface SchemaColumn {
+  name: string;
+  type: SchemaColumnType;
+  nullable: boolean;
+}
+
+export interface DatasetSchema {
+  format: DatasetFormat;
+  columns: SchemaColumn[];
+  sampledRows: number | null;    // Rows the types were inferred from (null when read from the file's metadata)
+}
+
+// Bumped whenever inference or the document layout changes - older fingerprints stop matching
+export const SCHEMA_DOCUMENT_VERSION = 1;
+
+const SAMPLE_BYTES = 1024 * 1024;
+const SAMPLE_ROWS = 1000;
+const MAX_JSON_DOCUMENT_BYTES = 16 * 1024 * 1024;
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Infer the schema of a dataset file
+ *
+ * @param file - Dataset file (text formats are sampled, Parquet only has its footer read)
+ * @param format - Canonical format of the file (see detectDatasetFormat)
+ * @returns The schema, or null if the format has no inferable schema or the content does not parse
+ */
+export async function inferDatasetSchema(file: File, format: DatasetFormat): Promise<DatasetSchema | null> {
+  try {
+    if (format === 'PARQUET') {
+      const metadata = await readParquetMetadata(file);
+      return { format, columns: metadata.columns.map(parquetColumn), sampledRows: null };
+    }
+
+    if (!['CSV', 'TSV', 'JSON', 'JSONL'].includes(format)) return null;
+
+    const maxBytes = format === 'JSON' ? MAX_JSON_DOCUMENT_BYTES : SAMPLE_BYTES;
+    const { bytes, complete, compression } = await readDatasetHead(file, maxBytes);
+    if (!bytes || compression === 'zip') return null;
+
+    const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '');
+
+    if (format === 'JSON') {
+      return complete ? schemaFromRecords(format, jsonRecords(JSON.parse(text))) : null;
+    }
+
+    const lines = text.split(/\r?\n/);
+    if (!complete) lines.pop();                // Last line may be cut off
+
+    if (format === 'JSONL') {
+      const records = lines.filter(line => line.trim()).slice(0, SAMPLE_ROWS).map(line => JSON.parse(line));
+      return schemaFromRecords(format, records);
+    }
+
+    return schemaFromDelimited(format, lines.join('\n'), format === 'TSV' ? '\t' : ',');
+  } catch (error) {
+    console.warn('⚠️ Could not infer dataset schema:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Canonical schema document - fixed key order, no whitespace, column order kept
+ */
+export function canonicalSchemaDocument(schema: DatasetSchema): string {
+  return JSON.stringify({
+    version: SCHEMA_DOCUMENT_VERSION,
+    columns: schema.columns.map(column => ({ name: column.name, type: column.type, nullable: column.nullable })),
+  });
+}
+
+/**
+ * SHA-256 of the canonical schema document (the format is not part of it)
+ *
+ * @returns Hex fingerprint
+ */
+export async function schemaFingerprint(schema: DatasetSchema): Promise<string> {
+  const document = new TextEncoder().encode(canonicalSchemaDocument(schema));
+  return bytesToHex(Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', document))));
+}
+
+function schemaFromDelimited(format: DatasetFormat, text: string, delimiter: string): DatasetSchema | null {
+  const parser = new DelimitedParser(delimiter);
+  const [header, ...rows] = [...parser.push(text), ...parser.flush()].slice(0, SAMPLE_ROWS + 1);
+  if (!header || header.every(name => !name.trim())) return null;
+
+  const columns = header.map((name, index) => {
+    const values = rows.map(row => row[index] ?? '');
+    const types = values.filter(value => value.trim() !== '').map(value => inferTextValueType(value.trim()));
+    return {
+      name: name.trim(),
+      type: types.length > 0 ? types.reduce(mergeColumnTypes) : 'null',
+      nullable: types.length < values.length,
+    };
+  });
+
+  return { format, columns, sampledRows: rows.length };
+}
+
+function schemaFromRecords(format: DatasetFormat, records: unknown[]): DatasetSchema | null {
+  const objects = records.filter((record): record is Record<string, unknown> =>
+    !!record && typeof record === 'object' && !Array.isArray(record));
+  if (objects.length === 0) return null;
+
+  // Columns in first-seen order; a record without a key makes that column nullable
+  const names: string[] = [];
+  for (const record of objects) {
+    for (const name of Object.keys(record)) if (!names.includes(name)) names.push(name);
+  }
+
+  const columns = names.map(name => {
+    const types = objects
+      .map(record => record[name])
+      .filter(value => value !== null && value !== undefined)
+      .map(inferJsonValueType);
+    return {
+      name,
+      type: types.length > 0 ? types.reduce(mergeColumnTypes) : 'null',
+      nullable: types.length < objects.length,
+    };
+  });
+
+  return { format, columns, sampledRows: objects.length };
+}
+
+/**
+ * Records of a JSON document: an array of objects, or one object
+ */
+function jsonRecords(document: unknown): unknown[] {
+  return (Array.isArray(document) ? document : [document]).slice(0, SAMPLE_ROWS);
+}
+
+/**
+ * Type of a parsed JSON value (not null)
+ */
+export function inferJsonValueType(value: unknown): SchemaColumnType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string') return DATE_PATTERN.test(value) ? 'date' : TIMESTAMP_PATTERN.test(value) ? 'timestamp' : 'string';
+  return Array.isArray(value) ? 'array' : 'object';
+}
+
+/**
+ * Type of a non-empty CSV/TSV field
+ */
+export function inferTextValueType(value: string): SchemaColumnType {
+  if (/^(true|false)$/i.test(value)) return 'boolean';
+  if (INTEGER_PATTERN.test(value)) return 'integer';
+  if (NUMBER_PATTERN.test(value)) return 'number';
+  if (DATE_PATTERN.test(value)) return 'date';
+  if (TIMESTAMP_PATTERN.test(value)) return 'timestamp';
+  return 'string';
+}
+
+/**
+ * Narrowest type holding values of both types
+ */
+export function mergeColumnTypes(a: SchemaColumnType, b: SchemaColumnType): SchemaColumnType {
+  if (a === b) return a;
+  const pair = [a, b].sort().join('+');
+  if (pair === 'integer+number') return 'number';
+  if (pair === 'date+timestamp') return 'timestamp';
+  return 'string';
+}
+
+function parquetColumn(element: ParquetSchemaElement): SchemaColumn {
+  return {
+    name: element.name,
+    type: element.repetition === 'REPEATED' ? 'array' : parquetType(element),
+    nullable: element.repetition === 'OPTIONAL',
+  };
+}
+
+function parquetType(element: ParquetSchemaElement): SchemaColumnType {
+  const logical = element.logicalType;
+
+  if (element.children.length > 0 || element.physicalType === null) {
+    return logical === 'LIST' ? 'array' : 'object';
+  }
+
+  switch (logical) {
+    case 'STRING': case 'UTF8': case 'ENUM': case 'JSON': case 'UUID': return 'string';
+    case 'DATE': return 'date';
+    case 'TIMESTAMP': case 'TIMESTAMP_MILLIS': case 'TIMESTAMP_MICROS': return 'timestamp';
+    case 'DECIMAL': case 'FLOAT16': return 'number';
+    case 'TIME': case 'TIME_MILLIS': case 'TIME_MICROS': return 'string';
+  }
+
+  switch (element.physicalType) {
+    case 'BOOLEAN': return 'boolean';
+    case 'INT32': case 'INT64': return 'integer';
+    case 'INT96': return 'timestamp';
+    case 'FLOAT': case 'DOUBLE': return 'number';
+    default: return 'binary';
+  }
+}
@@ -1,9 +1,24 @@
 import { SealClient, SessionKey } from '@mysten/seal';
 import { get, set } from 'idb-keyval';
 import { SuiClient } from '@mysten/sui/client';
-import { fromHex } from '@mysten/sui/utils';
+import { fromHex, toHex } from '@mysten/sui/utils';
+import { sha256 } from '@noble/hashes/sha2';
 import { allowlistService } from './allowlist-service';
 import { CONFIG } from './constants';
+import { getNetworkProfile } from './networks';
+import { EncryptedChunk, HashProgress, SignedChunkManifest, UploadedChunk } from './types';
+import { hashFileStreaming } from './utils/crypto';
+
+/**
+ * Thrown when a resumed chunked encryption reads a chunk that no longer matches the one
+ * uploaded by the interrupted run
+ */
+export class DatasetChangedError extends Error {
+  constructor(chunkIndex: number) {
+    super(`The file changed since the registration started (chunk ${chunkIndex + 1} differs from the uploaded one). Discard it and register again.`);
+    this.name = 'DatasetChangedError';
+  }
+}
 
 export class SealService {
   /**
@@ -18,7 +33,7 @@ export class SealService {
     // The SuiClient from dapp-kit now includes the experimental extensions Seal needs
     return new SealClient({
       suiClient,
-      serverConfigs: CONFIG.SEAL_KEY_SERVERS.map(objectId => ({
+      serverConfigs: getNetworkProfile().sealKeyServers.map(objectId => ({
         objectId,
         weight: 1, // Equal weight for all servers
       })),
@@ -28,15 +43,13 @@ export class SealService {
 
   /**
    * Hash file BEFORE encryption (critical for integrity verification!)
+   * Streams the file through a Web Worker, so the file is never held in memory at once
    * @param file - File to hash
+   * @param onProgress - Optional callback with bytes hashed so far
    * @returns SHA-256 hash as hex string
    */
-  async hashFile(file: File): Promise<string> {
-    const buffer = await file.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-    return Array.from(new Uint8Array(hashBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+  async hashFile(file: File, onProgress?: (progress: HashProgress) => void): Promise<string> {
+    return hashFileStreaming(file, onProgress);
   }
 
   /**
@@ -127,6 +140,80 @@ export class SealService {
     }
   }
 
+  /**
+   * Encrypt a large dataset chunk by chunk with Seal
+   * Every chunk is encrypted under the same policy ID, so one key fetch decrypts them all.
+   * Only one chunk is held in memory at a time; each is handed to `onChunk` (e.g. to upload it)
+   * before the next one is read. The original hash is computed incrementally along the way.
+   *
+   * @param file - File to encrypt
+   * @param packageId - Seal package ID
+   * @param allowlistId - Allowlist object ID (namespace for policy ID)
+   * @param suiClient - SuiClient instance from dapp-kit
+   * @param chunkSize - Plaintext bytes per chunk
+   * @param onChunk - Called with each encrypted chunk, in order
+   * @param resume - Continue an interrupted run: reuse its policy ID and skip chunks already stored
+   *                 (skipped chunks are still read so the original hash covers the whole file, and
+   *                 must match their stored size and plaintext hash)
+   * @returns Policy ID, original hash of the whole file, and number of chunks
+   */
+  async encryptDatasetChunked(
+    file: File,
+    packageId: string,
+    allowlistId: string,
+    suiClient: SuiClient,
+    chunkSize: number,
+    onChunk: (chunk: EncryptedChunk) => Promise<void>,
+    resume?: { policyId: string; chunks: UploadedChunk[] }
+  ): Promise<{
+    policyId: string;
+    originalHash: string;
+    chunkCount: number;
+  }> {
+    const policyId = resume?.policyId || allowlistService.generatePolicyId(allowlistId);
+    const storedChunks = resume?.chunks || [];
+    const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+    const client = this.createSealClient(suiClient);
+    const hasher = sha256.create();
+
+    console.log(`Encrypting dataset in ${chunkCount} chunk(s) of ${chunkSize} bytes...`);
+    console.log('  Package ID:', packageId);
+    console.log('  Policy ID:', policyId);
+
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * chunkSize;
+      const plaintext = new Uint8Array(await file.slice(start, start + chunkSize).arrayBuffer());
+      hasher.update(plaintext);
+
+      if (index < storedChunks.length) {
+        const stored = storedChunks[index];
+        if (plaintext.byteLength !== stored.size || await this.hashData(plaintext) !== stored.plaintext_hash) {
+          throw new DatasetChangedError(index);
+        }
+        continue;
+      }
+
+      const encrypted = await client.encrypt({
+        threshold: 2,
+        packageId,
+        id: policyId,
+        data: plaintext,
+      });
+
+      await onChunk({
+        index,
+        encryptedData: encrypted.encryptedObject,
+        plaintextSize: plaintext.byteLength,
+        plaintextHash: await this.hashData(plaintext),
+      });
+    }
+
+    const originalHash = toHex(hasher.digest());
+    console.log('Chunked encryption complete. Original hash:', originalHash);
+
+    return { policyId, originalHash, chunkCount };
+  }
+
   /**
    * Get or create session key with persistence
    * Session keys are valid for 10 minutes and stored in IndexedDB
@@ -278,8 +365,124 @@ export class SealService {
       signPersonalMessage
     );
 
-    // Build approval transaction for Seal access control
-    // This follows the official Seal pattern from AllowlistView.tsx
+    const txBytes = await this.buildApprovalTxBytes(
+      policyId,
+      allowlistId,
+      allowlistPackageId,
+      address,
+      suiClient
+    );
+
+    // Convert ArrayBuffer to Uint8Array
+    const encryptedData = new Uint8Array(encryptedBlob);
+
+    // Decrypt with proper approval
+    return this.decryptDataset(encryptedData, sessionKey, txBytes, suiClient);
+  }
+
+  /**
+   * High-level API: Download and decrypt a chunked dataset described by a manifest
+   * Each chunk is fetched, checked against its encrypted hash and size, decrypted,
+   * and appended to a Blob, so the whole dataset never sits in one buffer.
+   * The hash of the reassembled file is checked against the manifest's original hash.
+   *
+   * @param signedManifest - Signed chunk manifest (signature must already be verified)
+   * @param allowlistId - Allowlist object ID for access control
+   * @param packageId - Seal package ID
+   * @param allowlistPackageId - Seal allowlist package ID for approval
+   * @param address - User's wallet address
+   * @param suiClient - SuiClient instance from dapp-kit
+   * @param signPersonalMessage - Function to sign personal message (from dapp-kit)
+   * @param fetchChunk - Downloads one encrypted chunk by Walrus blob ID
+   * @param mimeType - MIME type of the reassembled Blob
+   * @param onProgress - Called after each chunk with chunks completed so far
+   * @returns Decrypted dataset as a Blob
+   */
+  async downloadAndDecryptChunkedDataset(
+    signedManifest: SignedChunkManifest,
+    allowlistId: string,
+    packageId: string,
+    allowlistPackageId: string,
+    address: string,
+    suiClient: SuiClient,
+    signPersonalMessage: (msg: { message: Uint8Array }) => Promise<{ signature: string }>,
+    fetchChunk: (blobId: string) => Promise<ArrayBuffer>,
+    mimeType: string,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<Blob> {
+    const { manifest } = signedManifest;
+
+    const sessionKey = await this.getOrCreateSessionKey(
+      packageId,
+      address,
+      suiClient,
+      signPersonalMessage
+    );
+    const txBytes = await this.buildApprovalTxBytes(
+      manifest.seal_policy_id,
+      allowlistId,
+      allowlistPackageId,
+      address,
+      suiClient
+    );
+
+    // Reuse one client so the decryption keys are fetched once for all chunks
+    const client = this.createSealClient(suiClient);
+    const hasher = sha256.create();
+    const parts: Blob[] = [];
+
+    for (const chunk of manifest.chunks) {
+      const encryptedData = new Uint8Array(await fetchChunk(chunk.blob_id));
+
+      if (await this.hashData(encryptedData) !== chunk.encrypted_hash) {
+        throw new Error(`Chunk ${chunk.index + 1} of ${manifest.chunks.length} does not match the manifest (encrypted hash mismatch)`);
+      }
+
+      const decrypted = await client.decrypt({
+        data: encryptedData,
+        sessionKey,
+        txBytes,
+      });
+
+      if (decrypted.byteLength !== chunk.size) {
+        throw new Error(`Chunk ${chunk.index + 1} of ${manifest.chunks.length} failed integrity check after decryption`);
+      }
+
+      hasher.update(decrypted);
+      // Hand each chunk to a Blob right away so the browser can page it out of memory
+      parts.push(new Blob([new Uint8Array(decrypted)]));
+      onProgress?.(chunk.index + 1, manifest.chunks.length);
+    }
+
+    const actualHash = toHex(hasher.digest());
+    if (actualHash !== manifest.original_hash) {
+      console.error('Expected hash:', manifest.original_hash);
+      console.error('Actual hash:', actualHash);
+      throw new Error('Integrity check failed! Hash mismatch after reassembling chunks.');
+    }
+
+    console.log('✅ Reassembled', manifest.chunks.length, 'chunk(s), integrity verified');
+    return new Blob(parts, { type: mimeType });
+  }
+
+  /**
+   * Build the seal_approve transaction kind bytes Seal key servers evaluate
+   * This follows the official Seal pattern from AllowlistView.tsx
+   *
+   * @param policyId - Seal policy ID (hex, no 0x prefix)
+   * @param allowlistId - Allowlist object ID
+   * @param allowlistPackageId - Seal allowlist package ID
+   * @param address - User's wallet address
+   * @param suiClient - SuiClient instance from dapp-kit
+   * @returns Transaction kind bytes
+   */
+  private async buildApprovalTxBytes(
+    policyId: string,
+    allowlistId: string,
+    allowlistPackageId: string,
+    address: string,
+    suiClient: SuiClient
+  ): Promise<Uint8Array> {
     console.log('Building Seal approval transaction...');
     console.log('  Policy ID:', policyId);
     console.log('  Allowlist ID:', allowlistId);
@@ -308,11 +511,7 @@ export class SealService {
     });
     console.log('Approval transaction built:', txBytes.length, 'bytes');
 
-    // Convert ArrayBuffer to Uint8Array
-    const encryptedData = new Uint8Array(encryptedBlob);
-
-    // Decrypt with proper approval
-    return this.decryptDataset(encryptedData, sessionKey, txBytes, suiClient);
+    return txBytes;
   }
 
   /**
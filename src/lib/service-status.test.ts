@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkWalrusEndpoint } from './service-status';
+
+describe('checkWalrusEndpoint', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports an endpoint the CSP allows as up or down from its response', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 404 }))
+      .mockResolvedValueOnce(new Response(null, { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const up = await checkWalrusEndpoint('walrus-aggregator', 'https://aggregator.walrus-testnet.walrus.space');
+    const down = await checkWalrusEndpoint('walrus-aggregator', 'https://aggregator.walrus-testnet.walrus.space');
+
+    expect(up).toMatchObject({ status: 'up', detail: 'HTTP 404' });
+    expect(down).toMatchObject({ status: 'down', detail: 'HTTP 503', latencyMs: null });
+    expect(fetchMock).toHaveBeenCalledWith('https://aggregator.walrus-testnet.walrus.space/v1/api', expect.anything());
+  });
+
+  it('reports an endpoint outside connect-src as blocked without fetching it', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await checkWalrusEndpoint('walrus-publisher', 'https://publisher.example.com');
+
+    expect(result).toEqual({
+      kind: 'walrus-publisher',
+      name: 'Walrus publisher',
+      endpoint: 'https://publisher.example.com',
+      status: 'blocked',
+      latencyMs: null,
+      detail: 'Blocked by CSP - the origin is not in connect-src',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed request to an allowed endpoint as down', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    const result = await checkWalrusEndpoint('walrus-publisher', 'https://publisher.walrus-testnet.walrus.space');
+
+    expect(result).toMatchObject({ status: 'down', detail: 'Failed to fetch' });
+  });
+});
@@ -0,0 +1,159 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { SealClient } from '@mysten/seal';
+import { isConnectAllowed } from './content-security-policy';
+import { NetworkProfile } from './networks';
+
+/**
+ * Service Status Checks
+ *
+ * Live checks of every service a network profile depends on - the Sui fullnode, the Nautilus
+ * enclave, each Seal key server and each Walrus aggregator and publisher - with their latency.
+ * The checks run in the browser, so an endpoint the CSP's connect-src does not allow is
+ * reported as 'blocked' without being fetched - the app itself could not reach it either.
+ * A check never throws: failures come back as a 'down' result with the reason.
+ */
+
+export type ServiceKind = 'sui' | 'nautilus' | 'seal' | 'walrus-aggregator' | 'walrus-publisher';
+
+export interface ServiceCheckResult {
+  kind: ServiceKind;
+  name: string;
+  endpoint: string;
+  status: 'up' | 'down' | 'blocked'; // blocked: the CSP does not allow the endpoint
+  latencyMs: number | null;      // Time to respond (null if it never did)
+  detail?: string;               // Version, checkpoint or failure reason
+}
+
+const CHECK_TIMEOUT = 10_000;
+
+/**
+ * Check every service of a network profile
+ * Checks run in parallel; results keep the order fullnode, Nautilus, Seal, Walrus.
+ *
+ * @param profile - Network profile to check
+ * @param suiClient - SuiClient connected to the profile's network
+ */
+export async function checkAllServices(
+  profile: NetworkProfile,
+  suiClient: SuiClient
+): Promise<ServiceCheckResult[]> {
+  const groups = await Promise.all([
+    checkSuiFullnode(profile, suiClient).then(result => [result]),
+    checkNautilus(profile).then(result => [result]),
+    Promise.all(profile.sealKeyServers.map(objectId => checkSealKeyServer(objectId, suiClient))),
+    Promise.all(profile.walrusAggregators.map(url => checkWalrusEndpoint('walrus-aggregator', url))),
+    Promise.all(profile.walrusPublishers.map(url => checkWalrusEndpoint('walrus-publisher', url))),
+  ]);
+  return groups.flat();
+}
+
+/**
+ * Fullnode: latest checkpoint
+ */
+export async function checkSuiFullnode(profile: NetworkProfile, suiClient: SuiClient): Promise<ServiceCheckResult> {
+  const base = { kind: 'sui' as const, name: `Sui ${profile.label} fullnode`, endpoint: profile.rpcUrl };
+  return timed(base, profile.rpcUrl, async () => {
+    const checkpoint = await withTimeout(suiClient.getLatestCheckpointSequenceNumber());
+    return `checkpoint ${checkpoint}`;
+  });
+}
+
+/**
+ * Nautilus enclave: GET /health
+ */
+export async function checkNautilus(profile: NetworkProfile): Promise<ServiceCheckResult> {
+  const endpoint = `${profile.nautilusUrl}/health`;
+  return timed({ kind: 'nautilus', name: 'Nautilus enclave', endpoint }, endpoint, async () => {
+    const response = await fetchWithTimeout(endpoint);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return `HTTP ${response.status}`;
+  });
+}
+
+/**
+ * Seal key server: resolve its URL from the on-chain object, then GET /v1/service
+ * The on-chain lookup is not counted in the latency.
+ */
+export async function checkSealKeyServer(objectId: string, suiClient: SuiClient): Promise<ServiceCheckResult> {
+  const base = { kind: 'seal' as const, name: `Seal key server ${shortId(objectId)}`, endpoint: objectId };
+
+  let server;
+  try {
+    // One client per server so a single broken key server does not fail the others
+    const sealClient = new SealClient({
+      suiClient,
+      serverConfigs: [{ objectId, weight: 1 }],
+      verifyKeyServers: false,
+    });
+    server = (await withTimeout(sealClient.getKeyServers())).get(objectId);
+    if (!server) throw new Error('Key server object not found');
+  } catch (error) {
+    return { ...base, status: 'down', latencyMs: null, detail: errorMessage(error) };
+  }
+
+  const endpoint = `${server.url}/v1/service?service_id=${objectId}`;
+  return timed({ ...base, name: `Seal: ${server.name}`, endpoint: server.url }, endpoint, async () => {
+    const response = await fetchWithTimeout(endpoint);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.headers.get('X-KeyServer-Version') ?? `HTTP ${response.status}`;
+  });
+}
+
+/**
+ * Walrus aggregator or publisher: GET /v1/api
+ * Any response below 500 means the node is serving requests.
+ */
+export async function checkWalrusEndpoint(
+  kind: 'walrus-aggregator' | 'walrus-publisher',
+  url: string
+): Promise<ServiceCheckResult> {
+  const name = kind === 'walrus-aggregator' ? 'Walrus aggregator' : 'Walrus publisher';
+  return timed({ kind, name, endpoint: url }, url, async () => {
+    const response = await fetchWithTimeout(`${url}/v1/api`);
+    if (response.status >= 500) throw new Error(`HTTP ${response.status}`);
+    return `HTTP ${response.status}`;
+  });
+}
+
+async function timed(
+  base: Pick<ServiceCheckResult, 'kind' | 'name' | 'endpoint'>,
+  url: string,
+  check: () => Promise<string>
+): Promise<ServiceCheckResult> {
+  if (!isConnectAllowed(url)) {
+    return { ...base, status: 'blocked', latencyMs: null, detail: 'Blocked by CSP - the origin is not in connect-src' };
+  }
+
+  const startedAt = performance.now();
+  try {
+    const detail = await check();
+    return { ...base, status: 'up', latencyMs: Math.round(performance.now() - startedAt), detail };
+  } catch (error) {
+    return { ...base, status: 'down', latencyMs: null, detail: errorMessage(error) };
+  }
+}
+
+function fetchWithTimeout(url: string): Promise<Response> {
+  return fetch(url, { method: 'GET', cache: 'no-store', signal: AbortSignal.timeout(CHECK_TIMEOUT) });
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT / 1000}s`)), CHECK_TIMEOUT);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return `Timed out after ${CHECK_TIMEOUT / 1000}s`;
+  }
+  return error instanceof Error ? error.message : 'Unreachable';
+}
+
+function shortId(id: string): string {
+  return `${id.slice(0, 8)}...${id.slice(-4)}`;
+}
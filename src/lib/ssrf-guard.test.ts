@@ -0,0 +1,159 @@
+// @vitest-environment node
+import { lookup } from 'node:dns/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlockedUrlError, assertPublicHost, fetchDatasetUrl } from './ssrf-guard';
+import { DEFAULT_URL_POLICY } from './url-policy';
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+
+const lookupMock = vi.mocked(lookup) as unknown as ReturnType<typeof vi.fn>;
+const fetchMock = vi.fn<typeof fetch>();
+
+// Hostname -> addresses it resolves to
+function resolveTo(hosts: Record<string, string[]>) {
+  lookupMock.mockImplementation(async (host: string) => {
+    const addresses = hosts[host];
+    if (!addresses) throw new Error(`ENOTFOUND ${host}`);
+    return addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  });
+}
+
+function redirect(location: string, status = 302): Response {
+  return new Response(null, { status, headers: { Location: location } });
+}
+
+async function blocked(promise: Promise<unknown>) {
+  const error = await promise.then(() => null, (error: unknown) => error);
+  expect(error).toBeInstanceOf(BlockedUrlError);
+  return error as BlockedUrlError;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  fetchMock.mockReset();
+  lookupMock.mockReset();
+});
+
+describe('assertPublicHost', () => {
+  it('accepts public IP literals without a lookup', async () => {
+    await assertPublicHost('8.8.8.8');
+    await assertPublicHost('[2606:4700:4700::1111]');
+    expect(lookupMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects private IP literals', async () => {
+    for (const host of ['127.0.0.1', '[::1]', '[::ffff:10.0.0.1]', '[64:ff9b::a9fe:a9fe]']) {
+      const error = await blocked(assertPublicHost(host));
+      expect(error.rejection.code).toBe('private-address');
+      expect(error.status).toBe(403);
+    }
+  });
+
+  it('rejects names when any address they resolve to is private', async () => {
+    resolveTo({ 'rebind.example': ['93.184.216.34', '169.254.169.254'], 'mapped.example': ['::ffff:192.168.0.1'] });
+    expect((await blocked(assertPublicHost('rebind.example'))).rejection.code).toBe('private-address');
+    expect((await blocked(assertPublicHost('mapped.example'))).rejection.code).toBe('private-address');
+  });
+
+  it('accepts names that only resolve to public addresses', async () => {
+    resolveTo({ 'github.com': ['140.82.112.3', '2606:50c0:8000::154'] });
+    await assertPublicHost('github.com');
+  });
+
+  it('rejects names that do not resolve', async () => {
+    resolveTo({});
+    const error = await blocked(assertPublicHost('nowhere.example'));
+    expect(error.rejection.code).toBe('unresolvable');
+    expect(error.status).toBe(502);
+  });
+});
+
+describe('fetchDatasetUrl', () => {
+  const datasetUrl = 'https://raw.githubusercontent.com/org/repo/main/data.csv';
+
+  it('returns the first non-redirect response', async () => {
+    resolveTo({ 'raw.githubusercontent.com': ['185.199.108.133'] });
+    fetchMock.mockResolvedValueOnce(new Response('a,b\n1,2\n'));
+
+    const { response, url, maxSize } = await fetchDatasetUrl(datasetUrl, {}, DEFAULT_URL_POLICY);
+    expect(await response.text()).toBe('a,b\n1,2\n');
+    expect(url.href).toBe(datasetUrl);
+    expect(maxSize).toBe(DEFAULT_URL_POLICY.maxSize);
+    expect(fetchMock).toHaveBeenCalledWith(new URL(datasetUrl), expect.objectContaining({ redirect: 'manual' }));
+  });
+
+  it('rejects URLs off the allowlist without fetching them', async () => {
+    const error = await blocked(fetchDatasetUrl('https://example.com/data.csv', {}, DEFAULT_URL_POLICY));
+    expect(error.rejection.code).toBe('domain');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('follows redirects to allowed redirect-only domains', async () => {
+    resolveTo({
+      'github.com': ['140.82.112.3'],
+      'objects.githubusercontent.com': ['185.199.108.133'],
+    });
+    fetchMock
+      .mockResolvedValueOnce(redirect('https://objects.githubusercontent.com/asset'))
+      .mockResolvedValueOnce(new Response('data'));
+
+    const { url } = await fetchDatasetUrl('https://github.com/org/repo/releases/download/v1/data.csv', {}, DEFAULT_URL_POLICY);
+    expect(url.href).toBe('https://objects.githubusercontent.com/asset');
+  });
+
+  it('blocks a redirect to a private IP literal', async () => {
+    resolveTo({ 'raw.githubusercontent.com': ['185.199.108.133'] });
+    fetchMock.mockResolvedValueOnce(redirect('http://169.254.169.254/latest/meta-data/'));
+
+    const error = await blocked(fetchDatasetUrl(datasetUrl, {}, DEFAULT_URL_POLICY));
+    expect(error.rejection.code).toBe('private-address');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('blocks a redirect to an allowed domain that resolves to a private address', async () => {
+    resolveTo({
+      'raw.githubusercontent.com': ['185.199.108.133'],
+      'objects.githubusercontent.com': ['10.0.0.5'],
+    });
+    fetchMock.mockResolvedValueOnce(redirect('https://objects.githubusercontent.com/asset'));
+
+    const error = await blocked(fetchDatasetUrl(datasetUrl, {}, DEFAULT_URL_POLICY));
+    expect(error.rejection.code).toBe('private-address');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('blocks a redirect to a domain off the allowlist', async () => {
+    resolveTo({ 'raw.githubusercontent.com': ['185.199.108.133'] });
+    fetchMock.mockResolvedValueOnce(redirect('https://evil.example/data.csv'));
+
+    expect((await blocked(fetchDatasetUrl(datasetUrl, {}, DEFAULT_URL_POLICY))).rejection.code).toBe('redirect-domain');
+  });
+
+  it('stops after the redirect limit', async () => {
+    resolveTo({ 'raw.githubusercontent.com': ['185.199.108.133'] });
+    fetchMock.mockImplementation(async () => redirect(datasetUrl));
+
+    const policy = { ...DEFAULT_URL_POLICY, maxRedirects: 2 };
+    const error = await blocked(fetchDatasetUrl(datasetUrl, {}, policy));
+    expect(error.rejection.code).toBe('too-many-redirects');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('tries the next gateway when one fails', async () => {
+    resolveTo({ 'ipfs.io': ['209.94.90.1'], 'dweb.link': ['209.94.90.2'] });
+    fetchMock
+      .mockResolvedValueOnce(new Response('gone', { status: 504 }))
+      .mockResolvedValueOnce(new Response('data'));
+
+    const cid = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+    const { url, contentAddress } = await fetchDatasetUrl(`ipfs://${cid}`, {}, DEFAULT_URL_POLICY);
+    expect(url.hostname).toBe('dweb.link');
+    expect(contentAddress?.scheme).toBe('ipfs');
+  });
+});
@@ -0,0 +1,164 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { ContentAddress } from './content-address';
+import { URL_POLICY, UrlPolicyConfig, UrlRejection, checkDatasetUrl, gatewayUrls, isPrivateAddress } from './url-policy';
+
+/**
+ * SSRF Guard (server-only)
+ *
+ * Checks that a proxied request can only reach public internet addresses:
+ * - Every URL must pass the shared dataset URL policy (./url-policy)
+ * - Hostnames are resolved and every address they resolve to must be public, so a domain
+ *   pointing at 127.0.0.1 or 169.254.169.254 is rejected like the literal address
+ * - IPv4 and IPv6 are both covered, including IPv4-mapped, NAT64 and 6to4 addresses
+ * - Redirects are followed manually and every hop goes through the same checks
+ * - ipfs:// and ar:// URLs are fetched from the policy's gateways, each going through the same checks
+ *
+ * The address is resolved again by fetch when it connects; the window between the two lookups
+ * is small, but very short DNS TTLs could in theory still rebind it.
+ */
+
+export class BlockedUrlError extends Error {
+  public readonly status: number;
+
+  constructor(public readonly rejection: UrlRejection) {
+    super(rejection.message);
+    this.name = 'BlockedUrlError';
+    this.status = rejectionStatus(rejection);
+  }
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Resolve a hostname and reject it unless every address it resolves to is public
+ *
+ * @param hostname - Hostname or IP literal (URL.hostname, IPv6 in brackets is accepted)
+ * @throws BlockedUrlError if the host is private or cannot be resolved
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const privateAddress: UrlRejection = {
+    code: 'private-address',
+    message: 'Local and private network addresses cannot be used',
+    hostname: host,
+  };
+
+  if (isIP(host)) {
+    if (isPrivateAddress(host)) throw new BlockedUrlError(privateAddress);
+    return;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    addresses = [];
+  }
+
+  if (addresses.length === 0) {
+    throw new BlockedUrlError({ code: 'unresolvable', message: `Cannot resolve host: ${host}`, hostname: host });
+  }
+
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    console.warn(`🚫 Blocked ${host} - resolves to private address ${blocked.address}`);
+    throw new BlockedUrlError(privateAddress);
+  }
+}
+
+/**
+ * fetch a dataset URL, following redirects manually and validating every hop before requesting it
+ *
+ * Content addresses are tried on each configured gateway in turn until one answers with a
+ * successful response.
+ *
+ * @param url - URL to fetch (validated too)
+ * @param init - fetch options (redirect is always "manual")
+ * @param policy - URL policy to enforce
+ * @returns Final non-redirect response, the URL it came from, its size limit and content address (if any)
+ * @throws BlockedUrlError if the URL or a redirect is not allowed
+ */
+export async function fetchDatasetUrl(
+  url: string | URL,
+  init: RequestInit,
+  policy: UrlPolicyConfig = URL_POLICY
+): Promise<{ response: Response; url: URL; maxSize: number; contentAddress?: ContentAddress }> {
+  const check = checkDatasetUrl(url, { policy });
+  if (!check.allowed) throw new BlockedUrlError(check.rejection);
+
+  const { contentAddress, maxSize } = check;
+  if (!contentAddress) {
+    return { ...(await followRedirects(check.url, init, policy)), maxSize };
+  }
+
+  const gateways = gatewayUrls(contentAddress, policy);
+  if (gateways.length === 0) {
+    throw new BlockedUrlError({ code: 'unresolvable', message: `No ${contentAddress.scheme} gateways are configured` });
+  }
+
+  let lastError: unknown;
+  for (const [index, gatewayUrl] of gateways.entries()) {
+    const isLast = index === gateways.length - 1;
+    try {
+      // Gateways are redirect-only rules - reachable through a content address, not directly
+      const result = await followRedirects(gatewayUrl, init, policy, true);
+      if (result.response.ok || isLast) {
+        return { ...result, maxSize, contentAddress };
+      }
+      console.warn(`⚠️ Gateway ${gatewayUrl.host} returned ${result.response.status} for ${contentAddress.uri}`);
+      await result.response.body?.cancel();
+    } catch (error) {
+      // A timeout or abort applies to the whole request, not to one gateway
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) throw error;
+      console.warn(`⚠️ Gateway ${gatewayUrl.host} failed for ${contentAddress.uri}:`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+async function followRedirects(
+  url: URL,
+  init: RequestInit,
+  policy: UrlPolicyConfig,
+  viaGateway = false
+): Promise<{ response: Response; url: URL }> {
+  let current: URL = url;
+
+  for (let hop = 0; hop <= policy.maxRedirects; hop++) {
+    const check = checkDatasetUrl(current, { redirect: viaGateway || hop > 0, policy });
+    if (!check.allowed) throw new BlockedUrlError(check.rejection);
+    await assertPublicHost(check.url.hostname);
+
+    const response = await fetch(check.url, { ...init, redirect: 'manual' });
+    if (!REDIRECT_STATUSES.has(response.status)) {
+      return { response, url: check.url };
+    }
+
+    const location = response.headers.get('Location');
+    await response.body?.cancel();
+    if (!location) {
+      throw new BlockedUrlError({ code: 'redirect-domain', message: `Redirect ${response.status} without a Location header` });
+    }
+    current = new URL(location, check.url);
+  }
+
+  throw new BlockedUrlError({ code: 'too-many-redirects', message: `Too many redirects (max ${policy.maxRedirects})` });
+}
+
+function rejectionStatus({ code }: UrlRejection): number {
+  switch (code) {
+    case 'missing':
+    case 'malformed':
+      return 400;
+    case 'too-large':
+      return 413;
+    case 'unresolvable':
+    case 'too-many-redirects':
+      return 502;
+    default:
+      return 403;
+  }
+}
@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { toHex } from '@mysten/sui/utils';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  TeeSignatureError,
+  assertValidNautilusAttestation,
+  diffMetadata,
+  formatMetadataField,
+  serializeDatasetIntentMessage,
+  verifyDatasetSignature,
+} from './tee-signature';
+import { DatasetVerification, stringToVecU8 } from './types';
+
+const METADATA: DatasetVerification = {
+  dataset_id: stringToVecU8('ds'),
+  name: stringToVecU8('n'),
+  description: [],
+  format: stringToVecU8('CSV'),
+  size: 258,
+  original_hash: [0xab, 0xcd],
+  walrus_blob_id: stringToVecU8('b'),
+  seal_policy_id: stringToVecU8('p'),
+  timestamp: 1_700_000_000_000,
+  uploader: [0x01],
+};
+
+function u64(value: number): number[] {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+  return Array.from(bytes);
+}
+
+async function sign(keypair: Ed25519Keypair, metadata: DatasetVerification): Promise<string> {
+  return toHex(await keypair.sign(serializeDatasetIntentMessage(metadata)));
+}
+
+// SuiClient serving one Enclave object with the given public key
+function enclaveClient(publicKey: Uint8Array): SuiClient {
+  return {
+    getObject: vi.fn().mockResolvedValue({
+      data: { content: { dataType: 'moveObject', fields: { pk: Array.from(publicKey) } } },
+    }),
+  } as unknown as SuiClient;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('serializeDatasetIntentMessage', () => {
+  it('encodes IntentMessage<DatasetVerification> in BCS field order', () => {
+    expect(Array.from(serializeDatasetIntentMessage(METADATA))).toEqual([
+      0,                                    // intent
+      ...u64(METADATA.timestamp),           // timestamp_ms
+      2, ...stringToVecU8('ds'),            // dataset_id
+      1, ...stringToVecU8('n'),             // name
+      0,                                    // description
+      3, ...stringToVecU8('CSV'),           // format
+      ...u64(258),                          // size
+      2, 0xab, 0xcd,                        // original_hash
+      1, ...stringToVecU8('b'),             // walrus_blob_id
+      1, ...stringToVecU8('p'),             // seal_policy_id
+      ...u64(METADATA.timestamp),           // timestamp
+      1, 0x01,                              // uploader
+    ]);
+  });
+
+  it('takes the intent and timestamp separately', () => {
+    const bytes = serializeDatasetIntentMessage(METADATA, 5, 1);
+    expect(Array.from(bytes.slice(0, 9))).toEqual([1, ...u64(5)]);
+  });
+});
+
+describe('verifyDatasetSignature', () => {
+  const keypair = Ed25519Keypair.generate();
+  const publicKey = keypair.getPublicKey().toRawBytes();
+
+  it('accepts the enclave signature with or without 0x', async () => {
+    const signature = await sign(keypair, METADATA);
+    expect(await verifyDatasetSignature(METADATA, signature, publicKey)).toBe(true);
+    expect(await verifyDatasetSignature(METADATA, `0x${signature}`, publicKey)).toBe(true);
+  });
+
+  it('rejects other metadata, other keys and malformed signatures', async () => {
+    const signature = await sign(keypair, METADATA);
+    expect(await verifyDatasetSignature({ ...METADATA, size: 259 }, signature, publicKey)).toBe(false);
+    expect(await verifyDatasetSignature(METADATA, signature, publicKey, METADATA.timestamp + 1)).toBe(false);
+    expect(await verifyDatasetSignature(METADATA, signature, Ed25519Keypair.generate().getPublicKey().toRawBytes())).toBe(false);
+    expect(await verifyDatasetSignature(METADATA, signature.slice(0, 64), publicKey)).toBe(false);
+  });
+});
+
+describe('diffMetadata', () => {
+  it('lists changed fields as text or hex', () => {
+    const diffs = diffMetadata(METADATA, { ...METADATA, name: stringToVecU8('m'), original_hash: [0xab], size: 1 });
+    expect(diffs).toEqual([
+      { field: 'name', expected: 'n', actual: 'm' },
+      { field: 'size', expected: '258', actual: '1' },
+      { field: 'original_hash', expected: '0xabcd', actual: '0xab' },
+    ]);
+  });
+
+  it('reports missing fields', () => {
+    const echoed = Object.fromEntries(Object.entries(METADATA).filter(([field]) => field !== 'uploader'));
+    expect(diffMetadata(METADATA, echoed as unknown as DatasetVerification)).toEqual([
+      { field: 'uploader', expected: '0x01', actual: '(missing)' },
+    ]);
+  });
+
+  it('formats values for display', () => {
+    expect(formatMetadataField('format', stringToVecU8('CSV'))).toBe('CSV');
+    expect(formatMetadataField('uploader', [0, 255])).toBe('0x00ff');
+    expect(formatMetadataField('timestamp', 7)).toBe('7');
+  });
+});
+
+describe('assertValidNautilusAttestation', () => {
+  it('accepts a matching echo and a valid signature', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const keypair = Ed25519Keypair.generate();
+    const signature = await sign(keypair, METADATA);
+    const response = { intent: 0, timestamp_ms: METADATA.timestamp, data: METADATA };
+
+    await expect(assertValidNautilusAttestation(
+      METADATA,
+      { signature, response },
+      enclaveClient(keypair.getPublicKey().toRawBytes())
+    )).resolves.toBeUndefined();
+  });
+
+  it('rejects responses without a hex signature', async () => {
+    await expect(assertValidNautilusAttestation(METADATA, { signature: 'zz' }, enclaveClient(new Uint8Array(32))))
+      .rejects.toThrow('Nautilus returned no hex signature');
+  });
+
+  it('rejects an echo of different metadata with the differing fields', async () => {
+    const response = { intent: 1, timestamp_ms: 1, data: { ...METADATA, name: stringToVecU8('other') } };
+    const error = await assertValidNautilusAttestation(METADATA, { signature: 'ab', response }, enclaveClient(new Uint8Array(32)))
+      .then(() => null, (error: unknown) => error);
+
+    expect(error).toBeInstanceOf(TeeSignatureError);
+    expect((error as TeeSignatureError).diffs.map(diff => diff.field)).toEqual(['timestamp_ms', 'intent', 'name']);
+  });
+});
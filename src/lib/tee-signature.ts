@@ -0,0 +1,216 @@
+import { SuiClient } from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import { Ed25519PublicKey } from '@mysten/sui/keypairs/ed25519';
+import { toHex } from '@mysten/sui/utils';
+import { getNetworkProfile } from './networks';
+import { DatasetVerification, hexToVecU8, IntentMessage, ProcessedDataResponse, vecU8ToString } from './types';
+
+/**
+ * Nautilus TEE Signature Verification
+ *
+ * Rebuilds the exact bytes the enclave signs - BCS of IntentMessage<DatasetVerification> -
+ * and checks the Ed25519 signature against the public key stored in the on-chain Enclave
+ * object. This is the same check register_dataset performs, done before paying gas.
+ */
+
+// Intent scope used by the SealTrust enclave (see IntentMessage in types.ts)
+export const NAUTILUS_INTENT_SCOPE = 0;
+
+/**
+ * BCS layout of DatasetVerification - field order matches the Move and Rust structs
+ */
+export const DatasetVerificationBcs = bcs.struct('DatasetVerification', {
+  dataset_id: bcs.vector(bcs.u8()),
+  name: bcs.vector(bcs.u8()),
+  description: bcs.vector(bcs.u8()),
+  format: bcs.vector(bcs.u8()),
+  size: bcs.u64(),
+  original_hash: bcs.vector(bcs.u8()),
+  walrus_blob_id: bcs.vector(bcs.u8()),
+  seal_policy_id: bcs.vector(bcs.u8()),
+  timestamp: bcs.u64(),
+  uploader: bcs.vector(bcs.u8()),
+});
+
+export const DatasetIntentMessageBcs = bcs.struct('IntentMessage', {
+  intent: bcs.u8(),
+  timestamp_ms: bcs.u64(),
+  data: DatasetVerificationBcs,
+});
+
+export interface MetadataFieldDiff {
+  field: keyof DatasetVerification | 'intent' | 'timestamp_ms';
+  expected: string;              // What we sent / will submit on-chain
+  actual: string;                // What the enclave echoed back
+}
+
+/**
+ * Thrown when a Nautilus signature or its echoed metadata does not match what would be registered
+ */
+export class TeeSignatureError extends Error {
+  constructor(message: string, public readonly diffs: MetadataFieldDiff[] = []) {
+    super(message);
+    this.name = 'TeeSignatureError';
+  }
+}
+
+// Enclave public keys by Enclave object ID
+const enclaveKeyCache = new Map<string, Uint8Array>();
+
+/**
+ * Serialize the message the enclave signs
+ *
+ * @param metadata - Dataset metadata
+ * @param timestampMs - IntentMessage timestamp (register_dataset passes metadata.timestamp)
+ * @param intent - Intent scope
+ */
+export function serializeDatasetIntentMessage(
+  metadata: DatasetVerification,
+  timestampMs: number | bigint = metadata.timestamp,
+  intent = NAUTILUS_INTENT_SCOPE
+): Uint8Array {
+  return DatasetIntentMessageBcs.serialize({
+    intent,
+    timestamp_ms: BigInt(timestampMs),
+    data: { ...metadata, size: BigInt(metadata.size), timestamp: BigInt(metadata.timestamp) },
+  }).toBytes();
+}
+
+/**
+ * Read the enclave's Ed25519 public key from its on-chain Enclave object
+ *
+ * @param suiClient - SuiClient instance
+ * @param enclaveId - Enclave object ID
+ * @returns 32-byte public key
+ */
+export async function fetchEnclavePublicKey(
+  suiClient: SuiClient,
+  enclaveId: string = getNetworkProfile().enclaveId
+): Promise<Uint8Array> {
+  const cached = enclaveKeyCache.get(enclaveId);
+  if (cached) return cached;
+
+  const object = await suiClient.getObject({ id: enclaveId, options: { showContent: true } });
+  const content = object.data?.content;
+  if (content?.dataType !== 'moveObject') {
+    throw new Error(`Enclave object ${enclaveId} not found`);
+  }
+
+  const pk = (content.fields as Record<string, unknown>).pk;
+  if (!Array.isArray(pk) || pk.length !== 32) {
+    throw new Error(`Enclave object ${enclaveId} has no valid Ed25519 public key`);
+  }
+
+  const key = new Uint8Array(pk as number[]);
+  enclaveKeyCache.set(enclaveId, key);
+  return key;
+}
+
+/**
+ * Check a Nautilus signature over DatasetVerification metadata
+ *
+ * @param metadata - Metadata exactly as it will be submitted on-chain
+ * @param signatureHex - Hex encoded Ed25519 signature
+ * @param publicKey - Enclave public key (32 bytes)
+ * @param timestampMs - IntentMessage timestamp (defaults to metadata.timestamp, as register_dataset does)
+ * @returns True if the signature is valid
+ */
+export async function verifyDatasetSignature(
+  metadata: DatasetVerification,
+  signatureHex: string,
+  publicKey: Uint8Array,
+  timestampMs: number | bigint = metadata.timestamp
+): Promise<boolean> {
+  const signature = new Uint8Array(hexToVecU8(signatureHex.replace(/^0x/, '')));
+  if (signature.length !== 64) {
+    return false;
+  }
+
+  try {
+    return await new Ed25519PublicKey(publicKey).verify(
+      serializeDatasetIntentMessage(metadata, timestampMs),
+      signature
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Signed fields, in BCS order
+export const DATASET_VERIFICATION_FIELDS: (keyof DatasetVerification)[] = [
+  'dataset_id', 'name', 'description', 'format', 'size', 'original_hash',
+  'walrus_blob_id', 'seal_policy_id', 'timestamp', 'uploader',
+];
+
+// Byte fields shown as text in diffs (the rest are shown as hex)
+const TEXT_FIELDS = new Set<keyof DatasetVerification>([
+  'dataset_id', 'name', 'description', 'format', 'walrus_blob_id', 'seal_policy_id',
+]);
+
+/**
+ * Human-readable value of a DatasetVerification field
+ */
+export function formatMetadataField(field: keyof DatasetVerification, value: DatasetVerification[keyof DatasetVerification]): string {
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  if (!Array.isArray(value)) return String(value);
+  return TEXT_FIELDS.has(field) ? vecU8ToString(value) : `0x${toHex(new Uint8Array(value))}`;
+}
+
+/**
+ * Field-by-field differences between two DatasetVerification payloads
+ */
+export function diffMetadata(expected: DatasetVerification, actual: DatasetVerification): MetadataFieldDiff[] {
+  return DATASET_VERIFICATION_FIELDS
+    .map(field => ({
+      field,
+      expected: formatMetadataField(field, expected[field]),
+      actual: actual?.[field] === undefined ? '(missing)' : formatMetadataField(field, actual[field]),
+    }))
+    .filter(diff => diff.expected !== diff.actual);
+}
+
+/**
+ * Check a /verify_metadata response before it is used for registration
+ *
+ * Compares the echoed IntentMessage (when the enclave returns one) with the metadata we
+ * will submit, then verifies the signature against the on-chain enclave key.
+ *
+ * @param metadata - Metadata that will be passed to register_dataset
+ * @param attestation - Response from Nautilus /verify_metadata
+ * @param suiClient - SuiClient instance (to read the Enclave object)
+ * @throws TeeSignatureError with field diffs when anything does not match
+ */
+export async function assertValidNautilusAttestation(
+  metadata: DatasetVerification,
+  attestation: Partial<ProcessedDataResponse>,
+  suiClient: SuiClient
+): Promise<void> {
+  if (typeof attestation.signature !== 'string' || !/^(0x)?[0-9a-fA-F]+$/.test(attestation.signature)) {
+    throw new TeeSignatureError('Nautilus returned no hex signature');
+  }
+
+  const echoed = attestation.response as IntentMessage<DatasetVerification> | undefined;
+  if (echoed) {
+    const diffs = diffMetadata(metadata, echoed.data);
+    if (echoed.intent !== NAUTILUS_INTENT_SCOPE) {
+      diffs.unshift({ field: 'intent', expected: String(NAUTILUS_INTENT_SCOPE), actual: String(echoed.intent) });
+    }
+    if (String(echoed.timestamp_ms) !== String(metadata.timestamp)) {
+      diffs.unshift({ field: 'timestamp_ms', expected: String(metadata.timestamp), actual: String(echoed.timestamp_ms) });
+    }
+    if (diffs.length > 0) {
+      throw new TeeSignatureError(
+        `Nautilus signed different metadata than will be registered (${diffs.map(d => d.field).join(', ')})`,
+        diffs
+      );
+    }
+  }
+
+  const publicKey = await fetchEnclavePublicKey(suiClient);
+  const valid = await verifyDatasetSignature(metadata, attestation.signature, publicKey);
+  if (!valid) {
+    throw new TeeSignatureError('TEE signature does not verify against the on-chain enclave public key');
+  }
+
+  console.log('✅ TEE signature verified locally against enclave', getNetworkProfile().enclaveId);
+}
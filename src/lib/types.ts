@@ -59,11 +59,11 @@ export interface DatasetNFT {
   name: string;                  // Dataset name
   dataset_url: string;           // Original URL (optional)
   format: string;                // File format
-  size: number;                  // File size in bytes
+  size: bigint;                  // u64 file size in bytes (bigint keeps full precision)
   schema_version: string;        // Schema version
 
   // Verification proof
-  verification_timestamp: number; // Timestamp in milliseconds
+  verification_timestamp: bigint; // u64 timestamp in milliseconds
   enclave_id: string;            // Enclave that verified
   tee_signature: string;         // Hex encoded TEE signature
 
@@ -103,6 +103,95 @@ export interface HashResult {
   hash: string; // Hex string
   size: number; // File size in bytes
   format?: string;
+  serverVerified?: boolean; // URL hashes: the fetch proxy saw the same digest
+}
+
+// SHA-256 the fetch proxy computed while streaming a dataset (GET /api/fetch-dataset/digest)
+export interface FetchDigest {
+  status: 'streaming' | 'complete' | 'aborted';
+  size: number;       // Bytes streamed so far
+  hash?: string;      // Hex SHA-256, once complete
+  error?: string;     // Why the stream was aborted
+}
+
+// Progress of an incremental (streaming) hash
+export interface HashProgress {
+  loaded: number;     // Bytes hashed so far
+  total: number;      // Total bytes (0 if unknown)
+  percentage: number;
+}
+
+// Progress of a Walrus upload or download
+export interface TransferProgress {
+  loaded: number;             // Bytes transferred so far
+  total: number;              // Total bytes (0 if unknown)
+  percentage: number;
+  bytesPerSecond: number;     // Average throughput since the transfer started
+  etaSeconds: number | null;  // null until total and throughput are known
+}
+
+// Message sent to the hash worker
+export interface HashWorkerRequest {
+  file: File;
+}
+
+// Messages posted back by the hash worker
+export type HashWorkerResponse =
+  | { type: 'progress'; progress: HashProgress }
+  | { type: 'done'; hash: string; size: number }
+  | { type: 'error'; error: string };
+
+// One Seal-encrypted chunk of a large dataset, before upload
+export interface EncryptedChunk {
+  index: number;
+  encryptedData: Uint8Array;
+  plaintextSize: number;
+  plaintextHash: string;       // Hex SHA-256 of the plaintext chunk
+}
+
+// Manifest entry for a chunk stored as its own Walrus blob
+export interface ChunkManifestEntry {
+  index: number;
+  blob_id: string;             // Walrus blob holding the encrypted chunk
+  size: number;                // Plaintext bytes in this chunk
+  encrypted_hash: string;      // Hex SHA-256 of the encrypted blob bytes
+}
+
+// Chunk uploaded by this browser - the plaintext hash is kept locally to check the file
+// has not changed when an upload resumes, and is never published in the manifest
+export interface UploadedChunk extends ChunkManifestEntry {
+  plaintext_hash: string;      // Hex SHA-256 of the plaintext chunk
+}
+
+// Manifest for a dataset split across several Walrus blobs
+// The DatasetNFT's walrus_blob_id points at the blob holding the signed manifest.
+// The manifest is public - it holds nothing about the plaintext beyond what the NFT records.
+export interface ChunkManifest {
+  kind: 'sealtrust-chunk-manifest';
+  version: 1;
+  size: number;                // Total plaintext bytes
+  chunk_size: number;
+  original_hash: string;       // Hex SHA-256 of the whole unencrypted file
+  seal_policy_id: string;      // Every chunk is encrypted under this policy
+  uploader: string;            // Sui address that signed the manifest
+  created_at: number;
+  chunks: ChunkManifestEntry[];
+}
+
+// Manifest plus the uploader's Sui personal message signature over its canonical bytes
+export interface SignedChunkManifest {
+  manifest: ChunkManifest;
+  signature: string;           // Base64 serialized Sui signature
+}
+
+// Certification state of a Walrus blob, as reported by the storage nodes
+export type BlobCertificationStatus = 'certified' | 'registered' | 'deletable' | 'invalid' | 'nonexistent';
+
+// Storage lifetime of one Walrus blob (served by /api/walrus-status)
+export interface BlobLifetime {
+  blobId: string;
+  status: BlobCertificationStatus;
+  endEpoch: number | null;       // First epoch the blob is no longer stored (null when unknown)
 }
 
 // Transaction result
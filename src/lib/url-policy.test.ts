@@ -0,0 +1,225 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_URL_POLICY,
+  UrlPolicyConfig,
+  checkDatasetSize,
+  checkDatasetUrl,
+  isPrivateAddress,
+  isPrivateHostname,
+  supportedSources,
+} from './url-policy';
+
+const policy: UrlPolicyConfig = DEFAULT_URL_POLICY;
+
+function rejectionCode(url: string, redirect = false) {
+  const result = checkDatasetUrl(url, { policy, redirect });
+  return result.allowed ? null : result.rejection.code;
+}
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '0.0.0.0',
+    '10.1.2.3',
+    '100.64.0.1',
+    '127.0.0.1',
+    '169.254.169.254',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '198.18.0.1',
+    '224.0.0.1',
+    '255.255.255.255',
+  ])('blocks IPv4 %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '1.1.1.1', '172.15.255.255', '172.32.0.0', '100.63.255.255', '100.128.0.0', '140.82.112.3'])(
+    'allows IPv4 %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+
+  it.each(['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'ff02::1', '2001:db8::1'])(
+    'blocks IPv6 %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it.each(['2606:4700:4700::1111', '2001:4860:4860::8888'])('allows IPv6 %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('judges IPv4-mapped addresses by their IPv4 address', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+    expect(isPrivateAddress('::ffff:169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false);
+  });
+
+  it('judges IPv4-compatible addresses by their IPv4 address', () => {
+    expect(isPrivateAddress('::10.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::8.8.8.8')).toBe(false);
+  });
+
+  it('judges NAT64 addresses by their IPv4 address', () => {
+    expect(isPrivateAddress('64:ff9b::127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('64:ff9b::a9fe:a9fe')).toBe(true);
+    expect(isPrivateAddress('64:ff9b::8.8.8.8')).toBe(false);
+  });
+
+  it('judges 6to4 addresses by their IPv4 address', () => {
+    expect(isPrivateAddress('2002:c0a8:0101::1')).toBe(true);   // 192.168.1.1
+    expect(isPrivateAddress('2002:7f00:0001::')).toBe(true);     // 127.0.0.1
+    expect(isPrivateAddress('2002:0808:0808::1')).toBe(false);   // 8.8.8.8
+  });
+
+  it('matches CIDR boundaries bit by bit', () => {
+    expect(isPrivateAddress('fbff:ffff::1')).toBe(false);
+    expect(isPrivateAddress('fe7f::1')).toBe(false);
+    expect(isPrivateAddress('febf::1')).toBe(true);              // Last of fe80::/10
+    expect(isPrivateAddress('198.19.255.255')).toBe(true);       // Last of 198.18.0.0/15
+    expect(isPrivateAddress('198.20.0.0')).toBe(false);
+  });
+
+  it.each(['', 'example.com', '256.0.0.1', '1.2.3', '1:2:3:4:5:6:7:8:9', '1::2::3', 'gggg::1'])(
+    'treats %j as private because it is not an IP address',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+});
+
+describe('isPrivateHostname', () => {
+  it('blocks localhost names and private IP literals', () => {
+    expect(isPrivateHostname('localhost')).toBe(true);
+    expect(isPrivateHostname('api.localhost')).toBe(true);
+    expect(isPrivateHostname('localhost.')).toBe(true);
+    expect(isPrivateHostname('[::1]')).toBe(true);
+    expect(isPrivateHostname('[::ffff:127.0.0.1]')).toBe(true);
+    expect(isPrivateHostname('10.0.0.1')).toBe(true);
+  });
+
+  it('leaves other names to the DNS check', () => {
+    expect(isPrivateHostname('github.com')).toBe(false);
+    expect(isPrivateHostname('internal.example')).toBe(false);
+    expect(isPrivateHostname('8.8.8.8')).toBe(false);
+  });
+});
+
+describe('checkDatasetUrl', () => {
+  it('allows allowlisted domains and their subdomains', () => {
+    const result = checkDatasetUrl('https://raw.githubusercontent.com/org/repo/main/data.csv', { policy });
+    expect(result).toMatchObject({ allowed: true, rule: { label: 'GitHub' }, maxSize: policy.maxSize });
+    expect(checkDatasetUrl('https://www.kaggle.com/datasets/x', { policy }).allowed).toBe(true);
+  });
+
+  it('rejects missing, malformed and unsupported URLs', () => {
+    expect(rejectionCode('')).toBe('missing');
+    expect(rejectionCode('   ')).toBe('missing');
+    expect(rejectionCode('not a url')).toBe('malformed');
+    expect(rejectionCode('ftp://github.com/data.csv')).toBe('protocol');
+    expect(rejectionCode('file:///etc/passwd')).toBe('protocol');
+  });
+
+  it('rejects private hosts before the domain allowlist', () => {
+    expect(rejectionCode('http://127.0.0.1/data.csv')).toBe('private-address');
+    expect(rejectionCode('http://[::1]/data.csv')).toBe('private-address');
+    expect(rejectionCode('http://169.254.169.254/latest/meta-data')).toBe('private-address');
+    expect(rejectionCode('http://localhost:3000/data.csv')).toBe('private-address');
+  });
+
+  it('rejects domains that are not on the allowlist', () => {
+    expect(rejectionCode('https://example.com/data.csv')).toBe('domain');
+    expect(rejectionCode('https://github.com.evil.example/data.csv')).toBe('domain');
+    expect(rejectionCode('https://notgithub.com/data.csv')).toBe('domain');
+  });
+
+  it('accepts redirect-only domains as redirect targets only', () => {
+    const cdn = 'https://objects.githubusercontent.com/asset';
+    expect(rejectionCode(cdn)).toBe('domain');
+    expect(rejectionCode(cdn, true)).toBeNull();
+    expect(rejectionCode('https://example.com/data.csv', true)).toBe('redirect-domain');
+  });
+
+  it('only reaches gateways through content addresses', () => {
+    expect(rejectionCode('https://ipfs.io/ipfs/bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi')).toBe('domain');
+    const result = checkDatasetUrl('ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi', { policy });
+    expect(result).toMatchObject({ allowed: true, contentAddress: { scheme: 'ipfs' } });
+    expect(rejectionCode('ipfs://not-a-cid')).toBe('malformed');
+  });
+
+  it('applies the most specific domain rule', () => {
+    const custom: UrlPolicyConfig = {
+      ...policy,
+      domains: [
+        { domain: 'example.org', label: 'Example' },
+        { domain: 'data.example.org', label: 'Example data', maxSize: 1024, pathPrefixes: ['/public/'] },
+      ],
+    };
+    expect(checkDatasetUrl('https://example.org/a.csv', { policy: custom })).toMatchObject({ allowed: true, maxSize: policy.maxSize });
+    expect(checkDatasetUrl('https://data.example.org/public/a.csv', { policy: custom })).toMatchObject({ allowed: true, maxSize: 1024 });
+
+    const result = checkDatasetUrl('https://data.example.org/private/a.csv', { policy: custom });
+    expect(result.allowed ? null : result.rejection.code).toBe('path');
+  });
+});
+
+describe('checkDatasetSize', () => {
+  it('accepts sizes up to the limit', () => {
+    expect(checkDatasetSize(1024, 1024)).toBeNull();
+  });
+
+  it('reports the size and limit', () => {
+    expect(checkDatasetSize(1024 * 1024, 3 * 1024 * 1024)).toMatchObject({
+      code: 'too-large',
+      message: 'File too large: 3.00MB (max: 1MB)',
+      size: 3 * 1024 * 1024,
+    });
+    expect(checkDatasetSize(1024 * 1024, 2 * 1024 * 1024, false)?.message).toBe('File too large: more than 1MB (max: 1MB)');
+  });
+});
+
+describe('supportedSources', () => {
+  it('lists each label once, without redirect-only domains', () => {
+    expect(supportedSources(policy)).toBe(
+      'GitHub, Kaggle, HuggingFace, Data.world, Google Cloud Storage, AWS S3, IPFS, Arweave'
+    );
+  });
+});
+
+describe('NEXT_PUBLIC_URL_POLICY', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  async function loadPolicy(json: string) {
+    vi.stubEnv('NEXT_PUBLIC_URL_POLICY', json);
+    vi.resetModules();
+    return (await import('./url-policy')).URL_POLICY;
+  }
+
+  it('overrides the default policy field by field', async () => {
+    const loaded = await loadPolicy(JSON.stringify({
+      maxSize: 10,
+      domains: [{ domain: 'Example.ORG', label: 'Example' }],
+    }));
+    expect(loaded.maxSize).toBe(10);
+    expect(loaded.domains).toEqual([{ domain: 'example.org', label: 'Example' }]);
+    expect(loaded.maxRedirects).toBe(DEFAULT_URL_POLICY.maxRedirects);
+    expect(loaded.ipfsGateways).toEqual(DEFAULT_URL_POLICY.ipfsGateways);
+  });
+
+  it('keeps the default domains when none are given', async () => {
+    const loaded = await loadPolicy(JSON.stringify({ maxRedirects: 1 }));
+    expect(loaded.maxRedirects).toBe(1);
+    expect(loaded.domains).toEqual(DEFAULT_URL_POLICY.domains);
+  });
+
+  it('falls back to the default policy on invalid JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await loadPolicy('{not json')).toEqual(DEFAULT_URL_POLICY);
+  });
+});
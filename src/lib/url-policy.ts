@@ -0,0 +1,373 @@
+import {
+  CONTENT_ADDRESS_LABELS,
+  ContentAddress,
+  contentAddressGatewayUrls,
+  isContentAddressProtocol,
+  parseContentAddress,
+} from './content-address';
+
+/**
+ * Dataset URL Policy
+ *
+ * The single source of truth for which dataset URLs SealTrust will fetch. The register page,
+ * batch manifests and the /api/fetch-dataset proxy all evaluate URLs here, so the UI and the
+ * API always give the same answer and the same message.
+ *
+ * Content-addressed ipfs:// and ar:// URLs skip the domain allowlist and are fetched through the
+ * policy's gateways instead (see ./content-address).
+ *
+ * The policy (protocols, size limit, redirect limit, gateways and per-domain rules) can be replaced with
+ * NEXT_PUBLIC_URL_POLICY - JSON with any of the UrlPolicyConfig fields, e.g.
+ *   {"maxSize": 209715200, "domains": [{"domain": "example.org", "label": "Example", "maxSize": 10485760}]}
+ *
+ * Checks here are synchronous and work in the browser. The proxy adds DNS resolution and
+ * redirect handling on top (see ./ssrf-guard).
+ */
+
+export interface DomainRule {
+  domain: string;               // Matches the domain and all its subdomains
+  label: string;                // Shown in "Supported sources"
+  maxSize?: number;             // Bytes - overrides the policy's maxSize
+  pathPrefixes?: string[];      // Only these paths are allowed (all if unset)
+  redirectOnly?: boolean;       // Only reachable through a redirect from another allowed URL (CDNs)
+}
+
+export interface UrlPolicyConfig {
+  protocols: string[];          // With the trailing colon, e.g. "https:" or "ipfs:"
+  maxSize: number;              // Bytes
+  maxRedirects: number;
+  domains: DomainRule[];
+  ipfsGateways: string[];       // Resolve ipfs:// URLs, tried in order
+  arweaveGateways: string[];    // Resolve ar:// URLs, tried in order
+}
+
+export type UrlRejectionCode =
+  | 'missing'
+  | 'malformed'
+  | 'protocol'
+  | 'domain'
+  | 'redirect-domain'
+  | 'path'
+  | 'private-address'
+  | 'unresolvable'
+  | 'too-many-redirects'
+  | 'too-large';
+
+export interface UrlRejection {
+  code: UrlRejectionCode;
+  message: string;              // User-facing, identical in the UI and the API
+  hostname?: string;
+  size?: number;
+  maxSize?: number;
+}
+
+export type UrlPolicyResult =
+  | { allowed: true; url: URL; rule: DomainRule; maxSize: number; contentAddress?: ContentAddress }
+  | { allowed: false; rejection: UrlRejection };
+
+export interface UrlCheckOptions {
+  redirect?: boolean;           // The URL is a redirect target (redirectOnly domains are accepted)
+  policy?: UrlPolicyConfig;
+}
+
+export const DEFAULT_URL_POLICY: UrlPolicyConfig = {
+  protocols: ['http:', 'https:', 'ipfs:', 'ar:'],
+  maxSize: 100 * 1024 * 1024, // 100MB - fetched datasets are held in memory
+  maxRedirects: 5,
+  domains: [
+    { domain: 'raw.githubusercontent.com', label: 'GitHub' },
+    { domain: 'github.com', label: 'GitHub' },
+    { domain: 'kaggle.com', label: 'Kaggle' },
+    { domain: 'huggingface.co', label: 'HuggingFace' },
+    { domain: 'data.world', label: 'Data.world' },
+    { domain: 'storage.googleapis.com', label: 'Google Cloud Storage' },
+    { domain: 's3.amazonaws.com', label: 'AWS S3' },
+    // Where the domains above redirect downloads to (release assets, LFS files)
+    { domain: 'objects.githubusercontent.com', label: 'GitHub', redirectOnly: true },
+    { domain: 'release-assets.githubusercontent.com', label: 'GitHub', redirectOnly: true },
+    { domain: 'hf.co', label: 'HuggingFace', redirectOnly: true },
+  ],
+  ipfsGateways: ['https://ipfs.io', 'https://dweb.link', 'https://w3s.link'],
+  arweaveGateways: ['https://arweave.net', 'https://ar-io.net'],
+};
+
+export const URL_POLICY: UrlPolicyConfig = loadUrlPolicy(process.env.NEXT_PUBLIC_URL_POLICY);
+
+/**
+ * Evaluate a dataset URL against the policy
+ *
+ * @param input - URL as typed by the user, or an already parsed URL
+ * @param options - Redirect target flag and policy override
+ * @returns The parsed URL and matching domain rule, or why it was rejected
+ */
+export function checkDatasetUrl(input: string | URL, options: UrlCheckOptions = {}): UrlPolicyResult {
+  const policy = options.policy ?? URL_POLICY;
+
+  let url: URL;
+  if (input instanceof URL) {
+    url = input;
+  } else {
+    if (!input || !input.trim()) {
+      return reject({ code: 'missing', message: 'Please enter a dataset URL' });
+    }
+    try {
+      url = new URL(input.trim());
+    } catch {
+      return reject({ code: 'malformed', message: `Please enter a valid URL starting with ${protocolList(policy, ' or ')}` });
+    }
+  }
+
+  if (!policy.protocols.includes(url.protocol)) {
+    return reject({ code: 'protocol', message: `Only ${protocolList(policy, ', ')} URLs are supported` });
+  }
+
+  // Content addresses are fetched through the policy's gateways - no domain to check
+  if (isContentAddressProtocol(url.protocol)) {
+    const contentAddress = parseContentAddress(url);
+    if (!contentAddress) {
+      return reject({
+        code: 'malformed',
+        message: url.protocol === 'ipfs:' ? 'Not a valid IPFS CID' : 'Not a valid Arweave transaction ID',
+      });
+    }
+    const label = CONTENT_ADDRESS_LABELS[contentAddress.scheme];
+    return { allowed: true, url, rule: { domain: contentAddress.scheme, label }, maxSize: policy.maxSize, contentAddress };
+  }
+
+  const hostname = url.hostname.toLowerCase();
+
+  if (isPrivateHostname(hostname)) {
+    return reject({ code: 'private-address', message: 'Local and private network addresses cannot be used', hostname });
+  }
+
+  const rule = findDomainRule(hostname, policy);
+  if (!rule || (rule.redirectOnly && !options.redirect)) {
+    return reject(options.redirect
+      ? { code: 'redirect-domain', message: `The URL redirected to ${hostname}, which is not on the allowlist`, hostname }
+      : { code: 'domain', message: `This domain is not on the allowlist. Supported sources: ${supportedSources(policy)}.`, hostname });
+  }
+
+  if (rule.pathPrefixes && !rule.pathPrefixes.some(prefix => url.pathname.startsWith(prefix))) {
+    return reject({
+      code: 'path',
+      message: `Only ${rule.pathPrefixes.join(', ')} paths are allowed on ${rule.domain}`,
+      hostname,
+    });
+  }
+
+  return { allowed: true, url, rule, maxSize: rule.maxSize ?? policy.maxSize };
+}
+
+/**
+ * Check a dataset's size against the limit for its URL
+ *
+ * @param maxSize - Limit from an allowed checkDatasetUrl result
+ * @param size - Dataset size in bytes
+ * @param complete - false while streaming, when size is only what arrived so far
+ * @returns The rejection, or null if the size is within the limit
+ */
+export function checkDatasetSize(maxSize: number, size: number, complete: boolean = true): UrlRejection | null {
+  if (size <= maxSize) return null;
+  const maxMB = (maxSize / 1024 / 1024).toFixed(0);
+  return {
+    code: 'too-large',
+    message: complete
+      ? `File too large: ${(size / 1024 / 1024).toFixed(2)}MB (max: ${maxMB}MB)`
+      : `File too large: more than ${maxMB}MB (max: ${maxMB}MB)`,
+    size,
+    maxSize,
+  };
+}
+
+/**
+ * Human-readable list of the sources the policy accepts, e.g. "GitHub, Kaggle, AWS S3"
+ */
+export function supportedSources(policy: UrlPolicyConfig = URL_POLICY): string {
+  const labels = policy.domains.filter(rule => !rule.redirectOnly).map(rule => rule.label);
+  if (policy.protocols.includes('ipfs:')) labels.push(CONTENT_ADDRESS_LABELS.ipfs);
+  if (policy.protocols.includes('ar:')) labels.push(CONTENT_ADDRESS_LABELS.ar);
+  return [...new Set(labels)].join(', ');
+}
+
+/**
+ * Gateway URLs to fetch a content address from, in order
+ */
+export function gatewayUrls(contentAddress: ContentAddress, policy: UrlPolicyConfig = URL_POLICY): URL[] {
+  const gateways = contentAddress.scheme === 'ipfs' ? policy.ipfsGateways : policy.arweaveGateways;
+  return contentAddressGatewayUrls(contentAddress, gateways);
+}
+
+/**
+ * Whether a hostname is localhost or a loopback/private/link-local/ULA IP literal
+ * Names that resolve to private addresses are caught by the proxy's DNS check.
+ *
+ * @param hostname - URL.hostname (IPv6 in brackets is accepted)
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+  return parseIpAddress(host) !== null && isPrivateAddress(host);
+}
+
+/** [first address, prefix length] */
+type Cidr = [string, number];
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const BLOCKED_IPV4_RANGES: Cidr[] = [
+  ['0.0.0.0', 8],          // "This" network
+  ['10.0.0.0', 8],         // Private
+  ['100.64.0.0', 10],      // Carrier-grade NAT
+  ['127.0.0.0', 8],        // Loopback
+  ['169.254.0.0', 16],     // Link-local, incl. 169.254.169.254 metadata
+  ['172.16.0.0', 12],      // Private
+  ['192.0.0.0', 24],       // IETF protocol assignments
+  ['192.0.2.0', 24],       // Documentation
+  ['192.168.0.0', 16],     // Private
+  ['198.18.0.0', 15],      // Benchmarking
+  ['198.51.100.0', 24],    // Documentation
+  ['203.0.113.0', 24],     // Documentation
+  ['224.0.0.0', 4],        // Multicast
+  ['240.0.0.0', 4],        // Reserved, incl. broadcast
+];
+
+const BLOCKED_IPV6_RANGES: Cidr[] = [
+  ['::', 128],             // Unspecified
+  ['::1', 128],            // Loopback
+  ['100::', 64],           // Discard
+  ['2001:db8::', 32],      // Documentation
+  ['fc00::', 7],           // Unique local (ULA)
+  ['fe80::', 10],          // Link-local
+  ['fec0::', 10],          // Site-local (deprecated)
+  ['ff00::', 8],           // Multicast
+];
+
+// IPv6 ranges that embed an IPv4 address: [range, offset of the IPv4 address in bytes]
+const IPV4_EMBEDDING_RANGES: [Cidr, number][] = [
+  [['::ffff:0:0', 96], 12],  // IPv4-mapped
+  [['::', 96], 12],          // IPv4-compatible (deprecated)
+  [['64:ff9b::', 96], 12],   // NAT64
+  [['2002::', 16], 2],       // 6to4
+];
+
+/**
+ * Whether an IP address is loopback, private, link-local, ULA or otherwise not publicly routable
+ *
+ * @param address - IPv4 or IPv6 address (IPv6 without brackets)
+ * @returns true for anything that is not a valid IP address as well
+ */
+export function isPrivateAddress(address: string): boolean {
+  const bytes = parseIpAddress(address);
+  if (!bytes) return true;
+
+  if (bytes.length === 4) {
+    return BLOCKED_IPV4_RANGES.some(range => inRange(bytes, range));
+  }
+
+  if (BLOCKED_IPV6_RANGES.some(range => inRange(bytes, range))) return true;
+
+  // An embedded IPv4 address is reached through it - judge it as IPv4
+  const embedding = IPV4_EMBEDDING_RANGES.find(([range]) => inRange(bytes, range));
+  if (embedding) {
+    const offset = embedding[1];
+    return isPrivateAddress(bytes.slice(offset, offset + 4).join('.'));
+  }
+  return false;
+}
+
+function reject(rejection: UrlRejection): UrlPolicyResult {
+  return { allowed: false, rejection };
+}
+
+function protocolList(policy: UrlPolicyConfig, separator: string): string {
+  return policy.protocols
+    .map(protocol => isContentAddressProtocol(protocol) ? `${protocol}//` : protocol.replace(/:$/, '').toUpperCase())
+    .join(separator);
+}
+
+function findDomainRule(hostname: string, policy: UrlPolicyConfig): DomainRule | undefined {
+  // Gateways are reached through content addresses (and their subdomain redirects) only
+  const gatewayRules = [
+    ...policy.ipfsGateways.map(gateway => gatewayRule(gateway, CONTENT_ADDRESS_LABELS.ipfs)),
+    ...policy.arweaveGateways.map(gateway => gatewayRule(gateway, CONTENT_ADDRESS_LABELS.ar)),
+  ].filter((rule): rule is DomainRule => rule !== null);
+
+  // Most specific rule wins (a rule for a subdomain overrides its parent's)
+  return [...policy.domains, ...gatewayRules]
+    .filter(rule => hostname === rule.domain || hostname.endsWith(`.${rule.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+}
+
+function gatewayRule(gateway: string, label: string): DomainRule | null {
+  try {
+    return { domain: new URL(gateway).hostname.toLowerCase(), label, redirectOnly: true };
+  } catch {
+    return null;
+  }
+}
+
+function inRange(bytes: number[], [first, prefix]: Cidr): boolean {
+  const base = parseIpAddress(first)!;
+  if (base.length !== bytes.length) return false;
+  for (let bit = 0; bit < prefix; bit++) {
+    const byte = bit >> 3;
+    const mask = 0x80 >> (bit & 7);
+    if ((bytes[byte] & mask) !== (base[byte] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Parse an IPv4 (4 bytes) or IPv6 (16 bytes) address, null if it is not one
+ * IPv6 may use :: compression, a dotted IPv4 tail and a zone ID.
+ */
+function parseIpAddress(address: string): number[] | null {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    const bytes = address.split('.').map(Number);
+    return bytes.every(byte => byte <= 255) ? bytes : null;
+  }
+
+  if (!address.includes(':')) return null;
+
+  let text = address.split('%')[0]; // Drop the zone ID
+
+  // Rewrite a dotted IPv4 tail (::ffff:127.0.0.1) as the two groups it stands for
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const tail = parseIpAddress(dotted[2]);
+    if (!tail) return null;
+    const [a, b, c, d] = tail;
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const parts = text.split('::');
+  if (parts.length > 2) return null;
+
+  const headGroups = parts[0] ? parts[0].split(':') : [];
+  const restGroups = parts[1] ? parts[1].split(':') : [];
+  const missing = 8 - headGroups.length - restGroups.length;
+  if (parts.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...headGroups, ...Array(parts.length === 2 ? missing : 0).fill('0'), ...restGroups];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+function loadUrlPolicy(json: string | undefined): UrlPolicyConfig {
+  if (!json) return DEFAULT_URL_POLICY;
+
+  try {
+    const overrides = JSON.parse(json) as Partial<UrlPolicyConfig>;
+    return {
+      ...DEFAULT_URL_POLICY,
+      ...overrides,
+      domains: overrides.domains?.map(rule => ({ ...rule, domain: rule.domain.toLowerCase() })) ?? DEFAULT_URL_POLICY.domains,
+    };
+  } catch (error) {
+    console.error('Ignoring NEXT_PUBLIC_URL_POLICY - invalid JSON:', error);
+    return DEFAULT_URL_POLICY;
+  }
+}
@@ -1,18 +1,23 @@
-import { HashResult } from "../types";
+import { FetchDigest, HashProgress, HashResult, HashWorkerResponse } from "../types";
+import { sha256Stream } from "./sha256-stream";
+import { assertContentMatches, parseContentAddress } from "../content-address";
+import { DatasetFormat, formatFromFileName, normalizeFormat } from "../dataset-format";
+import { checkDatasetUrl } from "../url-policy";
 
 /**
  * Compute SHA256 hash of a file
+ * Streams the file through an incremental hasher, so size is not limited by memory.
+ * Only hashes - callers that need the format run detectDatasetFormat themselves.
  */
-export async function computeFileHash(file: File): Promise<HashResult> {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
+export async function computeFileHash(
+  file: File,
+  onProgress?: (progress: HashProgress) => void
+): Promise<HashResult> {
+  const hashHex = await hashFileStreaming(file, onProgress);
 
   return {
     hash: hashHex,
     size: file.size,
-    format: file.type || getFormatFromFilename(file.name),
   };
 }
 
@@ -20,7 +25,10 @@ export async function computeFileHash(file: File): Promise<HashResult> {
  * Compute SHA256 hash from URL by fetching content
  * Uses Next.js API proxy to bypass CORS and CSP restrictions
  */
-export async function computeUrlHash(url: string): Promise<HashResult> {
+export async function computeUrlHash(
+  url: string,
+  onProgress?: (progress: HashProgress) => void
+): Promise<HashResult> {
   // Use Next.js API proxy to fetch the URL server-side
   // This bypasses CSP restrictions (which only apply to browser fetch)
   const proxyUrl = `/api/fetch-dataset?url=${encodeURIComponent(url)}`;
@@ -29,30 +37,140 @@ export async function computeUrlHash(url: string): Promise<HashResult> {
 
   if (!response.ok) {
     // Try to get error details from the proxy
-    try {
-      const errorData = await response.json();
-      throw new Error(errorData.error || `Failed to fetch dataset: ${response.statusText}`);
-    } catch {
-      throw new Error(`Failed to fetch dataset: ${response.statusText}`);
-    }
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to fetch dataset: ${response.statusText}`);
+  }
+
+  if (!response.body) {
+    throw new Error("Response body is not readable");
+  }
+
+  // Hash the body as it streams in instead of buffering the whole download
+  const contentLength = response.headers.get("content-length");
+  const total = contentLength ? parseInt(contentLength, 10) : 0;
+  const fetchId = response.headers.get("x-fetch-id");
+
+  let hashHex: string;
+  let size: number;
+  try {
+    ({ hash: hashHex, size } = await sha256Stream(response.body, total, onProgress));
+  } catch (error) {
+    // The proxy cuts the stream off past the size limit - report its reason
+    const digest = fetchId ? await fetchProxyDigest(fetchId) : null;
+    throw new Error(digest?.error || (error instanceof Error ? error.message : "Download interrupted"));
   }
 
-  const buffer = await response.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
+  // ipfs:// URLs with a raw sha2-256 CID pin the bytes - no need to trust the gateway
+  const contentAddress = parseContentAddress(url);
+  if (contentAddress) assertContentMatches(contentAddress, hashHex);
 
-  // Try to determine format from headers or URL
-  const contentType = response.headers.get("content-type");
-  const format = contentType || getFormatFromUrl(url);
+  // Cross-check against the digest the proxy computed while streaming
+  const serverVerified = fetchId ? await verifyProxyDigest(fetchId, hashHex, size) : false;
+
+  // Canonical format from the URL's file name, else from the Content-Type
+  const format = formatFromUrl(url) ?? normalizeFormat(response.headers.get("content-type"));
 
   return {
     hash: hashHex,
-    size: buffer.byteLength,
+    size,
     format,
+    serverVerified,
   };
 }
 
+/**
+ * Compare a locally computed URL hash with the one the fetch proxy saw
+ *
+ * @returns true if the proxy's digest matches, false if it is unavailable
+ * @throws If the proxy saw different bytes than the browser hashed
+ */
+async function verifyProxyDigest(fetchId: string, hash: string, size: number): Promise<boolean> {
+  // The proxy stores the digest as the stream ends - give it a moment if it is not there yet
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const digest = await fetchProxyDigest(fetchId);
+    if (!digest) {
+      console.warn("Proxy digest unavailable - skipping server cross-check");
+      return false;
+    }
+
+    if (digest.status === "complete") {
+      if (digest.hash !== hash || digest.size !== size) {
+        throw new Error(
+          `Dataset changed in transit: the proxy hashed ${digest.size} bytes to ${digest.hash}, ` +
+          `the browser hashed ${size} bytes to ${hash}`
+        );
+      }
+      console.log("✅ Hash matches the proxy's digest");
+      return true;
+    }
+
+    if (digest.status === "aborted") {
+      throw new Error(digest.error || "The proxy aborted the download");
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+
+  console.warn("Proxy digest still pending - skipping server cross-check");
+  return false;
+}
+
+async function fetchProxyDigest(fetchId: string): Promise<FetchDigest | null> {
+  try {
+    const response = await fetch(`/api/fetch-dataset/digest?id=${encodeURIComponent(fetchId)}`, { cache: "no-store" });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute SHA256 hash of a file in a Web Worker
+ * Reads File.stream() chunk by chunk; the digest is identical to hashing the whole buffer.
+ * Falls back to hashing on the main thread where workers are unavailable.
+ *
+ * @param file - File to hash
+ * @param onProgress - Called with bytes hashed so far
+ * @returns SHA-256 hash as hex string
+ */
+export function hashFileStreaming(
+  file: File,
+  onProgress?: (progress: HashProgress) => void
+): Promise<string> {
+  if (typeof Worker === "undefined") {
+    return sha256Stream(file.stream(), file.size, onProgress).then(result => result.hash);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/hash.worker.ts", import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<HashWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      worker.terminate();
+
+      if (message.type === "done") {
+        onProgress?.({ loaded: message.size, total: file.size, percentage: 100 });
+        resolve(message.hash);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Hash worker failed"));
+    };
+
+    worker.postMessage({ file });
+  });
+}
+
 /**
  * Convert hex string to byte array (for Move/Rust compatibility)
  */
@@ -86,33 +204,13 @@ export function bytesToString(bytes: number[]): string {
 }
 
 /**
- * Determine file format from filename
+ * Canonical format implied by a URL's file name
  */
-function getFormatFromFilename(filename: string): string {
-  const ext = filename.split(".").pop()?.toUpperCase();
-  const formatMap: { [key: string]: string } = {
-    CSV: "CSV",
-    JSON: "JSON",
-    PARQUET: "PARQUET",
-    TSV: "TSV",
-    XML: "XML",
-    HDF5: "HDF5",
-    H5: "HDF5",
-    ZARR: "ZARR",
-    AVRO: "AVRO",
-  };
-  return formatMap[ext || ""] || "UNKNOWN";
-}
-
-/**
- * Determine file format from URL
- */
-function getFormatFromUrl(url: string): string {
+function formatFromUrl(url: string): DatasetFormat | null {
   try {
-    const pathname = new URL(url).pathname;
-    return getFormatFromFilename(pathname);
+    return formatFromFileName(new URL(url).pathname);
   } catch {
-    return "UNKNOWN";
+    return null;
   }
 }
 
@@ -144,25 +242,8 @@ export function formatFileSize(bytes: number): string {
 }
 
 /**
- * Validate dataset URL
+ * Validate dataset URL against the shared URL policy
  */
 export function isValidDatasetUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    // Allow common protocols
-    return ["http:", "https:", "ipfs:", "ar:"].includes(parsed.protocol);
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Parse IPFS URL to gateway URL
- */
-export function parseIpfsUrl(url: string, gateway: string): string {
-  if (url.startsWith("ipfs://")) {
-    const cid = url.replace("ipfs://", "");
-    return `${gateway}${cid}`;
-  }
-  return url;
+  return checkDatasetUrl(url).allowed;
 }
\ No newline at end of file
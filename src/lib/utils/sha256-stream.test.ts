@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { toHex } from '@mysten/sui/utils';
+import { describe, expect, it } from 'vitest';
+import { sha256Stream } from './sha256-stream';
+
+const CHUNK_SIZE = 64 * 1024;
+
+// Deterministic, non-repeating bytes so a dropped or reordered chunk changes the digest
+function bytes(length: number): Uint8Array {
+  const data = new Uint8Array(length);
+  for (let i = 0; i < length; i++) data[i] = (i * 31 + (i >> 8)) & 0xff;
+  return data;
+}
+
+// Stream the data in fixed-size chunks, like File.stream() does
+function chunked(data: Uint8Array, chunkSize = CHUNK_SIZE): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function subtleHex(data: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(data))));
+}
+
+describe('sha256Stream', () => {
+  it.each([
+    ['an empty input', 0],
+    ['exactly one chunk', CHUNK_SIZE],
+    ['several chunks with a partial last one', CHUNK_SIZE * 3 + 17],
+  ])('matches crypto.subtle.digest for %s', async (_, length) => {
+    const data = bytes(length);
+
+    const result = await sha256Stream(chunked(data), length);
+
+    expect(result.hash).toBe(await subtleHex(data));
+    expect(result.size).toBe(length);
+  });
+
+  it('does not depend on how the stream is split', async () => {
+    const data = bytes(CHUNK_SIZE * 2);
+
+    const whole = await sha256Stream(chunked(data), data.length);
+    const uneven = await sha256Stream(chunked(data, 1000), data.length);
+
+    expect(uneven.hash).toBe(whole.hash);
+  });
+
+  it('reports progress after every chunk', async () => {
+    const data = bytes(CHUNK_SIZE * 2);
+    const percentages: number[] = [];
+
+    await sha256Stream(chunked(data), data.length, progress => percentages.push(progress.percentage));
+
+    expect(percentages).toEqual([50, 100]);
+  });
+});
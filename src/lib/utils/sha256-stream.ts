@@ -0,0 +1,48 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { toHex } from '@mysten/sui/utils';
+import { HashProgress } from '../types';
+
+/**
+ * Incremental SHA-256 over a byte stream
+ *
+ * Produces exactly the same digest as `crypto.subtle.digest('SHA-256', wholeBuffer)`,
+ * but only ever holds one chunk in memory, so multi-gigabyte files can be hashed.
+ * Shared by the hash worker and the main-thread fallback.
+ *
+ * @param stream - Byte stream to hash (e.g. File.stream() or a fetch body)
+ * @param total - Expected total size in bytes (0 if unknown)
+ * @param onProgress - Called after each chunk with bytes hashed so far
+ * @returns Hex SHA-256 digest and number of bytes hashed
+ */
+export async function sha256Stream(
+  stream: ReadableStream<Uint8Array>,
+  total: number,
+  onProgress?: (progress: HashProgress) => void
+): Promise<{ hash: string; size: number }> {
+  const hasher = sha256.create();
+  const reader = stream.getReader();
+  let loaded = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      hasher.update(value);
+      loaded += value.byteLength;
+
+      onProgress?.({
+        loaded,
+        total,
+        percentage: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+      });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return {
+    hash: toHex(hasher.digest()),
+    size: loaded,
+  };
+}
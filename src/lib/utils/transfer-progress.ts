@@ -0,0 +1,69 @@
+import { TransferProgress } from '../types';
+
+/**
+ * Turns a stream of byte counts into TransferProgress events with throughput and ETA
+ *
+ * Updates are throttled (except the first and final ones) so a fast transfer does not
+ * re-render the UI for every network chunk.
+ */
+export class TransferProgressTracker {
+  private readonly startedAt = Date.now();
+  private lastEmitAt = 0;
+
+  /**
+   * @param total - Expected total bytes (0 if unknown)
+   * @param onProgress - Receives the progress events
+   * @param interval - Minimum time between events (ms)
+   */
+  constructor(
+    private readonly total: number,
+    private readonly onProgress?: (progress: TransferProgress) => void,
+    private readonly interval: number = 100
+  ) {}
+
+  /**
+   * Report bytes transferred so far
+   *
+   * @param loaded - Bytes transferred so far
+   * @param final - Emit even if the last event was less than `interval` ago
+   */
+  update(loaded: number, final: boolean = false): void {
+    if (!this.onProgress) return;
+
+    const now = Date.now();
+    if (!final && this.lastEmitAt > 0 && now - this.lastEmitAt < this.interval) return;
+    this.lastEmitAt = now;
+
+    const elapsedSeconds = (now - this.startedAt) / 1000;
+    const bytesPerSecond = elapsedSeconds > 0 ? loaded / elapsedSeconds : 0;
+    const remaining = this.total > 0 ? Math.max(0, this.total - loaded) : null;
+
+    this.onProgress({
+      loaded,
+      total: this.total,
+      percentage: this.total > 0 ? Math.min(100, Math.round((loaded / this.total) * 100)) : 0,
+      bytesPerSecond,
+      etaSeconds: remaining !== null && bytesPerSecond > 0 ? remaining / bytesPerSecond : null,
+    });
+  }
+}
+
+/**
+ * Human-readable throughput and remaining time, e.g. "2.4 MB/s · 12s left"
+ */
+export function formatTransferRate(progress: TransferProgress): string {
+  const parts: string[] = [];
+
+  if (progress.bytesPerSecond > 0) {
+    parts.push(`${(progress.bytesPerSecond / 1024 / 1024).toFixed(1)} MB/s`);
+  }
+
+  if (progress.etaSeconds !== null) {
+    const seconds = Math.ceil(progress.etaSeconds);
+    parts.push(seconds >= 60
+      ? `${Math.floor(seconds / 60)}m ${seconds % 60}s left`
+      : `${seconds}s left`);
+  }
+
+  return parts.join(' · ');
+}
@@ -0,0 +1,37 @@
+import { getWalrusClient } from './walrus-client';
+
+/**
+ * Walrus Blob ID Verification
+ *
+ * A Walrus blob ID is derived from the blob's RedStuff encoding metadata, so it can be
+ * recomputed from the bytes alone (given the committee's shard count). We use this to
+ * check that a publisher stored exactly the bytes we sent, and that an aggregator served
+ * exactly the bytes a DatasetNFT points to.
+ */
+
+/**
+ * Thrown when bytes do not encode to the expected Walrus blob ID
+ */
+export class BlobIdMismatchError extends Error {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string,
+    context: string
+  ) {
+    super(`${context}: expected blob ID ${expected}, but the bytes encode to ${actual}`);
+    this.name = 'BlobIdMismatchError';
+  }
+}
+
+/**
+ * Compute the Walrus blob ID of some bytes
+ *
+ * @param bytes - Blob contents exactly as stored on Walrus
+ * @param numShards - Committee shard count (read from the Walrus system object when omitted)
+ * @returns URL-safe base64 blob ID, as returned by publishers
+ */
+export async function computeWalrusBlobId(bytes: Uint8Array, numShards?: number): Promise<string> {
+  const client = await getWalrusClient();
+  const { blobId } = await client.computeBlobMetadata({ bytes, numShards });
+  return blobId;
+}
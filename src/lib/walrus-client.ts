@@ -0,0 +1,31 @@
+import type { WalrusClient } from '@mysten/walrus';
+import { getActiveNetwork, getNetworkProfile, SuiNetwork } from './networks';
+
+const walrusClients = new Map<SuiNetwork, Promise<WalrusClient>>();
+
+/**
+ * Shared Walrus SDK client for a network (the active one by default)
+ *
+ * Only used for reading Walrus system state and local encoding - blobs themselves go
+ * through walrusService (HTTP publishers and aggregators). Loaded lazily because the
+ * SDK pulls in the encoder WASM.
+ */
+export function getWalrusClient(network: SuiNetwork = getActiveNetwork()): Promise<WalrusClient> {
+  let client = walrusClients.get(network);
+  if (!client) {
+    const profile = getNetworkProfile(network);
+    const walrusNetwork = profile.walrusNetwork;
+    if (!walrusNetwork) {
+      return Promise.reject(new Error(`Walrus is not available on ${profile.label}`));
+    }
+
+    client = import('@mysten/walrus')
+      .then(({ WalrusClient }) => new WalrusClient({ network: walrusNetwork, suiRpcUrl: profile.rpcUrl }))
+      .catch(error => {
+        walrusClients.delete(network);
+        throw error;
+      });
+    walrusClients.set(network, client);
+  }
+  return client;
+}
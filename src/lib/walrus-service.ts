@@ -1,3 +1,9 @@
+import { CONFIG } from './constants';
+import { getNetworkProfile } from './networks';
+import { TransferProgress } from './types';
+import { TransferProgressTracker } from './utils/transfer-progress';
+import { BlobIdMismatchError, computeWalrusBlobId } from './walrus-blob-id';
+
 /**
  * Walrus Service - V3 Architecture
  *
@@ -6,13 +12,101 @@
  *
  * Upload: HTTP PUT to publisher endpoint
  * Download: HTTP GET from aggregator endpoint
+ *
+ * Endpoints come from the active network profile as ordered lists. Every attempt has a timeout and a
+ * failed attempt moves on to the next endpoint after a backoff, so one dead aggregator
+ * or publisher does not break uploads and downloads.
+ *
+ * Blob IDs are recomputed locally from the bytes: a publisher whose blob ID differs, or an
+ * aggregator serving bytes that do not encode to the requested ID, counts as a failed attempt.
+ *
+ * Uploads go through XMLHttpRequest (fetch has no upload progress) and downloads are read
+ * as a stream, so both report byte-level progress. Both can be cancelled with an AbortSignal.
+ */
+
+export interface WalrusEndpoints {
+  aggregators: string[];
+  publishers: string[];
+}
+
+export interface WalrusServiceOptions {
+  endpoints: WalrusEndpoints | (() => WalrusEndpoints);  // A function is re-read on every request
+  epochs: number;             // Default storage duration
+  uploadTimeout: number;      // Per publisher attempt (ms)
+  downloadTimeout: number;    // Per aggregator attempt (ms)
+  retryDelay: number;         // Backoff before the second endpoint, doubled for each further one (ms)
+  verifyBlobIds: boolean;     // Recompute blob IDs from the bytes on upload and download
+}
+
+export interface WalrusTransferOptions {
+  signal?: AbortSignal;                                // Cancels the transfer (no further endpoints are tried)
+  onProgress?: (progress: TransferProgress) => void;   // Restarts from 0 when failing over to another endpoint
+}
+
+export interface WalrusUploadOptions extends WalrusTransferOptions {
+  sendObjectTo?: string;      // Address that receives the Blob object (needed later to extend storage)
+}
+
+export interface WalrusUploadResult {
+  blobId: string;
+  blobUrl: string;
+  endpoint: string;           // Publisher that stored the blob
+}
+
+export interface WalrusDownloadResult {
+  data: ArrayBuffer;
+  endpoint: string;           // Aggregator that served the blob
+}
+
+/**
+ * One failed attempt against a Walrus endpoint
+ */
+interface EndpointFailure {
+  endpoint: string;
+  reason: string;
+}
+
+/**
+ * Publisher PUT response - only the fields we read
+ */
+interface PublisherResponse {
+  newlyCreated?: { blobObject?: { blobId?: string } };
+  alreadyCertified?: { blobId?: string };
+}
+
+/**
+ * HTTP statuses that another endpoint will not answer differently (bad request, payload too large)
  */
+const NON_RETRYABLE_STATUSES = new Set([400, 413]);
 
-// Walrus testnet configuration
-const WALRUS_AGGREGATOR = 'https://aggregator.walrus-testnet.walrus.space';
-const WALRUS_PUBLISHER = 'https://publisher.walrus-testnet.walrus.space';
+class WalrusHttpError extends Error {
+  constructor(public readonly status: number, statusText: string) {
+    super(`HTTP ${status}${statusText ? ` ${statusText}` : ''}`);
+    this.name = 'WalrusHttpError';
+  }
+}
+
+/**
+ * Thrown when the caller cancels an upload or download
+ */
+export class WalrusTransferCancelledError extends Error {
+  constructor(action: string) {
+    super(`Cancelled ${action}`);
+    this.name = 'WalrusTransferCancelledError';
+  }
+}
+
+export class WalrusService {
+  constructor(private readonly options: WalrusServiceOptions) {}
+
+  /**
+   * Aggregators and publishers for this request (the active network's for the singleton)
+   */
+  private get endpoints(): WalrusEndpoints {
+    const { endpoints } = this.options;
+    return typeof endpoints === 'function' ? endpoints() : endpoints;
+  }
 
-class WalrusService {
   /**
    * Upload a file to Walrus storage via HTTP PUT
    *
@@ -20,37 +114,51 @@ class WalrusService {
    * In V3, we upload ENCRYPTED blobs (after Seal encryption).
    *
    * @param file - File to upload (should be encrypted blob)
-   * @param epochs - Number of epochs to store (default: 5)
-   * @returns blobId and blobUrl for the stored file
+   * @param epochs - Number of epochs to store (default: CONFIG.WALRUS_EPOCHS)
+   * @param options - Blob object recipient, cancellation signal and progress callback
+   * @returns blobId, blobUrl and the publisher that stored the file
    */
-  async uploadToWalrus(file: File, epochs: number = 5): Promise<{ blobId: string; blobUrl: string }> {
+  async uploadToWalrus(
+    file: File,
+    epochs: number = this.options.epochs,
+    options: WalrusUploadOptions = {}
+  ): Promise<WalrusUploadResult> {
     // CRITICAL: Send raw file bytes directly, NOT wrapped in FormData
     // If we use FormData, Walrus stores the entire multipart/form-data HTTP body
     // (including boundaries and headers), which breaks decryption!
     const fileBytes = await file.arrayBuffer();
+    const localBlobId = this.options.verifyBlobIds
+      ? await computeWalrusBlobId(new Uint8Array(fileBytes))
+      : null;
 
-    const response = await fetch(`${WALRUS_PUBLISHER}/v1/blobs?epochs=${epochs}`, {
-      method: 'PUT',
-      body: fileBytes,
-      headers: {
-        'Content-Type': 'application/octet-stream',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to upload to Walrus: ${response.statusText}`);
+    const params = new URLSearchParams({ epochs: String(epochs) });
+    if (options.sendObjectTo) {
+      params.set('send_object_to', options.sendObjectTo);
     }
 
-    const result = await response.json();
-    const blobId = result.newlyCreated?.blobObject?.blobId || result.alreadyCertified?.blobId;
-
-    if (!blobId) {
-      throw new Error('Failed to get blob ID from Walrus response');
-    }
+    const { result, endpoint } = await this.withFailover(
+      'upload to Walrus',
+      this.endpoints.publishers,
+      this.options.uploadTimeout,
+      async (publisher, signal) => {
+        const tracker = new TransferProgressTracker(fileBytes.byteLength, options.onProgress);
+        const body = await putWithProgress(`${publisher}/v1/blobs?${params}`, fileBytes, signal, tracker);
+        const blobId = body.newlyCreated?.blobObject?.blobId || body.alreadyCertified?.blobId;
+        if (!blobId) {
+          throw new Error('Failed to get blob ID from Walrus response');
+        }
+        if (localBlobId && blobId !== localBlobId) {
+          throw new BlobIdMismatchError(blobId, localBlobId, 'Publisher returned a blob ID for different bytes');
+        }
+        return blobId;
+      },
+      options.signal
+    );
 
     return {
-      blobId,
-      blobUrl: `${WALRUS_AGGREGATOR}/v1/blobs/${blobId}`,
+      blobId: result,
+      blobUrl: this.getBlobUrl(result),
+      endpoint,
     };
   }
 
@@ -59,18 +167,54 @@ class WalrusService {
    *
    * This downloads the file from the Walrus aggregator endpoint.
    * In V3, we download ENCRYPTED blobs (before Seal decryption).
+   * The bytes are checked against the blob ID (e.g. the one stored on the DatasetNFT).
    *
    * @param blobId - Blob ID to download
+   * @param options - Cancellation signal and progress callback
    * @returns ArrayBuffer containing the blob data (encrypted)
    */
-  async downloadFromWalrus(blobId: string): Promise<ArrayBuffer> {
-    const response = await fetch(`${WALRUS_AGGREGATOR}/v1/blobs/${blobId}`);
+  async downloadFromWalrus(blobId: string, options: WalrusTransferOptions = {}): Promise<ArrayBuffer> {
+    const { data } = await this.fetchBlob(blobId, options);
+    return data;
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to download from Walrus: ${response.statusText}`);
-    }
+  /**
+   * Download a blob and report which aggregator served it
+   *
+   * @param blobId - Blob ID to download
+   * @param options - Cancellation signal and progress callback
+   */
+  async fetchBlob(blobId: string, options: WalrusTransferOptions = {}): Promise<WalrusDownloadResult> {
+    const { result, endpoint } = await this.withFailover(
+      'download from Walrus',
+      this.endpoints.aggregators,
+      this.options.downloadTimeout,
+      async (aggregator, signal) => {
+        const response = await fetch(`${aggregator}/v1/blobs/${blobId}`, { signal });
+        if (!response.ok) {
+          throw new WalrusHttpError(response.status, response.statusText);
+        }
 
-    return response.arrayBuffer();
+        const data = await readWithProgress(response, options.onProgress);
+        if (this.options.verifyBlobIds) {
+          const actual = await computeWalrusBlobId(new Uint8Array(data));
+          if (actual !== blobId) {
+            throw new BlobIdMismatchError(blobId, actual, 'Aggregator served different bytes');
+          }
+        }
+        return data;
+      },
+      options.signal
+    );
+
+    return { data: result, endpoint };
+  }
+
+  /**
+   * Public URL of a blob on the primary aggregator
+   */
+  getBlobUrl(blobId: string): string {
+    return `${this.endpoints.aggregators[0]}/v1/blobs/${blobId}`;
   }
 
   /**
@@ -85,7 +229,199 @@ class WalrusService {
     const i = Math.floor(Math.log(bytes) / Math.log(1024));
     return `${(bytes / Math.pow(1024, i)).toFixed(2)} ${sizes[i]}`;
   }
+
+  /**
+   * Run a request against each endpoint in order until one succeeds
+   *
+   * @param action - Description used in logs and the final error
+   * @param endpoints - Ordered endpoint base URLs
+   * @param timeout - Per-attempt timeout (ms)
+   * @param attempt - Performs the request against one endpoint
+   * @param cancelSignal - Caller's cancellation signal
+   * @returns The first successful result and the endpoint that produced it
+   * @throws WalrusTransferCancelledError when cancelled, otherwise an Error listing every
+   *         endpoint's failure when all of them fail
+   */
+  private async withFailover<T>(
+    action: string,
+    endpoints: string[],
+    timeout: number,
+    attempt: (endpoint: string, signal: AbortSignal) => Promise<T>,
+    cancelSignal?: AbortSignal
+  ): Promise<{ result: T; endpoint: string }> {
+    const failures: EndpointFailure[] = [];
+
+    if (endpoints.length === 0) {
+      throw new Error(`Failed to ${action}: no Walrus endpoints configured for this network`);
+    }
+
+    for (const [i, endpoint] of endpoints.entries()) {
+      if (i > 0) {
+        // Cancelling during the backoff stops right away instead of after the delay
+        await sleep(this.options.retryDelay * Math.pow(2, i - 1), cancelSignal).catch(() => {
+          throw new WalrusTransferCancelledError(action);
+        });
+      }
+      if (cancelSignal?.aborted) {
+        throw new WalrusTransferCancelledError(action);
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeout);
+      const cancel = () => controller.abort();
+      cancelSignal?.addEventListener('abort', cancel);
+
+      try {
+        const result = await attempt(endpoint, controller.signal);
+        console.log(`🐋 Walrus ${action} served by ${endpoint}`);
+        return { result, endpoint };
+      } catch (error) {
+        if (cancelSignal?.aborted) {
+          throw new WalrusTransferCancelledError(action);
+        }
+
+        const reason = error instanceof Error && error.name === 'AbortError'
+          ? `timed out after ${timeout / 1000}s`
+          : error instanceof Error ? error.message : String(error);
+        failures.push({ endpoint, reason });
+        console.warn(`⚠️ Walrus ${action} failed on ${endpoint}: ${reason}`);
+
+        if (error instanceof WalrusHttpError && NON_RETRYABLE_STATUSES.has(error.status)) {
+          break;
+        }
+      } finally {
+        clearTimeout(timer);
+        cancelSignal?.removeEventListener('abort', cancel);
+      }
+    }
+
+    throw new Error(
+      `Failed to ${action}: ${failures.map(f => `${f.endpoint} (${f.reason})`).join('; ')}`
+    );
+  }
+}
+
+/**
+ * PUT a body and report upload progress (fetch cannot observe request bytes being sent)
+ *
+ * @returns Parsed JSON response
+ */
+function putWithProgress(
+  url: string,
+  body: ArrayBuffer,
+  signal: AbortSignal,
+  tracker: TransferProgressTracker
+): Promise<PublisherResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.upload.onprogress = (event) => tracker.update(event.loaded);
+    xhr.upload.onload = () => tracker.update(body.byteLength, true);
+
+    xhr.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new WalrusHttpError(xhr.status, xhr.statusText));
+        return;
+      }
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch {
+        reject(new Error('Walrus publisher returned invalid JSON'));
+      }
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new Error('Network error'));
+    };
+    xhr.onabort = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new DOMException('The upload was aborted', 'AbortError'));
+    };
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort);
+    }
+    xhr.send(body);
+  });
+}
+
+/**
+ * Read a response body as a stream, reporting download progress
+ */
+async function readWithProgress(
+  response: Response,
+  onProgress?: (progress: TransferProgress) => void
+): Promise<ArrayBuffer> {
+  const contentLength = response.headers.get('Content-Length');
+  const total = contentLength ? parseInt(contentLength, 10) : 0;
+  const tracker = new TransferProgressTracker(total, onProgress);
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    const data = await response.arrayBuffer();
+    tracker.update(data.byteLength, true);
+    return data;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    tracker.update(loaded);
+  }
+  tracker.update(loaded, true);
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data.buffer;
+}
+
+/**
+ * Wait for a delay
+ *
+ * @param signal - Rejects with an AbortError as soon as it fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The wait was aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
 }
 
 // Export singleton instance
-export const walrusService = new WalrusService();
+export const walrusService = new WalrusService({
+  endpoints: () => {
+    const profile = getNetworkProfile();
+    return { aggregators: profile.walrusAggregators, publishers: profile.walrusPublishers };
+  },
+  epochs: CONFIG.WALRUS_EPOCHS,
+  uploadTimeout: CONFIG.UPLOAD_TIMEOUT,
+  downloadTimeout: CONFIG.WALRUS_DOWNLOAD_TIMEOUT,
+  retryDelay: CONFIG.WALRUS_RETRY_DELAY,
+  verifyBlobIds: CONFIG.ENABLE_BLOB_ID_VERIFICATION,
+});
@@ -0,0 +1,284 @@
+import { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { decodeSignedManifest } from './chunked-dataset';
+import { CONFIG } from './constants';
+import { getActiveNetwork } from './networks';
+import { BlobLifetime, DatasetNFT } from './types';
+import { getWalrusClient } from './walrus-client';
+import { walrusService } from './walrus-service';
+
+/**
+ * Walrus Storage Lifetime
+ *
+ * Blobs are stored for a fixed number of Walrus epochs. Once the end epoch is reached the
+ * encrypted dataset disappears and the DatasetNFT points at nothing. This service reports
+ * each dataset's blobs (the manifest and every chunk for chunked datasets), when they
+ * expire, and builds the transaction that extends them.
+ *
+ * Only Blob objects owned by the wallet can be extended - uploads pass send_object_to so
+ * the registrant owns them.
+ */
+
+const FROST_PER_WAL = 1_000_000_000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface WalrusEpochInfo {
+  currentEpoch: number;
+  epochDurationMs: number;
+  firstEpochStartMs: number;     // Start of epoch 1
+  maxEpochsAhead: number;        // Storage cannot end later than currentEpoch + maxEpochsAhead
+}
+
+// A Blob object in the wallet (needed to extend its storage)
+export interface OwnedBlobObject {
+  objectId: string;
+  blobId: string;
+  size: number;                  // Encoded storage size (what extension is priced on)
+  endEpoch: number;
+  certifiedEpoch: number | null;
+}
+
+export interface DatasetBlobStorage extends BlobLifetime {
+  owned: OwnedBlobObject | null;
+}
+
+export interface DatasetStorageStatus {
+  blobs: DatasetBlobStorage[];   // Main blob first, then chunks
+  certified: boolean;            // Every blob is certified
+  endEpoch: number | null;       // Earliest end epoch across the blobs
+  epochsLeft: number | null;
+  expiresAt: number | null;      // Estimated time the first blob disappears (ms)
+  expired: boolean;
+  expiringSoon: boolean;         // Within CONFIG.WALRUS_EXPIRY_WARNING_DAYS
+  extendable: boolean;           // Every blob is owned by the wallet
+  epochInfo: WalrusEpochInfo;
+}
+
+// Lookups shared by the storage status of every dataset in a wallet (see getStorageStatusContext)
+export interface StorageStatusContext {
+  epochInfo: WalrusEpochInfo;
+  ownedBlobs: Map<string, OwnedBlobObject>;   // Every Blob object in the wallet
+}
+
+class WalrusStorageService {
+  /**
+   * Current Walrus epoch and epoch timing
+   */
+  async getEpochInfo(): Promise<WalrusEpochInfo> {
+    const client = await getWalrusClient();
+    const [staking, system] = await Promise.all([client.stakingState(), client.systemState()]);
+
+    return {
+      currentEpoch: system.committee.epoch,
+      epochDurationMs: Number(staking.epoch_duration),
+      firstEpochStartMs: Number(staking.first_epoch_start),
+      maxEpochsAhead: system.future_accounting.length,
+    };
+  }
+
+  /**
+   * Estimated start time of an epoch (end times are not recorded on-chain)
+   */
+  epochStartTime(epoch: number, info: WalrusEpochInfo): number {
+    return info.firstEpochStartMs + (epoch - 1) * info.epochDurationMs;
+  }
+
+  /**
+   * Certification status and end epoch of a blob, as reported by the storage nodes
+   *
+   * @param blobId - Walrus blob ID
+   */
+  async getBlobLifetime(blobId: string): Promise<BlobLifetime> {
+    const params = new URLSearchParams({ blobId, network: getActiveNetwork() });
+    const response = await fetch(`/api/walrus-status?${params}`);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to get Walrus blob status: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Every Walrus blob a dataset depends on
+   *
+   * Datasets above CHUNK_SIZE point at a chunk manifest - its chunks expire independently.
+   */
+  async getDatasetBlobIds(nft: DatasetNFT): Promise<string[]> {
+    if (Number(nft.size) <= CONFIG.CHUNK_SIZE) {
+      return [nft.walrus_blob_id];
+    }
+
+    const manifestBytes = await walrusService.downloadFromWalrus(nft.walrus_blob_id);
+    const signed = decodeSignedManifest(new Uint8Array(manifestBytes));
+    return [nft.walrus_blob_id, ...(signed?.manifest.chunks.map(chunk => chunk.blob_id) || [])];
+  }
+
+  /**
+   * Blob objects in a wallet, by blob ID
+   *
+   * @param owner - Wallet address
+   * @param blobIds - Blob IDs to look for (every Blob object in the wallet when omitted)
+   * @param suiClient - SuiClient instance
+   */
+  async findOwnedBlobObjects(
+    owner: string,
+    blobIds: string[] | undefined,
+    suiClient: SuiClient
+  ): Promise<Map<string, OwnedBlobObject>> {
+    const [client, { blobIdFromInt }] = await Promise.all([getWalrusClient(), import('@mysten/walrus')]);
+    const blobType = await client.getBlobType();
+    const wanted = blobIds ? new Set(blobIds) : null;
+    const found = new Map<string, OwnedBlobObject>();
+
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await suiClient.getOwnedObjects({
+        owner,
+        cursor,
+        filter: { StructType: blobType },
+        options: { showContent: true },
+      });
+
+      for (const object of page.data) {
+        const content = object.data?.content;
+        if (content?.dataType !== 'moveObject') continue;
+
+        const fields = content.fields as Record<string, unknown>;
+        const blobId = blobIdFromInt(String(fields.blob_id));
+        if (wanted && !wanted.has(blobId)) continue;
+
+        const storage = (fields.storage as { fields?: Record<string, unknown> })?.fields || {};
+        const blob: OwnedBlobObject = {
+          objectId: object.data!.objectId,
+          blobId,
+          size: Number(storage.storage_size),
+          endEpoch: Number(storage.end_epoch),
+          certifiedEpoch: fields.certified_epoch === null ? null : Number(fields.certified_epoch),
+        };
+
+        // Keep the longest-lived copy if the wallet holds several
+        const existing = found.get(blobId);
+        if (!existing || blob.endEpoch > existing.endEpoch) {
+          found.set(blobId, blob);
+        }
+      }
+
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor && (!wanted || found.size < wanted.size));
+
+    return found;
+  }
+
+  /**
+   * Epoch info and every Blob object in a wallet, fetched once for a list of datasets
+   *
+   * @param owner - Wallet address
+   * @param suiClient - SuiClient instance
+   */
+  async getStorageStatusContext(owner: string, suiClient: SuiClient): Promise<StorageStatusContext> {
+    const [epochInfo, ownedBlobs] = await Promise.all([
+      this.getEpochInfo(),
+      this.findOwnedBlobObjects(owner, undefined, suiClient),
+    ]);
+    return { epochInfo, ownedBlobs };
+  }
+
+  /**
+   * Storage lifetime of a dataset - the earliest expiring blob decides
+   *
+   * @param nft - Dataset NFT
+   * @param suiClient - SuiClient instance
+   * @param owner - Wallet to look for Blob objects in (enables extension)
+   * @param context - Epoch info and the owner's Blob objects, when already fetched for several datasets
+   */
+  async getDatasetStorageStatus(
+    nft: DatasetNFT,
+    suiClient: SuiClient,
+    owner?: string,
+    context?: StorageStatusContext
+  ): Promise<DatasetStorageStatus> {
+    const [epochInfo, blobIds] = await Promise.all([
+      context ? Promise.resolve(context.epochInfo) : this.getEpochInfo(),
+      this.getDatasetBlobIds(nft),
+    ]);
+
+    const [lifetimes, owned] = await Promise.all([
+      Promise.all(blobIds.map(blobId => this.getBlobLifetime(blobId))),
+      context ? Promise.resolve(context.ownedBlobs)
+        : owner ? this.findOwnedBlobObjects(owner, blobIds, suiClient)
+        : Promise.resolve(new Map<string, OwnedBlobObject>()),
+    ]);
+
+    const blobs: DatasetBlobStorage[] = lifetimes.map(lifetime => {
+      const ownedBlob = owned.get(lifetime.blobId) || null;
+      return {
+        ...lifetime,
+        // Deletable blobs have no end epoch in the node status - the Blob object has it
+        endEpoch: lifetime.endEpoch ?? ownedBlob?.endEpoch ?? null,
+        owned: ownedBlob,
+      };
+    });
+
+    const endEpochs = blobs.map(blob => blob.endEpoch).filter((epoch): epoch is number => epoch !== null);
+    const endEpoch = endEpochs.length === blobs.length ? Math.min(...endEpochs) : null;
+    const expiresAt = endEpoch !== null ? this.epochStartTime(endEpoch, epochInfo) : null;
+
+    return {
+      blobs,
+      certified: blobs.every(blob => blob.status === 'certified' || (blob.owned?.certifiedEpoch ?? null) !== null),
+      endEpoch,
+      epochsLeft: endEpoch !== null ? endEpoch - epochInfo.currentEpoch : null,
+      expiresAt,
+      expired: endEpoch !== null && endEpoch <= epochInfo.currentEpoch,
+      expiringSoon: expiresAt !== null && expiresAt - Date.now() < CONFIG.WALRUS_EXPIRY_WARNING_DAYS * MS_PER_DAY,
+      extendable: blobs.every(blob => blob.owned !== null),
+      epochInfo,
+    };
+  }
+
+  /**
+   * Cost of storing a blob (WAL, in FROST)
+   *
+   * @param size - Unencoded blob size in bytes
+   * @param epochs - Number of epochs
+   * @returns Storage plus write cost
+   */
+  async estimateStorageCost(size: number, epochs: number): Promise<bigint> {
+    const client = await getWalrusClient();
+    const { totalCost } = await client.storageCost(size, epochs);
+    return totalCost;
+  }
+
+  /**
+   * Cost of extending Blob objects (WAL, in FROST) - extension pays storage only
+   */
+  async estimateExtensionCost(blobs: OwnedBlobObject[], epochs: number): Promise<bigint> {
+    const client = await getWalrusClient();
+    const costs = await Promise.all(blobs.map(blob => client.storageCost(blob.size, epochs)));
+    return costs.reduce((sum, cost) => sum + cost.storageCost, BigInt(0));
+  }
+
+  /**
+   * Build one transaction extending every given Blob object by the same number of epochs
+   *
+   * WAL is taken from the sender's balance when the wallet resolves the transaction.
+   */
+  async buildExtendTransaction(blobs: OwnedBlobObject[], epochs: number): Promise<Transaction> {
+    const client = await getWalrusClient();
+    const tx = new Transaction();
+    for (const blob of blobs) {
+      await client.extendBlobTransaction({ transaction: tx, blobObjectId: blob.objectId, epochs });
+    }
+    return tx;
+  }
+
+  /**
+   * Format a FROST amount as WAL
+   */
+  formatWal(frost: bigint): string {
+    return `${(Number(frost) / FROST_PER_WAL).toLocaleString(undefined, { maximumFractionDigits: 4 })} WAL`;
+  }
+}
+
+// Export singleton instance
+export const walrusStorageService = new WalrusStorageService();
@@ -0,0 +1,38 @@
+/**
+ * Hash Worker
+ *
+ * Computes SHA-256 of a File off the main thread by reading File.stream() chunk by chunk.
+ * Posts progress messages while hashing and a final message with the hex digest.
+ */
+
+import { sha256Stream } from '../utils/sha256-stream';
+import { HashWorkerRequest, HashWorkerResponse } from '../types';
+
+// Throttle progress messages - one per chunk would flood the main thread
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: HashWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<HashWorkerRequest>) => {
+  const { file } = event.data;
+  let lastProgressAt = 0;
+
+  try {
+    const { hash, size } = await sha256Stream(file.stream(), file.size, (progress) => {
+      const now = Date.now();
+      if (now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastProgressAt = now;
+        post({ type: 'progress', progress });
+      }
+    });
+
+    post({ type: 'done', hash, size });
+  } catch (error) {
+    post({
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Failed to hash file',
+    });
+  }
+};
@@ -0,0 +1,89 @@
+/**
+ * Parquet test fixtures
+ *
+ * Encodes Thrift compact protocol structs, so tests can build a Parquet footer field by field
+ * (IDs as in parquet.thrift) and wrap it in a file: "PAR1", footer, footer length, "PAR1".
+ */
+
+export type ThriftValue =
+  | { type: 'i32'; value: number }
+  | { type: 'i64'; value: number }
+  | { type: 'double'; value: number }
+  | { type: 'binary'; value: Uint8Array }
+  | { type: 'list'; items: ThriftValue[] }
+  | { type: 'struct'; fields: Record<number, ThriftValue> };
+
+export const i32 = (value: number): ThriftValue => ({ type: 'i32', value });
+export const i64 = (value: number): ThriftValue => ({ type: 'i64', value });
+export const double = (value: number): ThriftValue => ({ type: 'double', value });
+export const binary = (value: string | Uint8Array): ThriftValue =>
+  ({ type: 'binary', value: typeof value === 'string' ? new TextEncoder().encode(value) : value });
+export const list = (...items: ThriftValue[]): ThriftValue => ({ type: 'list', items });
+export const struct = (fields: Record<number, ThriftValue>): ThriftValue => ({ type: 'struct', fields });
+
+const TYPE_IDS: Record<ThriftValue['type'], number> = { i32: 5, i64: 6, double: 7, binary: 8, list: 9, struct: 12 };
+
+/**
+ * Thrift compact encoding of a struct's fields
+ */
+export function encodeStruct(fields: Record<number, ThriftValue>): number[] {
+  const bytes: number[] = [];
+  let lastId = 0;
+  for (const [id, value] of Object.entries(fields).map(([id, value]) => [Number(id), value] as const)) {
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) bytes.push((delta << 4) | TYPE_IDS[value.type]);
+    else bytes.push(TYPE_IDS[value.type], ...varint(zigzag(id)));
+    bytes.push(...encodeValue(value));
+    lastId = id;
+  }
+  bytes.push(0);
+  return bytes;
+}
+
+/**
+ * A Parquet file with the given FileMetaData fields and no column data
+ */
+export function parquetFile(metadata: Record<number, ThriftValue>): Blob {
+  const footer = encodeStruct(metadata);
+  const length = [footer.length & 0xff, (footer.length >> 8) & 0xff, (footer.length >> 16) & 0xff, footer.length >>> 24];
+  const magic = [0x50, 0x41, 0x52, 0x31];
+  return new Blob([Uint8Array.from([...magic, ...footer, ...length, ...magic])]);
+}
+
+function encodeValue(value: ThriftValue): number[] {
+  switch (value.type) {
+    case 'i32':
+    case 'i64':
+      return varint(zigzag(value.value));
+    case 'double': {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setFloat64(0, value.value, true);
+      return Array.from(bytes);
+    }
+    case 'binary':
+      return [...varint(value.value.length), ...value.value];
+    case 'list': {
+      const elementType = value.items.length > 0 ? TYPE_IDS[value.items[0].type] : TYPE_IDS.struct;
+      const header = value.items.length < 15
+        ? [(value.items.length << 4) | elementType]
+        : [0xf0 | elementType, ...varint(value.items.length)];
+      return [...header, ...value.items.flatMap(encodeValue)];
+    }
+    case 'struct':
+      return encodeStruct(value.fields);
+  }
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}